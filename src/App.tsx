@@ -12,9 +12,17 @@ import ChangePassword from "./pages/ChangePassword";
 import Inventory from "./pages/Inventory";
 import Predictions from "./pages/Predictions";
 import Alerts from "./pages/Alerts";
+import NotificationSettings from "./pages/NotificationSettings";
 import CostOptimization from "./pages/CostOptimization";
+import Scenarios from "./pages/Scenarios";
+import ForecastCalendar from "./pages/ForecastCalendar";
 import Admin from "./pages/Admin";
+import Locations from "./pages/Locations";
+import Vendors from "./pages/Vendors";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderDetail from "./pages/PurchaseOrderDetail";
 import Demo from "./pages/Demo";
+import ForecastAccuracy from "./pages/ForecastAccuracy";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -32,10 +40,18 @@ const App = () => (
           <Route path="/change-password" element={<ChangePassword />} />
           <Route path="/" element={<Layout><Dashboard /></Layout>} />
           <Route path="/inventory" element={<Layout><Inventory /></Layout>} />
+          <Route path="/locations" element={<Layout><Locations /></Layout>} />
+          <Route path="/vendors" element={<Layout><Vendors /></Layout>} />
+          <Route path="/purchase-orders" element={<Layout><PurchaseOrders /></Layout>} />
+          <Route path="/purchase-orders/:id" element={<Layout><PurchaseOrderDetail /></Layout>} />
           <Route path="/predictions" element={<Layout><Predictions /></Layout>} />
+          <Route path="/forecast-accuracy" element={<Layout><ForecastAccuracy /></Layout>} />
           <Route path="/demo" element={<Layout><Demo /></Layout>} />
           <Route path="/alerts" element={<Layout><Alerts /></Layout>} />
+          <Route path="/notification-settings" element={<Layout><NotificationSettings /></Layout>} />
           <Route path="/cost-optimization" element={<Layout><CostOptimization /></Layout>} />
+          <Route path="/scenarios" element={<Layout><Scenarios /></Layout>} />
+          <Route path="/forecast-calendar" element={<Layout><ForecastCalendar /></Layout>} />
           <Route path="/admin" element={<Layout><Admin /></Layout>} />
           <Route path="*" element={<NotFound />} />
         </Routes>
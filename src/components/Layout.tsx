@@ -3,6 +3,7 @@ import { useNavigate, useLocation, Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { NotificationInbox } from "@/components/notifications/NotificationInbox";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,14 +12,14 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Activity, BarChart3, Package, TrendingUp, Users, LogOut, Key } from "lucide-react";
+import { Activity, BarChart3, Package, TrendingUp, Users, LogOut, Key, Bell, MapPin, Truck, ClipboardList, Target, FlaskConical, CalendarDays } from "lucide-react";
 
 interface LayoutProps {
   children: ReactNode;
 }
 
 export function Layout({ children }: LayoutProps) {
-  const { user, loading, signOut, isAdmin } = useAuth();
+  const { user, loading, signOut, isAdmin, isManager } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -43,10 +44,16 @@ export function Layout({ children }: LayoutProps) {
   const navigation = [
     { name: "Dashboard", href: "/", icon: BarChart3 },
     { name: "Inventory", href: "/inventory", icon: Package },
+    { name: "Locations", href: "/locations", icon: MapPin },
+    ...(isManager ? [{ name: "Vendors", href: "/vendors", icon: Truck }] : []),
+    { name: "Purchase Orders", href: "/purchase-orders", icon: ClipboardList },
     { name: "Predictions", href: "/predictions", icon: TrendingUp },
+    { name: "Forecast Accuracy", href: "/forecast-accuracy", icon: Target },
+    ...(isManager ? [{ name: "Forecast Calendar", href: "/forecast-calendar", icon: CalendarDays }] : []),
     { name: "Try Demo", href: "/demo", icon: Activity },
     { name: "Alerts", href: "/alerts", icon: Activity },
     { name: "Cost Optimization", href: "/cost-optimization", icon: Activity },
+    ...(isManager ? [{ name: "Scenarios", href: "/scenarios", icon: FlaskConical }] : []),
     ...(isAdmin ? [{ name: "Admin", href: "/admin", icon: Users }] : []),
   ];
 
@@ -82,6 +89,7 @@ export function Layout({ children }: LayoutProps) {
             </div>
             <div className="flex items-center gap-2">
               <ThemeToggle />
+              <NotificationInbox />
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" className="gap-2">
@@ -93,6 +101,10 @@ export function Layout({ children }: LayoutProps) {
                 <DropdownMenuContent align="end">
                   <DropdownMenuLabel>My Account</DropdownMenuLabel>
                   <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => navigate("/notification-settings")}>
+                    <Bell className="mr-2 h-4 w-4" />
+                    Notification Settings
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => navigate("/change-password")}>
                     <Key className="mr-2 h-4 w-4" />
                     Change Password
@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BrainCircuit, History, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { modelTypeLabel, TrainingDatasetSummary } from "@/lib/forecasting";
+
+interface RegisteredModel {
+  id: string;
+  model_version: string;
+  model_type: string;
+  training_date: string;
+  mae: number;
+  rmse: number | null;
+  is_active: boolean;
+  is_shadow: boolean;
+  promoted_at: string | null;
+  dataset_summary: TrainingDatasetSummary | null;
+}
+
+interface BacktestRow {
+  model_version_id: string | null;
+  forecast_count: number | null;
+  mae: number | null;
+  mape: number | null;
+}
+
+interface ModelChange {
+  id: string;
+  action: string;
+  created_at: string;
+  details: { model_version?: string; previous_model_version?: string | null; reason?: string | null } | null;
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  model_promoted: "Promoted",
+  model_rolled_back: "Rolled back to",
+  model_shadow_started: "Shadow mode started for",
+  model_shadow_stopped: "Shadow mode stopped for",
+};
+
+export function ModelManagement() {
+  const { toast } = useToast();
+  const [models, setModels] = useState<RegisteredModel[]>([]);
+  const [backtests, setBacktests] = useState<BacktestRow[]>([]);
+  const [changes, setChanges] = useState<ModelChange[]>([]);
+  const [training, setTraining] = useState(false);
+  const [promoteTrained, setPromoteTrained] = useState(false);
+  const [busyModel, setBusyModel] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchModels();
+  }, []);
+
+  const fetchModels = async () => {
+    const [{ data: modelData }, { data: backtestData }, { data: changeData }] = await Promise.all([
+      supabase.from("model_registry").select("*").order("created_at", { ascending: false }),
+      supabase
+        .from("forecast_accuracy")
+        .select("model_version_id, forecast_count, mae, mape")
+        .eq("dimension", "model_version"),
+      supabase
+        .from("activity_logs")
+        .select("id, action, created_at, details")
+        .in("action", Object.keys(CHANGE_LABELS))
+        .order("created_at", { ascending: false })
+        .limit(10),
+    ]);
+
+    if (modelData) setModels(modelData as unknown as RegisteredModel[]);
+    if (backtestData) setBacktests(backtestData);
+    if (changeData) setChanges(changeData as ModelChange[]);
+  };
+
+  const reportError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const promote = async (model: RegisteredModel) => {
+    setBusyModel(model.id);
+    const { error } = await supabase.rpc("promote_model", { _model_id: model.id });
+    setBusyModel(null);
+
+    if (error) {
+      reportError(error, "Failed to promote model");
+      return;
+    }
+    toast({ title: "Model Promoted", description: `${model.model_version} now serves predictions` });
+    fetchModels();
+  };
+
+  const rollback = async () => {
+    const { data, error } = await supabase.rpc("rollback_model", {});
+    if (error) {
+      reportError(error, "Failed to roll back");
+      return;
+    }
+    toast({ title: "Rolled Back", description: `${data.model_version} serves predictions again` });
+    fetchModels();
+  };
+
+  const toggleShadow = async (model: RegisteredModel, enabled: boolean) => {
+    setBusyModel(model.id);
+    const { error } = await supabase.rpc("set_model_shadow", { _model_id: model.id, _enabled: enabled });
+    setBusyModel(null);
+
+    if (error) {
+      reportError(error, "Failed to change shadow mode");
+      return;
+    }
+    fetchModels();
+  };
+
+  const trainModel = async () => {
+    setTraining(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("train-forecast-model", {
+        body: {},
+      });
+
+      if (error) throw error;
+
+      if (promoteTrained) {
+        const { error: promoteError } = await supabase.rpc("promote_model", {
+          _model_id: data.model.id,
+          _reason: "Promoted on training",
+        });
+        if (promoteError) throw promoteError;
+      }
+
+      const best = data.leaderboard[0];
+      toast({
+        title: `Model ${data.model.model_version} Registered`,
+        description: `${modelTypeLabel(best.strategy)} won with MAE ${best.mae.toFixed(2)} and WAPE ${(best.wape * 100).toFixed(1)}% across ${best.items_evaluated} items`,
+      });
+      fetchModels();
+    } catch (error) {
+      toast({
+        title: "Training Failed",
+        description: error instanceof Error ? error.message : "Failed to train forecast model",
+        variant: "destructive",
+      });
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const canRollback = models.some((model) => !model.is_active && model.promoted_at);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BrainCircuit className="h-5 w-5" />
+              Forecast Models
+            </CardTitle>
+            <CardDescription>
+              Train candidates, compare them on cross-validation and live backtests, run them in shadow
+              mode alongside the active model, and promote or roll back
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={rollback} disabled={!canRollback} className="gap-2">
+            <RotateCcw className="h-4 w-4" />
+            Roll Back
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button onClick={trainModel} disabled={training} className="gap-2">
+            <BrainCircuit className="h-4 w-4" />
+            {training ? "Training..." : "Train New Model"}
+          </Button>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="promote_trained"
+              checked={promoteTrained}
+              onCheckedChange={(checked) => setPromoteTrained(checked === true)}
+            />
+            <Label htmlFor="promote_trained" className="font-normal">
+              Promote the new model straight away
+            </Label>
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Strategy</TableHead>
+                <TableHead>Trained</TableHead>
+                <TableHead className="text-right">CV MAE</TableHead>
+                <TableHead className="text-right">CV RMSE</TableHead>
+                <TableHead className="text-right">CV WAPE</TableHead>
+                <TableHead className="text-right">Backtest MAE</TableHead>
+                <TableHead className="text-right">Backtest MAPE</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Shadow</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {models.map((model) => {
+                const backtest = backtests.find((row) => row.model_version_id === model.id);
+                const selected = model.dataset_summary?.leaderboard?.find(
+                  (row) => row.strategy === model.model_type
+                );
+                return (
+                  <TableRow key={model.id}>
+                    <TableCell className="font-mono font-medium">{model.model_version}</TableCell>
+                    <TableCell>{modelTypeLabel(model.model_type)}</TableCell>
+                    <TableCell>{format(new Date(model.training_date), "MMM d, yyyy")}</TableCell>
+                    <TableCell className="text-right">{model.mae.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{model.rmse?.toFixed(2) ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {selected ? `${(selected.wape * 100).toFixed(1)}%` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {backtest?.mae != null ? `${backtest.mae.toFixed(1)} (${backtest.forecast_count})` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {backtest?.mape != null ? `${(backtest.mape * 100).toFixed(1)}%` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {model.is_active ? (
+                        <Badge variant="outline" className="bg-success/10 text-success">Active</Badge>
+                      ) : model.is_shadow ? (
+                        <Badge variant="secondary">Shadow</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={model.is_shadow}
+                        disabled={model.is_active || busyModel === model.id}
+                        onCheckedChange={(checked) => toggleShadow(model, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!model.is_active && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyModel === model.id}
+                          onClick={() => promote(model)}
+                        >
+                          Promote
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {changes.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Recent Model Changes
+            </h4>
+            <ul className="text-sm space-y-1 text-muted-foreground">
+              {changes.map((change) => (
+                <li key={change.id}>
+                  {format(new Date(change.created_at), "MMM d, yyyy HH:mm")} —{" "}
+                  {CHANGE_LABELS[change.action]} {change.details?.model_version}
+                  {change.details?.previous_model_version && ` (replacing ${change.details.previous_model_version})`}
+                  {change.details?.reason && `: ${change.details.reason}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
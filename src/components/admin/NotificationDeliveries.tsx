@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RotateCcw, Send } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { NOTIFICATION_CHANNELS } from "@/lib/alertRules";
+import { DELIVERY_STATUSES, deliveryStatusLabel } from "@/lib/notifications";
+
+interface Delivery {
+  id: string;
+  channel: string;
+  destination: string | null;
+  user_id: string | null;
+  status: string;
+  attempt_count: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  alerts_history: { title: string } | null;
+}
+
+const ALL = "all";
+const LOG_SIZE = 100;
+
+const statusVariant = (status: string) =>
+  status === "failed" ? "destructive" : status === "sent" ? "default" : "secondary";
+
+export function NotificationDeliveries() {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [dispatching, setDispatching] = useState(false);
+
+  useEffect(() => {
+    fetchDeliveries(ALL);
+  }, []);
+
+  const fetchDeliveries = async (status: string) => {
+    let query = supabase
+      .from("notification_deliveries")
+      .select(
+        "id, channel, destination, user_id, status, attempt_count, max_attempts, next_attempt_at, last_error, sent_at, created_at, alerts_history(title)"
+      )
+      .order("created_at", { ascending: false })
+      .limit(LOG_SIZE);
+    if (status !== ALL) query = query.eq("status", status);
+
+    const [{ data }, { data: profiles }] = await Promise.all([
+      query,
+      supabase.from("profiles").select("id, full_name"),
+    ]);
+    if (data) setDeliveries(data);
+    if (profiles) setNames(new Map(profiles.map((profile) => [profile.id, profile.full_name])));
+  };
+
+  // Sends due deliveries now, optionally giving failed ones another attempt
+  const dispatch = async (retryDeliveryIds: string[] = []) => {
+    setDispatching(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("dispatch-notifications", {
+        body: { retry_delivery_ids: retryDeliveryIds },
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Notifications Dispatched",
+        description: `${data.sent} sent, ${data.retrying} retrying, ${data.failed} failed, ${data.deferred} held for quiet hours`,
+      });
+      fetchDeliveries(statusFilter);
+    } catch (error) {
+      toast({
+        title: "Dispatch Failed",
+        description: error instanceof Error ? error.message : "Could not dispatch notifications",
+        variant: "destructive",
+      });
+    } finally {
+      setDispatching(false);
+    }
+  };
+
+  const recipient = (delivery: Delivery) =>
+    delivery.channel === "webhook"
+      ? delivery.destination
+      : `${(delivery.user_id && names.get(delivery.user_id)) || "Unknown user"}${
+          delivery.channel === "email" && delivery.destination ? ` <${delivery.destination}>` : ""
+        }`;
+
+  const channelLabel = (channel: string) =>
+    NOTIFICATION_CHANNELS.find((candidate) => candidate.value === channel)?.label ?? channel;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Send className="h-5 w-5" />
+              Notification Deliveries
+            </CardTitle>
+            <CardDescription>
+              Every alert notification by channel and recipient. Failed sends are retried with backoff;
+              email to users in quiet hours waits until they end.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setStatusFilter(value);
+                fetchDeliveries(value);
+              }}
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {DELIVERY_STATUSES.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => dispatch()} disabled={dispatching} className="gap-2">
+              <Send className="h-4 w-4" />
+              {dispatching ? "Dispatching..." : "Dispatch Now"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Alert</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No notification deliveries
+                  </TableCell>
+                </TableRow>
+              ) : (
+                deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="font-medium">
+                      {delivery.alerts_history?.title ?? "Deleted alert"}
+                      <div className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                      </div>
+                    </TableCell>
+                    <TableCell>{channelLabel(delivery.channel)}</TableCell>
+                    <TableCell className="text-sm break-all">{recipient(delivery)}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(delivery.status)}>{deliveryStatusLabel(delivery.status)}</Badge>
+                      {(delivery.status === "pending" || delivery.status === "deferred") && (
+                        <div className="text-xs text-muted-foreground">
+                          next {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {delivery.attempt_count} / {delivery.max_attempts}
+                      {delivery.last_error && (
+                        <div className="text-xs text-destructive">{delivery.last_error}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {delivery.status === "failed" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => dispatch([delivery.id])}
+                          disabled={dispatching}
+                          className="gap-2"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Retry
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
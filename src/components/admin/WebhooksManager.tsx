@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, Pencil, Plus, Trash2, Webhook } from "lucide-react";
+import { alertTypeLabel, STOCK_ALERT_TYPES } from "@/lib/alertRules";
+
+interface NotificationWebhook {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  alert_types: string[] | null;
+  is_enabled: boolean;
+}
+
+interface EditorState {
+  id: string | null;
+  name: string;
+  url: string;
+  // Empty sends every alert type
+  alert_types: string[];
+}
+
+export function WebhooksManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [webhooks, setWebhooks] = useState<NotificationWebhook[]>([]);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  const fetchWebhooks = async () => {
+    const { data } = await supabase
+      .from("notification_webhooks")
+      .select("id, name, url, secret, alert_types, is_enabled")
+      .order("name");
+    if (data) setWebhooks(data);
+  };
+
+  const save = async () => {
+    if (!editor) return;
+    if (!editor.name.trim()) {
+      toast({ title: "Invalid webhook", description: "Give the webhook a name", variant: "destructive" });
+      return;
+    }
+    if (!/^https?:\/\//.test(editor.url)) {
+      toast({ title: "Invalid webhook", description: "URL must start with http:// or https://", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      name: editor.name.trim(),
+      url: editor.url.trim(),
+      alert_types: editor.alert_types.length > 0 ? editor.alert_types : null,
+    };
+    const { error } = editor.id
+      ? await supabase.from("notification_webhooks").update(payload).eq("id", editor.id)
+      : await supabase.from("notification_webhooks").insert({ ...payload, created_by: user?.id });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Webhook Saved" });
+    setEditor(null);
+    fetchWebhooks();
+  };
+
+  const setEnabled = async (webhook: NotificationWebhook, enabled: boolean) => {
+    const { error } = await supabase.from("notification_webhooks").update({ is_enabled: enabled }).eq("id", webhook.id);
+    if (error) {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    setWebhooks(webhooks.map((candidate) => (candidate.id === webhook.id ? { ...candidate, is_enabled: enabled } : candidate)));
+  };
+
+  const remove = async (webhook: NotificationWebhook) => {
+    const { error } = await supabase.from("notification_webhooks").delete().eq("id", webhook.id);
+    if (error) {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Webhook Removed" });
+    fetchWebhooks();
+  };
+
+  const copySecret = async (webhook: NotificationWebhook) => {
+    await navigator.clipboard.writeText(webhook.secret);
+    toast({ title: "Signing secret copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Alert Webhooks
+            </CardTitle>
+            <CardDescription>
+              Alerts whose rule includes the webhook channel are POSTed as JSON. Each request carries
+              X-Medstock-Timestamp and X-Medstock-Signature: sha256 HMAC of "timestamp.body" keyed with
+              the webhook's signing secret.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setEditor({ id: null, name: "", url: "", alert_types: [] })}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Webhook
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>URL</TableHead>
+                <TableHead>Alerts</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No webhooks configured
+                  </TableCell>
+                </TableRow>
+              ) : (
+                webhooks.map((webhook) => (
+                  <TableRow key={webhook.id} className={webhook.is_enabled ? "" : "text-muted-foreground"}>
+                    <TableCell className="font-medium">{webhook.name}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{webhook.url}</TableCell>
+                    <TableCell className="text-sm">
+                      {webhook.alert_types ? webhook.alert_types.map(alertTypeLabel).join(", ") : "All alerts"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={webhook.is_enabled} onCheckedChange={(checked) => setEnabled(webhook, checked)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="icon" variant="ghost" title="Copy signing secret" onClick={() => copySecret(webhook)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() =>
+                            setEditor({
+                              id: webhook.id,
+                              name: webhook.name,
+                              url: webhook.url,
+                              alert_types: webhook.alert_types ?? [],
+                            })
+                          }
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => remove(webhook)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editor?.id ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+            <DialogDescription>A signing secret is generated when the webhook is created.</DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook_name">Name</Label>
+                <Input
+                  id="webhook_name"
+                  value={editor.name}
+                  onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                  placeholder="e.g. Pharmacy on-call"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook_url">URL</Label>
+                <Input
+                  id="webhook_url"
+                  value={editor.url}
+                  onChange={(e) => setEditor({ ...editor, url: e.target.value })}
+                  placeholder="https://"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Alerts (none ticked sends all)</Label>
+                {STOCK_ALERT_TYPES.map((type) => (
+                  <div key={type.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`webhook_type_${type.value}`}
+                      checked={editor.alert_types.includes(type.value)}
+                      onCheckedChange={(checked) =>
+                        setEditor({
+                          ...editor,
+                          alert_types:
+                            checked === true
+                              ? [...editor.alert_types, type.value]
+                              : editor.alert_types.filter((candidate) => candidate !== type.value),
+                        })
+                      }
+                    />
+                    <Label htmlFor={`webhook_type_${type.value}`} className="font-normal">{type.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
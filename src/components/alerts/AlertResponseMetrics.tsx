@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertEpisode, formatDuration, responseMetrics } from "@/lib/alerts";
+import { SEVERITIES } from "@/lib/alertRules";
+
+// Episodes opened within this window count towards the metrics
+const METRICS_WINDOW_DAYS = 30;
+
+interface AlertResponseMetricsProps {
+  // Changes whenever alerts change, so the metrics follow
+  refreshKey?: number;
+}
+
+export function AlertResponseMetrics({ refreshKey }: AlertResponseMetricsProps) {
+  const [episodes, setEpisodes] = useState<AlertEpisode[]>([]);
+
+  useEffect(() => {
+    fetchEpisodes();
+  }, [refreshKey]);
+
+  const fetchEpisodes = async () => {
+    const since = new Date();
+    since.setDate(since.getDate() - METRICS_WINDOW_DAYS);
+    const { data } = await supabase
+      .from("alert_episodes")
+      .select("severity, opened_at, acknowledged_at, resolved_at")
+      .gte("opened_at", since.toISOString());
+
+    if (data) setEpisodes(data);
+  };
+
+  const overall = responseMetrics(episodes);
+  const bySeverity = SEVERITIES.map((severity) => ({
+    severity,
+    metrics: responseMetrics(episodes.filter((episode) => episode.severity === severity)),
+  })).filter(({ metrics }) => metrics.acknowledged > 0);
+
+  const breakdown = (key: "mtta" | "mttr") =>
+    bySeverity.map(({ severity, metrics }) => `${severity} ${formatDuration(metrics[key])}`).join(" · ");
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium text-muted-foreground">
+            Mean Time to Acknowledge ({METRICS_WINDOW_DAYS} days)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold">{formatDuration(overall.mtta)}</div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {overall.acknowledged} acknowledged{bySeverity.length > 0 && ` · ${breakdown("mtta")}`}
+          </p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium text-muted-foreground">
+            Mean Time to Resolve ({METRICS_WINDOW_DAYS} days)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold">{formatDuration(overall.mttr)}</div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {overall.resolved} resolved{bySeverity.length > 0 && ` · ${breakdown("mttr")}`}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
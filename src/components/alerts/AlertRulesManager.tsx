@@ -0,0 +1,487 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BellRing, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  AlertRule,
+  AlertSeverity,
+  alertTypeLabel,
+  describeCondition,
+  isStockRule,
+  NOTIFICATION_CHANNELS,
+  RECIPIENT_ROLES,
+  SEVERITIES,
+  STOCK_ALERT_TYPES,
+  THRESHOLD_TYPES,
+  ThresholdType,
+} from "@/lib/alertRules";
+import { ITEM_TYPES } from "@/lib/costParameters";
+
+type RuleScope = "all" | "item_type" | "item";
+
+interface ItemOption {
+  id: string;
+  item_name: string;
+}
+
+interface EditorState {
+  id: string | null;
+  scope: RuleScope;
+  target: string;
+  alert_type: string;
+  threshold_type: ThresholdType;
+  threshold_value: string;
+  severity: AlertSeverity;
+  recipient_roles: string[];
+  notification_channels: string[];
+}
+
+const scopeOf = (rule: AlertRule): RuleScope => (rule.item_id ? "item" : rule.item_type ? "item_type" : "all");
+
+const toggle = (values: string[], value: string, checked: boolean) =>
+  checked ? [...values, value] : values.filter((candidate) => candidate !== value);
+
+export function AlertRulesManager() {
+  const { user, isManager } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    const [{ data: ruleData }, { data: itemData }] = await Promise.all([
+      supabase.from("alert_configurations").select("*"),
+      supabase.from("inventory_items").select("id, item_name").order("item_name"),
+    ]);
+
+    if (ruleData) setRules((ruleData as AlertRule[]).filter(isStockRule));
+    if (itemData) setItems(itemData);
+  };
+
+  const scopeLabel = (rule: AlertRule) => {
+    const scope = scopeOf(rule);
+    if (scope === "all") return "All items";
+    if (scope === "item_type") return `${rule.item_type} items`;
+    return items.find((item) => item.id === rule.item_id)?.item_name ?? "Unknown item";
+  };
+
+  const sortedRules = [...rules].sort((a, b) => {
+    const order: Record<RuleScope, number> = { all: 0, item_type: 1, item: 2 };
+    return (
+      order[scopeOf(a)] - order[scopeOf(b)] ||
+      scopeLabel(a).localeCompare(scopeLabel(b)) ||
+      STOCK_ALERT_TYPES.findIndex((type) => type.value === a.alert_type) -
+        STOCK_ALERT_TYPES.findIndex((type) => type.value === b.alert_type)
+    );
+  });
+
+  const openEditor = (rule: AlertRule | null) => {
+    if (rule) {
+      const scope = scopeOf(rule);
+      setEditor({
+        id: rule.id,
+        scope,
+        target: (scope === "item" ? rule.item_id : rule.item_type) ?? "",
+        alert_type: rule.alert_type,
+        threshold_type: (rule.threshold_type ?? "percentage") as ThresholdType,
+        threshold_value: rule.threshold_value === null ? "" : String(rule.threshold_value),
+        severity: rule.severity as AlertSeverity,
+        recipient_roles: rule.recipient_roles ?? [],
+        notification_channels: rule.notification_channels ?? [],
+      });
+    } else {
+      setEditor({
+        id: null,
+        scope: "all",
+        target: "",
+        alert_type: "low_stock",
+        threshold_type: "percentage",
+        threshold_value: "",
+        severity: "warning",
+        recipient_roles: ["admin", "inventory_manager"],
+        notification_channels: ["in_app"],
+      });
+    }
+  };
+
+  const validationError = (state: EditorState): string | null => {
+    if (state.scope !== "all" && !state.target) {
+      return state.scope === "item" ? "Choose an item" : "Choose an item type";
+    }
+    const value = parseFloat(state.threshold_value);
+    if (Number.isNaN(value) || value < 0) {
+      return "Threshold must be a non-negative number";
+    }
+    if (state.recipient_roles.length === 0) {
+      return "Choose at least one recipient role";
+    }
+    if (state.notification_channels.length === 0) {
+      return "Choose at least one channel";
+    }
+    return null;
+  };
+
+  const save = async () => {
+    if (!editor) return;
+    const problem = validationError(editor);
+    if (problem) {
+      toast({ title: "Invalid rule", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      alert_type: editor.alert_type,
+      threshold_type: editor.threshold_type,
+      threshold_value: parseFloat(editor.threshold_value),
+      severity: editor.severity,
+      item_type: editor.scope === "item_type" ? editor.target : null,
+      item_id: editor.scope === "item" ? editor.target : null,
+      recipient_roles: editor.recipient_roles,
+      notification_channels: editor.notification_channels,
+      updated_by: user?.id,
+    };
+    const { error } = editor.id
+      ? await supabase.from("alert_configurations").update(payload).eq("id", editor.id)
+      : await supabase.from("alert_configurations").insert({ ...payload, is_enabled: true });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Save Failed",
+        description: error.code === "23505" ? "That alert type already has a rule for these items" : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Alert Rule Saved", description: "Applies from the next prediction run" });
+    setEditor(null);
+    fetchRules();
+  };
+
+  const setEnabled = async (rule: AlertRule, enabled: boolean) => {
+    const { error } = await supabase
+      .from("alert_configurations")
+      .update({ is_enabled: enabled, updated_by: user?.id })
+      .eq("id", rule.id);
+    if (error) {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    setRules(rules.map((candidate) => (candidate.id === rule.id ? { ...candidate, is_enabled: enabled } : candidate)));
+  };
+
+  const remove = async (rule: AlertRule) => {
+    const { error } = await supabase.from("alert_configurations").delete().eq("id", rule.id);
+    if (error) {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Alert Rule Removed" });
+    fetchRules();
+  };
+
+  const thresholdType = THRESHOLD_TYPES.find((type) => type.value === editor?.threshold_type);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="h-5 w-5" />
+              Alert Rules
+            </CardTitle>
+            <CardDescription>
+              Checked for every item on each prediction run. For each alert type an item's own rule
+              replaces its item type's rule, which replaces the rule for all items; disable a narrower
+              rule to switch that alert off for those items.
+            </CardDescription>
+          </div>
+          {isManager && (
+            <Button variant="outline" onClick={() => openEditor(null)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Rule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Alert</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Notify</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No alert rules; prediction runs will not raise stock alerts
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedRules.map((rule) => (
+                  <TableRow key={rule.id} className={rule.is_enabled === false ? "text-muted-foreground" : ""}>
+                    <TableCell className="font-medium">{scopeLabel(rule)}</TableCell>
+                    <TableCell>{alertTypeLabel(rule.alert_type)}</TableCell>
+                    <TableCell>{describeCondition(rule)}</TableCell>
+                    <TableCell>
+                      <Badge variant={rule.severity === "critical" ? "destructive" : "secondary"}>
+                        {rule.severity}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {(rule.recipient_roles ?? [])
+                        .map((role) => RECIPIENT_ROLES.find((candidate) => candidate.value === role)?.label ?? role)
+                        .join(", ")}
+                      <div className="text-xs text-muted-foreground">
+                        {(rule.notification_channels ?? [])
+                          .map((channel) => NOTIFICATION_CHANNELS.find((candidate) => candidate.value === channel)?.label ?? channel)
+                          .join(", ")}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_enabled !== false}
+                        disabled={!isManager}
+                        onCheckedChange={(checked) => setEnabled(rule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isManager && (
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" onClick={() => openEditor(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => remove(rule)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editor?.id ? "Edit Alert Rule" : "Add Alert Rule"}</DialogTitle>
+            <DialogDescription>
+              For vital items warnings are raised to critical; for desirable items critical alerts are
+              lowered to warnings.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule_scope">Applies To</Label>
+                  <Select
+                    value={editor.scope}
+                    disabled={!!editor.id}
+                    onValueChange={(value) => setEditor({ ...editor, scope: value as RuleScope, target: "" })}
+                  >
+                    <SelectTrigger id="rule_scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All items</SelectItem>
+                      <SelectItem value="item_type">Item type</SelectItem>
+                      <SelectItem value="item">Single item</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {editor.scope !== "all" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rule_target">{editor.scope === "item" ? "Item" : "Item Type"}</Label>
+                    <Select
+                      value={editor.target}
+                      disabled={!!editor.id}
+                      onValueChange={(value) => setEditor({ ...editor, target: value })}
+                    >
+                      <SelectTrigger id="rule_target">
+                        <SelectValue placeholder="Select..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {editor.scope === "item"
+                          ? items.map((item) => (
+                              <SelectItem key={item.id} value={item.id}>{item.item_name}</SelectItem>
+                            ))
+                          : ITEM_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>{type}</SelectItem>
+                            ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule_alert_type">Alert</Label>
+                  <Select
+                    value={editor.alert_type}
+                    disabled={!!editor.id}
+                    onValueChange={(value) => setEditor({ ...editor, alert_type: value })}
+                  >
+                    <SelectTrigger id="rule_alert_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STOCK_ALERT_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule_severity">Severity</Label>
+                  <Select
+                    value={editor.severity}
+                    onValueChange={(value) => setEditor({ ...editor, severity: value as AlertSeverity })}
+                  >
+                    <SelectTrigger id="rule_severity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEVERITIES.map((severity) => (
+                        <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule_threshold_type">Measure</Label>
+                  <Select
+                    value={editor.threshold_type}
+                    onValueChange={(value) => setEditor({ ...editor, threshold_type: value as ThresholdType })}
+                  >
+                    <SelectTrigger id="rule_threshold_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {THRESHOLD_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule_threshold_value">Threshold ({thresholdType?.unit})</Label>
+                  <Input
+                    id="rule_threshold_value"
+                    type="number"
+                    step="any"
+                    min={0}
+                    value={editor.threshold_value}
+                    onChange={(e) => setEditor({ ...editor, threshold_value: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">{thresholdType?.help}</p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Recipients</Label>
+                  {RECIPIENT_ROLES.map((role) => (
+                    <div key={role.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`role_${role.value}`}
+                        checked={editor.recipient_roles.includes(role.value)}
+                        onCheckedChange={(checked) =>
+                          setEditor({ ...editor, recipient_roles: toggle(editor.recipient_roles, role.value, checked === true) })
+                        }
+                      />
+                      <Label htmlFor={`role_${role.value}`} className="font-normal">{role.label}</Label>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label>Channels</Label>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <div key={channel.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`channel_${channel.value}`}
+                        checked={editor.notification_channels.includes(channel.value)}
+                        onCheckedChange={(checked) =>
+                          setEditor({
+                            ...editor,
+                            notification_channels: toggle(editor.notification_channels, channel.value, checked === true),
+                          })
+                        }
+                      />
+                      <Label htmlFor={`channel_${channel.value}`} className="font-normal">{channel.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
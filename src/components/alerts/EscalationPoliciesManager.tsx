@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowUpCircle, Pencil, Plus, Trash2 } from "lucide-react";
+import { alertTypeLabel, RECIPIENT_ROLES, STOCK_ALERT_TYPES } from "@/lib/alertRules";
+import { describeEscalation, ESCALATION_CHAIN, EscalationPolicy } from "@/lib/alerts";
+
+const ALL_TYPES = "all";
+const NEXT_IN_CHAIN = "chain";
+
+interface EditorState {
+  id: string | null;
+  alert_type: string;
+  escalate_after_minutes: string;
+  max_level: string;
+  raise_severity: boolean;
+  escalate_to_role: string;
+}
+
+const roleLabel = (role: string) => RECIPIENT_ROLES.find((candidate) => candidate.value === role)?.label ?? role;
+
+const chainLabel = ESCALATION_CHAIN.map(roleLabel).join(" → ");
+
+export function EscalationPoliciesManager() {
+  const { user, isManager } = useAuth();
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    const { data } = await supabase.from("escalation_policies").select("*");
+    if (data) setPolicies(data);
+  };
+
+  // The policy for all alert types first
+  const sortedPolicies = [...policies].sort((a, b) =>
+    a.alert_type === null ? -1 : b.alert_type === null ? 1 : alertTypeLabel(a.alert_type).localeCompare(alertTypeLabel(b.alert_type))
+  );
+
+  const openEditor = (policy: EscalationPolicy | null) => {
+    setEditor(
+      policy
+        ? {
+            id: policy.id,
+            alert_type: policy.alert_type ?? ALL_TYPES,
+            escalate_after_minutes: String(policy.escalate_after_minutes),
+            max_level: String(policy.max_level),
+            raise_severity: policy.raise_severity,
+            escalate_to_role: policy.escalate_to_role ?? NEXT_IN_CHAIN,
+          }
+        : {
+            id: null,
+            alert_type: "critical_stock",
+            escalate_after_minutes: "30",
+            max_level: "2",
+            raise_severity: true,
+            escalate_to_role: NEXT_IN_CHAIN,
+          }
+    );
+  };
+
+  const save = async () => {
+    if (!editor) return;
+    const minutes = parseInt(editor.escalate_after_minutes);
+    const maxLevel = parseInt(editor.max_level);
+    if (Number.isNaN(minutes) || minutes <= 0) {
+      toast({ title: "Invalid policy", description: "Escalation time must be a positive number of minutes", variant: "destructive" });
+      return;
+    }
+    if (Number.isNaN(maxLevel) || maxLevel < 1 || maxLevel > 5) {
+      toast({ title: "Invalid policy", description: "Levels must be between 1 and 5", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      alert_type: editor.alert_type === ALL_TYPES ? null : editor.alert_type,
+      escalate_after_minutes: minutes,
+      max_level: maxLevel,
+      raise_severity: editor.raise_severity,
+      escalate_to_role: editor.escalate_to_role === NEXT_IN_CHAIN ? null : editor.escalate_to_role,
+      updated_by: user?.id,
+    };
+    const { error } = editor.id
+      ? await supabase.from("escalation_policies").update(payload).eq("id", editor.id)
+      : await supabase.from("escalation_policies").insert(payload);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Save Failed",
+        description: error.code === "23505" ? "That alert type already has an escalation policy" : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Escalation Policy Saved" });
+    setEditor(null);
+    fetchPolicies();
+  };
+
+  const setEnabled = async (policy: EscalationPolicy, enabled: boolean) => {
+    const { error } = await supabase
+      .from("escalation_policies")
+      .update({ is_enabled: enabled, updated_by: user?.id })
+      .eq("id", policy.id);
+    if (error) {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    setPolicies(policies.map((candidate) => (candidate.id === policy.id ? { ...candidate, is_enabled: enabled } : candidate)));
+  };
+
+  const remove = async (policy: EscalationPolicy) => {
+    const { error } = await supabase.from("escalation_policies").delete().eq("id", policy.id);
+    if (error) {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Escalation Policy Removed" });
+    fetchPolicies();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowUpCircle className="h-5 w-5" />
+              Escalation Policies
+            </CardTitle>
+            <CardDescription>
+              An alert nobody acknowledges escalates after the set time, and again after the same time
+              at each level. Each level can raise its severity and adds a role to its recipients: the
+              policy's chosen role, or otherwise the next one up the chain ({chainLabel}) that does not
+              have the alert yet. An alert type's own policy replaces the policy for all alerts.
+            </CardDescription>
+          </div>
+          {isManager && (
+            <Button variant="outline" onClick={() => openEditor(null)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Policy
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Alert</TableHead>
+                <TableHead>Escalation</TableHead>
+                <TableHead>Escalates To</TableHead>
+                <TableHead>Raises Severity</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedPolicies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No escalation policies; alerts stay at their original severity and recipients
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedPolicies.map((policy) => (
+                  <TableRow key={policy.id} className={policy.is_enabled ? "" : "text-muted-foreground"}>
+                    <TableCell className="font-medium">
+                      {policy.alert_type ? alertTypeLabel(policy.alert_type) : "All alerts"}
+                    </TableCell>
+                    <TableCell>{describeEscalation(policy)}</TableCell>
+                    <TableCell>{policy.escalate_to_role ? roleLabel(policy.escalate_to_role) : "Next in chain"}</TableCell>
+                    <TableCell>{policy.raise_severity ? "Yes" : "No"}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={policy.is_enabled}
+                        disabled={!isManager}
+                        onCheckedChange={(checked) => setEnabled(policy, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isManager && (
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" onClick={() => openEditor(policy)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => remove(policy)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editor?.id ? "Edit Escalation Policy" : "Add Escalation Policy"}</DialogTitle>
+            <DialogDescription>
+              Only open alerts escalate; acknowledged and snoozed alerts do not.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy_alert_type">Alert</Label>
+                <Select
+                  value={editor.alert_type}
+                  disabled={!!editor.id}
+                  onValueChange={(value) => setEditor({ ...editor, alert_type: value })}
+                >
+                  <SelectTrigger id="policy_alert_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES}>All alerts</SelectItem>
+                    {STOCK_ALERT_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="policy_minutes">Escalate After (minutes)</Label>
+                  <Input
+                    id="policy_minutes"
+                    type="number"
+                    min={1}
+                    value={editor.escalate_after_minutes}
+                    onChange={(e) => setEditor({ ...editor, escalate_after_minutes: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="policy_levels">Levels</Label>
+                  <Input
+                    id="policy_levels"
+                    type="number"
+                    min={1}
+                    max={5}
+                    value={editor.max_level}
+                    onChange={(e) => setEditor({ ...editor, max_level: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy_escalate_to">Escalate To</Label>
+                <Select
+                  value={editor.escalate_to_role}
+                  onValueChange={(value) => setEditor({ ...editor, escalate_to_role: value })}
+                >
+                  <SelectTrigger id="policy_escalate_to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEXT_IN_CHAIN}>Next role in the chain</SelectItem>
+                    {RECIPIENT_ROLES.map((role) => (
+                      <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="policy_raise_severity"
+                  checked={editor.raise_severity}
+                  onCheckedChange={(checked) => setEditor({ ...editor, raise_severity: checked })}
+                />
+                <Label htmlFor="policy_raise_severity" className="font-normal">
+                  Raise severity one step per level
+                </Label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
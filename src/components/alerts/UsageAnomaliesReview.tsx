@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Activity } from "lucide-react";
+import { format } from "date-fns";
+import { ANOMALY_LABELS, anomalyLabelName } from "@/lib/anomalies";
+
+interface UsageAnomaly {
+  id: string;
+  consumption_date: string;
+  direction: string;
+  observed_quantity: number;
+  expected_low: number;
+  expected_high: number;
+  robust_z: number;
+  label: string | null;
+  inventory_items: { item_name: string } | null;
+  locations: { name: string } | null;
+}
+
+// Anomalies on consumption days within this window are listed for review
+const REVIEW_WINDOW_DAYS = 30;
+const UNLABELLED = "unlabelled";
+
+interface UsageAnomaliesReviewProps {
+  // Changes whenever alerts change, so newly detected anomalies show up
+  refreshKey?: number;
+}
+
+export function UsageAnomaliesReview({ refreshKey }: UsageAnomaliesReviewProps) {
+  const { toast } = useToast();
+  const [anomalies, setAnomalies] = useState<UsageAnomaly[]>([]);
+  const [busyAnomaly, setBusyAnomaly] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAnomalies();
+  }, [refreshKey]);
+
+  const fetchAnomalies = async () => {
+    const since = new Date();
+    since.setDate(since.getDate() - REVIEW_WINDOW_DAYS);
+    const { data } = await supabase
+      .from("usage_anomalies")
+      .select(
+        "id, consumption_date, direction, observed_quantity, expected_low, expected_high, robust_z, label, inventory_items(item_name), locations(name)"
+      )
+      .gte("consumption_date", since.toISOString().slice(0, 10))
+      .order("consumption_date", { ascending: false });
+
+    if (data) setAnomalies(data);
+  };
+
+  const setLabel = async (anomaly: UsageAnomaly, label: string) => {
+    setBusyAnomaly(anomaly.id);
+    const { error } = await supabase.rpc("label_usage_anomaly", {
+      _anomaly_id: anomaly.id,
+      ...(label !== UNLABELLED ? { _label: label } : {}),
+    });
+    setBusyAnomaly(null);
+
+    if (error) {
+      toast({ title: "Labelling Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    setAnomalies(
+      anomalies.map((candidate) =>
+        candidate.id === anomaly.id ? { ...candidate, label: label === UNLABELLED ? null : label } : candidate
+      )
+    );
+  };
+
+  const unlabelled = anomalies.filter((anomaly) => !anomaly.label).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Usage Anomalies
+          {unlabelled > 0 && <Badge variant="secondary">{unlabelled} to review</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Days whose usage fell outside the range expected for that weekday at that location. Label what caused
+          each one; days labelled as errors or theft no longer count towards what is normal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Used</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Label</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {anomalies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No usage anomalies in the last {REVIEW_WINDOW_DAYS} days
+                  </TableCell>
+                </TableRow>
+              ) : (
+                anomalies.map((anomaly) => (
+                  <TableRow key={anomaly.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(anomaly.consumption_date), "EEE MMM d")}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {anomaly.inventory_items?.item_name ?? "Deleted item"}
+                      <div className="text-xs text-muted-foreground">
+                        {anomaly.locations?.name ?? "Unassigned stock"}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span className={anomaly.direction === "spike" ? "text-destructive font-medium" : "text-warning font-medium"}>
+                        {anomaly.observed_quantity}
+                      </span>
+                      <div className="text-xs text-muted-foreground">
+                        {anomaly.direction === "spike" ? "Spike" : "Drop"}, z {anomaly.robust_z.toFixed(1)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {anomaly.expected_low}–{anomaly.expected_high}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={anomaly.label ?? UNLABELLED}
+                        onValueChange={(value) => setLabel(anomaly, value)}
+                        disabled={busyAnomaly === anomaly.id}
+                      >
+                        <SelectTrigger className="w-[170px]">
+                          <SelectValue>{anomalyLabelName(anomaly.label)}</SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNLABELLED}>Unlabelled</SelectItem>
+                          {ANOMALY_LABELS.map((option) => (
+                            <SelectItem key={option.value} value={option.value} title={option.help}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ABC_LABELS, ItemClassification, VED_LABELS, XYZ_LABELS } from "@/lib/classification";
+
+const VED_STYLES = {
+  V: "bg-destructive/10 text-destructive border-destructive/30",
+  E: "bg-warning/10 text-warning border-warning/30",
+  D: "bg-muted text-muted-foreground",
+};
+
+interface ItemClassBadgesProps {
+  classification: ItemClassification | undefined;
+}
+
+export function ItemClassBadges({ classification }: ItemClassBadgesProps) {
+  if (!classification) {
+    return <span className="text-muted-foreground">Unclassified</span>;
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={VED_STYLES[classification.ved_class]}>
+            {classification.ved_class}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          {VED_LABELS[classification.ved_class]}
+          {!classification.ved_set_by && " (default, not yet reviewed)"}
+        </TooltipContent>
+      </Tooltip>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline">{classification.abc_class}</Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          {ABC_LABELS[classification.abc_class]}: ${classification.annual_consumption_value.toFixed(0)}/yr
+        </TooltipContent>
+      </Tooltip>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline">{classification.xyz_class}</Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          {XYZ_LABELS[classification.xyz_class]}
+          {classification.demand_cv !== null
+            ? ` (CV ${classification.demand_cv.toFixed(2)})`
+            : " (too little history)"}
+        </TooltipContent>
+      </Tooltip>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ABC_LABELS, ALL_CLASSES, ClassFilter, VED_LABELS, XYZ_LABELS } from "@/lib/classification";
+
+interface ItemClassFilterProps {
+  value: ClassFilter;
+  onChange: (value: ClassFilter) => void;
+  className?: string;
+}
+
+const DIMENSIONS: { key: keyof ClassFilter; all: string; labels: Record<string, string> }[] = [
+  { key: "ved", all: "All criticality", labels: VED_LABELS },
+  { key: "abc", all: "All value classes", labels: ABC_LABELS },
+  { key: "xyz", all: "All variability", labels: XYZ_LABELS },
+];
+
+export function ItemClassFilter({ value, onChange, className }: ItemClassFilterProps) {
+  return (
+    <>
+      {DIMENSIONS.map((dimension) => (
+        <Select
+          key={dimension.key}
+          value={value[dimension.key]}
+          onValueChange={(selected) => onChange({ ...value, [dimension.key]: selected })}
+        >
+          <SelectTrigger className={className}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CLASSES}>{dimension.all}</SelectItem>
+            {Object.entries(dimension.labels).map(([classValue, label]) => (
+              <SelectItem key={classValue} value={classValue}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,488 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Pencil, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import {
+  COST_FIELDS,
+  CostField,
+  CostParameters,
+  CostParameterScope,
+  formatCostField,
+  inheritedCostParameters,
+  ITEM_TYPES,
+} from "@/lib/costParameters";
+import { ITEM_CLASS_KEYS, itemClassLabel } from "@/lib/classification";
+
+interface ItemOption {
+  id: string;
+  item_name: string;
+  item_type: string;
+  // VED letter then ABC letter, once classified
+  item_class: string | null;
+}
+
+interface PreviewRow {
+  item_id: string;
+  item_name: string;
+  safety_stock: number;
+  reorder_point: number;
+  optimal_order_quantity: number;
+  estimated_annual_cost: number;
+  draft: {
+    safety_stock: number;
+    reorder_point: number;
+    optimal_order_quantity: number;
+    estimated_annual_cost: number;
+  };
+}
+
+interface EditorState {
+  id: string | null;
+  scope: CostParameterScope;
+  target: string;
+  // Inputs as typed; blank means inherit for overrides
+  values: Record<CostField, string>;
+}
+
+// Shared limits the page runs the optimisation under
+export interface OptimizationLimits {
+  storage_volume_limit: number | null;
+  budget_limit: number | null;
+}
+
+interface CostParametersEditorProps {
+  onSaved?: () => void;
+  limits?: OptimizationLimits;
+}
+
+const toInput = (field: CostField, value: number | null) => {
+  if (value === null) return "";
+  return COST_FIELDS.find((candidate) => candidate.key === field)?.unit === "%"
+    ? String(Math.round(value * 10000) / 100)
+    : String(value);
+};
+
+const fromInput = (field: CostField, value: string): number | null => {
+  if (value.trim() === "") return null;
+  const parsed = parseFloat(value);
+  return COST_FIELDS.find((candidate) => candidate.key === field)?.unit === "%" ? parsed / 100 : parsed;
+};
+
+const signedDollars = (value: number) => `${value > 0 ? "+" : value < 0 ? "−" : ""}$${Math.abs(value).toFixed(0)}`;
+
+export function CostParametersEditor({ onSaved, limits }: CostParametersEditorProps) {
+  const { user, isManager } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<CostParameters[]>([]);
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchParameters();
+  }, []);
+
+  const fetchParameters = async () => {
+    const [{ data: parameterData }, { data: itemData }] = await Promise.all([
+      supabase.from("cost_parameters").select("*"),
+      supabase
+        .from("inventory_items")
+        .select("id, item_name, item_type, item_classifications(abc_class, ved_class)")
+        .order("item_name"),
+    ]);
+
+    if (parameterData) setRows(parameterData as CostParameters[]);
+    if (itemData) {
+      setItems(itemData.map(({ item_classifications: classification, ...item }) => ({
+        ...item,
+        item_class: classification ? `${classification.ved_class}${classification.abc_class}` : null,
+      })));
+    }
+  };
+
+  const itemName = (id: string | null) => items.find((item) => item.id === id)?.item_name ?? "Unknown item";
+
+  const scopeLabel = (row: CostParameters) => {
+    if (row.scope === "global") return "All items";
+    if (row.scope === "item_type") return `${row.item_type} items`;
+    if (row.scope === "class") return `${itemClassLabel(row.item_class ?? "")} items`;
+    return itemName(row.item_id);
+  };
+
+  const sortedRows = [...rows].sort((a, b) => {
+    const order: Record<CostParameterScope, number> = { global: 0, item_type: 1, class: 2, item: 3 };
+    if (a.scope === "class" && b.scope === "class") {
+      return ITEM_CLASS_KEYS.indexOf(a.item_class ?? "") - ITEM_CLASS_KEYS.indexOf(b.item_class ?? "");
+    }
+    return order[a.scope] - order[b.scope] || scopeLabel(a).localeCompare(scopeLabel(b));
+  });
+
+  const openEditor = (row: CostParameters | null) => {
+    setPreview(null);
+    if (row) {
+      setEditor({
+        id: row.id,
+        scope: row.scope,
+        target: (row.scope === "item" ? row.item_id : row.scope === "class" ? row.item_class : row.item_type) ?? "",
+        values: Object.fromEntries(COST_FIELDS.map(({ key }) => [key, toInput(key, row[key])])) as Record<CostField, string>,
+      });
+    } else {
+      setEditor({
+        id: null,
+        scope: "item_type",
+        target: "",
+        values: { ordering_cost: "", holding_cost_rate: "", service_level: "", stockout_cost: "" },
+      });
+    }
+  };
+
+  const draftRow = (state: EditorState) => ({
+    scope: state.scope,
+    item_type: state.scope === "item_type" ? state.target : null,
+    item_id: state.scope === "item" ? state.target : null,
+    item_class: state.scope === "class" ? state.target : null,
+    ordering_cost: fromInput("ordering_cost", state.values.ordering_cost),
+    holding_cost_rate: fromInput("holding_cost_rate", state.values.holding_cost_rate),
+    service_level: fromInput("service_level", state.values.service_level),
+    stockout_cost: fromInput("stockout_cost", state.values.stockout_cost),
+  });
+
+  const validationError = (state: EditorState): string | null => {
+    if (state.scope !== "global" && !state.target) {
+      return state.scope === "item" ? "Choose an item" : state.scope === "class" ? "Choose a class" : "Choose an item type";
+    }
+    const draft = draftRow(state);
+    if (state.scope === "global" && COST_FIELDS.some(({ key }) => draft[key] === null)) {
+      return "The global defaults need every value";
+    }
+    if (COST_FIELDS.some(({ key }) => draft[key] !== null && (Number.isNaN(draft[key]) || draft[key]! < 0))) {
+      return "Values must be non-negative numbers";
+    }
+    if (draft.holding_cost_rate !== null && draft.holding_cost_rate <= 0) {
+      return "Holding rate must be above 0%";
+    }
+    if (draft.service_level !== null && (draft.service_level < 0.5 || draft.service_level >= 1)) {
+      return "Service level must be at least 50% and below 100%";
+    }
+    return null;
+  };
+
+  const runPreview = async () => {
+    if (!editor) return;
+    const problem = validationError(editor);
+    if (problem) {
+      toast({ title: "Invalid parameters", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("calculate-cost-optimization", {
+        body: { run_all: true, dry_run: true, draft_parameters: draftRow(editor), ...limits },
+      });
+      if (error) throw error;
+      setPreview(data.optimizations);
+    } catch (error) {
+      toast({
+        title: "Preview Failed",
+        description: error instanceof Error ? error.message : "Failed to preview parameters",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const save = async () => {
+    if (!editor) return;
+    const problem = validationError(editor);
+    if (problem) {
+      toast({ title: "Invalid parameters", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const payload = { ...draftRow(editor), updated_by: user?.id };
+    const { error } = editor.id
+      ? await supabase.from("cost_parameters").update(payload).eq("id", editor.id)
+      : await supabase.from("cost_parameters").insert(payload);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Save Failed",
+        description: error.code === "23505" ? "That scope already has an override" : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Cost Parameters Saved", description: "Recalculating optimizations with the new values" });
+    setEditor(null);
+    fetchParameters();
+    onSaved?.();
+  };
+
+  const remove = async (row: CostParameters) => {
+    const { error } = await supabase.from("cost_parameters").delete().eq("id", row.id);
+    if (error) {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Override Removed", description: `${scopeLabel(row)} now inherit the broader values` });
+    fetchParameters();
+    onSaved?.();
+  };
+
+  const editedItem = editor?.scope === "item" ? items.find((item) => item.id === editor.target) : undefined;
+  const inherited = editor
+    ? inheritedCostParameters(rows, editor.scope, editedItem?.item_type ?? null, editedItem?.item_class ?? null)
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Cost Parameters
+            </CardTitle>
+            <CardDescription>
+              Defaults apply to every item. Overrides by item type, by VED/ABC class and by item replace
+              only the values they set; an item takes each value from its own override first, then its
+              type, then its class, then the defaults.
+            </CardDescription>
+          </div>
+          {isManager && (
+            <Button variant="outline" onClick={() => openEditor(null)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Override
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                {COST_FIELDS.map((field) => (
+                  <TableHead key={field.key} className="text-right">{field.label}</TableHead>
+                ))}
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="font-medium">
+                    {scopeLabel(row)}
+                    {row.scope === "global" && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                  </TableCell>
+                  {COST_FIELDS.map((field) => (
+                    <TableCell
+                      key={field.key}
+                      className={`text-right ${row[field.key] === null ? "text-muted-foreground" : ""}`}
+                    >
+                      {formatCostField(field.key, row[field.key])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">
+                    {isManager && (
+                      <div className="flex justify-end gap-1">
+                        <Button size="icon" variant="ghost" onClick={() => openEditor(row)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {row.scope !== "global" && (
+                          <Button size="icon" variant="ghost" onClick={() => remove(row)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editor?.scope === "global" ? "Default Cost Parameters" : editor?.id ? "Edit Override" : "Add Override"}
+            </DialogTitle>
+            <DialogDescription>
+              Preview shows how safety stock, reorder points, order quantities and annual cost change for
+              the items affected, before anything is saved.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              {editor.scope !== "global" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="override_scope">Override For</Label>
+                    <Select
+                      value={editor.scope}
+                      disabled={!!editor.id}
+                      onValueChange={(value) =>
+                        setEditor({ ...editor, scope: value as CostParameterScope, target: "" })
+                      }
+                    >
+                      <SelectTrigger id="override_scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="item_type">Item type</SelectItem>
+                        <SelectItem value="class">VED/ABC class</SelectItem>
+                        <SelectItem value="item">Single item</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="override_target">
+                      {editor.scope === "item" ? "Item" : editor.scope === "class" ? "Class" : "Item Type"}
+                    </Label>
+                    <Select
+                      value={editor.target}
+                      disabled={!!editor.id}
+                      onValueChange={(value) => setEditor({ ...editor, target: value })}
+                    >
+                      <SelectTrigger id="override_target">
+                        <SelectValue placeholder="Select..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {editor.scope === "item"
+                          ? items.map((item) => (
+                              <SelectItem key={item.id} value={item.id}>{item.item_name}</SelectItem>
+                            ))
+                          : editor.scope === "class"
+                          ? ITEM_CLASS_KEYS.map((key) => (
+                              <SelectItem key={key} value={key}>{itemClassLabel(key)}</SelectItem>
+                            ))
+                          : ITEM_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>{type}</SelectItem>
+                            ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                {COST_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={field.key}>
+                      {field.label} ({field.unit})
+                    </Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      step="any"
+                      min={0}
+                      value={editor.values[field.key]}
+                      placeholder={
+                        editor.scope === "global" || !inherited
+                          ? undefined
+                          : `Inherit ${formatCostField(field.key, inherited[field.key])}`
+                      }
+                      onChange={(e) =>
+                        setEditor({ ...editor, values: { ...editor.values, [field.key]: e.target.value } })
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">{field.help}</p>
+                  </div>
+                ))}
+              </div>
+
+              {preview && (
+                <div className="rounded-md border max-h-64 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">Safety Stock</TableHead>
+                        <TableHead className="text-right">Reorder Point</TableHead>
+                        <TableHead className="text-right">Order Qty</TableHead>
+                        <TableHead className="text-right">Annual Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center text-muted-foreground">
+                            No item would change
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        preview.map((row) => (
+                          <TableRow key={row.item_id}>
+                            <TableCell className="font-medium">{row.item_name}</TableCell>
+                            <TableCell className="text-right">{row.safety_stock} → {row.draft.safety_stock}</TableCell>
+                            <TableCell className="text-right">{row.reorder_point} → {row.draft.reorder_point}</TableCell>
+                            <TableCell className="text-right">
+                              {row.optimal_order_quantity} → {row.draft.optimal_order_quantity}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {signedDollars(row.draft.estimated_annual_cost - row.estimated_annual_cost)}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={runPreview} disabled={previewing}>
+              {previewing ? "Calculating..." : "Preview Effect"}
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,79 +1,144 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { TrendingUp, Target, Activity, Calendar } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FORECAST_STRATEGY_LABELS, modelTypeLabel, TrainingDatasetSummary } from "@/lib/forecasting";
 
 interface ModelMetricsProps {
   modelVersion: string;
+  modelType: string;
   mae: number;
-  rmse?: number;
-  r2Score?: number;
+  rmse?: number | null;
+  r2Score?: number | null;
   trainingDate: string;
-  featureImportance?: any;
+  datasetSummary?: TrainingDatasetSummary | null;
 }
 
-export function ModelMetrics({ 
-  modelVersion, 
-  mae, 
-  rmse, 
-  r2Score, 
+export function ModelMetrics({
+  modelVersion,
+  modelType,
+  mae,
+  rmse,
+  r2Score,
   trainingDate,
-  featureImportance 
+  datasetSummary,
 }: ModelMetricsProps) {
+  // Only models from the training job carry a cross-validation leaderboard;
+  // older rows have a free-form summary
+  const trained = datasetSummary?.leaderboard ? datasetSummary : null;
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between pb-2">
-          <CardTitle className="text-sm font-medium">Model Version</CardTitle>
-          <Activity className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{modelVersion}</div>
-          <Badge variant="outline" className="mt-2">GradientBoosting</Badge>
-        </CardContent>
-      </Card>
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Model Version</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{modelVersion}</div>
+            <Badge variant="outline" className="mt-2">{modelTypeLabel(modelType)}</Badge>
+          </CardContent>
+        </Card>
 
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between pb-2">
-          <CardTitle className="text-sm font-medium">Mean Absolute Error</CardTitle>
-          <Target className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{mae.toFixed(2)}</div>
-          <p className="text-xs text-muted-foreground mt-2">
-            Average prediction error
-          </p>
-        </CardContent>
-      </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Mean Absolute Error</CardTitle>
+            <Target className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{mae.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground mt-2">
+              {trained ? "Units per day, on held-out days" : "Average prediction error"}
+            </p>
+          </CardContent>
+        </Card>
+
+        {rmse != null && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">RMSE</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{rmse.toFixed(2)}</div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Root Mean Squared Error
+                {r2Score != null && ` • R² ${r2Score.toFixed(3)}`}
+              </p>
+            </CardContent>
+          </Card>
+        )}
 
-      {rmse && (
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">RMSE</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Training Date</CardTitle>
+            <Calendar className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{rmse.toFixed(2)}</div>
+            <div className="text-sm font-bold">
+              {new Date(trainingDate).toLocaleDateString()}
+            </div>
             <p className="text-xs text-muted-foreground mt-2">
-              Root Mean Squared Error
+              {trained
+                ? `${trained.items_evaluated} items, ${trained.observations} days of consumption`
+                : "Last model update"}
             </p>
           </CardContent>
         </Card>
-      )}
+      </div>
 
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between pb-2">
-          <CardTitle className="text-sm font-medium">Training Date</CardTitle>
-          <Calendar className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-sm font-bold">
-            {new Date(trainingDate).toLocaleDateString()}
-          </div>
-          <p className="text-xs text-muted-foreground mt-2">
-            Last model update
-          </p>
-        </CardContent>
-      </Card>
+      {trained && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cross-Validation Results</CardTitle>
+            <CardDescription>
+              Rolling-origin evaluation on consumption from {trained.start_date} to{" "}
+              {trained.end_date}; the lowest WAPE was registered
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Strategy</TableHead>
+                    <TableHead className="text-right">MAE</TableHead>
+                    <TableHead className="text-right">RMSE</TableHead>
+                    <TableHead className="text-right">R²</TableHead>
+                    <TableHead className="text-right">WAPE</TableHead>
+                    <TableHead className="text-right">Bias</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trained.leaderboard.map((row) => (
+                    <TableRow key={row.strategy}>
+                      <TableCell className="font-medium">
+                        {FORECAST_STRATEGY_LABELS[row.strategy] ?? row.strategy}
+                        {row.strategy === modelType && (
+                          <Badge variant="outline" className="ml-2">Selected</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.mae.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{row.rmse.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{row.r2 != null ? row.r2.toFixed(3) : "—"}</TableCell>
+                      <TableCell className="text-right">{(row.wape * 100).toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{row.bias.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
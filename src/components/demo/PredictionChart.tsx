@@ -1,15 +1,22 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { format } from "date-fns";
+import { PredictionOutcome } from "@/lib/forecasting";
 
 interface PredictionChartProps {
-  data: any[];
+  data: PredictionOutcome[];
 }
 
+// Forecasts whose horizon has elapsed, against the consumption actually recorded
 export function PredictionChart({ data }: PredictionChartProps) {
-  const chartData = data.slice(0, 10).map((item, idx) => ({
-    name: item.inventory_items?.item_name?.substring(0, 15) || `Item ${idx + 1}`,
-    predicted: item.predicted_demand || 0,
-    actual: item.feature_values?.actual_usage || item.predicted_demand * 0.9,
+  const chartData = data.slice(0, 10).map((outcome, idx) => ({
+    name: outcome.item_name
+      ? `${outcome.item_name.substring(0, 15)} (${outcome.window_end ? format(new Date(outcome.window_end), "MMM d") : "—"})`
+      : `Forecast ${idx + 1}`,
+    predicted: outcome.predicted_demand ?? 0,
+    actual: outcome.actual_demand ?? 0,
+    band95: outcome.lower_95 != null && outcome.upper_95 != null ? [outcome.lower_95, outcome.upper_95] : null,
+    band80: outcome.lower_80 != null && outcome.upper_80 != null ? [outcome.lower_80, outcome.upper_80] : null,
   }));
 
   return (
@@ -17,38 +24,61 @@ export function PredictionChart({ data }: PredictionChartProps) {
       <CardHeader>
         <CardTitle>Predicted vs Actual Demand</CardTitle>
         <CardDescription>
-          Model accuracy visualization from recent predictions
+          Recent forecasts whose horizon has passed, against the consumption actually recorded, with
+          80% and 95% prediction intervals shaded
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <ResponsiveContainer width="100%" height={300}>
-          <LineChart data={chartData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis 
-              dataKey="name" 
-              angle={-45}
-              textAnchor="end"
-              height={100}
-            />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Line 
-              type="monotone" 
-              dataKey="predicted" 
-              stroke="hsl(var(--primary))" 
-              strokeWidth={2}
-              name="Predicted Demand"
-            />
-            <Line 
-              type="monotone" 
-              dataKey="actual" 
-              stroke="hsl(var(--secondary))" 
-              strokeWidth={2}
-              name="Actual Usage"
-            />
-          </LineChart>
-        </ResponsiveContainer>
+        {chartData.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No forecast has reached the end of its horizon yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="name"
+                angle={-45}
+                textAnchor="end"
+                height={100}
+              />
+              <YAxis />
+              <Tooltip />
+              <Legend />
+              <Area
+                type="monotone"
+                dataKey="band95"
+                stroke="none"
+                fill="hsl(var(--primary))"
+                fillOpacity={0.12}
+                name="95% Interval"
+              />
+              <Area
+                type="monotone"
+                dataKey="band80"
+                stroke="none"
+                fill="hsl(var(--primary))"
+                fillOpacity={0.25}
+                name="80% Interval"
+              />
+              <Line
+                type="monotone"
+                dataKey="predicted"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                name="Predicted Demand"
+              />
+              <Line
+                type="monotone"
+                dataKey="actual"
+                stroke="hsl(var(--secondary))"
+                strokeWidth={2}
+                name="Actual Usage"
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/useLocations";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarDays, Pencil, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ALL_LOCATIONS, LocationSelect } from "@/components/locations/LocationSelect";
+import { CalendarEvent, CalendarEventType, EVENT_TYPES, eventTypeLabel } from "@/lib/forecastCalendar";
+
+interface EditorState {
+  id: string | null;
+  name: string;
+  event_type: CalendarEventType;
+  start_date: string;
+  end_date: string;
+  location_id: string;
+  notes: string;
+}
+
+const formatRange = (event: CalendarEvent) => {
+  const start = format(new Date(event.start_date), "MMM d, yyyy");
+  return event.end_date === event.start_date ? start : `${start} – ${format(new Date(event.end_date), "MMM d, yyyy")}`;
+};
+
+export function CalendarEventsManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { options: locationOptions, paths } = useLocations();
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  const fetchEvents = async () => {
+    const { data } = await supabase
+      .from("calendar_events")
+      .select("id, name, event_type, start_date, end_date, location_id, notes")
+      .order("start_date", { ascending: false });
+    if (data) setEvents(data);
+  };
+
+  const save = async () => {
+    if (!editor) return;
+    if (!editor.name.trim() || !editor.start_date) {
+      toast({ title: "Invalid event", description: "Give the event a name and a start date", variant: "destructive" });
+      return;
+    }
+    const endDate = editor.end_date || editor.start_date;
+    if (endDate < editor.start_date) {
+      toast({ title: "Invalid event", description: "The event cannot end before it starts", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      name: editor.name.trim(),
+      event_type: editor.event_type,
+      start_date: editor.start_date,
+      end_date: endDate,
+      location_id: editor.location_id === ALL_LOCATIONS ? null : editor.location_id,
+      notes: editor.notes.trim() || null,
+    };
+    const { error } = editor.id
+      ? await supabase.from("calendar_events").update(payload).eq("id", editor.id)
+      : await supabase.from("calendar_events").insert({ ...payload, created_by: user?.id });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Event Saved" });
+    setEditor(null);
+    fetchEvents();
+  };
+
+  const remove = async (event: CalendarEvent) => {
+    const { error } = await supabase.from("calendar_events").delete().eq("id", event.id);
+    if (error) {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Event Removed" });
+    fetchEvents();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Calendar Events
+            </CardTitle>
+            <CardDescription>
+              Past and upcoming holidays, elective surgery days and virus seasons. Forecasts learn how much
+              each type of event moves demand from the past ones and apply it to the upcoming ones, so
+              record both.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() =>
+              setEditor({
+                id: null,
+                name: "",
+                event_type: "holiday",
+                start_date: "",
+                end_date: "",
+                location_id: ALL_LOCATIONS,
+                notes: "",
+              })
+            }
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Event
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No calendar events yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="font-medium">
+                      {event.name}
+                      {event.notes && <div className="text-xs text-muted-foreground font-normal">{event.notes}</div>}
+                    </TableCell>
+                    <TableCell>{eventTypeLabel(event.event_type)}</TableCell>
+                    <TableCell className="text-sm">{formatRange(event)}</TableCell>
+                    <TableCell className="text-sm">
+                      {event.location_id ? paths[event.location_id] ?? "Unknown" : "All locations"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() =>
+                            setEditor({
+                              id: event.id,
+                              name: event.name,
+                              event_type: event.event_type as CalendarEventType,
+                              start_date: event.start_date,
+                              end_date: event.end_date,
+                              location_id: event.location_id ?? ALL_LOCATIONS,
+                              notes: event.notes ?? "",
+                            })
+                          }
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => remove(event)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editor?.id ? "Edit Event" : "Add Event"}</DialogTitle>
+            <DialogDescription>Leave the end date empty for a single day.</DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="event_name">Name</Label>
+                <Input
+                  id="event_name"
+                  value={editor.name}
+                  onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                  placeholder="e.g. Christmas Day"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event_type">Type</Label>
+                <Select
+                  value={editor.event_type}
+                  onValueChange={(value) => setEditor({ ...editor, event_type: value as CalendarEventType })}
+                >
+                  <SelectTrigger id="event_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EVENT_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {EVENT_TYPES.find((type) => type.value === editor.event_type)?.help}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="event_start">Start</Label>
+                  <Input
+                    id="event_start"
+                    type="date"
+                    value={editor.start_date}
+                    onChange={(e) => setEditor({ ...editor, start_date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="event_end">End</Label>
+                  <Input
+                    id="event_end"
+                    type="date"
+                    value={editor.end_date}
+                    min={editor.start_date}
+                    onChange={(e) => setEditor({ ...editor, end_date: e.target.value })}
+                  />
+                </div>
+              </div>
+              {locationOptions.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="event_location">Location</Label>
+                  <LocationSelect
+                    id="event_location"
+                    value={editor.location_id}
+                    onChange={(value) => setEditor({ ...editor, location_id: value })}
+                    options={locationOptions}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="event_notes">Notes</Label>
+                <Textarea
+                  id="event_notes"
+                  value={editor.notes}
+                  onChange={(e) => setEditor({ ...editor, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LineChart, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { DemandRegressor, parseRegressorCsv } from "@/lib/forecastCalendar";
+
+interface RegressorSummary extends DemandRegressor {
+  value_count: number;
+  first_date: string | null;
+  last_date: string | null;
+}
+
+interface EditorState {
+  id: string | null;
+  name: string;
+  unit: string;
+  description: string;
+}
+
+// Rows per upsert request
+const IMPORT_BATCH_SIZE = 500;
+
+export function RegressorsManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [regressors, setRegressors] = useState<RegressorSummary[]>([]);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const importTarget = useRef<DemandRegressor | null>(null);
+
+  useEffect(() => {
+    fetchRegressors();
+  }, []);
+
+  const fetchRegressors = async () => {
+    const { data } = await supabase.from("demand_regressors").select("id, name, unit, description").order("name");
+    if (!data) return;
+
+    setRegressors(
+      await Promise.all(
+        data.map(async (regressor) => {
+          const values = () => supabase.from("regressor_values").select("value_date").eq("regressor_id", regressor.id);
+          const [{ count }, { data: first }, { data: last }] = await Promise.all([
+            supabase
+              .from("regressor_values")
+              .select("id", { count: "exact", head: true })
+              .eq("regressor_id", regressor.id),
+            values().order("value_date").limit(1),
+            values().order("value_date", { ascending: false }).limit(1),
+          ]);
+          return {
+            ...regressor,
+            value_count: count ?? 0,
+            first_date: first?.[0]?.value_date ?? null,
+            last_date: last?.[0]?.value_date ?? null,
+          };
+        })
+      )
+    );
+  };
+
+  const save = async () => {
+    if (!editor) return;
+    if (!editor.name.trim()) {
+      toast({ title: "Invalid regressor", description: "Give the regressor a name", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      name: editor.name.trim(),
+      unit: editor.unit.trim() || null,
+      description: editor.description.trim() || null,
+    };
+    const { error } = editor.id
+      ? await supabase.from("demand_regressors").update(payload).eq("id", editor.id)
+      : await supabase.from("demand_regressors").insert({ ...payload, created_by: user?.id });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Regressor Saved" });
+    setEditor(null);
+    fetchRegressors();
+  };
+
+  const remove = async (regressor: DemandRegressor) => {
+    const { error } = await supabase.from("demand_regressors").delete().eq("id", regressor.id);
+    if (error) {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Regressor Removed" });
+    fetchRegressors();
+  };
+
+  const chooseFile = (regressor: DemandRegressor) => {
+    importTarget.current = regressor;
+    fileInput.current?.click();
+  };
+
+  const importFile = async (file: File) => {
+    const regressor = importTarget.current;
+    if (!regressor) return;
+
+    const { values, errors } = parseRegressorCsv(await file.text());
+    if (errors.length > 0 || values.length === 0) {
+      toast({
+        title: "Import Failed",
+        description: errors.length > 0 ? `${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ""}` : "The file has no values",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setImporting(regressor.id);
+    try {
+      for (let start = 0; start < values.length; start += IMPORT_BATCH_SIZE) {
+        const { error } = await supabase.from("regressor_values").upsert(
+          values.slice(start, start + IMPORT_BATCH_SIZE).map((value) => ({ ...value, regressor_id: regressor.id })),
+          { onConflict: "regressor_id,value_date" }
+        );
+        if (error) throw error;
+      }
+      toast({ title: "Values Imported", description: `${values.length} days of ${regressor.name}` });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not save the values",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(null);
+      fetchRegressors();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LineChart className="h-5 w-5" />
+              External Regressors
+            </CardTitle>
+            <CardDescription>
+              Daily hospital-wide series such as bed occupancy or scheduled procedure counts, imported from a
+              CSV of date,value rows (YYYY-MM-DD dates; a header row is optional). Re-importing a date replaces
+              its value. Include upcoming days where they are known, such as a theatre schedule.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setEditor({ id: null, name: "", unit: "", description: "" })}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Regressor
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) importFile(file);
+          }}
+        />
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Regressor</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Values</TableHead>
+                <TableHead>Covers</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {regressors.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No regressors yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                regressors.map((regressor) => (
+                  <TableRow key={regressor.id}>
+                    <TableCell className="font-medium">
+                      {regressor.name}
+                      {regressor.description && (
+                        <div className="text-xs text-muted-foreground font-normal">{regressor.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{regressor.unit ?? "—"}</TableCell>
+                    <TableCell>{regressor.value_count}</TableCell>
+                    <TableCell className="text-sm">
+                      {regressor.first_date && regressor.last_date
+                        ? `${format(new Date(regressor.first_date), "MMM d, yyyy")} – ${format(new Date(regressor.last_date), "MMM d, yyyy")}`
+                        : "No values"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => chooseFile(regressor)}
+                          disabled={importing !== null}
+                          className="gap-2"
+                        >
+                          <Upload className="h-4 w-4" />
+                          {importing === regressor.id ? "Importing..." : "Import CSV"}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() =>
+                            setEditor({
+                              id: regressor.id,
+                              name: regressor.name,
+                              unit: regressor.unit ?? "",
+                              description: regressor.description ?? "",
+                            })
+                          }
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => remove(regressor)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editor?.id ? "Edit Regressor" : "Add Regressor"}</DialogTitle>
+            <DialogDescription>Import its values from the list once it is saved.</DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="regressor_name">Name</Label>
+                <Input
+                  id="regressor_name"
+                  value={editor.name}
+                  onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                  placeholder="e.g. Bed occupancy"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="regressor_unit">Unit</Label>
+                <Input
+                  id="regressor_unit"
+                  value={editor.unit}
+                  onChange={(e) => setEditor({ ...editor, unit: e.target.value })}
+                  placeholder="e.g. beds, procedures"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="regressor_description">Description</Label>
+                <Input
+                  id="regressor_description"
+                  value={editor.description}
+                  onChange={(e) => setEditor({ ...editor, description: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,402 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/useLocations";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Ban, Plus, SlidersHorizontal } from "lucide-react";
+import { format } from "date-fns";
+import { ALL_LOCATIONS, LocationSelect } from "@/components/locations/LocationSelect";
+import { ForecastOverride, overrideStatus, OverrideStatus } from "@/lib/forecastOverrides";
+
+interface EditorState {
+  item_id: string;
+  location_id: string;
+  start_date: string;
+  end_date: string;
+  daily_quantity: string;
+  reason: string;
+}
+
+const STATUS_BADGES: Record<OverrideStatus, { label: string; className: string }> = {
+  active: { label: "In force", className: "bg-success/10 text-success" },
+  scheduled: { label: "Scheduled", className: "bg-primary/10 text-primary" },
+  expired: { label: "Expired", className: "" },
+  revoked: { label: "Revoked", className: "bg-destructive/10 text-destructive" },
+};
+
+const formatDate = (date: string) => format(new Date(date), "MMM d, yyyy");
+
+export function ForecastOverridesManager() {
+  const { toast } = useToast();
+  const { options: locationOptions, paths } = useLocations();
+  const [overrides, setOverrides] = useState<ForecastOverride[]>([]);
+  const [items, setItems] = useState<{ id: string; item_name: string }[]>([]);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [revoking, setRevoking] = useState<ForecastOverride | null>(null);
+  const [revokeReason, setRevokeReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchOverrides();
+    fetchItems();
+  }, []);
+
+  const fetchOverrides = async () => {
+    const { data } = await supabase
+      .from("forecast_overrides")
+      .select(
+        "id, item_id, location_id, start_date, end_date, daily_quantity, reason, model_daily_forecast, created_at, revoked_at, revoke_reason, inventory_items(item_name), created_by_profile:profiles!forecast_overrides_created_by_fkey(full_name)"
+      )
+      .order("created_at", { ascending: false });
+    if (data) {
+      setOverrides(
+        data.map(({ inventory_items, created_by_profile, ...override }) => ({
+          ...override,
+          item_name: inventory_items?.item_name ?? null,
+          created_by_name: created_by_profile?.full_name ?? null,
+        }))
+      );
+    }
+  };
+
+  const fetchItems = async () => {
+    const { data } = await supabase.from("inventory_items").select("id, item_name").order("item_name");
+    if (data) setItems(data);
+  };
+
+  const save = async () => {
+    if (!editor) return;
+    const quantity = Number(editor.daily_quantity);
+    if (!editor.item_id || !editor.start_date || !editor.end_date || editor.daily_quantity === "" || !(quantity >= 0)) {
+      toast({
+        title: "Invalid override",
+        description: "Choose an item, the dates it covers and a daily quantity",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!editor.reason.trim()) {
+      toast({ title: "Invalid override", description: "Give a reason for the override", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("create_forecast_override", {
+      _item_id: editor.item_id,
+      _start_date: editor.start_date,
+      _end_date: editor.end_date,
+      _daily_quantity: quantity,
+      _reason: editor.reason.trim(),
+      ...(editor.location_id !== ALL_LOCATIONS ? { _location_id: editor.location_id } : {}),
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Save Failed",
+        description:
+          error.code === "23P01" ? "An override already covers part of this period; revoke it first" : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({ title: "Override Saved", description: "It applies from the next prediction run" });
+    setEditor(null);
+    fetchOverrides();
+  };
+
+  const revoke = async () => {
+    if (!revoking) return;
+    if (!revokeReason.trim()) {
+      toast({ title: "Invalid revocation", description: "Give a reason for revoking", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("revoke_forecast_override", {
+      _override_id: revoking.id,
+      _reason: revokeReason.trim(),
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Override Revoked" });
+    setRevoking(null);
+    fetchOverrides();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Forecast Overrides
+            </CardTitle>
+            <CardDescription>
+              Replace the model's daily forecast for an item over a period, for example ahead of a new service
+              the history knows nothing about. Until it expires the override drives stock projections, alerts
+              and reorder points; the model's forecast is still recorded, and each override is scored against
+              what was actually used.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() =>
+              setEditor({
+                item_id: "",
+                location_id: ALL_LOCATIONS,
+                start_date: new Date().toISOString().slice(0, 10),
+                end_date: "",
+                daily_quantity: "",
+                reason: "",
+              })
+            }
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Override
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead className="text-right">Per Day</TableHead>
+                <TableHead className="text-right">Model</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overrides.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No forecast overrides yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                overrides.map((override) => {
+                  const status = overrideStatus(override);
+                  return (
+                    <TableRow key={override.id}>
+                      <TableCell className="font-medium">
+                        {override.item_name ?? "Unknown item"}
+                        <div className="text-xs text-muted-foreground font-normal">
+                          {override.location_id ? paths[override.location_id] ?? "Unknown" : "All locations"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(override.start_date)} – {formatDate(override.end_date)}
+                      </TableCell>
+                      <TableCell className="text-right">{override.daily_quantity}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {override.model_daily_forecast?.toFixed(1) ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {override.reason}
+                        <div className="text-xs text-muted-foreground">
+                          {override.created_by_name ?? "Unknown"}, {formatDate(override.created_at)}
+                        </div>
+                        {override.revoke_reason && (
+                          <div className="text-xs text-muted-foreground">Revoked: {override.revoke_reason}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_BADGES[status].className}>
+                          {STATUS_BADGES[status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(status === "active" || status === "scheduled") && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              setRevoking(override);
+                              setRevokeReason("");
+                            }}
+                            className="gap-2"
+                          >
+                            <Ban className="h-4 w-4" />
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editor} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Override</DialogTitle>
+            <DialogDescription>
+              Overrides cannot be edited once saved; revoke one and add another to change it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editor && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="override_item">Item</Label>
+                <Select value={editor.item_id} onValueChange={(value) => setEditor({ ...editor, item_id: value })}>
+                  <SelectTrigger id="override_item">
+                    <SelectValue placeholder="Choose an item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {items.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.item_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {locationOptions.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="override_location">Location</Label>
+                  <LocationSelect
+                    id="override_location"
+                    value={editor.location_id}
+                    onChange={(value) => setEditor({ ...editor, location_id: value })}
+                    options={locationOptions}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Applies to predictions run for exactly this scope; "All locations" is the hospital-wide
+                    forecast, which also drives reorder points
+                  </p>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="override_start">Start</Label>
+                  <Input
+                    id="override_start"
+                    type="date"
+                    value={editor.start_date}
+                    onChange={(e) => setEditor({ ...editor, start_date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="override_end">End</Label>
+                  <Input
+                    id="override_end"
+                    type="date"
+                    value={editor.end_date}
+                    min={editor.start_date}
+                    onChange={(e) => setEditor({ ...editor, end_date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="override_quantity">Daily Demand</Label>
+                <Input
+                  id="override_quantity"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={editor.daily_quantity}
+                  onChange={(e) => setEditor({ ...editor, daily_quantity: e.target.value })}
+                  placeholder="Units per day"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="override_reason">Reason</Label>
+                <Textarea
+                  id="override_reason"
+                  value={editor.reason}
+                  onChange={(e) => setEditor({ ...editor, reason: e.target.value })}
+                  placeholder="What do you know that the forecast does not?"
+                  rows={3}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke Override</DialogTitle>
+            <DialogDescription>
+              {revoking?.item_name} goes back to the model's forecast from the next prediction run. The days the
+              override was in force still count towards its accuracy.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="revoke_reason">Reason</Label>
+            <Textarea
+              id="revoke_reason"
+              value={revokeReason}
+              onChange={(e) => setRevokeReason(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={revoke} disabled={saving}>
+              {saving ? "Revoking..." : "Revoke"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
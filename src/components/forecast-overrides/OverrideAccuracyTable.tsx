@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { UserCheck } from "lucide-react";
+import { format } from "date-fns";
+
+interface OverrideAccuracyRow {
+  created_by: string | null;
+  created_by_name: string | null;
+  override_count: number | null;
+  helped_count: number | null;
+  hurt_count: number | null;
+  override_daily_mae: number | null;
+  model_daily_mae: number | null;
+  days_evaluated: number | null;
+  last_evaluated: string | null;
+}
+
+export function OverrideAccuracyTable() {
+  const [rows, setRows] = useState<OverrideAccuracyRow[]>([]);
+
+  useEffect(() => {
+    fetchAccuracy();
+  }, []);
+
+  const fetchAccuracy = async () => {
+    const { data } = await supabase
+      .from("forecast_override_accuracy")
+      .select("*")
+      .order("override_count", { ascending: false });
+    if (data) setRows(data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Forecast Overrides by Manager
+        </CardTitle>
+        <CardDescription>
+          Each override scored against actual use over the days it was in force so far, beside the model
+          forecast it replaced. An override helped when it landed closer to actual use than the model.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Manager</TableHead>
+                <TableHead className="text-right">Overrides</TableHead>
+                <TableHead className="text-right">Helped</TableHead>
+                <TableHead className="text-right">Hurt</TableHead>
+                <TableHead className="text-right">Override MAE/Day</TableHead>
+                <TableHead className="text-right">Model MAE/Day</TableHead>
+                <TableHead className="text-right">Days Scored</TableHead>
+                <TableHead>Last Scored</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No override has been in force long enough to score
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={row.created_by}>
+                    <TableCell className="font-medium">{row.created_by_name ?? "Unknown"}</TableCell>
+                    <TableCell className="text-right">{row.override_count}</TableCell>
+                    <TableCell className="text-right text-success">{row.helped_count}</TableCell>
+                    <TableCell className="text-right text-destructive">{row.hurt_count}</TableCell>
+                    <TableCell className="text-right">{row.override_daily_mae?.toFixed(1) ?? "—"}</TableCell>
+                    <TableCell className="text-right">{row.model_daily_mae?.toFixed(1) ?? "—"}</TableCell>
+                    <TableCell className="text-right">{row.days_evaluated}</TableCell>
+                    <TableCell className="text-sm">
+                      {row.last_evaluated ? format(new Date(row.last_evaluated), "MMM d, yyyy") : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,473 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocations } from "@/hooks/useLocations";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { differenceInCalendarDays, format } from "date-fns";
+import {
+  MANUAL_TRANSACTION_TYPES,
+  STAFF_TRANSACTION_TYPES,
+  TRANSACTION_TYPES,
+  TransactionType,
+  toSignedQuantity,
+} from "@/lib/stockLedger";
+import { LocationSelect, UNASSIGNED_LOCATION } from "@/components/locations/LocationSelect";
+
+interface StockMovementItem {
+  id: string;
+  item_name: string;
+  current_stock: number;
+}
+
+interface StockTransaction {
+  id: string;
+  transaction_type: TransactionType;
+  quantity: number;
+  balance_after: number | null;
+  reason: string | null;
+  created_at: string;
+  profiles: { full_name: string } | null;
+  inventory_lots: { lot_number: string } | null;
+  location_id: string | null;
+}
+
+interface InventoryLot {
+  id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  received_date: string;
+  quantity: number;
+  lot_location_stock: { location_id: string; quantity: number }[];
+}
+
+// Lot selector values that are not lot ids
+const FEFO_LOT = "fefo";
+const NO_LOT = "none";
+
+interface StockMovementDrawerProps {
+  item: StockMovementItem | null;
+  defaultLocation?: string;
+  onOpenChange: (open: boolean) => void;
+  onRecorded?: () => void;
+}
+
+export function StockMovementDrawer({
+  item,
+  defaultLocation = UNASSIGNED_LOCATION,
+  onOpenChange,
+  onRecorded,
+}: StockMovementDrawerProps) {
+  const { user, isManager } = useAuth();
+  const { options: locationOptions, paths: locationPaths } = useLocations();
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<StockTransaction[]>([]);
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    transaction_type: "issue" as TransactionType,
+    quantity: 0,
+    direction: "in" as "in" | "out",
+    reason: "",
+    lot: FEFO_LOT,
+    lot_number: "",
+    expiry_date: "",
+    location: defaultLocation,
+  });
+
+  useEffect(() => {
+    if (item) {
+      fetchTransactions(item.id);
+      fetchLots(item.id);
+    }
+  }, [item]);
+
+  useEffect(() => {
+    setFormData((current) => ({ ...current, location: defaultLocation }));
+  }, [defaultLocation]);
+
+  const fetchTransactions = async (itemId: string) => {
+    setLoading(true);
+    const { data } = await supabase
+      .from("stock_transactions")
+      .select("id, transaction_type, quantity, balance_after, reason, created_at, profiles(full_name), inventory_lots(lot_number), location_id")
+      .eq("item_id", itemId)
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (data) setTransactions(data as StockTransaction[]);
+    setLoading(false);
+  };
+
+  const fetchLots = async (itemId: string) => {
+    const { data } = await supabase
+      .from("inventory_lots")
+      .select("id, lot_number, expiry_date, received_date, quantity, lot_location_stock(location_id, quantity)")
+      .eq("item_id", itemId)
+      .gt("quantity", 0)
+      .order("expiry_date", { ascending: true, nullsFirst: false });
+
+    if (data) setLots(data);
+  };
+
+  // What each lot holds where the movement is recorded: its balance at the
+  // selected location, or the part not held at any location
+  const locationId = formData.location === UNASSIGNED_LOCATION ? null : formData.location;
+  const lotsHere = lots
+    .map((lot) => {
+      const held = lot.lot_location_stock.filter((stock) => locationId === null || stock.location_id === locationId);
+      const heldQuantity = held.reduce((sum, stock) => sum + stock.quantity, 0);
+      return { ...lot, quantity: locationId === null ? lot.quantity - heldQuantity : heldQuantity };
+    })
+    .filter((lot) => lot.quantity > 0);
+
+  const setTransactionType = (type: TransactionType) => {
+    setFormData({ ...formData, transaction_type: type, lot: type === "issue" ? FEFO_LOT : NO_LOT });
+  };
+
+  const recordMovement = async () => {
+    const { transaction_type, quantity, direction, reason, lot } = formData;
+
+    if (transaction_type === "receipt") {
+      return supabase.rpc("receive_stock", {
+        _item_id: item!.id,
+        _quantity: quantity,
+        _lot_number: formData.lot_number || undefined,
+        _expiry_date: formData.expiry_date || undefined,
+        _reason: reason || undefined,
+        _location_id: locationId ?? undefined,
+      });
+    }
+
+    if (transaction_type === "issue" && lot === FEFO_LOT) {
+      return supabase.rpc("issue_stock_fefo", {
+        _item_id: item!.id,
+        _quantity: quantity,
+        _reason: reason || undefined,
+        _location_id: locationId ?? undefined,
+      });
+    }
+
+    return supabase.from("stock_transactions").insert({
+      item_id: item!.id,
+      lot_id: lot === NO_LOT || lot === FEFO_LOT ? null : lot,
+      location_id: locationId,
+      transaction_type,
+      quantity: toSignedQuantity(transaction_type, quantity, direction),
+      reason: reason || null,
+      performed_by: user!.id,
+    });
+  };
+
+  const getExpiryBadge = (expiryDate: string | null) => {
+    if (!expiryDate) return <Badge variant="outline">No expiry</Badge>;
+    const daysLeft = differenceInCalendarDays(new Date(expiryDate), new Date());
+    if (daysLeft < 0) return <Badge variant="destructive">Expired</Badge>;
+    if (daysLeft <= 30) return <Badge className="bg-warning text-white">{daysLeft}d left</Badge>;
+    return <Badge variant="outline">{daysLeft}d left</Badge>;
+  };
+
+  const typeInfo = TRANSACTION_TYPES[formData.transaction_type];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || !user) return;
+
+    if (formData.quantity <= 0) {
+      toast({
+        title: "Invalid quantity",
+        description: "Quantity must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    const { error } = await recordMovement();
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Movement recorded",
+      description: `${typeInfo.label} of ${formData.quantity} units for ${item.item_name}`,
+    });
+    setFormData({ ...formData, quantity: 0, reason: "", lot_number: "", expiry_date: "" });
+    fetchTransactions(item.id);
+    fetchLots(item.id);
+    onRecorded?.();
+  };
+
+  return (
+    <Sheet open={!!item} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{item?.item_name} — Stock Movements</SheetTitle>
+          <SheetDescription>
+            Current balance: {item?.current_stock} units
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-6 p-4 border rounded-lg">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transaction_type">Movement Type</Label>
+              <Select
+                value={formData.transaction_type}
+                onValueChange={(value) => setTransactionType(value as TransactionType)}
+              >
+                <SelectTrigger id="transaction_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(isManager ? MANUAL_TRANSACTION_TYPES : STAFF_TRANSACTION_TYPES).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TRANSACTION_TYPES[type].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movement_quantity">Quantity</Label>
+              <Input
+                id="movement_quantity"
+                type="number"
+                min={1}
+                value={formData.quantity}
+                onChange={(e) =>
+                  setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })
+                }
+                required
+              />
+            </div>
+            {typeInfo.direction === "either" && (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="direction">Direction</Label>
+                <Select
+                  value={formData.direction}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, direction: value as "in" | "out" })
+                  }
+                >
+                  <SelectTrigger id="direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="in">Increase stock</SelectItem>
+                    <SelectItem value="out">Decrease stock</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {formData.transaction_type === "receipt" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="lot_number">Lot Number (optional)</Label>
+                  <Input
+                    id="lot_number"
+                    value={formData.lot_number}
+                    onChange={(e) => setFormData({ ...formData, lot_number: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expiry_date">Expiry Date</Label>
+                  <Input
+                    id="expiry_date"
+                    type="date"
+                    value={formData.expiry_date}
+                    onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
+                    disabled={!formData.lot_number}
+                  />
+                </div>
+              </>
+            ) : (
+              lotsHere.length > 0 && (
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="lot">Lot</Label>
+                  <Select
+                    value={formData.lot}
+                    onValueChange={(value) => setFormData({ ...formData, lot: value })}
+                  >
+                    <SelectTrigger id="lot">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {formData.transaction_type === "issue" ? (
+                        <SelectItem value={FEFO_LOT}>First expiry, first out (automatic)</SelectItem>
+                      ) : (
+                        <SelectItem value={NO_LOT}>Not lot-tracked</SelectItem>
+                      )}
+                      {lotsHere.map((lot) => (
+                        <SelectItem key={lot.id} value={lot.id}>
+                          {lot.lot_number} — {lot.quantity} units
+                          {lot.expiry_date ? `, exp. ${format(new Date(lot.expiry_date), "MMM d, yyyy")}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )
+            )}
+            {locationOptions.length > 0 && (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="movement_location">Location</Label>
+                <LocationSelect
+                  id="movement_location"
+                  value={formData.location}
+                  onChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      location: value,
+                      lot: formData.transaction_type === "issue" ? FEFO_LOT : NO_LOT,
+                    })
+                  }
+                  options={locationOptions}
+                  emptyOption={{ value: UNASSIGNED_LOCATION, label: "Unassigned stock" }}
+                />
+              </div>
+            )}
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="reason">
+                Reason{typeInfo.requiresReason ? "" : " (optional)"}
+              </Label>
+              <Input
+                id="reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g. Issued to Ward 3"
+                required={typeInfo.requiresReason}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={submitting}>
+              {submitting ? "Recording..." : "Record Movement"}
+            </Button>
+          </div>
+        </form>
+
+        {lots.length > 0 && (
+          <div className="mt-6 rounded-lg border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Expiry</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lots.map((lot) => (
+                  <TableRow key={lot.id}>
+                    <TableCell className="font-medium">{lot.lot_number}</TableCell>
+                    <TableCell>{format(new Date(lot.received_date), "MMM d, yyyy")}</TableCell>
+                    <TableCell>
+                      {lot.expiry_date ? format(new Date(lot.expiry_date), "MMM d, yyyy") : "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{lot.quantity}</TableCell>
+                    <TableCell>{getExpiryBadge(lot.expiry_date)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="mt-6 rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Lot</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    Loading history...
+                  </TableCell>
+                </TableRow>
+              ) : transactions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No movements recorded yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                transactions.map((tx) => (
+                  <TableRow key={tx.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(tx.created_at), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {TRANSACTION_TYPES[tx.transaction_type]?.label ?? tx.transaction_type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-semibold ${tx.quantity < 0 ? "text-destructive" : "text-success"}`}
+                    >
+                      {tx.quantity > 0 ? `+${tx.quantity}` : tx.quantity}
+                    </TableCell>
+                    <TableCell className="text-right">{tx.balance_after ?? "—"}</TableCell>
+                    <TableCell>{tx.inventory_lots?.lot_number || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {tx.location_id ? locationPaths[tx.location_id] : "—"}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{tx.reason || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {tx.profiles?.full_name || "System"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
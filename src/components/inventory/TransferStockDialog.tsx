@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { LocationSelect, UNASSIGNED_LOCATION } from "@/components/locations/LocationSelect";
+
+interface TransferStockDialogProps {
+  item: { id: string; item_name: string } | null;
+  locationOptions: { id: string; label: string }[];
+  defaultFromLocation?: string;
+  onOpenChange: (open: boolean) => void;
+  onTransferred?: () => void;
+}
+
+export function TransferStockDialog({
+  item,
+  locationOptions,
+  defaultFromLocation = UNASSIGNED_LOCATION,
+  onOpenChange,
+  onTransferred,
+}: TransferStockDialogProps) {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    from_location: defaultFromLocation,
+    to_location: "",
+    quantity: 0,
+    reason: "",
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    setSubmitting(true);
+    const { error } = await supabase.rpc("transfer_stock", {
+      _item_id: item.id,
+      _from_location_id: formData.from_location === UNASSIGNED_LOCATION ? null : formData.from_location,
+      _to_location_id: formData.to_location,
+      _quantity: formData.quantity,
+      _reason: formData.reason || undefined,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Transfer failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Stock transferred",
+      description: `Moved ${formData.quantity} units of ${item.item_name}`,
+    });
+    setFormData({ ...formData, quantity: 0, reason: "" });
+    onTransferred?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer {item?.item_name}</DialogTitle>
+          <DialogDescription>
+            Move stock between locations. Both sides are recorded in the stock ledger.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="from_location">From</Label>
+            <LocationSelect
+              id="from_location"
+              value={formData.from_location}
+              onChange={(value) => setFormData({ ...formData, from_location: value })}
+              options={locationOptions}
+              emptyOption={{ value: UNASSIGNED_LOCATION, label: "Unassigned stock" }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="to_location">To</Label>
+            <LocationSelect
+              id="to_location"
+              value={formData.to_location}
+              onChange={(value) => setFormData({ ...formData, to_location: value })}
+              options={locationOptions.filter((option) => option.id !== formData.from_location)}
+              emptyOption={null}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer_quantity">Quantity</Label>
+              <Input
+                id="transfer_quantity"
+                type="number"
+                min={1}
+                value={formData.quantity}
+                onChange={(e) =>
+                  setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer_reason">Reason (optional)</Label>
+              <Input
+                id="transfer_reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting || !formData.to_location || formData.quantity <= 0}
+            >
+              {submitting ? "Transferring..." : "Transfer"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MapPin } from "lucide-react";
+
+export const ALL_LOCATIONS = "all";
+export const UNASSIGNED_LOCATION = "unassigned";
+
+interface LocationSelectProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: { id: string; label: string }[];
+  // Catch-all first option ("All locations", "Unassigned", ...); null hides it
+  emptyOption?: { value: string; label: string } | null;
+  className?: string;
+}
+
+export function LocationSelect({
+  id,
+  value,
+  onChange,
+  options,
+  emptyOption = { value: ALL_LOCATIONS, label: "All locations" },
+  className,
+}: LocationSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className={className}>
+        <div className="flex items-center gap-2 truncate">
+          <MapPin className="h-4 w-4 text-muted-foreground shrink-0" />
+          <SelectValue placeholder="Select a location..." />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {emptyOption && <SelectItem value={emptyOption.value}>{emptyOption.label}</SelectItem>}
+        {options.map((option) => (
+          <SelectItem key={option.id} value={option.id}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
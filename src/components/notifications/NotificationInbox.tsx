@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, AlertTriangle, Bell, Info } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface Notification {
+  id: string;
+  alert_id: string | null;
+  title: string;
+  message: string;
+  severity: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+// The inbox shows the latest notifications; older ones stay on the Alerts page
+const INBOX_SIZE = 30;
+
+const severityIcon = (severity: string) => {
+  switch (severity) {
+    case "critical":
+      return <AlertCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />;
+    case "warning":
+      return <AlertTriangle className="h-4 w-4 text-warning shrink-0 mt-0.5" />;
+    default:
+      return <Info className="h-4 w-4 text-primary shrink-0 mt-0.5" />;
+  }
+};
+
+export function NotificationInbox() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchNotifications();
+
+    const channel = supabase
+      .channel("notifications-inbox")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const fetchNotifications = async () => {
+    const { data } = await supabase
+      .from("notifications")
+      .select("id, alert_id, title, message, severity, read_at, created_at")
+      .order("created_at", { ascending: false })
+      .limit(INBOX_SIZE);
+
+    if (data) setNotifications(data);
+  };
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    const { error } = await supabase.from("notifications").update({ read_at: readAt }).in("id", ids);
+    if (!error) {
+      setNotifications((current) =>
+        current.map((notification) => (ids.includes(notification.id) ? { ...notification, read_at: readAt } : notification))
+      );
+    }
+  };
+
+  const openNotification = (notification: Notification) => {
+    markRead(notification.read_at ? [] : [notification.id]);
+    setOpen(false);
+    if (notification.alert_id) navigate("/alerts");
+  };
+
+  const unread = notifications.filter((notification) => !notification.read_at);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[0.65rem] font-medium flex items-center justify-center">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-semibold">Notifications</span>
+          {unread.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => markRead(unread.map((notification) => notification.id))}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-sm text-center text-muted-foreground">No notifications yet</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => openNotification(notification)}
+                className={`flex w-full gap-3 px-4 py-3 text-left border-b last:border-b-0 hover:bg-muted/50 ${
+                  notification.read_at ? "opacity-70" : "bg-primary/5"
+                }`}
+              >
+                {severityIcon(notification.severity)}
+                <div className="flex-1 space-y-1">
+                  <p className="text-sm font-medium leading-tight">{notification.title}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,66 @@
+import { Area, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+
+export interface DailyForecast {
+  forecast_date: string;
+  forecast_quantity: number;
+  lower_80: number | null;
+  upper_80: number | null;
+  lower_95: number | null;
+  upper_95: number | null;
+}
+
+interface ForecastBandChartProps {
+  forecasts: DailyForecast[];
+  height?: number;
+}
+
+// Daily forecast line with the 95% and 80% intervals as nested shaded bands
+export function ForecastBandChart({ forecasts, height = 140 }: ForecastBandChartProps) {
+  const chartData = [...forecasts]
+    .sort((a, b) => a.forecast_date.localeCompare(b.forecast_date))
+    .map((day) => ({
+      date: format(new Date(day.forecast_date), "MMM d"),
+      forecast: Math.round(day.forecast_quantity),
+      band95: day.lower_95 != null && day.upper_95 != null ? [day.lower_95, day.upper_95] : null,
+      band80: day.lower_80 != null && day.upper_80 != null ? [day.lower_80, day.upper_80] : null,
+    }));
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={chartData}>
+        <XAxis dataKey="date" fontSize={11} tickLine={false} />
+        <YAxis fontSize={11} width={40} tickLine={false} />
+        <Tooltip
+          formatter={(value: number | number[], name: string) =>
+            Array.isArray(value) ? [`${Math.round(value[0])} – ${Math.round(value[1])}`, name] : [value, name]
+          }
+        />
+        <Area
+          type="monotone"
+          dataKey="band95"
+          stroke="none"
+          fill="hsl(var(--primary))"
+          fillOpacity={0.12}
+          name="95% interval"
+        />
+        <Area
+          type="monotone"
+          dataKey="band80"
+          stroke="none"
+          fill="hsl(var(--primary))"
+          fillOpacity={0.25}
+          name="80% interval"
+        />
+        <Line
+          type="monotone"
+          dataKey="forecast"
+          stroke="hsl(var(--primary))"
+          strokeWidth={2}
+          dot={false}
+          name="Forecast"
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,40 @@
+import { ForecastEffect } from "@/lib/forecastCalendar";
+
+interface ForecastEffectsListProps {
+  effects: ForecastEffect[];
+  // Forecast demand over the horizon, effects included
+  estimatedDemand: number;
+}
+
+const signedUnits = (value: number) => `${value >= 0 ? "+" : "−"}${Math.abs(value).toFixed(0)}`;
+
+// What moved a forecast away from the smoothing model's level, largest first
+export function ForecastEffectsList({ effects, estimatedDemand }: ForecastEffectsListProps) {
+  if (effects.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Smoothing only: no weekday, time-of-year, calendar or regressor effect improved the fit
+      </p>
+    );
+  }
+
+  const baseline = estimatedDemand - effects.reduce((sum, effect) => sum + effect.units, 0);
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="text-muted-foreground">What drove this forecast</p>
+      <div className="flex justify-between gap-4">
+        <span>Underlying level</span>
+        <span className="font-medium">{Math.max(0, baseline).toFixed(0)}</span>
+      </div>
+      {effects.map((effect) => (
+        <div key={`${effect.kind}:${effect.label}`} className="flex justify-between gap-4">
+          <div>
+            <span>{effect.label}</span>
+            <p className="text-xs text-muted-foreground">{effect.detail}</p>
+          </div>
+          <span className="font-medium">{signedUnits(effect.units)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
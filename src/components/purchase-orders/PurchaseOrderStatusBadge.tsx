@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { PO_STATUS_LABELS, PurchaseOrderStatus } from "@/lib/purchaseOrders";
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: "",
+  approved: "bg-primary text-primary-foreground",
+  sent: "bg-secondary text-secondary-foreground",
+  partially_received: "bg-warning text-white",
+  closed: "bg-success text-white",
+  cancelled: "",
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  return (
+    <Badge
+      variant={status === "draft" || status === "cancelled" ? "outline" : "default"}
+      className={STATUS_CLASSES[status]}
+    >
+      {PO_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
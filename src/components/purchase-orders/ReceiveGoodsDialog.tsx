@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { LocationSelect, UNASSIGNED_LOCATION } from "@/components/locations/LocationSelect";
+import { outstandingQuantity } from "@/lib/purchaseOrders";
+
+interface ReceivableLine {
+  id: string;
+  item_id: string;
+  item_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+}
+
+interface ReceiptLineInput {
+  key: string;
+  purchase_order_line_id: string | null;
+  item_id: string;
+  quantity_received: number;
+  quantity_damaged: number;
+  quantity_short: number;
+  lot_number: string;
+  expiry_date: string;
+}
+
+interface ReceiveGoodsDialogProps {
+  open: boolean;
+  order: { id: string; po_number: string; location_id: string | null };
+  lines: ReceivableLine[];
+  items: { id: string; item_name: string }[];
+  locationOptions: { id: string; label: string }[];
+  onOpenChange: (open: boolean) => void;
+  onReceived?: () => void;
+}
+
+export function ReceiveGoodsDialog({
+  open,
+  order,
+  lines,
+  items,
+  locationOptions,
+  onOpenChange,
+  onReceived,
+}: ReceiveGoodsDialogProps) {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState(false);
+  const [location, setLocation] = useState(order.location_id ?? UNASSIGNED_LOCATION);
+  const [deliveryReference, setDeliveryReference] = useState("");
+  const [isFinal, setIsFinal] = useState(false);
+  // Every open line starts out as received in full
+  const [receiptLines, setReceiptLines] = useState<ReceiptLineInput[]>(() =>
+    lines
+      .filter((line) => outstandingQuantity(line) > 0)
+      .map((line) => ({
+        key: line.id,
+        purchase_order_line_id: line.id,
+        item_id: line.item_id,
+        quantity_received: outstandingQuantity(line),
+        quantity_damaged: 0,
+        quantity_short: 0,
+        lot_number: "",
+        expiry_date: "",
+      }))
+  );
+
+  const updateLine = (key: string, changes: Partial<ReceiptLineInput>) => {
+    setReceiptLines(receiptLines.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  // Something arrived that is not on the order
+  const addUnexpectedLine = () => {
+    setReceiptLines([
+      ...receiptLines,
+      {
+        key: crypto.randomUUID(),
+        purchase_order_line_id: null,
+        item_id: "",
+        quantity_received: 1,
+        quantity_damaged: 0,
+        quantity_short: 0,
+        lot_number: "",
+        expiry_date: "",
+      },
+    ]);
+  };
+
+  const orderLine = (line: ReceiptLineInput) =>
+    lines.find((candidate) => candidate.id === line.purchase_order_line_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = receiptLines
+      .filter((line) => line.item_id)
+      .filter((line) => line.quantity_received + line.quantity_damaged + line.quantity_short > 0)
+      .map(({ key: _key, ...line }) => ({
+        ...line,
+        lot_number: line.lot_number || null,
+        expiry_date: line.expiry_date || null,
+      }));
+
+    if (payload.length === 0 && !isFinal) {
+      toast({
+        title: "Nothing to receive",
+        description: "Enter a quantity on at least one line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    const { data, error } = await supabase.rpc("receive_purchase_order", {
+      _purchase_order_id: order.id,
+      _lines: payload,
+      _location_id: location === UNASSIGNED_LOCATION ? undefined : location,
+      _delivery_reference: deliveryReference || undefined,
+      _final: isFinal,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Receiving failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Delivery received",
+      description: `${data.receipt_number} recorded against ${order.po_number}`,
+    });
+    onReceived?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Delivery for {order.po_number}</DialogTitle>
+          <DialogDescription>
+            Accepted units are booked into stock. Damaged, short-shipped and unexpected items are
+            recorded and flagged to the inventory manager.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="receive_location">Receive Into</Label>
+              <LocationSelect
+                id="receive_location"
+                value={location}
+                onChange={setLocation}
+                options={locationOptions}
+                emptyOption={{ value: UNASSIGNED_LOCATION, label: "No specific location" }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delivery_reference">Delivery Note / Reference</Label>
+              <Input
+                id="delivery_reference"
+                value={deliveryReference}
+                onChange={(e) => setDeliveryReference(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead>Accepted</TableHead>
+                  <TableHead>Damaged</TableHead>
+                  <TableHead>Short</TableHead>
+                  <TableHead>Lot Number</TableHead>
+                  <TableHead>Expiry</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receiptLines.map((line) => {
+                  const ordered = orderLine(line);
+                  return (
+                    <TableRow key={line.key}>
+                      <TableCell className="font-medium min-w-48">
+                        {ordered ? (
+                          ordered.item_name
+                        ) : (
+                          <Select
+                            value={line.item_id}
+                            onValueChange={(value) => updateLine(line.key, { item_id: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Unexpected item..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {items.map((item) => (
+                                <SelectItem key={item.id} value={item.id}>
+                                  {item.item_name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {ordered ? outstandingQuantity(ordered) : "—"}
+                      </TableCell>
+                      {(["quantity_received", "quantity_damaged", "quantity_short"] as const).map((field) => (
+                        <TableCell key={field}>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-20"
+                            value={line[field]}
+                            onChange={(e) =>
+                              updateLine(line.key, { [field]: Math.max(0, parseInt(e.target.value) || 0) })
+                            }
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <Input
+                          className="w-32"
+                          value={line.lot_number}
+                          onChange={(e) => updateLine(line.key, { lot_number: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="date"
+                          value={line.expiry_date}
+                          onChange={(e) => updateLine(line.key, { expiry_date: e.target.value })}
+                          disabled={!line.lot_number}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {!ordered && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setReceiptLines(receiptLines.filter((candidate) => candidate.key !== line.key))
+                            }
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Button type="button" variant="outline" size="sm" className="gap-2" onClick={addUnexpectedLine}>
+            <Plus className="h-4 w-4" />
+            Add Item Not on Order
+          </Button>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="final_delivery"
+              checked={isFinal}
+              onCheckedChange={(checked) => setIsFinal(checked === true)}
+            />
+            <Label htmlFor="final_delivery" className="font-normal">
+              Final delivery: close the order and report anything still outstanding as under-delivered
+            </Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? "Receiving..." : "Receive Delivery"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
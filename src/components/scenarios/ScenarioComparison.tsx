@@ -0,0 +1,160 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Columns3 } from "lucide-react";
+import { format } from "date-fns";
+import { DemandScenario, RunSummary, ScenarioResult, SimulatedItem } from "@/lib/scenarios";
+
+interface ScenarioComparisonProps {
+  // Scenarios with a result, in the order to show them
+  scenarios: (DemandScenario & { result: ScenarioResult })[];
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+const signedMoney = (value: number) => `${value > 0 ? "+" : value < 0 ? "−" : ""}$${Math.abs(value).toFixed(2)}`;
+
+const METRICS: { label: string; value: (result: ScenarioResult) => string }[] = [
+  {
+    label: "Items stocking out",
+    value: ({ totals }) => `${totals.scenario_stockout_items} (forecast: ${totals.baseline_stockout_items})`,
+  },
+  {
+    label: "Units short",
+    value: ({ totals }) => `${totals.scenario_units_short.toFixed(0)} (forecast: ${totals.baseline_units_short.toFixed(0)})`,
+  },
+  {
+    label: "Orders required",
+    value: ({ totals }) => `${totals.scenario_order_count} (forecast: ${totals.baseline_order_count})`,
+  },
+  { label: "Order spend", value: ({ totals }) => money(totals.scenario_spend) },
+  { label: "Extra spend", value: ({ totals }) => signedMoney(totals.extra_spend) },
+];
+
+const describeRun = (run: RunSummary) =>
+  run.stockout_date ? `Out ${format(new Date(run.stockout_date), "MMM d")}` : "No stockout";
+
+export function ScenarioComparison({ scenarios }: ScenarioComparisonProps) {
+  // Every item any compared scenario affects, soonest stockout first
+  const itemsById = new Map<string, SimulatedItem>();
+  for (const scenario of scenarios) {
+    for (const item of scenario.result.items) {
+      if (!itemsById.has(item.item_id)) itemsById.set(item.item_id, item);
+    }
+  }
+  const firstStockout = (itemId: string) =>
+    scenarios
+      .map((scenario) => scenario.result.items.find((item) => item.item_id === itemId)?.scenario.stockout_date)
+      .filter((date): date is string => !!date)
+      .sort()[0] ?? "9999";
+  const itemIds = [...itemsById.keys()].sort(
+    (a, b) => firstStockout(a).localeCompare(firstStockout(b)) || itemsById.get(a)!.item_name.localeCompare(itemsById.get(b)!.item_name)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Side by Side
+        </CardTitle>
+        <CardDescription>
+          Each scenario against the current forecast, replayed through today's reorder points and order
+          quantities. Demand stock cannot meet counts as short.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                {scenarios.map((scenario) => (
+                  <TableHead key={scenario.id}>
+                    {scenario.name}
+                    <div className="text-xs font-normal">
+                      {format(new Date(scenario.result.start_date), "MMM d")} –{" "}
+                      {format(new Date(scenario.result.end_date), "MMM d")}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {METRICS.map((metric) => (
+                <TableRow key={metric.label}>
+                  <TableCell className="font-medium">{metric.label}</TableCell>
+                  {scenarios.map((scenario) => (
+                    <TableCell key={scenario.id}>{metric.value(scenario.result)}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                {scenarios.map((scenario) => (
+                  <TableHead key={scenario.id}>{scenario.name}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {itemIds.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={scenarios.length + 1} className="text-center text-muted-foreground">
+                    No item is affected by these scenarios
+                  </TableCell>
+                </TableRow>
+              ) : (
+                itemIds.map((itemId) => (
+                  <TableRow key={itemId}>
+                    <TableCell className="font-medium">
+                      {itemsById.get(itemId)!.item_name}
+                      <div className="text-xs text-muted-foreground">{itemsById.get(itemId)!.item_type}</div>
+                    </TableCell>
+                    {scenarios.map((scenario) => {
+                      const item = scenario.result.items.find((candidate) => candidate.item_id === itemId);
+                      if (!item) {
+                        return (
+                          <TableCell key={scenario.id} className="text-muted-foreground">
+                            Unaffected
+                          </TableCell>
+                        );
+                      }
+                      return (
+                        <TableCell key={scenario.id} className="text-sm">
+                          <span className={item.scenario.stockout_date ? "text-destructive font-medium" : ""}>
+                            {describeRun(item.scenario)}
+                          </span>
+                          {item.scenario.units_short > 0 && `, ${item.scenario.units_short.toFixed(0)} short`}
+                          <div className="text-xs text-muted-foreground">
+                            {item.orders.length} {item.orders.length === 1 ? "order" : "orders"}
+                            {item.orders.length > 0 && ` (first ${format(new Date(item.orders[0].order_date), "MMM d")})`}
+                            {" · "}
+                            {signedMoney(item.extra_spend)}
+                          </div>
+                          <div className="text-xs text-muted-foreground">Forecast: {describeRun(item.baseline)}</div>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,423 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { ITEM_TYPES } from "@/lib/costParameters";
+import { buildLocationPaths, Location } from "@/lib/locations";
+import {
+  DemandMultiplier,
+  DemandMultiplierScope,
+  DemandScenario,
+  LeadTimeShock,
+  LeadTimeShockScope,
+  MULTIPLIER_SCOPES,
+  SHOCK_SCOPES,
+} from "@/lib/scenarios";
+
+interface ScenarioEditorProps {
+  // null creates a new scenario
+  scenario: DemandScenario | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Numbers are edited as text so a field can be cleared while typing
+interface MultiplierRow {
+  scope: DemandMultiplierScope;
+  target: string;
+  multiplier: string;
+  start_day: string;
+  duration_days: string;
+}
+
+interface ShockRow {
+  scope: LeadTimeShockScope;
+  target: string;
+  extra_days: string;
+  start_day: string;
+  duration_days: string;
+}
+
+const DEFAULT_HORIZON_DAYS = 28;
+
+const toMultiplierRow = (multiplier: DemandMultiplier): MultiplierRow => ({
+  scope: multiplier.scope,
+  target: multiplier.target,
+  multiplier: String(multiplier.multiplier),
+  start_day: String(multiplier.start_day),
+  duration_days: String(multiplier.duration_days),
+});
+
+const toShockRow = (shock: LeadTimeShock): ShockRow => ({
+  scope: shock.scope,
+  target: shock.target ?? "",
+  extra_days: String(shock.extra_days),
+  start_day: String(shock.start_day),
+  duration_days: String(shock.duration_days),
+});
+
+export function ScenarioEditor({ scenario, open, onOpenChange, onSaved }: ScenarioEditorProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [horizonDays, setHorizonDays] = useState(String(DEFAULT_HORIZON_DAYS));
+  const [multipliers, setMultipliers] = useState<MultiplierRow[]>([]);
+  const [shocks, setShocks] = useState<ShockRow[]>([]);
+  const [items, setItems] = useState<{ id: string; item_name: string }[]>([]);
+  const [locationPaths, setLocationPaths] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchTargets();
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(scenario?.name ?? "");
+    setDescription(scenario?.description ?? "");
+    setHorizonDays(String(scenario?.horizon_days ?? DEFAULT_HORIZON_DAYS));
+    setMultipliers((scenario?.demand_multipliers ?? []).map(toMultiplierRow));
+    setShocks((scenario?.lead_time_shocks ?? []).map(toShockRow));
+  }, [open, scenario]);
+
+  const fetchTargets = async () => {
+    const [{ data: itemData }, { data: locationData }] = await Promise.all([
+      supabase.from("inventory_items").select("id, item_name").order("item_name"),
+      supabase.from("locations").select("*").eq("is_active", true),
+    ]);
+    if (itemData) setItems(itemData);
+    if (locationData) setLocationPaths(buildLocationPaths(locationData as Location[]));
+  };
+
+  const targetOptions = (scope: DemandMultiplierScope | LeadTimeShockScope) => {
+    if (scope === "item") return items.map((item) => ({ value: item.id, label: item.item_name }));
+    if (scope === "location") {
+      return Object.entries(locationPaths)
+        .map(([id, path]) => ({ value: id, label: path }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+    }
+    if (scope === "item_type") return ITEM_TYPES.map((type) => ({ value: type, label: type }));
+    return [];
+  };
+
+  const updateMultiplier = (index: number, changes: Partial<MultiplierRow>) =>
+    setMultipliers(multipliers.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const updateShock = (index: number, changes: Partial<ShockRow>) =>
+    setShocks(shocks.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const save = async () => {
+    const horizon = Number(horizonDays);
+    if (!name.trim()) {
+      toast({ title: "Invalid scenario", description: "Give the scenario a name", variant: "destructive" });
+      return;
+    }
+    if (!Number.isInteger(horizon) || horizon < 1 || horizon > 365) {
+      toast({ title: "Invalid scenario", description: "Horizon must be 1 to 365 days", variant: "destructive" });
+      return;
+    }
+
+    const window = (row: { start_day: string; duration_days: string }) => ({
+      start_day: Number(row.start_day),
+      duration_days: Number(row.duration_days),
+    });
+    const validWindow = ({ start_day, duration_days }: { start_day: number; duration_days: number }) =>
+      Number.isInteger(start_day) && start_day >= 1 && Number.isInteger(duration_days) && duration_days >= 1;
+
+    const demandMultipliers: DemandMultiplier[] = multipliers.map((row) => ({
+      scope: row.scope,
+      target: row.target,
+      multiplier: Number(row.multiplier),
+      ...window(row),
+    }));
+    if (demandMultipliers.some((row) => !row.target || !(row.multiplier >= 0) || !validWindow(row))) {
+      toast({
+        title: "Invalid demand change",
+        description: "Each needs a target, a multiplier of 0 or more, a start day from 1 and a duration of at least a day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const leadTimeShocks: LeadTimeShock[] = shocks.map((row) => ({
+      scope: row.scope,
+      target: row.scope === "all" ? null : row.target,
+      extra_days: Number(row.extra_days),
+      ...window(row),
+    }));
+    if (leadTimeShocks.some((row) => (row.scope !== "all" && !row.target) || !(row.extra_days > 0) || !validWindow(row))) {
+      toast({
+        title: "Invalid lead-time shock",
+        description: "Each needs a target, extra days above 0, a start day from 1 and a duration of at least a day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      name: name.trim(),
+      description: description.trim() || null,
+      horizon_days: horizon,
+      demand_multipliers: demandMultipliers,
+      lead_time_shocks: leadTimeShocks,
+    };
+    const { error } = scenario
+      ? await supabase.from("demand_scenarios").update(payload).eq("id", scenario.id)
+      : await supabase.from("demand_scenarios").insert({ ...payload, created_by: user?.id });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Scenario Saved", description: scenario ? "Run it again to refresh the results" : undefined });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{scenario ? "Edit Scenario" : "New Scenario"}</DialogTitle>
+          <DialogDescription>
+            Days count from tomorrow (day 1). Multipliers scale forecast demand, e.g. 1.6 for a 60% rise;
+            lead-time shocks delay orders placed during their window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="scenario_name">Name</Label>
+              <Input
+                id="scenario_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Flu season surge"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenario_horizon">Horizon (days)</Label>
+              <Input
+                id="scenario_horizon"
+                type="number"
+                min={1}
+                max={365}
+                value={horizonDays}
+                onChange={(e) => setHorizonDays(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scenario_description">Description</Label>
+            <Textarea
+              id="scenario_description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this scenario plans for"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Demand Changes</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() =>
+                  setMultipliers([
+                    ...multipliers,
+                    { scope: "item_type", target: "", multiplier: "1.5", start_day: "1", duration_days: "7" },
+                  ])
+                }
+              >
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {multipliers.length === 0 && (
+              <p className="text-sm text-muted-foreground">Demand follows the current forecast</p>
+            )}
+            {multipliers.map((row, index) => (
+              <div key={index} className="grid grid-cols-[130px_1fr_80px_70px_80px_auto] gap-2 items-end">
+                <Select
+                  value={row.scope}
+                  onValueChange={(value) => updateMultiplier(index, { scope: value as DemandMultiplierScope, target: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MULTIPLIER_SCOPES.map((scope) => (
+                      <SelectItem key={scope.value} value={scope.value}>{scope.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={row.target} onValueChange={(value) => updateMultiplier(index, { target: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targetOptions(row.scope).map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Multiplier</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    value={row.multiplier}
+                    onChange={(e) => updateMultiplier(index, { multiplier: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">From day</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.start_day}
+                    onChange={(e) => updateMultiplier(index, { start_day: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">For days</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.duration_days}
+                    onChange={(e) => updateMultiplier(index, { duration_days: e.target.value })}
+                  />
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setMultipliers(multipliers.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Lead-Time Shocks</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() =>
+                  setShocks([...shocks, { scope: "all", target: "", extra_days: "7", start_day: "1", duration_days: "14" }])
+                }
+              >
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {shocks.length === 0 && (
+              <p className="text-sm text-muted-foreground">Orders arrive after the usual lead time</p>
+            )}
+            {shocks.map((row, index) => (
+              <div key={index} className="grid grid-cols-[130px_1fr_80px_70px_80px_auto] gap-2 items-end">
+                <Select
+                  value={row.scope}
+                  onValueChange={(value) => updateShock(index, { scope: value as LeadTimeShockScope, target: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHOCK_SCOPES.map((scope) => (
+                      <SelectItem key={scope.value} value={scope.value}>{scope.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {row.scope === "all" ? (
+                  <div />
+                ) : (
+                  <Select value={row.target} onValueChange={(value) => updateShock(index, { target: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targetOptions(row.scope).map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Extra days</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.extra_days}
+                    onChange={(e) => updateShock(index, { extra_days: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">From day</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.start_day}
+                    onChange={(e) => updateShock(index, { start_day: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">For days</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.duration_days}
+                    onChange={(e) => updateShock(index, { duration_days: e.target.value })}
+                  />
+                </div>
+                <Button size="icon" variant="ghost" onClick={() => setShocks(shocks.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
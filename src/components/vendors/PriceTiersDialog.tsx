@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { DISCOUNT_TYPES, DiscountType } from "@/lib/vendors";
+
+export interface PriceTierLink {
+  id: string;
+  item_name: string;
+  unit_price: number;
+  discount_type: DiscountType;
+}
+
+interface TierInput {
+  min_quantity: string;
+  unit_price: string;
+}
+
+interface PriceTiersDialogProps {
+  link: PriceTierLink | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export function PriceTiersDialog({ link, onOpenChange, onSaved }: PriceTiersDialogProps) {
+  const { toast } = useToast();
+  const [discountType, setDiscountType] = useState<DiscountType>("all_units");
+  const [tiers, setTiers] = useState<TierInput[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!link) return;
+    setDiscountType(link.discount_type);
+    setTiers([]);
+    fetchTiers(link.id);
+  }, [link]);
+
+  const fetchTiers = async (itemVendorId: string) => {
+    const { data } = await supabase
+      .from("vendor_price_tiers")
+      .select("min_quantity, unit_price")
+      .eq("item_vendor_id", itemVendorId)
+      .order("min_quantity");
+
+    if (data) {
+      setTiers(
+        data.map((tier) => ({
+          min_quantity: String(tier.min_quantity),
+          unit_price: String(tier.unit_price),
+        }))
+      );
+    }
+  };
+
+  const updateTier = (index: number, field: keyof TierInput, value: string) => {
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const validationError = (): string | null => {
+    const quantities = new Set<number>();
+    for (const tier of tiers) {
+      const quantity = Number(tier.min_quantity);
+      if (!Number.isInteger(quantity) || quantity <= 1) {
+        return "Each break must start at a whole quantity above 1";
+      }
+      if (tier.unit_price.trim() === "" || !(Number(tier.unit_price) >= 0)) {
+        return "Each break needs a price of 0 or more";
+      }
+      if (quantities.has(quantity)) {
+        return `More than one break starts at ${quantity}`;
+      }
+      quantities.add(quantity);
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!link) return;
+    const error = validationError();
+    if (error) {
+      toast({ title: "Invalid price breaks", description: error, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: typeError } = await supabase
+        .from("item_vendors")
+        .update({ discount_type: discountType })
+        .eq("id", link.id);
+      if (typeError) throw typeError;
+
+      // Replace the schedule as a whole
+      const { error: deleteError } = await supabase
+        .from("vendor_price_tiers")
+        .delete()
+        .eq("item_vendor_id", link.id);
+      if (deleteError) throw deleteError;
+
+      if (tiers.length > 0) {
+        const { error: insertError } = await supabase.from("vendor_price_tiers").insert(
+          tiers.map((tier) => ({
+            item_vendor_id: link.id,
+            min_quantity: Number(tier.min_quantity),
+            unit_price: Number(tier.unit_price),
+          }))
+        );
+        if (insertError) throw insertError;
+      }
+
+      toast({ title: "Price breaks saved" });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save price breaks",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={link !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Price Breaks: {link?.item_name}</DialogTitle>
+          <DialogDescription>
+            Quantity discounts from this vendor. Orders below the first break pay the unit price of $
+            {Number(link?.unit_price ?? 0).toFixed(2)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="discount_type">Discount Type</Label>
+            <Select value={discountType} onValueChange={(value) => setDiscountType(value as DiscountType)}>
+              <SelectTrigger id="discount_type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISCOUNT_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {DISCOUNT_TYPES.find((type) => type.value === discountType)?.help}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm font-medium">
+              <span>From Quantity</span>
+              <span>Unit Price ($)</span>
+              <span className="w-9" />
+            </div>
+            {tiers.length === 0 && (
+              <p className="text-sm text-muted-foreground">No price breaks</p>
+            )}
+            {tiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <Input
+                  type="number"
+                  min={2}
+                  step="1"
+                  value={tier.min_quantity}
+                  onChange={(e) => updateTier(index, "min_quantity", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={tier.unit_price}
+                  onChange={(e) => updateTier(index, "unit_price", e.target.value)}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setTiers([...tiers, { min_quantity: "", unit_price: "" }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add Break
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
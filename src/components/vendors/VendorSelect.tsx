@@ -0,0 +1,49 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Truck } from "lucide-react";
+import { Vendor } from "@/lib/vendors";
+
+export const NO_VENDOR = "none";
+
+interface VendorSelectProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  vendors: Vendor[];
+  // Catch-all first option ("No vendor", "All vendors", ...); null hides it
+  emptyOption?: { value: string; label: string } | null;
+  className?: string;
+}
+
+export function VendorSelect({
+  id,
+  value,
+  onChange,
+  vendors,
+  emptyOption = { value: NO_VENDOR, label: "No vendor" },
+  className,
+}: VendorSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className={className}>
+        <div className="flex items-center gap-2 truncate">
+          <Truck className="h-4 w-4 text-muted-foreground shrink-0" />
+          <SelectValue placeholder="Select a vendor..." />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {emptyOption && <SelectItem value={emptyOption.value}>{emptyOption.label}</SelectItem>}
+        {vendors.map((vendor) => (
+          <SelectItem key={vendor.id} value={vendor.id}>
+            {vendor.name} ({vendor.vendor_code})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Location, buildLocationPaths } from "@/lib/locations";
+
+export function useLocations() {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLocations = useCallback(async () => {
+    const { data } = await supabase
+      .from("locations")
+      .select("id, parent_id, name, code, location_type, is_active")
+      .order("name");
+
+    if (data) setLocations(data as Location[]);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const paths = useMemo(() => buildLocationPaths(locations), [locations]);
+
+  // Active locations sorted by their full path, for pickers
+  const options = useMemo(
+    () =>
+      locations
+        .filter((location) => location.is_active)
+        .map((location) => ({ id: location.id, label: paths[location.id] }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [locations, paths]
+  );
+
+  return { locations, paths, options, loading, refetch: fetchLocations };
+}
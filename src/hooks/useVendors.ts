@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Vendor } from "@/lib/vendors";
+
+export function useVendors() {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchVendors = useCallback(async () => {
+    const { data } = await supabase.from("vendors").select("*").order("name");
+
+    if (data) setVendors(data);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchVendors();
+  }, [fetchVendors]);
+
+  const activeVendors = useMemo(() => vendors.filter((vendor) => vendor.is_active), [vendors]);
+
+  return { vendors, activeVendors, loading, refetch: fetchVendors };
+}
@@ -52,74 +52,171 @@ export type Database = {
           created_at: string
           id: string
           is_enabled: boolean | null
+          item_id: string | null
+          item_type: string | null
           notification_channels: string[] | null
           recipient_roles: string[] | null
+          severity: string
           threshold_type: string | null
           threshold_value: number | null
           updated_at: string
+          updated_by: string | null
         }
         Insert: {
           alert_type: string
           created_at?: string
           id?: string
           is_enabled?: boolean | null
+          item_id?: string | null
+          item_type?: string | null
           notification_channels?: string[] | null
           recipient_roles?: string[] | null
+          severity?: string
           threshold_type?: string | null
           threshold_value?: number | null
           updated_at?: string
+          updated_by?: string | null
         }
         Update: {
           alert_type?: string
           created_at?: string
           id?: string
           is_enabled?: boolean | null
+          item_id?: string | null
+          item_type?: string | null
           notification_channels?: string[] | null
           recipient_roles?: string[] | null
+          severity?: string
           threshold_type?: string | null
           threshold_value?: number | null
           updated_at?: string
+          updated_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "alert_configurations_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_events: {
+        Row: {
+          actor: string | null
+          alert_id: string
+          created_at: string
+          details: Json | null
+          event_type: string
+          id: string
+        }
+        Insert: {
+          actor?: string | null
+          alert_id: string
+          created_at?: string
+          details?: Json | null
+          event_type: string
+          id?: string
+        }
+        Update: {
+          actor?: string | null
+          alert_id?: string
+          created_at?: string
+          details?: Json | null
+          event_type?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts_history"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       alerts_history: {
         Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
           alert_type: string
+          assigned_at: string | null
+          assigned_to: string | null
           created_at: string
+          escalated_at: string | null
+          escalation_level: number
           id: string
           is_read: boolean | null
           item_id: string | null
+          last_seen_at: string
           message: string
           metadata: Json | null
+          occurrence_count: number
+          opened_at: string
+          recipient_roles: string[]
+          reopened_count: number
+          resolution_note: string | null
           resolved_at: string | null
           resolved_by: string | null
           severity: string
+          snoozed_until: string | null
+          status: string
           title: string
         }
         Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
           alert_type: string
+          assigned_at?: string | null
+          assigned_to?: string | null
           created_at?: string
+          escalated_at?: string | null
+          escalation_level?: number
           id?: string
           is_read?: boolean | null
           item_id?: string | null
+          last_seen_at?: string
           message: string
           metadata?: Json | null
+          occurrence_count?: number
+          opened_at?: string
+          recipient_roles?: string[]
+          reopened_count?: number
+          resolution_note?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
           severity: string
+          snoozed_until?: string | null
+          status?: string
           title: string
         }
         Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
           alert_type?: string
+          assigned_at?: string | null
+          assigned_to?: string | null
           created_at?: string
+          escalated_at?: string | null
+          escalation_level?: number
           id?: string
           is_read?: boolean | null
           item_id?: string | null
+          last_seen_at?: string
           message?: string
           metadata?: Json | null
+          occurrence_count?: number
+          opened_at?: string
+          recipient_roles?: string[]
+          reopened_count?: number
+          resolution_note?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
           severity?: string
+          snoozed_until?: string | null
+          status?: string
           title?: string
         }
         Relationships: [
@@ -132,6 +229,53 @@ export type Database = {
           },
         ]
       }
+      calendar_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_date: string
+          event_type: string
+          id: string
+          location_id: string | null
+          name: string
+          notes: string | null
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          event_type?: string
+          id?: string
+          location_id?: string | null
+          name: string
+          notes?: string | null
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          event_type?: string
+          id?: string
+          location_id?: string | null
+          name?: string
+          notes?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_events_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cost_optimization: {
         Row: {
           calculation_date: string
@@ -176,295 +320,2292 @@ export type Database = {
           },
         ]
       }
-      inventory_items: {
+      cost_parameters: {
         Row: {
-          avg_usage_per_day: number
           created_at: string
-          current_stock: number
+          holding_cost_rate: number | null
           id: string
-          item_name: string
-          item_type: string
-          max_capacity: number
-          min_required: number
-          restock_lead_time: number
-          unit_cost: number
+          item_class: string | null
+          item_id: string | null
+          item_type: string | null
+          ordering_cost: number | null
+          scope: string
+          service_level: number | null
+          stockout_cost: number | null
           updated_at: string
-          vendor_name: string | null
+          updated_by: string | null
         }
         Insert: {
-          avg_usage_per_day: number
           created_at?: string
-          current_stock: number
+          holding_cost_rate?: number | null
           id?: string
-          item_name: string
-          item_type: string
-          max_capacity: number
-          min_required: number
-          restock_lead_time: number
-          unit_cost: number
+          item_class?: string | null
+          item_id?: string | null
+          item_type?: string | null
+          ordering_cost?: number | null
+          scope: string
+          service_level?: number | null
+          stockout_cost?: number | null
           updated_at?: string
-          vendor_name?: string | null
+          updated_by?: string | null
         }
         Update: {
-          avg_usage_per_day?: number
           created_at?: string
-          current_stock?: number
+          holding_cost_rate?: number | null
           id?: string
-          item_name?: string
-          item_type?: string
-          max_capacity?: number
-          min_required?: number
-          restock_lead_time?: number
-          unit_cost?: number
+          item_class?: string | null
+          item_id?: string | null
+          item_type?: string | null
+          ordering_cost?: number | null
+          scope?: string
+          service_level?: number | null
+          stockout_cost?: number | null
           updated_at?: string
-          vendor_name?: string | null
+          updated_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "cost_parameters_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_parameters_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      login_attempts: {
+      daily_consumption: {
         Row: {
-          attempt_time: string | null
+          consumption_date: string
           id: string
-          identifier: string
-          success: boolean | null
+          item_id: string
+          location_id: string | null
+          quantity: number
+          updated_at: string
+          waste_quantity: number
         }
         Insert: {
-          attempt_time?: string | null
+          consumption_date: string
           id?: string
-          identifier: string
-          success?: boolean | null
+          item_id: string
+          location_id?: string | null
+          quantity?: number
+          updated_at?: string
+          waste_quantity?: number
         }
         Update: {
-          attempt_time?: string | null
+          consumption_date?: string
           id?: string
-          identifier?: string
-          success?: boolean | null
+          item_id?: string
+          location_id?: string | null
+          quantity?: number
+          updated_at?: string
+          waste_quantity?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "daily_consumption_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "daily_consumption_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      model_registry: {
+      demand_forecasts: {
         Row: {
           created_at: string
-          created_by: string | null
-          dataset_summary: Json | null
-          feature_importance: Json | null
-          hyperparameters: Json | null
+          forecast_date: string
+          forecast_quantity: number
           id: string
-          is_active: boolean | null
-          mae: number
-          model_type: string
-          model_version: string
-          r2_score: number | null
-          rmse: number | null
-          training_date: string
+          item_id: string
+          location_id: string | null
+          lower_80: number | null
+          lower_95: number | null
+          method: string
+          override_id: string | null
+          override_quantity: number | null
+          prediction_id: string
+          upper_80: number | null
+          upper_95: number | null
         }
         Insert: {
           created_at?: string
-          created_by?: string | null
-          dataset_summary?: Json | null
-          feature_importance?: Json | null
-          hyperparameters?: Json | null
+          forecast_date: string
+          forecast_quantity: number
           id?: string
-          is_active?: boolean | null
-          mae: number
-          model_type?: string
-          model_version: string
-          r2_score?: number | null
-          rmse?: number | null
-          training_date?: string
+          item_id: string
+          location_id?: string | null
+          lower_80?: number | null
+          lower_95?: number | null
+          method: string
+          override_id?: string | null
+          override_quantity?: number | null
+          prediction_id: string
+          upper_80?: number | null
+          upper_95?: number | null
         }
         Update: {
           created_at?: string
-          created_by?: string | null
-          dataset_summary?: Json | null
-          feature_importance?: Json | null
-          hyperparameters?: Json | null
+          forecast_date?: string
+          forecast_quantity?: number
           id?: string
-          is_active?: boolean | null
-          mae?: number
-          model_type?: string
-          model_version?: string
-          r2_score?: number | null
-          rmse?: number | null
-          training_date?: string
+          item_id?: string
+          location_id?: string | null
+          lower_80?: number | null
+          lower_95?: number | null
+          method?: string
+          override_id?: string | null
+          override_quantity?: number | null
+          prediction_id?: string
+          upper_80?: number | null
+          upper_95?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "demand_forecasts_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "demand_forecasts_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "demand_forecasts_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "predictions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "demand_forecasts_override_id_fkey"
+            columns: ["override_id"]
+            isOneToOne: false
+            referencedRelation: "forecast_overrides"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      password_history: {
+      demand_regressors: {
         Row: {
-          created_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
           id: string
-          password_hash: string
-          user_id: string
+          name: string
+          unit: string | null
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
           id?: string
-          password_hash: string
-          user_id: string
+          name: string
+          unit?: string | null
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
           id?: string
-          password_hash?: string
-          user_id?: string
+          name?: string
+          unit?: string | null
+          updated_at?: string
         }
         Relationships: []
       }
-      prediction_history: {
+      demand_scenarios: {
         Row: {
-          confidence_score: number | null
           created_at: string
           created_by: string | null
-          feature_contributions: Json | null
-          feature_values: Json
+          demand_multipliers: Json
+          description: string | null
+          horizon_days: number
           id: string
-          item_id: string | null
-          model_version_id: string | null
-          predicted_demand: number
+          lead_time_shocks: Json
+          name: string
+          result: Json | null
+          simulated_at: string | null
+          updated_at: string
         }
         Insert: {
-          confidence_score?: number | null
           created_at?: string
           created_by?: string | null
-          feature_contributions?: Json | null
-          feature_values: Json
+          demand_multipliers?: Json
+          description?: string | null
+          horizon_days?: number
           id?: string
-          item_id?: string | null
-          model_version_id?: string | null
-          predicted_demand: number
+          lead_time_shocks?: Json
+          name: string
+          result?: Json | null
+          simulated_at?: string | null
+          updated_at?: string
         }
         Update: {
-          confidence_score?: number | null
           created_at?: string
           created_by?: string | null
-          feature_contributions?: Json | null
-          feature_values?: Json
+          demand_multipliers?: Json
+          description?: string | null
+          horizon_days?: number
           id?: string
-          item_id?: string | null
-          model_version_id?: string | null
-          predicted_demand?: number
+          lead_time_shocks?: Json
+          name?: string
+          result?: Json | null
+          simulated_at?: string | null
+          updated_at?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "prediction_history_item_id_fkey"
-            columns: ["item_id"]
-            isOneToOne: false
-            referencedRelation: "inventory_items"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "prediction_history_model_version_id_fkey"
-            columns: ["model_version_id"]
-            isOneToOne: false
-            referencedRelation: "model_registry"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      predictions: {
+      escalation_policies: {
         Row: {
+          alert_type: string | null
           created_at: string
-          estimated_demand: number
+          escalate_after_minutes: number
+          escalate_to_role: string | null
           id: string
-          inventory_shortfall: number
-          item_id: string
-          predicted_by: string | null
-          replenishment_needs: number
+          is_enabled: boolean
+          max_level: number
+          raise_severity: boolean
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
+          alert_type?: string | null
           created_at?: string
-          estimated_demand: number
+          escalate_after_minutes: number
+          escalate_to_role?: string | null
           id?: string
-          inventory_shortfall: number
+          is_enabled?: boolean
+          max_level?: number
+          raise_severity?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          alert_type?: string | null
+          created_at?: string
+          escalate_after_minutes?: number
+          escalate_to_role?: string | null
+          id?: string
+          is_enabled?: boolean
+          max_level?: number
+          raise_severity?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      forecast_overrides: {
+        Row: {
+          created_at: string
+          created_by: string
+          daily_quantity: number
+          end_date: string
+          id: string
           item_id: string
-          predicted_by?: string | null
-          replenishment_needs: number
+          location_id: string | null
+          model_daily_forecast: number | null
+          model_prediction_id: string | null
+          reason: string
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          daily_quantity: number
+          end_date: string
+          id?: string
+          item_id: string
+          location_id?: string | null
+          model_daily_forecast?: number | null
+          model_prediction_id?: string | null
+          reason: string
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          start_date: string
         }
         Update: {
           created_at?: string
-          estimated_demand?: number
+          created_by?: string
+          daily_quantity?: number
+          end_date?: string
           id?: string
-          inventory_shortfall?: number
           item_id?: string
-          predicted_by?: string | null
-          replenishment_needs?: number
+          location_id?: string | null
+          model_daily_forecast?: number | null
+          model_prediction_id?: string | null
+          reason?: string
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          start_date?: string
         }
         Relationships: [
           {
-            foreignKeyName: "predictions_item_id_fkey"
+            foreignKeyName: "forecast_overrides_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "forecast_overrides_item_id_fkey"
             columns: ["item_id"]
             isOneToOne: false
             referencedRelation: "inventory_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "predictions_predicted_by_fkey"
-            columns: ["predicted_by"]
+            foreignKeyName: "forecast_overrides_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "forecast_overrides_model_prediction_id_fkey"
+            columns: ["model_prediction_id"]
+            isOneToOne: false
+            referencedRelation: "predictions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "forecast_overrides_revoked_by_fkey"
+            columns: ["revoked_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      goods_receipt_lines: {
         Row: {
           created_at: string
-          email: string
-          full_name: string
+          discrepancy_type: string | null
+          expiry_date: string | null
+          goods_receipt_id: string
           id: string
+          item_id: string
+          lot_id: string | null
+          lot_number: string | null
+          purchase_order_line_id: string | null
+          quantity_damaged: number
+          quantity_received: number
+          quantity_short: number
+          stock_transaction_id: string | null
         }
         Insert: {
           created_at?: string
-          email: string
-          full_name: string
+          discrepancy_type?: string | null
+          expiry_date?: string | null
+          goods_receipt_id: string
+          id?: string
+          item_id: string
+          lot_id?: string | null
+          lot_number?: string | null
+          purchase_order_line_id?: string | null
+          quantity_damaged?: number
+          quantity_received?: number
+          quantity_short?: number
+          stock_transaction_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          discrepancy_type?: string | null
+          expiry_date?: string | null
+          goods_receipt_id?: string
+          id?: string
+          item_id?: string
+          lot_id?: string | null
+          lot_number?: string | null
+          purchase_order_line_id?: string | null
+          quantity_damaged?: number
+          quantity_received?: number
+          quantity_short?: number
+          stock_transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_lines_goods_receipt_id_fkey"
+            columns: ["goods_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_stock_transaction_id_fkey"
+            columns: ["stock_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_receipts: {
+        Row: {
+          delivery_reference: string | null
           id: string
+          location_id: string | null
+          notes: string | null
+          purchase_order_id: string
+          receipt_number: string
+          received_at: string
+          received_by: string | null
+        }
+        Insert: {
+          delivery_reference?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          purchase_order_id: string
+          receipt_number?: string
+          received_at?: string
+          received_by?: string | null
         }
         Update: {
+          delivery_reference?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          purchase_order_id?: string
+          receipt_number?: string
+          received_at?: string
+          received_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipts_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipts_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_items: {
+        Row: {
+          avg_usage_per_day: number
+          created_at: string
+          current_stock: number
+          id: string
+          item_name: string
+          item_type: string
+          max_capacity: number
+          min_required: number
+          restock_lead_time: number
+          unit_cost: number
+          unit_volume: number | null
+          updated_at: string
+        }
+        Insert: {
+          avg_usage_per_day: number
           created_at?: string
-          email?: string
-          full_name?: string
+          current_stock: number
+          id?: string
+          item_name: string
+          item_type: string
+          max_capacity: number
+          min_required: number
+          restock_lead_time: number
+          unit_cost: number
+          unit_volume?: number | null
+          updated_at?: string
+        }
+        Update: {
+          avg_usage_per_day?: number
+          created_at?: string
+          current_stock?: number
           id?: string
+          item_name?: string
+          item_type?: string
+          max_capacity?: number
+          min_required?: number
+          restock_lead_time?: number
+          unit_cost?: number
+          unit_volume?: number | null
+          updated_at?: string
         }
         Relationships: []
       }
-      user_roles: {
+      inventory_lots: {
         Row: {
+          created_at: string
+          expiry_date: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          item_id: string
+          lot_number: string
+          quantity: number
+          received_date: string
         }
         Insert: {
+          created_at?: string
+          expiry_date?: string | null
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          item_id: string
+          lot_number: string
+          quantity?: number
+          received_date?: string
         }
         Update: {
+          created_at?: string
+          expiry_date?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          item_id?: string
+          lot_number?: string
+          quantity?: number
+          received_date?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_roles_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "inventory_lots_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_classifications: {
+        Row: {
+          abc_class: string
+          annual_consumption_value: number
+          classified_at: string
+          cumulative_value_share: number
+          demand_cv: number | null
+          item_id: string
+          updated_at: string
+          ved_class: string
+          ved_set_at: string | null
+          ved_set_by: string | null
+          weeks_observed: number
+          xyz_class: string
+        }
+        Insert: {
+          abc_class: string
+          annual_consumption_value?: number
+          classified_at?: string
+          cumulative_value_share?: number
+          demand_cv?: number | null
+          item_id: string
+          updated_at?: string
+          ved_class?: string
+          ved_set_at?: string | null
+          ved_set_by?: string | null
+          weeks_observed?: number
+          xyz_class: string
+        }
+        Update: {
+          abc_class?: string
+          annual_consumption_value?: number
+          classified_at?: string
+          cumulative_value_share?: number
+          demand_cv?: number | null
+          item_id?: string
+          updated_at?: string
+          ved_class?: string
+          ved_set_at?: string | null
+          ved_set_by?: string | null
+          weeks_observed?: number
+          xyz_class?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_classifications_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: true
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_classifications_ved_set_by_fkey"
+            columns: ["ved_set_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+      item_vendors: {
+        Row: {
+          created_at: string
+          discount_type: string
+          id: string
+          is_preferred: boolean
+          item_id: string
+          lead_time_days: number | null
+          unit_price: number
+          updated_at: string
+          vendor_id: string
+          vendor_sku: string | null
         }
-        Returns: boolean
+        Insert: {
+          created_at?: string
+          discount_type?: string
+          id?: string
+          is_preferred?: boolean
+          item_id: string
+          lead_time_days?: number | null
+          unit_price?: number
+          updated_at?: string
+          vendor_id: string
+          vendor_sku?: string | null
+        }
+        Update: {
+          created_at?: string
+          discount_type?: string
+          id?: string
+          is_preferred?: boolean
+          item_id?: string
+          lead_time_days?: number | null
+          unit_price?: number
+          updated_at?: string
+          vendor_id?: string
+          vendor_sku?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_vendors_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_vendors_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_stock: {
+        Row: {
+          id: string
+          item_id: string
+          location_id: string
+          max_capacity: number
+          min_required: number
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          item_id: string
+          location_id: string
+          max_capacity?: number
+          min_required?: number
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          item_id?: string
+          location_id?: string
+          max_capacity?: number
+          min_required?: number
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_stock_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_stock_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          code: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          location_type: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_type: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_type?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locations_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      login_attempts: {
+        Row: {
+          attempt_time: string | null
+          id: string
+          identifier: string
+          success: boolean | null
+        }
+        Insert: {
+          attempt_time?: string | null
+          id?: string
+          identifier: string
+          success?: boolean | null
+        }
+        Update: {
+          attempt_time?: string | null
+          id?: string
+          identifier?: string
+          success?: boolean | null
+        }
+        Relationships: []
+      }
+      lot_location_stock: {
+        Row: {
+          id: string
+          location_id: string
+          lot_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          location_id: string
+          lot_id: string
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          location_id?: string
+          lot_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lot_location_stock_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lot_location_stock_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      model_registry: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dataset_summary: Json | null
+          feature_importance: Json | null
+          hyperparameters: Json | null
+          id: string
+          is_active: boolean
+          is_shadow: boolean
+          mae: number
+          model_type: string
+          model_version: string
+          promoted_at: string | null
+          r2_score: number | null
+          rmse: number | null
+          training_date: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dataset_summary?: Json | null
+          feature_importance?: Json | null
+          hyperparameters?: Json | null
+          id?: string
+          is_active?: boolean | null
+          is_shadow?: boolean
+          mae: number
+          model_type?: string
+          model_version: string
+          promoted_at?: string | null
+          r2_score?: number | null
+          rmse?: number | null
+          training_date?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dataset_summary?: Json | null
+          feature_importance?: Json | null
+          hyperparameters?: Json | null
+          id?: string
+          is_active?: boolean | null
+          is_shadow?: boolean
+          mae?: number
+          model_type?: string
+          model_version?: string
+          promoted_at?: string | null
+          r2_score?: number | null
+          rmse?: number | null
+          training_date?: string
+        }
+        Relationships: []
+      }
+      notification_attempts: {
+        Row: {
+          attempt_number: number
+          attempted_at: string
+          delivery_id: string
+          duration_ms: number | null
+          error: string | null
+          id: string
+          response_status: number | null
+          status: string
+        }
+        Insert: {
+          attempt_number: number
+          attempted_at?: string
+          delivery_id: string
+          duration_ms?: number | null
+          error?: string | null
+          id?: string
+          response_status?: number | null
+          status: string
+        }
+        Update: {
+          attempt_number?: number
+          attempted_at?: string
+          delivery_id?: string
+          duration_ms?: number | null
+          error?: string | null
+          id?: string
+          response_status?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_attempts_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "notification_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          alert_id: string
+          attempt_count: number
+          channel: string
+          created_at: string
+          destination: string | null
+          episode: number
+          escalation_level: number
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          sent_at: string | null
+          status: string
+          target_id: string | null
+          updated_at: string
+          user_id: string | null
+          webhook_id: string | null
+        }
+        Insert: {
+          alert_id: string
+          attempt_count?: number
+          channel: string
+          created_at?: string
+          destination?: string | null
+          episode?: number
+          escalation_level?: number
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          target_id?: never
+          updated_at?: string
+          user_id?: string | null
+          webhook_id?: string | null
+        }
+        Update: {
+          alert_id?: string
+          attempt_count?: number
+          channel?: string
+          created_at?: string
+          destination?: string | null
+          episode?: number
+          escalation_level?: number
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          target_id?: never
+          updated_at?: string
+          user_id?: string | null
+          webhook_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "notification_webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channels: string[]
+          created_at: string
+          critical_overrides_quiet_hours: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channels?: string[]
+          created_at?: string
+          critical_overrides_quiet_hours?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channels?: string[]
+          created_at?: string
+          critical_overrides_quiet_hours?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_webhooks: {
+        Row: {
+          alert_types: string[] | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_enabled: boolean
+          name: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          alert_types?: string[] | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_enabled?: boolean
+          name: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          alert_types?: string[] | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_enabled?: boolean
+          name?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          alert_id: string | null
+          created_at: string
+          delivery_id: string | null
+          id: string
+          message: string
+          read_at: string | null
+          severity: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          alert_id?: string | null
+          created_at?: string
+          delivery_id?: string | null
+          id?: string
+          message: string
+          read_at?: string | null
+          severity?: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          alert_id?: string | null
+          created_at?: string
+          delivery_id?: string | null
+          id?: string
+          message?: string
+          read_at?: string | null
+          severity?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: true
+            referencedRelation: "notification_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      password_history: {
+        Row: {
+          created_at: string | null
+          id: string
+          password_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          password_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          password_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      prediction_history: {
+        Row: {
+          confidence_score: number | null
+          created_at: string
+          created_by: string | null
+          feature_contributions: Json | null
+          feature_values: Json
+          id: string
+          is_shadow: boolean
+          item_id: string | null
+          lower_80: number | null
+          lower_95: number | null
+          model_version_id: string | null
+          predicted_demand: number
+          upper_80: number | null
+          upper_95: number | null
+        }
+        Insert: {
+          confidence_score?: number | null
+          created_at?: string
+          created_by?: string | null
+          feature_contributions?: Json | null
+          feature_values: Json
+          id?: string
+          is_shadow?: boolean
+          item_id?: string | null
+          lower_80?: number | null
+          lower_95?: number | null
+          model_version_id?: string | null
+          predicted_demand: number
+          upper_80?: number | null
+          upper_95?: number | null
+        }
+        Update: {
+          confidence_score?: number | null
+          created_at?: string
+          created_by?: string | null
+          feature_contributions?: Json | null
+          feature_values?: Json
+          id?: string
+          is_shadow?: boolean
+          item_id?: string | null
+          lower_80?: number | null
+          lower_95?: number | null
+          model_version_id?: string | null
+          predicted_demand?: number
+          upper_80?: number | null
+          upper_95?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_history_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prediction_history_model_version_id_fkey"
+            columns: ["model_version_id"]
+            isOneToOne: false
+            referencedRelation: "model_registry"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      predictions: {
+        Row: {
+          created_at: string
+          days_of_cover: number | null
+          estimated_demand: number
+          expected_units_short: number | null
+          forecast_effects: Json
+          forecast_method: string | null
+          horizon_days: number | null
+          id: string
+          incoming_quantity: number
+          inventory_shortfall: number
+          item_id: string
+          location_id: string | null
+          lower_80: number | null
+          lower_95: number | null
+          next_arrival_date: string | null
+          overridden_demand: number | null
+          override_id: string | null
+          predicted_by: string | null
+          regressor_id: string | null
+          replenishment_needs: number
+          stockout_date: string | null
+          stockout_probability: number | null
+          upper_80: number | null
+          upper_95: number | null
+        }
+        Insert: {
+          created_at?: string
+          days_of_cover?: number | null
+          estimated_demand: number
+          expected_units_short?: number | null
+          forecast_effects?: Json
+          forecast_method?: string | null
+          horizon_days?: number | null
+          id?: string
+          incoming_quantity?: number
+          inventory_shortfall: number
+          item_id: string
+          location_id?: string | null
+          lower_80?: number | null
+          lower_95?: number | null
+          next_arrival_date?: string | null
+          overridden_demand?: number | null
+          override_id?: string | null
+          predicted_by?: string | null
+          regressor_id?: string | null
+          replenishment_needs: number
+          stockout_date?: string | null
+          stockout_probability?: number | null
+          upper_80?: number | null
+          upper_95?: number | null
+        }
+        Update: {
+          created_at?: string
+          days_of_cover?: number | null
+          estimated_demand?: number
+          expected_units_short?: number | null
+          forecast_effects?: Json
+          forecast_method?: string | null
+          horizon_days?: number | null
+          id?: string
+          incoming_quantity?: number
+          inventory_shortfall?: number
+          item_id?: string
+          location_id?: string | null
+          lower_80?: number | null
+          lower_95?: number | null
+          next_arrival_date?: string | null
+          overridden_demand?: number | null
+          override_id?: string | null
+          predicted_by?: string | null
+          regressor_id?: string | null
+          replenishment_needs?: number
+          stockout_date?: string | null
+          stockout_probability?: number | null
+          upper_80?: number | null
+          upper_95?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "predictions_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_predicted_by_fkey"
+            columns: ["predicted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_regressor_id_fkey"
+            columns: ["regressor_id"]
+            isOneToOne: false
+            referencedRelation: "demand_regressors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_override_id_fkey"
+            columns: ["override_id"]
+            isOneToOne: false
+            referencedRelation: "forecast_overrides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name: string
+          id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      purchase_order_lines: {
+        Row: {
+          cost_optimization_id: string | null
+          created_at: string
+          id: string
+          item_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          suggested_quantity: number | null
+          unit_price: number
+          updated_at: string
+          vendor_sku: string | null
+        }
+        Insert: {
+          cost_optimization_id?: string | null
+          created_at?: string
+          id?: string
+          item_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          suggested_quantity?: number | null
+          unit_price?: number
+          updated_at?: string
+          vendor_sku?: string | null
+        }
+        Update: {
+          cost_optimization_id?: string | null
+          created_at?: string
+          id?: string
+          item_id?: string
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          suggested_quantity?: number | null
+          unit_price?: number
+          updated_at?: string
+          vendor_sku?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_cost_optimization_id_fkey"
+            columns: ["cost_optimization_id"]
+            isOneToOne: false
+            referencedRelation: "cost_optimization"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          auto_generated: boolean
+          closed_at: string | null
+          created_at: string
+          created_by: string | null
+          expected_delivery_date: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          po_number: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          auto_generated?: boolean
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_delivery_date?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          po_number?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          auto_generated?: boolean
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_delivery_date?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          po_number?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      regressor_values: {
+        Row: {
+          created_at: string
+          id: string
+          regressor_id: string
+          value: number
+          value_date: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          regressor_id: string
+          value: number
+          value_date: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          regressor_id?: string
+          value?: number
+          value_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "regressor_values_regressor_id_fkey"
+            columns: ["regressor_id"]
+            isOneToOne: false
+            referencedRelation: "demand_regressors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transactions: {
+        Row: {
+          balance_after: number | null
+          created_at: string
+          id: string
+          item_id: string
+          location_id: string | null
+          lot_id: string | null
+          performed_by: string | null
+          quantity: number
+          reason: string | null
+          transaction_type: string
+          transfer_id: string | null
+        }
+        Insert: {
+          balance_after?: number | null
+          created_at?: string
+          id?: string
+          item_id: string
+          location_id?: string | null
+          lot_id?: string | null
+          performed_by?: string | null
+          quantity: number
+          reason?: string | null
+          transaction_type: string
+          transfer_id?: string | null
+        }
+        Update: {
+          balance_after?: number | null
+          created_at?: string
+          id?: string
+          item_id?: string
+          location_id?: string | null
+          lot_id?: string | null
+          performed_by?: string | null
+          quantity?: number
+          reason?: string | null
+          transaction_type?: string
+          transfer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transactions_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transactions_performed_by_fkey"
+            columns: ["performed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transactions_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transactions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_anomalies: {
+        Row: {
+          consumption_date: string
+          created_at: string
+          direction: string
+          expected_high: number
+          expected_low: number
+          expected_quantity: number
+          id: string
+          item_id: string
+          label: string | null
+          labelled_at: string | null
+          labelled_by: string | null
+          location_id: string | null
+          observed_quantity: number
+          robust_z: number
+          updated_at: string
+        }
+        Insert: {
+          consumption_date: string
+          created_at?: string
+          direction: string
+          expected_high: number
+          expected_low: number
+          expected_quantity: number
+          id?: string
+          item_id: string
+          label?: string | null
+          labelled_at?: string | null
+          labelled_by?: string | null
+          location_id?: string | null
+          observed_quantity: number
+          robust_z: number
+          updated_at?: string
+        }
+        Update: {
+          consumption_date?: string
+          created_at?: string
+          direction?: string
+          expected_high?: number
+          expected_low?: number
+          expected_quantity?: number
+          id?: string
+          item_id?: string
+          label?: string | null
+          labelled_at?: string | null
+          labelled_by?: string | null
+          location_id?: string | null
+          observed_quantity?: number
+          robust_z?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_anomalies_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_anomalies_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendor_price_tiers: {
+        Row: {
+          created_at: string
+          id: string
+          item_vendor_id: string
+          min_quantity: number
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_vendor_id: string
+          min_quantity: number
+          unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_vendor_id?: string
+          min_quantity?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_price_tiers_item_vendor_id_fkey"
+            columns: ["item_vendor_id"]
+            isOneToOne: false
+            referencedRelation: "item_vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendors: {
+        Row: {
+          address: string | null
+          contact_name: string | null
+          contract_end: string | null
+          contract_start: string | null
+          contract_terms: string | null
+          created_at: string
+          default_lead_time_days: number | null
+          email: string | null
+          id: string
+          is_active: boolean
+          minimum_order_value: number
+          name: string
+          payment_terms: string | null
+          phone: string | null
+          updated_at: string
+          vendor_code: string
+        }
+        Insert: {
+          address?: string | null
+          contact_name?: string | null
+          contract_end?: string | null
+          contract_start?: string | null
+          contract_terms?: string | null
+          created_at?: string
+          default_lead_time_days?: number | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          minimum_order_value?: number
+          name: string
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
+          vendor_code: string
+        }
+        Update: {
+          address?: string | null
+          contact_name?: string | null
+          contract_end?: string | null
+          contract_start?: string | null
+          contract_terms?: string | null
+          created_at?: string
+          default_lead_time_days?: number | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          minimum_order_value?: number
+          name?: string
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
+          vendor_code?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      alert_episodes: {
+        Row: {
+          acknowledged_at: string | null
+          alert_id: string | null
+          alert_type: string | null
+          episode: number | null
+          item_id: string | null
+          opened_at: string | null
+          resolved_at: string | null
+          severity: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      current_alert_conditions: {
+        Row: {
+          alert_type: string | null
+          created_at: string | null
+          id: string | null
+          item_id: string | null
+          metadata: Json | null
+          occurrence_count: number | null
+          recipient_roles: string[] | null
+          reopened_count: number | null
+          severity: string | null
+          status: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_history_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      forecast_accuracy: {
+        Row: {
+          bias: number | null
+          coverage_80: number | null
+          coverage_95: number | null
+          dimension: string | null
+          forecast_count: number | null
+          item_id: string | null
+          item_name: string | null
+          item_type: string | null
+          last_window_end: string | null
+          mae: number | null
+          mape: number | null
+          model_version: string | null
+          model_version_id: string | null
+          total_actual: number | null
+          total_predicted: number | null
+          tracking_signal: number | null
+        }
+        Relationships: []
+      }
+      forecast_override_accuracy: {
+        Row: {
+          created_by: string | null
+          created_by_name: string | null
+          days_evaluated: number | null
+          helped_count: number | null
+          hurt_count: number | null
+          last_evaluated: string | null
+          model_daily_mae: number | null
+          override_count: number | null
+          override_daily_mae: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "forecast_overrides_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      forecast_override_outcomes: {
+        Row: {
+          actual_demand: number | null
+          created_at: string | null
+          created_by: string | null
+          created_by_name: string | null
+          days_evaluated: number | null
+          end_date: string | null
+          evaluated_through: string | null
+          is_complete: boolean | null
+          is_revoked: boolean | null
+          item_id: string | null
+          item_name: string | null
+          location_id: string | null
+          model_demand: number | null
+          model_error: number | null
+          override_demand: number | null
+          override_error: number | null
+          override_helped: boolean | null
+          override_id: string | null
+          start_date: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "forecast_overrides_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "forecast_overrides_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "forecast_overrides_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_expiry_summary: {
+        Row: {
+          expired_quantity: number | null
+          expiring_30_days: number | null
+          expiring_60_days: number | null
+          expiring_90_days: number | null
+          item_id: string | null
+          nearest_expiry: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_lots_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      latest_cost_optimization: {
+        Row: {
+          calculation_date: string | null
+          eoq: number | null
+          id: string | null
+          item_id: string | null
+          optimal_order_quantity: number | null
+          reorder_point: number | null
+          safety_stock: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_optimization_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      latest_stock_projections: {
+        Row: {
+          days_of_cover: number | null
+          days_until_stockout: number | null
+          expected_units_short: number | null
+          incoming_quantity: number | null
+          item_id: string | null
+          location_id: string | null
+          next_arrival_date: string | null
+          prediction_id: string | null
+          projected_at: string | null
+          stockout_date: string | null
+          stockout_probability: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "predictions_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_time_observations: {
+        Row: {
+          goods_receipt_id: string | null
+          item_id: string | null
+          lead_time_days: number | null
+          purchase_order_id: string | null
+          received_at: string | null
+          vendor_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_time_stats: {
+        Row: {
+          item_id: string | null
+          last_received_at: string | null
+          mean_days: number | null
+          recent_mean_days: number | null
+          recent_sample_count: number | null
+          sample_count: number | null
+          stddev_days: number | null
+          trend_days_per_30d: number | null
+          variance_days: number | null
+          vendor_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prediction_outcomes: {
+        Row: {
+          actual_demand: number | null
+          created_at: string | null
+          error: number | null
+          horizon_days: number | null
+          is_shadow: boolean | null
+          item_id: string | null
+          item_name: string | null
+          item_type: string | null
+          location_id: string | null
+          lower_80: number | null
+          lower_95: number | null
+          model_version: string | null
+          model_version_id: string | null
+          predicted_demand: number | null
+          prediction_history_id: string | null
+          upper_80: number | null
+          upper_95: number | null
+          window_end: string | null
+          window_start: string | null
+          within_80: boolean | null
+          within_95: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_history_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prediction_history_model_version_id_fkey"
+            columns: ["model_version_id"]
+            isOneToOne: false
+            referencedRelation: "model_registry"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      acknowledge_alert: {
+        Args: {
+          _alert_id: string
+        }
+        Returns: Database["public"]["Tables"]["alerts_history"]["Row"]
+      }
+      assign_alert: {
+        Args: {
+          _alert_id: string
+          _assignee?: string
+        }
+        Returns: Database["public"]["Tables"]["alerts_history"]["Row"]
+      }
+      can_work_alert: {
+        Args: {
+          _alert: Database["public"]["Tables"]["alerts_history"]["Row"]
+        }
+        Returns: boolean
+      }
+      create_forecast_override: {
+        Args: {
+          _daily_quantity: number
+          _end_date: string
+          _item_id: string
+          _location_id?: string
+          _reason: string
+          _start_date: string
+        }
+        Returns: Database["public"]["Tables"]["forecast_overrides"]["Row"]
+      }
+      create_inventory_item: {
+        Args: {
+          _avg_usage_per_day: number
+          _item_name: string
+          _item_type: string
+          _max_capacity: number
+          _min_required: number
+          _opening_stock?: number
+          _restock_lead_time: number
+          _unit_cost: number
+          _unit_volume?: number
+          _vendor_id?: string
+          _vendor_sku?: string
+        }
+        Returns: Database["public"]["Tables"]["inventory_items"]["Row"]
+      }
+      escalate_alerts: {
+        Args: never
+        Returns: number
+      }
+      escalated_recipient_roles: {
+        Args: {
+          _escalate_to_role: string
+          _roles: string[]
+        }
+        Returns: string[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      issue_stock_fefo: {
+        Args: {
+          _item_id: string
+          _location_id?: string
+          _quantity: number
+          _reason?: string
+        }
+        Returns: Database["public"]["Tables"]["stock_transactions"]["Row"][]
+      }
+      label_usage_anomaly: {
+        Args: {
+          _anomaly_id: string
+          _label?: string
+        }
+        Returns: Database["public"]["Tables"]["usage_anomalies"]["Row"]
+      }
+      mark_alerts_read: {
+        Args: {
+          _alert_ids: string[]
+        }
+        Returns: number
+      }
+      promote_model: {
+        Args: {
+          _model_id: string
+          _reason?: string
+        }
+        Returns: Database["public"]["Tables"]["model_registry"]["Row"]
+      }
+      receive_purchase_order: {
+        Args: {
+          _delivery_reference?: string
+          _final?: boolean
+          _lines: Json
+          _location_id?: string
+          _notes?: string
+          _purchase_order_id: string
+        }
+        Returns: Database["public"]["Tables"]["goods_receipts"]["Row"]
+      }
+      receive_stock: {
+        Args: {
+          _expiry_date?: string
+          _item_id: string
+          _location_id?: string
+          _lot_number?: string
+          _quantity: number
+          _reason?: string
+        }
+        Returns: Database["public"]["Tables"]["stock_transactions"]["Row"]
+      }
+      resolve_alert: {
+        Args: {
+          _alert_id: string
+          _note: string
+        }
+        Returns: Database["public"]["Tables"]["alerts_history"]["Row"]
+      }
+      revoke_forecast_override: {
+        Args: {
+          _override_id: string
+          _reason: string
+        }
+        Returns: Database["public"]["Tables"]["forecast_overrides"]["Row"]
+      }
+      rollback_model: {
+        Args: {
+          _reason?: string
+        }
+        Returns: Database["public"]["Tables"]["model_registry"]["Row"]
+      }
+      set_model_shadow: {
+        Args: {
+          _enabled: boolean
+          _model_id: string
+        }
+        Returns: Database["public"]["Tables"]["model_registry"]["Row"]
+      }
+      set_ved_class: {
+        Args: {
+          _item_id: string
+          _ved_class: string
+        }
+        Returns: Database["public"]["Tables"]["item_classifications"]["Row"]
+      }
+      snooze_alert: {
+        Args: {
+          _alert_id: string
+          _until: string
+        }
+        Returns: Database["public"]["Tables"]["alerts_history"]["Row"]
+      }
+      transfer_stock: {
+        Args: {
+          _from_location_id: string
+          _item_id: string
+          _quantity: number
+          _reason?: string
+          _to_location_id: string
+        }
+        Returns: Database["public"]["Tables"]["stock_transactions"]["Row"][]
       }
     }
     Enums: {
@@ -0,0 +1,84 @@
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export type ThresholdType =
+  | "percentage"
+  | "absolute"
+  | "days_of_cover"
+  | "stockout_within_days"
+  | "expiry_within_days"
+  | "stockout_probability";
+
+export interface AlertRule {
+  id: string;
+  alert_type: string;
+  threshold_type: string | null;
+  threshold_value: number | null;
+  severity: string;
+  item_type: string | null;
+  item_id: string | null;
+  is_enabled: boolean | null;
+  recipient_roles: string[] | null;
+  notification_channels: string[] | null;
+}
+
+// Stock alert types the rules engine in run-predictions raises
+export const STOCK_ALERT_TYPES: { value: string; label: string }[] = [
+  { value: "critical_stock", label: "Critical stock" },
+  { value: "low_stock", label: "Low stock" },
+  { value: "stockout_risk", label: "Stockout risk" },
+  { value: "expiry_warning", label: "Expiry warning" },
+];
+
+export const THRESHOLD_TYPES: { value: ThresholdType; label: string; unit: string; help: string }[] = [
+  { value: "percentage", label: "% of minimum", unit: "%", help: "Alert when stock falls below this share of the minimum required" },
+  { value: "absolute", label: "Quantity on hand", unit: "units", help: "Alert when stock falls below this many units" },
+  { value: "days_of_cover", label: "Days of cover", unit: "days", help: "Alert when stock lasts fewer than this many days at forecast demand" },
+  { value: "stockout_within_days", label: "Predicted stockout", unit: "days", help: "Alert when forecast demand runs stock out within this many days, allowing for open purchase orders" },
+  { value: "expiry_within_days", label: "Expiry window", unit: "days", help: "Alert when stock on hand expires within this many days" },
+  { value: "stockout_probability", label: "Stockout probability", unit: "%", help: "Alert when simulated demand and lead times run stock out before the next delivery at least this often" },
+];
+
+export const SEVERITIES: AlertSeverity[] = ["info", "warning", "critical"];
+
+export const RECIPIENT_ROLES = [
+  { value: "admin", label: "Admin" },
+  { value: "inventory_manager", label: "Inventory manager" },
+  { value: "nurse", label: "Nurse" },
+];
+
+export const NOTIFICATION_CHANNELS = [
+  { value: "in_app", label: "In-app" },
+  { value: "email", label: "Email" },
+  { value: "webhook", label: "Webhook" },
+];
+
+export function isStockRule(rule: Pick<AlertRule, "alert_type">): boolean {
+  return STOCK_ALERT_TYPES.some((type) => type.value === rule.alert_type);
+}
+
+export function alertTypeLabel(alertType: string): string {
+  return STOCK_ALERT_TYPES.find((type) => type.value === alertType)?.label ?? alertType.replace(/_/g, " ");
+}
+
+/**
+ * Rule condition in words, e.g. "Stock below 20% of minimum".
+ */
+export function describeCondition(rule: Pick<AlertRule, "threshold_type" | "threshold_value">): string {
+  const value = rule.threshold_value ?? 0;
+  switch (rule.threshold_type) {
+    case "percentage":
+      return `Stock below ${value}% of minimum`;
+    case "absolute":
+      return `Stock below ${value} units`;
+    case "days_of_cover":
+      return `Under ${value} days of cover`;
+    case "stockout_within_days":
+      return `Stockout predicted within ${value} days`;
+    case "expiry_within_days":
+      return `Stock expiring within ${value} days`;
+    case "stockout_probability":
+      return `Stockout chance ${value}% or more`;
+    default:
+      return `${rule.threshold_type ?? "threshold"} ${value}`;
+  }
+}
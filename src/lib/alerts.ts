@@ -0,0 +1,96 @@
+export type AlertStatus = "open" | "acknowledged" | "snoozed" | "resolved";
+
+export type AlertStatusFilter = AlertStatus | "active" | "all";
+
+export const ALERT_STATUS_FILTERS: { value: AlertStatusFilter; label: string }[] = [
+  { value: "active", label: "Active" },
+  { value: "open", label: "Open" },
+  { value: "acknowledged", label: "Acknowledged" },
+  { value: "snoozed", label: "Snoozed" },
+  { value: "resolved", label: "Resolved" },
+  { value: "all", label: "All" },
+];
+
+export const SNOOZE_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 1, label: "1 hour" },
+  { hours: 4, label: "4 hours" },
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+];
+
+export interface AlertEpisode {
+  severity: string | null;
+  opened_at: string | null;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+}
+
+export interface ResponseMetrics {
+  // Mean milliseconds from opening to acknowledgement / resolution, null
+  // when nothing has been acknowledged / resolved yet
+  mtta: number | null;
+  mttr: number | null;
+  acknowledged: number;
+  resolved: number;
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const elapsed = (from: string | null, to: string | null) =>
+  from && to ? new Date(to).getTime() - new Date(from).getTime() : null;
+
+/**
+ * Mean time to acknowledge and to resolve over alert episodes. A reopened
+ * alert contributes one episode per time it was open.
+ */
+export function responseMetrics(episodes: AlertEpisode[]): ResponseMetrics {
+  const toAcknowledge = episodes
+    .map((episode) => elapsed(episode.opened_at, episode.acknowledged_at))
+    .filter((value): value is number => value !== null);
+  const toResolve = episodes
+    .map((episode) => elapsed(episode.opened_at, episode.resolved_at))
+    .filter((value): value is number => value !== null);
+
+  return {
+    mtta: mean(toAcknowledge),
+    mttr: mean(toResolve),
+    acknowledged: toAcknowledge.length,
+    resolved: toResolve.length,
+  };
+}
+
+/**
+ * Compact duration, e.g. "45m", "3.2h", "1.5d".
+ */
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${Math.max(0, Math.round(minutes))}m`;
+  if (minutes < 60 * 24) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / (60 * 24)).toFixed(1)}d`;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  alert_type: string | null;
+  escalate_after_minutes: number;
+  max_level: number;
+  raise_severity: boolean;
+  is_enabled: boolean;
+  escalate_to_role: string | null;
+}
+
+// Each escalation level adds the policy's escalate_to_role to an alert's
+// recipients or, failing that, the next role up this chain that is not yet
+// included (down from the top once admins are)
+export const ESCALATION_CHAIN = ["nurse", "inventory_manager", "admin"];
+
+/**
+ * Escalation timing in words, e.g. "Every 1.0h, up to 2 levels".
+ */
+export function describeEscalation(policy: Pick<EscalationPolicy, "escalate_after_minutes" | "max_level">): string {
+  const levels = policy.max_level === 1 ? "1 level" : `${policy.max_level} levels`;
+  return `Every ${formatDuration(policy.escalate_after_minutes * 60000)}, up to ${levels}`;
+}
@@ -0,0 +1,11 @@
+export type AnomalyLabel = "real" | "error" | "theft_suspected";
+
+export const ANOMALY_LABELS: { value: AnomalyLabel; label: string; help: string }[] = [
+  { value: "real", label: "Real", help: "Genuine change in usage, e.g. an outbreak" },
+  { value: "error", label: "Error", help: "Data-entry mistake; left out of future baselines" },
+  { value: "theft_suspected", label: "Theft suspected", help: "Stock taken without use; left out of future baselines" },
+];
+
+export function anomalyLabelName(label: string | null): string {
+  return ANOMALY_LABELS.find((option) => option.value === label)?.label ?? "Unlabelled";
+}
@@ -0,0 +1,69 @@
+export type AbcClass = "A" | "B" | "C";
+export type XyzClass = "X" | "Y" | "Z";
+export type VedClass = "V" | "E" | "D";
+
+export interface ItemClassification {
+  item_id: string;
+  abc_class: AbcClass;
+  xyz_class: XyzClass;
+  ved_class: VedClass;
+  ved_set_by: string | null;
+  annual_consumption_value: number;
+  demand_cv: number | null;
+  classified_at: string;
+}
+
+export const ABC_LABELS: Record<AbcClass, string> = {
+  A: "A · High value",
+  B: "B · Medium value",
+  C: "C · Low value",
+};
+
+export const XYZ_LABELS: Record<XyzClass, string> = {
+  X: "X · Steady demand",
+  Y: "Y · Variable demand",
+  Z: "Z · Erratic demand",
+};
+
+export const VED_LABELS: Record<VedClass, string> = {
+  V: "Vital",
+  E: "Essential",
+  D: "Desirable",
+};
+
+// Every combination, in the order the class-level cost parameters are listed
+export const ITEM_CLASS_KEYS = (["V", "E", "D"] as VedClass[]).flatMap((ved) =>
+  (["A", "B", "C"] as AbcClass[]).map((abc) => `${ved}${abc}`)
+);
+
+// 'VA' -> 'Vital · A'
+export function itemClassLabel(key: string): string {
+  return `${VED_LABELS[key[0] as VedClass] ?? key[0]} · ${key[1]}`;
+}
+
+export const ALL_CLASSES = "all";
+
+export interface ClassFilter {
+  abc: string;
+  xyz: string;
+  ved: string;
+}
+
+export const EMPTY_CLASS_FILTER: ClassFilter = { abc: ALL_CLASSES, xyz: ALL_CLASSES, ved: ALL_CLASSES };
+
+/**
+ * Whether an item's classification passes the filter. Unclassified items only
+ * pass when no class is selected.
+ */
+export function matchesClassFilter(
+  classification: ItemClassification | undefined,
+  filter: ClassFilter
+): boolean {
+  if (filter.abc === ALL_CLASSES && filter.xyz === ALL_CLASSES && filter.ved === ALL_CLASSES) return true;
+  if (!classification) return false;
+  return (
+    (filter.abc === ALL_CLASSES || classification.abc_class === filter.abc) &&
+    (filter.xyz === ALL_CLASSES || classification.xyz_class === filter.xyz) &&
+    (filter.ved === ALL_CLASSES || classification.ved_class === filter.ved)
+  );
+}
@@ -0,0 +1,55 @@
+export type CostParameterScope = "global" | "item_type" | "class" | "item";
+
+export interface CostParameters {
+  id: string;
+  scope: CostParameterScope;
+  item_type: string | null;
+  item_id: string | null;
+  item_class: string | null;
+  ordering_cost: number | null;
+  holding_cost_rate: number | null;
+  service_level: number | null;
+  stockout_cost: number | null;
+}
+
+export type CostField = "ordering_cost" | "holding_cost_rate" | "service_level" | "stockout_cost";
+
+export const ITEM_TYPES = ["Equipment", "Consumable"];
+
+// Rates are stored as fractions and edited as percentages
+export const COST_FIELDS: { key: CostField; label: string; unit: "$" | "%"; help: string }[] = [
+  { key: "ordering_cost", label: "Ordering Cost", unit: "$", help: "Cost of placing one order" },
+  { key: "holding_cost_rate", label: "Holding Rate", unit: "%", help: "Annual holding cost as a share of unit cost" },
+  { key: "service_level", label: "Service Level", unit: "%", help: "Chance of not stocking out before a delivery arrives" },
+  { key: "stockout_cost", label: "Stockout Cost", unit: "$", help: "Cost of each unit of demand that cannot be met" },
+];
+
+export function formatCostField(field: CostField, value: number | null): string {
+  if (value === null) return "Inherited";
+  const unit = COST_FIELDS.find((candidate) => candidate.key === field)?.unit;
+  return unit === "%" ? `${(value * 100).toFixed(1)}%` : `$${value.toFixed(2)}`;
+}
+
+/**
+ * Values an override falls back to. Item overrides fall back to the item's
+ * type, then its VED/ABC class (e.g. "VA"), then the global row; type and
+ * class rows fall back to the global row.
+ */
+export function inheritedCostParameters(
+  rows: CostParameters[],
+  scope: CostParameterScope,
+  itemType: string | null,
+  itemClass: string | null
+): Record<CostField, number | null> {
+  const chain = [
+    scope === "item" ? rows.find((row) => row.scope === "item_type" && row.item_type === itemType) : undefined,
+    scope === "item" ? rows.find((row) => row.scope === "class" && row.item_class === itemClass) : undefined,
+    rows.find((row) => row.scope === "global"),
+  ];
+
+  const inherited = {} as Record<CostField, number | null>;
+  for (const { key } of COST_FIELDS) {
+    inherited[key] = chain.find((row) => row?.[key] != null)?.[key] ?? null;
+  }
+  return inherited;
+}
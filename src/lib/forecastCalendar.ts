@@ -0,0 +1,71 @@
+export type CalendarEventType = "holiday" | "elective_surgery" | "respiratory_season" | "other";
+
+export const EVENT_TYPES: { value: CalendarEventType; label: string; help: string }[] = [
+  { value: "holiday", label: "Holiday", help: "Public holidays and other days the hospital runs a reduced service" },
+  { value: "elective_surgery", label: "Elective surgery", help: "Scheduled elective theatre lists" },
+  { value: "respiratory_season", label: "Respiratory season", help: "Flu, RSV or COVID waves; usually weeks long" },
+  { value: "other", label: "Other", help: "Anything else expected to move demand" },
+];
+
+export interface CalendarEvent {
+  id: string;
+  name: string;
+  event_type: string;
+  start_date: string;
+  end_date: string;
+  location_id: string | null;
+  notes: string | null;
+}
+
+export interface DemandRegressor {
+  id: string;
+  name: string;
+  unit: string | null;
+  description: string | null;
+}
+
+// Mirrors ForecastEffect in _shared/calendarEffects.ts, stored in
+// predictions.forecast_effects
+export interface ForecastEffect {
+  kind: "weekly" | "yearly" | "event" | "regressor";
+  label: string;
+  // What the effect adds to demand over the horizon; negative lowers it
+  units: number;
+  detail: string;
+}
+
+export function eventTypeLabel(eventType: string): string {
+  return EVENT_TYPES.find((type) => type.value === eventType)?.label ?? eventType;
+}
+
+// YYYY-MM-DD naming a real day (not 2026-02-30)
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Regressor values from CSV text: a date column (YYYY-MM-DD) and a value
+ * column, with an optional header row. Lines that do not parse are reported
+ * by line number.
+ */
+export function parseRegressorCsv(text: string): {
+  values: { value_date: string; value: number }[];
+  errors: string[];
+} {
+  const values: { value_date: string; value: number }[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const [date, raw] = line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    const value = Number(raw);
+    if (isCalendarDate(date) && raw !== "" && Number.isFinite(value)) {
+      values.push({ value_date: date, value });
+    } else if (index > 0 || /^\d/.test(date)) {
+      // Anything but a header on the first line
+      errors.push(`Line ${index + 1}: expected date,value but got "${line.trim()}"`);
+    }
+  });
+  return { values, errors };
+}
@@ -0,0 +1,26 @@
+export interface ForecastOverride {
+  id: string;
+  item_id: string;
+  item_name: string | null;
+  location_id: string | null;
+  start_date: string;
+  end_date: string;
+  daily_quantity: number;
+  reason: string;
+  model_daily_forecast: number | null;
+  created_at: string;
+  created_by_name: string | null;
+  revoked_at: string | null;
+  revoke_reason: string | null;
+}
+
+export type OverrideStatus = "scheduled" | "active" | "expired" | "revoked";
+
+export function overrideStatus(
+  override: Pick<ForecastOverride, "start_date" | "end_date" | "revoked_at">,
+  today: string = new Date().toISOString().slice(0, 10)
+): OverrideStatus {
+  if (override.revoked_at) return "revoked";
+  if (override.end_date < today) return "expired";
+  return override.start_date > today ? "scheduled" : "active";
+}
@@ -0,0 +1,76 @@
+// Mirrors ForecastMethod in supabase/functions/_shared/forecasting.ts
+export type ForecastMethod = "ses" | "holt" | "holt_winters" | "croston" | "average_usage";
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  ses: "Exponential Smoothing",
+  holt: "Holt Trend",
+  holt_winters: "Holt-Winters Seasonal",
+  croston: "Croston (Intermittent)",
+  average_usage: "Average Usage",
+};
+
+export const FORECAST_HORIZONS = [7, 14, 30];
+
+export const DEFAULT_FORECAST_HORIZON = 14;
+
+export function forecastMethodLabel(method: string | null): string {
+  return method ? FORECAST_METHOD_LABELS[method as ForecastMethod] ?? method : "Average Usage";
+}
+
+// Mirrors ForecastStrategy: what a trained model_registry row runs
+export type ForecastStrategy = "auto" | Exclude<ForecastMethod, "average_usage">;
+
+export const FORECAST_STRATEGY_LABELS: Record<ForecastStrategy, string> = {
+  auto: "Auto-selected per Item",
+  ses: FORECAST_METHOD_LABELS.ses,
+  holt: FORECAST_METHOD_LABELS.holt,
+  holt_winters: FORECAST_METHOD_LABELS.holt_winters,
+  croston: FORECAST_METHOD_LABELS.croston,
+};
+
+// Older registry rows carry free-text model types such as "GradientBoosting"
+export function modelTypeLabel(modelType: string): string {
+  return FORECAST_STRATEGY_LABELS[modelType as ForecastStrategy] ?? modelType;
+}
+
+// Shape of model_registry.dataset_summary written by train-forecast-model
+export interface TrainingDatasetSummary {
+  items: number;
+  items_evaluated: number;
+  observations: number;
+  test_observations: number;
+  start_date: string | null;
+  end_date: string | null;
+  history_days: number;
+  leaderboard: {
+    strategy: ForecastStrategy;
+    mae: number;
+    rmse: number;
+    r2: number | null;
+    wape: number;
+    bias: number;
+  }[];
+}
+
+// A row of the prediction_outcomes view: a forecast whose horizon has elapsed
+export interface PredictionOutcome {
+  prediction_history_id: string | null;
+  item_id: string | null;
+  item_name: string | null;
+  item_type: string | null;
+  model_version: string | null;
+  window_start: string | null;
+  window_end: string | null;
+  predicted_demand: number | null;
+  actual_demand: number | null;
+  error: number | null;
+  lower_80: number | null;
+  upper_80: number | null;
+  lower_95: number | null;
+  upper_95: number | null;
+}
+
+export type AccuracyDimension = "item" | "item_type" | "model_version";
+
+// |tracking signal| above this means forecasts are consistently biased
+export const TRACKING_SIGNAL_LIMIT = 4;
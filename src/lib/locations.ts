@@ -0,0 +1,79 @@
+export type LocationType =
+  | "site"
+  | "building"
+  | "ward"
+  | "store_room"
+  | "operating_room"
+  | "crash_cart"
+  | "cabinet"
+  | "bin";
+
+export interface Location {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  code: string | null;
+  location_type: LocationType;
+  is_active: boolean;
+}
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  site: "Site",
+  building: "Building",
+  ward: "Ward",
+  store_room: "Store Room",
+  operating_room: "Operating Room",
+  crash_cart: "Crash Cart",
+  cabinet: "Cabinet",
+  bin: "Bin",
+};
+
+// Which location types may sit directly under a parent of the given type
+export const CHILD_LOCATION_TYPES: Record<LocationType | "root", LocationType[]> = {
+  root: ["site"],
+  site: ["building"],
+  building: ["ward", "store_room", "operating_room"],
+  ward: ["cabinet", "crash_cart", "bin"],
+  store_room: ["cabinet", "bin"],
+  operating_room: ["cabinet", "crash_cart", "bin"],
+  crash_cart: ["bin"],
+  cabinet: ["bin"],
+  bin: [],
+};
+
+/**
+ * Builds a readable "Site / Building / Ward" path for every location.
+ */
+export function buildLocationPaths(locations: Location[]): Record<string, string> {
+  const byId = new Map(locations.map((location) => [location.id, location]));
+  const paths: Record<string, string> = {};
+
+  const pathOf = (location: Location, seen: Set<string>): string => {
+    if (paths[location.id]) return paths[location.id];
+    const parent = location.parent_id ? byId.get(location.parent_id) : undefined;
+    if (!parent || seen.has(parent.id)) return location.name;
+    seen.add(location.id);
+    return `${pathOf(parent, seen)} / ${location.name}`;
+  };
+
+  for (const location of locations) {
+    paths[location.id] = pathOf(location, new Set());
+  }
+  return paths;
+}
+
+/**
+ * Returns the ids of a location and everything below it, so filtering by a
+ * building also includes its wards and cabinets.
+ */
+export function getDescendantIds(locations: Location[], rootId: string): string[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const location of locations) {
+      if (location.parent_id === ids[i] && !ids.includes(location.id)) {
+        ids.push(location.id);
+      }
+    }
+  }
+  return ids;
+}
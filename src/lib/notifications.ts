@@ -0,0 +1,38 @@
+export type DeliveryStatus = "pending" | "deferred" | "sent" | "failed" | "cancelled";
+
+export const DELIVERY_STATUSES: { value: DeliveryStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "deferred", label: "Quiet hours" },
+  { value: "sent", label: "Sent" },
+  { value: "failed", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+// Channels a user can switch on or off for themselves; webhooks are set up
+// by admins
+export const USER_CHANNELS = [
+  { value: "in_app", label: "In-app inbox", help: "Notifications under the bell in the top bar" },
+  { value: "email", label: "Email", help: "Sent to your account email, held back during quiet hours" },
+];
+
+export interface NotificationPreferences {
+  channels: string[];
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  critical_overrides_quiet_hours: boolean;
+}
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  channels: USER_CHANNELS.map((channel) => channel.value),
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: "UTC",
+  critical_overrides_quiet_hours: true,
+};
+
+export function deliveryStatusLabel(status: string): string {
+  return DELIVERY_STATUSES.find((option) => option.value === status)?.label ?? status;
+}
@@ -0,0 +1,85 @@
+export type PurchaseOrderStatus =
+  | "draft"
+  | "approved"
+  | "sent"
+  | "partially_received"
+  | "closed"
+  | "cancelled";
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  approved: "Approved",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+// Mirrors enforce_purchase_order_status() in the database
+export const PO_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["approved", "cancelled"],
+  approved: ["sent", "draft", "cancelled"],
+  sent: ["partially_received", "closed"],
+  partially_received: ["closed"],
+  closed: [],
+  cancelled: [],
+};
+
+// Label for the button that moves an order into the given status
+export const PO_TRANSITION_ACTIONS: Record<PurchaseOrderStatus, string> = {
+  draft: "Return to Draft",
+  approved: "Approve",
+  sent: "Mark as Sent",
+  partially_received: "Mark Partially Received",
+  closed: "Close",
+  cancelled: "Cancel Order",
+};
+
+export const OPEN_PO_STATUSES: PurchaseOrderStatus[] = [
+  "draft",
+  "approved",
+  "sent",
+  "partially_received",
+];
+
+export interface PurchaseOrderLine {
+  id: string;
+  item_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  suggested_quantity: number | null;
+  unit_price: number;
+  vendor_sku: string | null;
+}
+
+export function lineTotal(line: Pick<PurchaseOrderLine, "quantity_ordered" | "unit_price">): number {
+  return line.quantity_ordered * Number(line.unit_price);
+}
+
+export function orderTotal(lines: Pick<PurchaseOrderLine, "quantity_ordered" | "unit_price">[]): number {
+  return lines.reduce((sum, line) => sum + lineTotal(line), 0);
+}
+
+// Orders that can take deliveries
+export const RECEIVABLE_PO_STATUSES: PurchaseOrderStatus[] = ["sent", "partially_received"];
+
+export type DiscrepancyType =
+  | "over_delivery"
+  | "under_delivery"
+  | "wrong_item"
+  | "damaged"
+  | "short_shipped";
+
+export const DISCREPANCY_LABELS: Record<DiscrepancyType, string> = {
+  over_delivery: "Over-delivered",
+  under_delivery: "Under-delivered",
+  wrong_item: "Wrong item",
+  damaged: "Damaged",
+  short_shipped: "Short-shipped",
+};
+
+export function outstandingQuantity(
+  line: Pick<PurchaseOrderLine, "quantity_ordered" | "quantity_received">
+): number {
+  return Math.max(0, line.quantity_ordered - line.quantity_received);
+}
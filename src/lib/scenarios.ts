@@ -0,0 +1,112 @@
+export type DemandMultiplierScope = "item_type" | "item" | "location";
+
+export type LeadTimeShockScope = "all" | "item_type" | "item";
+
+// Types rather than interfaces so they can be written to jsonb columns
+export type DemandMultiplier = {
+  scope: DemandMultiplierScope;
+  target: string;
+  multiplier: number;
+  // Days from tomorrow (day 1)
+  start_day: number;
+  duration_days: number;
+};
+
+export type LeadTimeShock = {
+  scope: LeadTimeShockScope;
+  target: string | null;
+  extra_days: number;
+  start_day: number;
+  duration_days: number;
+};
+
+export interface RunSummary {
+  stockout_date: string | null;
+  stockout_days: number;
+  units_short: number;
+  order_count: number;
+  order_quantity: number;
+  spend: number;
+  ending_stock: number;
+}
+
+export interface SimulatedItem {
+  item_id: string;
+  item_name: string;
+  item_type: string;
+  current_stock: number;
+  reorder_point: number;
+  order_quantity: number;
+  unit_price: number;
+  lead_time_days: number;
+  baseline_demand: number;
+  scenario_demand: number;
+  baseline: RunSummary;
+  scenario: RunSummary;
+  orders: { order_date: string; arrival_date: string; quantity: number; cost: number }[];
+  extra_spend: number;
+}
+
+// Stored by simulate-scenario in demand_scenarios.result
+export interface ScenarioResult {
+  horizon_days: number;
+  start_date: string;
+  end_date: string;
+  items_simulated: number;
+  // Across every item simulated; items lists only those the scenario changes
+  // or that stock out under it
+  totals: {
+    baseline_stockout_items: number;
+    scenario_stockout_items: number;
+    baseline_units_short: number;
+    scenario_units_short: number;
+    baseline_order_count: number;
+    scenario_order_count: number;
+    baseline_spend: number;
+    scenario_spend: number;
+    extra_spend: number;
+  };
+  items: SimulatedItem[];
+}
+
+export interface DemandScenario {
+  id: string;
+  name: string;
+  description: string | null;
+  horizon_days: number;
+  demand_multipliers: DemandMultiplier[];
+  lead_time_shocks: LeadTimeShock[];
+  result: ScenarioResult | null;
+  simulated_at: string | null;
+}
+
+export const MULTIPLIER_SCOPES: { value: DemandMultiplierScope; label: string }[] = [
+  { value: "item_type", label: "Item type" },
+  { value: "item", label: "Single item" },
+  { value: "location", label: "Location" },
+];
+
+export const SHOCK_SCOPES: { value: LeadTimeShockScope; label: string }[] = [
+  { value: "all", label: "All items" },
+  { value: "item_type", label: "Item type" },
+  { value: "item", label: "Single item" },
+];
+
+// Scenarios compared side by side at most
+export const MAX_COMPARED_SCENARIOS = 4;
+
+/**
+ * Day window in words, e.g. "days 1–21".
+ */
+export function describeWindow(window: { start_day: number; duration_days: number }): string {
+  const end = window.start_day + window.duration_days - 1;
+  return end === window.start_day ? `day ${end}` : `days ${window.start_day}–${end}`;
+}
+
+/**
+ * Multiplier as a change in demand, e.g. 1.6 -> "+60%".
+ */
+export function formatMultiplier(multiplier: number): string {
+  const change = Math.round((multiplier - 1) * 100);
+  return `${change >= 0 ? "+" : ""}${change}%`;
+}
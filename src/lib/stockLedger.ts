@@ -0,0 +1,54 @@
+export type TransactionType =
+  | "receipt"
+  | "issue"
+  | "adjustment"
+  | "transfer"
+  | "waste"
+  | "return";
+
+export type TransactionDirection = "in" | "out" | "either";
+
+export interface TransactionTypeInfo {
+  label: string;
+  direction: TransactionDirection;
+  requiresReason: boolean;
+}
+
+export const TRANSACTION_TYPES: Record<TransactionType, TransactionTypeInfo> = {
+  receipt: { label: "Receipt", direction: "in", requiresReason: false },
+  issue: { label: "Issue", direction: "out", requiresReason: false },
+  adjustment: { label: "Adjustment", direction: "either", requiresReason: true },
+  transfer: { label: "Transfer", direction: "either", requiresReason: false },
+  waste: { label: "Waste", direction: "out", requiresReason: true },
+  return: { label: "Return", direction: "in", requiresReason: false },
+};
+
+// Types a user can record by hand from the movement drawer. Transfers are
+// written in pairs by the system and are not entered one side at a time.
+export const MANUAL_TRANSACTION_TYPES: TransactionType[] = [
+  "receipt",
+  "issue",
+  "return",
+  "waste",
+  "adjustment",
+];
+
+// The manual types staff other than admins and inventory managers may record;
+// receipts and adjustments change stock without a matching use.
+export const STAFF_TRANSACTION_TYPES: TransactionType[] = ["issue", "return", "waste"];
+
+/**
+ * Converts a positive quantity entered in the UI into the signed delta stored
+ * in stock_transactions.quantity.
+ */
+export function toSignedQuantity(
+  type: TransactionType,
+  quantity: number,
+  adjustmentDirection: "in" | "out" = "in"
+): number {
+  const magnitude = Math.abs(quantity);
+  const direction = TRANSACTION_TYPES[type].direction;
+  if (direction === "out") return -magnitude;
+  if (direction === "either" && adjustmentDirection === "out") return -magnitude;
+  return magnitude;
+}
@@ -0,0 +1,30 @@
+export interface StockProjection {
+  item_id: string | null;
+  location_id: string | null;
+  projected_at: string | null;
+  days_of_cover: number | null;
+  stockout_date: string | null;
+  days_until_stockout: number | null;
+  incoming_quantity: number | null;
+  next_arrival_date: string | null;
+}
+
+// The Dashboard's "running out this week" window
+export const RUNNING_OUT_DAYS = 7;
+
+/**
+ * Lookup key for a projection; hospital-wide projections have no location.
+ */
+export function projectionKey(itemId: string | null, locationId: string | null): string {
+  return `${itemId}:${locationId ?? ""}`;
+}
+
+/**
+ * Text colour for how soon an item runs out.
+ */
+export function stockoutUrgencyClass(daysUntilStockout: number | null): string {
+  if (daysUntilStockout === null) return "";
+  if (daysUntilStockout <= RUNNING_OUT_DAYS) return "text-destructive font-semibold";
+  if (daysUntilStockout <= RUNNING_OUT_DAYS * 2) return "text-warning font-semibold";
+  return "";
+}
@@ -0,0 +1,55 @@
+export interface Vendor {
+  id: string;
+  vendor_code: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  contract_start: string | null;
+  contract_end: string | null;
+  contract_terms: string | null;
+  default_lead_time_days: number | null;
+  minimum_order_value: number;
+  payment_terms: string | null;
+  is_active: boolean;
+}
+
+export const PAYMENT_TERMS = ["Prepaid", "Net 15", "Net 30", "Net 45", "Net 60", "Net 90"];
+
+export type DiscountType = "all_units" | "incremental";
+
+export const DISCOUNT_TYPES: { value: DiscountType; label: string; help: string }[] = [
+  {
+    value: "all_units",
+    label: "All units",
+    help: "The whole order is charged at the price of the highest break reached",
+  },
+  {
+    value: "incremental",
+    label: "Incremental",
+    help: "Only the units beyond each break are charged at that break's price",
+  },
+];
+
+/**
+ * Next free vendor code in the V001, V002, ... sequence.
+ */
+export function nextVendorCode(vendors: Pick<Vendor, "vendor_code">[]): string {
+  const highest = vendors.reduce((max, vendor) => {
+    const match = /^V(\d+)$/.exec(vendor.vendor_code);
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  return `V${String(highest + 1).padStart(3, "0")}`;
+}
+
+/**
+ * Whether the vendor's contract covers the given date. Open-ended contracts
+ * (no start or no end) count as covering that side.
+ */
+export function isContractActive(vendor: Vendor, on: Date = new Date()): boolean {
+  const day = on.toISOString().slice(0, 10);
+  if (vendor.contract_start && day < vendor.contract_start) return false;
+  if (vendor.contract_end && day > vendor.contract_end) return false;
+  return true;
+}
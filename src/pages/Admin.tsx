@@ -20,6 +20,9 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Users, Shield, Database, Download } from "lucide-react";
+import { ModelManagement } from "@/components/admin/ModelManagement";
+import { WebhooksManager } from "@/components/admin/WebhooksManager";
+import { NotificationDeliveries } from "@/components/admin/NotificationDeliveries";
 
 interface Profile {
   id: string;
@@ -195,6 +198,12 @@ export default function Admin() {
         </CardContent>
       </Card>
 
+      <ModelManagement />
+
+      <WebhooksManager />
+
+      <NotificationDeliveries />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
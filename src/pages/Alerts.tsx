@@ -3,9 +3,39 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, AlertTriangle, Info, Check, X } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertCircle, AlertTriangle, ArrowUpCircle, Info, Check, CheckCircle2, Clock, Repeat, RotateCcw, UserPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { AlertRulesManager } from "@/components/alerts/AlertRulesManager";
+import { AlertResponseMetrics } from "@/components/alerts/AlertResponseMetrics";
+import { EscalationPoliciesManager } from "@/components/alerts/EscalationPoliciesManager";
+import { UsageAnomaliesReview } from "@/components/alerts/UsageAnomaliesReview";
+import { ALERT_STATUS_FILTERS, AlertStatus, AlertStatusFilter, SNOOZE_OPTIONS } from "@/lib/alerts";
+import { RECIPIENT_ROLES, SEVERITIES } from "@/lib/alertRules";
 
 interface Alert {
   id: string;
@@ -17,17 +47,52 @@ interface Alert {
   is_read: boolean;
   created_at: string;
   item_id: string | null;
+  status: AlertStatus;
+  opened_at: string;
+  acknowledged_at: string | null;
+  assigned_to: string | null;
+  snoozed_until: string | null;
+  resolved_at: string | null;
+  resolution_note: string | null;
+  reopened_count: number;
+  occurrence_count: number;
+  last_seen_at: string;
+  recipient_roles: string[];
+  escalation_level: number;
 }
 
+interface Option {
+  id: string;
+  name: string;
+}
+
+const ALL = "all";
+const ME = "me";
+const UNASSIGNED = "unassigned";
+
 export default function Alerts() {
   const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [filter, setFilter] = useState<"all" | "unread">("unread");
+  const [statusFilter, setStatusFilter] = useState<AlertStatusFilter>("active");
+  const [severityFilter, setSeverityFilter] = useState(ALL);
+  const [itemFilter, setItemFilter] = useState(ALL);
+  const [assigneeFilter, setAssigneeFilter] = useState(ALL);
+  const [items, setItems] = useState<Option[]>([]);
+  const [users, setUsers] = useState<Option[]>([]);
+  const [resolving, setResolving] = useState<Alert | null>(null);
+  const [resolutionNote, setResolutionNote] = useState("");
+  const [busyAlert, setBusyAlert] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
   const { toast } = useToast();
+  const { user, isManager } = useAuth();
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
 
   useEffect(() => {
     fetchAlerts();
-    
+
     // Subscribe to new alerts
     const channel = supabase
       .channel('alerts-changes')
@@ -51,41 +116,111 @@ export default function Alerts() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [filter]);
+  }, [statusFilter, severityFilter, itemFilter, assigneeFilter]);
+
+  const fetchOptions = async () => {
+    const [{ data: itemData }, { data: profileData }] = await Promise.all([
+      supabase.from("inventory_items").select("id, item_name").order("item_name"),
+      supabase.from("profiles").select("id, full_name").order("full_name"),
+    ]);
+
+    if (itemData) setItems(itemData.map((item) => ({ id: item.id, name: item.item_name })));
+    if (profileData) setUsers(profileData.map((profile) => ({ id: profile.id, name: profile.full_name })));
+  };
 
   const fetchAlerts = async () => {
+    // Escalation also runs with every prediction run; checking here as well
+    // shows alerts at their current level without waiting for the next run
+    await supabase.rpc("escalate_alerts");
+
     let query = supabase
       .from("alerts_history")
       .select("*")
-      .order("created_at", { ascending: false });
+      .order("last_seen_at", { ascending: false });
 
-    if (filter === "unread") {
-      query = query.eq("is_read", false);
+    if (statusFilter === "active") {
+      query = query.neq("status", "resolved");
+    } else if (statusFilter !== "all") {
+      query = query.eq("status", statusFilter);
+    }
+    if (severityFilter !== ALL) query = query.eq("severity", severityFilter);
+    if (itemFilter !== ALL) query = query.eq("item_id", itemFilter);
+    if (assigneeFilter === ME && user) {
+      query = query.eq("assigned_to", user.id);
+    } else if (assigneeFilter === UNASSIGNED) {
+      query = query.is("assigned_to", null);
+    } else if (assigneeFilter !== ALL && assigneeFilter !== ME) {
+      query = query.eq("assigned_to", assigneeFilter);
     }
 
     const { data } = await query;
     if (data) setAlerts(data as Alert[]);
     setLoading(false);
+    setRefreshKey((key) => key + 1);
   };
 
-  const markAsRead = async (id: string) => {
-    const { error } = await supabase
-      .from("alerts_history")
-      .update({ is_read: true })
-      .eq("id", id);
+  // Runs a lifecycle RPC for one alert and refreshes the list
+  const runAction = async (
+    alert: Alert,
+    action: () => PromiseLike<{ error: { message: string } | null }>,
+    done: string
+  ) => {
+    setBusyAlert(alert.id);
+    const { error } = await action();
+    setBusyAlert(null);
 
-    if (!error) {
-      setAlerts(alerts.map(a => a.id === id ? { ...a, is_read: true } : a));
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
     }
+    toast({ title: done });
+    fetchAlerts();
+    return true;
+  };
+
+  const acknowledge = (alert: Alert) =>
+    runAction(alert, () => supabase.rpc("acknowledge_alert", { _alert_id: alert.id }), "Alert acknowledged");
+
+  // Leaving out the assignee unassigns
+  const assign = (alert: Alert, assignee: string | null) =>
+    runAction(
+      alert,
+      () => supabase.rpc("assign_alert", { _alert_id: alert.id, ...(assignee ? { _assignee: assignee } : {}) }),
+      assignee ? "Alert assigned" : "Alert unassigned"
+    );
+
+  const snooze = (alert: Alert, hours: number) => {
+    const until = new Date(Date.now() + hours * 60 * 60 * 1000);
+    return runAction(
+      alert,
+      () => supabase.rpc("snooze_alert", { _alert_id: alert.id, _until: until.toISOString() }),
+      `Alert snoozed until ${format(until, "PPp")}`
+    );
+  };
+
+  const closeResolveDialog = () => {
+    setResolving(null);
+    setResolutionNote("");
+  };
+
+  const resolve = async () => {
+    if (!resolving) return;
+    if (!resolutionNote.trim()) {
+      toast({ title: "Resolution note required", variant: "destructive" });
+      return;
+    }
+    const resolved = await runAction(
+      resolving,
+      () => supabase.rpc("resolve_alert", { _alert_id: resolving.id, _note: resolutionNote }),
+      "Alert resolved"
+    );
+    if (resolved) closeResolveDialog();
   };
 
   const markAllAsRead = async () => {
     const unreadIds = alerts.filter(a => !a.is_read).map(a => a.id);
-    
-    const { error } = await supabase
-      .from("alerts_history")
-      .update({ is_read: true })
-      .in("id", unreadIds);
+
+    const { error } = await supabase.rpc("mark_alerts_read", { _alert_ids: unreadIds });
 
     if (!error) {
       toast({
@@ -118,6 +253,24 @@ export default function Alerts() {
     }
   };
 
+  const userName = (id: string | null) => users.find((candidate) => candidate.id === id)?.name ?? "Unknown user";
+
+  // A snooze that has run out stays "snoozed" until the next prediction run
+  // wakes it
+  const statusLabel = (alert: Alert) => {
+    if (alert.status === "snoozed" && alert.snoozed_until) {
+      return new Date(alert.snoozed_until) <= new Date()
+        ? "Snooze ended"
+        : `Snoozed until ${format(new Date(alert.snoozed_until), "PPp")}`;
+    }
+    return ALERT_STATUS_FILTERS.find((option) => option.value === alert.status)?.label ?? alert.status;
+  };
+
+  const recipientsLabel = (alert: Alert) =>
+    alert.recipient_roles
+      .map((role) => RECIPIENT_ROLES.find((candidate) => candidate.value === role)?.label ?? role)
+      .join(", ");
+
   const unreadCount = alerts.filter(a => !a.is_read).length;
 
   if (loading) {
@@ -145,19 +298,72 @@ export default function Alerts() {
         )}
       </div>
 
-      <div className="flex gap-2">
-        <Button
-          variant={filter === "unread" ? "default" : "outline"}
-          onClick={() => setFilter("unread")}
-        >
-          Unread ({unreadCount})
-        </Button>
-        <Button
-          variant={filter === "all" ? "default" : "outline"}
-          onClick={() => setFilter("all")}
-        >
-          All Alerts ({alerts.length})
-        </Button>
+      <AlertResponseMetrics refreshKey={refreshKey} />
+
+      {isManager && <AlertRulesManager />}
+
+      {isManager && <EscalationPoliciesManager />}
+
+      {isManager && <UsageAnomaliesReview refreshKey={refreshKey} />}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="status_filter">State</Label>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as AlertStatusFilter)}>
+            <SelectTrigger id="status_filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ALERT_STATUS_FILTERS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="severity_filter">Severity</Label>
+          <Select value={severityFilter} onValueChange={setSeverityFilter}>
+            <SelectTrigger id="severity_filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All severities</SelectItem>
+              {SEVERITIES.map((severity) => (
+                <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="item_filter">Item</Label>
+          <Select value={itemFilter} onValueChange={setItemFilter}>
+            <SelectTrigger id="item_filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All items</SelectItem>
+              {items.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="assignee_filter">Assignee</Label>
+          <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+            <SelectTrigger id="assignee_filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Anyone</SelectItem>
+              <SelectItem value={ME}>Assigned to me</SelectItem>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {users.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <div className="space-y-4">
@@ -165,13 +371,13 @@ export default function Alerts() {
           <Card>
             <CardContent className="py-12 text-center text-muted-foreground">
               <Info className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No {filter === "unread" ? "unread " : ""}alerts found</p>
+              <p>No alerts match these filters</p>
             </CardContent>
           </Card>
         ) : (
           alerts.map((alert) => (
-            <Card 
-              key={alert.id} 
+            <Card
+              key={alert.id}
               className={`${!alert.is_read ? "border-l-4" : ""} ${getSeverityColor(alert.severity)}`}
             >
               <CardHeader>
@@ -179,30 +385,118 @@ export default function Alerts() {
                   <div className="flex items-start gap-3 flex-1">
                     {getSeverityIcon(alert.severity)}
                     <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
                         <CardTitle className="text-lg">{alert.title}</CardTitle>
                         {!alert.is_read && (
                           <Badge variant="secondary" className="text-xs">New</Badge>
                         )}
+                        <Badge variant="outline" className="text-xs">{statusLabel(alert)}</Badge>
+                        {alert.reopened_count > 0 && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <RotateCcw className="h-3 w-3" />
+                            Reopened {alert.reopened_count}×
+                          </Badge>
+                        )}
+                        {alert.occurrence_count > 1 && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Repeat className="h-3 w-3" />
+                            Seen {alert.occurrence_count}×
+                          </Badge>
+                        )}
+                        {alert.escalation_level > 0 && (
+                          <Badge variant="outline" className="text-xs gap-1" title={`Notifying ${recipientsLabel(alert)}`}>
+                            <ArrowUpCircle className="h-3 w-3" />
+                            Escalated to level {alert.escalation_level}
+                          </Badge>
+                        )}
                       </div>
                       <CardDescription className="text-sm">
                         {alert.message}
                       </CardDescription>
                       <p className="text-xs text-muted-foreground mt-2">
-                        {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
+                        {alert.reopened_count > 0 ? "Reopened " : ""}
+                        {formatDistanceToNow(new Date(alert.opened_at), { addSuffix: true })}
+                        {alert.occurrence_count > 1 &&
+                          ` · Last seen ${formatDistanceToNow(new Date(alert.last_seen_at), { addSuffix: true })}`}
+                        {` · For ${recipientsLabel(alert)}`}
+                        {alert.assigned_to && ` · Assigned to ${userName(alert.assigned_to)}`}
+                        {alert.acknowledged_at && alert.status !== "resolved" &&
+                          ` · Acknowledged ${formatDistanceToNow(new Date(alert.acknowledged_at), { addSuffix: true })}`}
+                        {alert.resolved_at &&
+                          ` · Resolved ${formatDistanceToNow(new Date(alert.resolved_at), { addSuffix: true })}`}
                       </p>
+                      {alert.resolution_note && (
+                        <p className="text-sm mt-2">
+                          <span className="text-muted-foreground">Resolution: </span>
+                          {alert.resolution_note}
+                        </p>
+                      )}
                     </div>
                   </div>
-                  {!alert.is_read && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => markAsRead(alert.id)}
-                      className="gap-2"
-                    >
-                      <Check className="h-4 w-4" />
-                      Mark Read
-                    </Button>
+                  {alert.status !== "resolved" && (
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {alert.status !== "acknowledged" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => acknowledge(alert)}
+                          disabled={busyAlert === alert.id}
+                          className="gap-2"
+                        >
+                          <Check className="h-4 w-4" />
+                          Acknowledge
+                        </Button>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="gap-2" disabled={busyAlert === alert.id}>
+                            <UserPlus className="h-4 w-4" />
+                            Assign
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {user && alert.assigned_to !== user.id && (
+                            <DropdownMenuItem onClick={() => assign(alert, user.id)}>Assign to me</DropdownMenuItem>
+                          )}
+                          {isManager &&
+                            users
+                              .filter((candidate) => candidate.id !== user?.id && candidate.id !== alert.assigned_to)
+                              .map((candidate) => (
+                                <DropdownMenuItem key={candidate.id} onClick={() => assign(alert, candidate.id)}>
+                                  {candidate.name}
+                                </DropdownMenuItem>
+                              ))}
+                          {alert.assigned_to && (isManager || alert.assigned_to === user?.id) && (
+                            <DropdownMenuItem onClick={() => assign(alert, null)}>Unassign</DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="gap-2" disabled={busyAlert === alert.id}>
+                            <Clock className="h-4 w-4" />
+                            Snooze
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {SNOOZE_OPTIONS.map((option) => (
+                            <DropdownMenuItem key={option.hours} onClick={() => snooze(alert, option.hours)}>
+                              {option.label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setResolving(alert)}
+                        disabled={busyAlert === alert.id}
+                        className="gap-2"
+                      >
+                        <CheckCircle2 className="h-4 w-4" />
+                        Resolve
+                      </Button>
+                    </div>
                   )}
                 </div>
               </CardHeader>
@@ -225,6 +519,34 @@ export default function Alerts() {
           ))
         )}
       </div>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && closeResolveDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve Alert</DialogTitle>
+            <DialogDescription>
+              {resolving?.title}. If the condition comes back, the alert is reopened.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="resolution_note">Resolution Note</Label>
+            <Textarea
+              id="resolution_note"
+              value={resolutionNote}
+              onChange={(e) => setResolutionNote(e.target.value)}
+              placeholder="What was done, e.g. restocked from central store"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeResolveDialog}>
+              Cancel
+            </Button>
+            <Button onClick={resolve} disabled={busyAlert === resolving?.id}>
+              Resolve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
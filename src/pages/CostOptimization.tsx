@@ -2,9 +2,12 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { DollarSign, TrendingDown, Package, AlertTriangle, Play } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DollarSign, TrendingDown, Package, AlertTriangle, Play, PiggyBank } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
+import { CostParametersEditor, OptimizationLimits } from "@/components/cost-optimization/CostParametersEditor";
 
 interface CostOptimization {
   id: string;
@@ -18,12 +21,46 @@ interface CostOptimization {
   item_name?: string;
   current_stock?: number;
   should_reorder?: boolean;
+  inputs?: OptimizationInputs;
+}
+
+// Inputs recorded by calculate-cost-optimization in `parameters`
+interface OptimizationInputs {
+  service_level?: number;
+  z_score?: number;
+  daily_demand_mean?: number;
+  daily_demand_std_dev?: number;
+  demand_source?: "history" | "assumed" | "override";
+  demand_days_observed?: number;
+  annual_shortage_cost?: number;
+  lead_time_days?: number;
+  lead_time_source?: "vendor_history" | "item_history" | "manual";
+  lead_time_samples?: number;
+  lead_time_trend_days_per_30d?: number | null;
+  base_unit_price?: number;
+  unit_price?: number;
+  discount_type?: "all_units" | "incremental";
+  plain_eoq?: number;
+  plain_eoq_annual_cost?: number;
+  savings_vs_eoq?: number;
+  storage_constraint?: ConstraintUsage | null;
+  budget_constraint?: ConstraintUsage | null;
+}
+
+interface ConstraintUsage {
+  limit: number;
+  used: number;
+  shadow_price: number;
+  binding: boolean;
 }
 
 export default function CostOptimization() {
   const [loading, setLoading] = useState(false);
   const [calculating, setCalculating] = useState(false);
   const [optimizations, setOptimizations] = useState<CostOptimization[]>([]);
+  // Blank means unlimited
+  const [storageLimit, setStorageLimit] = useState("");
+  const [budgetLimit, setBudgetLimit] = useState("");
   const { toast } = useToast();
 
   useEffect(() => {
@@ -46,17 +83,23 @@ export default function CostOptimization() {
         item_name: (opt.inventory_items as any)?.item_name,
         current_stock: (opt.inventory_items as any)?.current_stock,
         should_reorder: (opt.inventory_items as any)?.current_stock <= opt.reorder_point,
+        inputs: (opt.parameters ?? undefined) as OptimizationInputs | undefined,
       }));
       setOptimizations(formatted);
     }
     setLoading(false);
   };
 
+  const limits: OptimizationLimits = {
+    storage_volume_limit: storageLimit ? parseFloat(storageLimit) : null,
+    budget_limit: budgetLimit ? parseFloat(budgetLimit) : null,
+  };
+
   const runCalculations = async () => {
     setCalculating(true);
     try {
       const { data, error } = await supabase.functions.invoke("calculate-cost-optimization", {
-        body: { run_all: true },
+        body: { run_all: true, ...limits },
       });
 
       if (error) throw error;
@@ -80,6 +123,7 @@ export default function CostOptimization() {
 
   const totalAnnualCost = optimizations.reduce((sum, opt) => sum + Number(opt.estimated_annual_cost), 0);
   const itemsNeedingReorder = optimizations.filter(opt => opt.should_reorder).length;
+  const totalSavings = optimizations.reduce((sum, opt) => sum + (opt.inputs?.savings_vs_eoq ?? 0), 0);
 
   if (loading) {
     return (
@@ -98,7 +142,7 @@ export default function CostOptimization() {
         </p>
       </div>
 
-      <div className="grid gap-6 md:grid-cols-3">
+      <div className="grid gap-6 md:grid-cols-4">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -131,16 +175,64 @@ export default function CostOptimization() {
             <div className="text-3xl font-bold text-warning">{itemsNeedingReorder}</div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Savings vs Plain EOQ
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-3xl font-bold ${totalSavings < 0 ? "text-warning" : "text-success"}`}>
+              ${totalSavings.toFixed(2)}
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
+      <CostParametersEditor onSaved={runCalculations} limits={limits} />
+
       <Card>
         <CardHeader>
           <CardTitle>Run Cost Optimization</CardTitle>
           <CardDescription>
-            Calculate Economic Order Quantity (EOQ) and optimal reorder points for all items
+            Calculate cost-minimising order quantities, taking vendor price breaks into account,
+            and optimal reorder points for all items
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="storage_limit">Storage Volume Limit (L)</Label>
+              <Input
+                id="storage_limit"
+                type="number"
+                min={0}
+                step="0.1"
+                placeholder="Unlimited"
+                value={storageLimit}
+                onChange={(e) => setStorageLimit(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Space shared by all items' safety stock and order quantities; items without a unit volume take none
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget_limit">Order Budget ($)</Label>
+              <Input
+                id="budget_limit"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Unlimited"
+                value={budgetLimit}
+                onChange={(e) => setBudgetLimit(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Spend allowed on one order of every item
+              </p>
+            </div>
+          </div>
           <Button 
             onClick={runCalculations} 
             disabled={calculating}
@@ -163,6 +255,47 @@ export default function CostOptimization() {
                     <CardTitle>{opt.item_name || "Unknown Item"}</CardTitle>
                     <CardDescription>
                       Current Stock: {opt.current_stock} units
+                      {opt.inputs?.lead_time_days !== undefined && (
+                        <>
+                          {" · "}Lead time: {opt.inputs.lead_time_days.toFixed(1)} days
+                          {opt.inputs.lead_time_source === "manual"
+                            ? " (manual estimate)"
+                            : ` (measured over ${opt.inputs.lead_time_samples} orders${
+                                opt.inputs.lead_time_trend_days_per_30d
+                                  ? `, trending ${opt.inputs.lead_time_trend_days_per_30d > 0 ? "+" : ""}${opt.inputs.lead_time_trend_days_per_30d.toFixed(1)} days/month`
+                                  : ""
+                              })`}
+                        </>
+                      )}
+                      {opt.inputs?.service_level !== undefined && opt.inputs.z_score !== undefined && (
+                        <>
+                          <br />
+                          Service level {(opt.inputs.service_level * 100).toFixed(1)}% (z = {opt.inputs.z_score.toFixed(2)})
+                          {" · "}Daily demand {opt.inputs.daily_demand_mean?.toFixed(1)} ± {opt.inputs.daily_demand_std_dev?.toFixed(1)}
+                          {opt.inputs.demand_source === "history"
+                            ? ` (measured over ${opt.inputs.demand_days_observed} days)`
+                            : opt.inputs.demand_source === "override"
+                              ? " (from a manager's forecast override)"
+                              : " (variability assumed, too little history)"}
+                          {!!opt.inputs.annual_shortage_cost && ` · Expected shortage cost $${opt.inputs.annual_shortage_cost.toFixed(0)}/yr`}
+                        </>
+                      )}
+                      {opt.inputs?.unit_price !== undefined && opt.inputs.savings_vs_eoq !== undefined && (
+                        <>
+                          <br />
+                          Paying ${opt.inputs.unit_price.toFixed(2)}/unit
+                          {opt.inputs.base_unit_price !== undefined &&
+                            opt.inputs.unit_price < opt.inputs.base_unit_price &&
+                            ` (list $${opt.inputs.base_unit_price.toFixed(2)}, ${
+                              opt.inputs.discount_type === "incremental" ? "incremental" : "all-units"
+                            } discount)`}
+                          {" · "}
+                          {opt.inputs.savings_vs_eoq >= 0 ? "Saves" : "Costs"} $
+                          {Math.abs(opt.inputs.savings_vs_eoq).toFixed(0)}/yr vs plain EOQ of {opt.inputs.plain_eoq}
+                          {opt.inputs.storage_constraint?.binding && " · Limited by storage"}
+                          {opt.inputs.budget_constraint?.binding && " · Limited by budget"}
+                        </>
+                      )}
                     </CardDescription>
                   </div>
                   {opt.should_reorder && (
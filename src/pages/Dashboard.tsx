@@ -1,9 +1,22 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Package, TrendingDown, AlertTriangle, DollarSign, TrendingUp } from "lucide-react";
+import { Package, TrendingDown, AlertTriangle, DollarSign, TrendingUp, CalendarClock } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/useLocations";
+import { getDescendantIds } from "@/lib/locations";
+import { ALL_LOCATIONS, LocationSelect } from "@/components/locations/LocationSelect";
+import { ItemClassBadges } from "@/components/classification/ItemClassBadges";
+import { ItemClassFilter } from "@/components/classification/ItemClassFilter";
+import {
+  ClassFilter,
+  EMPTY_CLASS_FILTER,
+  ItemClassification,
+  matchesClassFilter,
+} from "@/lib/classification";
+import { RUNNING_OUT_DAYS, stockoutUrgencyClass } from "@/lib/stockProjections";
+import { format } from "date-fns";
 
 interface InventoryStats {
   totalItems: number;
@@ -12,9 +25,37 @@ interface InventoryStats {
   criticalItems: number;
 }
 
+interface LowStockItem {
+  item_id: string;
+  item_name: string;
+  quantity: number;
+  min_required: number;
+}
+
+interface RunningOutItem {
+  item_id: string;
+  item_name: string;
+  stockout_date: string;
+  days_until_stockout: number;
+  days_of_cover: number | null;
+  incoming_quantity: number;
+}
+
+// Vital before essential before desirable, then by value class
+const CLASS_RANK = { V: 0, E: 3, D: 6, A: 0, B: 1, C: 2 };
+
+const attentionRank = (classification: ItemClassification | undefined) =>
+  classification ? CLASS_RANK[classification.ved_class] + CLASS_RANK[classification.abc_class] : 9;
+
 export default function Dashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { locations, options: locationOptions } = useLocations();
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const [classFilter, setClassFilter] = useState<ClassFilter>(EMPTY_CLASS_FILTER);
+  const [classByItem, setClassByItem] = useState<Record<string, ItemClassification>>({});
+  const [lowStock, setLowStock] = useState<LowStockItem[]>([]);
+  const [runningOut, setRunningOut] = useState<RunningOutItem[]>([]);
   const [stats, setStats] = useState<InventoryStats>({
     totalItems: 0,
     lowStockItems: 0,
@@ -29,6 +70,13 @@ export default function Dashboard() {
   }, []);
 
   const initializeDashboard = async () => {
+    const { data: classifications } = await supabase.from("item_classifications").select("*");
+    if (classifications) {
+      setClassByItem(
+        Object.fromEntries(classifications.map((row) => [row.item_id, row as ItemClassification]))
+      );
+    }
+
     await fetchStats();
     
     // Auto-seed if database is empty
@@ -65,12 +113,50 @@ export default function Dashboard() {
     }
   };
 
-  const fetchStats = async () => {
-    const { data: items, error } = await supabase
+  // Stats against the par levels of the selected location and its children
+  const fetchLocationStats = useCallback(async () => {
+    const { data: allRows, error } = await supabase
+      .from("location_stock")
+      .select("item_id, quantity, min_required, inventory_items(item_name, unit_cost)")
+      .in("location_id", getDescendantIds(locations, locationFilter));
+
+    if (!error && allRows) {
+      const rows = allRows.filter((row) => matchesClassFilter(classByItem[row.item_id], classFilter));
+      const totalItems = new Set(rows.map((row) => row.item_id)).size;
+      const lowStockItems = rows.filter((row) => row.quantity < row.min_required).length;
+      const criticalItems = rows.filter((row) => row.quantity < row.min_required * 0.5).length;
+      const totalValue = rows.reduce(
+        (sum, row) => sum + row.quantity * parseFloat(String(row.inventory_items?.unit_cost ?? 0)),
+        0
+      );
+
+      setStats({ totalItems, lowStockItems, totalValue, criticalItems });
+      setLowStock(
+        rows
+          .filter((row) => row.quantity < row.min_required)
+          .map((row) => ({
+            item_id: row.item_id,
+            item_name: row.inventory_items?.item_name ?? "Unknown item",
+            quantity: row.quantity,
+            min_required: row.min_required,
+          }))
+      );
+    }
+    setLoading(false);
+  }, [locations, locationFilter, classByItem, classFilter]);
+
+  const fetchStats = useCallback(async () => {
+    if (locationFilter !== ALL_LOCATIONS) {
+      await fetchLocationStats();
+      return;
+    }
+
+    const { data: allItems, error } = await supabase
       .from("inventory_items")
       .select("*");
 
-    if (!error && items) {
+    if (!error && allItems) {
+      const items = allItems.filter((item) => matchesClassFilter(classByItem[item.id], classFilter));
       const totalItems = items.length;
       const lowStockItems = items.filter(
         (item) => item.current_stock < item.min_required
@@ -84,9 +170,58 @@ export default function Dashboard() {
       );
 
       setStats({ totalItems, lowStockItems, totalValue, criticalItems });
+      setLowStock(
+        items
+          .filter((item) => item.current_stock < item.min_required)
+          .map((item) => ({
+            item_id: item.id,
+            item_name: item.item_name,
+            quantity: item.current_stock,
+            min_required: item.min_required,
+          }))
+      );
     }
     setLoading(false);
-  };
+  }, [locationFilter, fetchLocationStats, classByItem, classFilter]);
+
+  // Projected stockouts from the latest prediction run for this scope;
+  // location projections exist once predictions have been run for it
+  const fetchRunningOut = useCallback(async () => {
+    let query = supabase
+      .from("latest_stock_projections")
+      .select("item_id, stockout_date, days_until_stockout, days_of_cover, incoming_quantity, inventory_items(item_name)")
+      .lte("days_until_stockout", RUNNING_OUT_DAYS)
+      .order("stockout_date");
+    query = locationFilter === ALL_LOCATIONS ? query.is("location_id", null) : query.eq("location_id", locationFilter);
+
+    const { data } = await query;
+    if (data) {
+      setRunningOut(
+        data.map((row) => ({
+          item_id: row.item_id ?? "",
+          item_name: row.inventory_items?.item_name ?? "Unknown item",
+          stockout_date: row.stockout_date ?? "",
+          days_until_stockout: row.days_until_stockout ?? 0,
+          days_of_cover: row.days_of_cover,
+          incoming_quantity: row.incoming_quantity ?? 0,
+        }))
+      );
+    }
+  }, [locationFilter]);
+
+  useEffect(() => {
+    fetchStats();
+    fetchRunningOut();
+  }, [fetchStats, fetchRunningOut]);
+
+  const runningOutItems = runningOut.filter((item) => matchesClassFilter(classByItem[item.item_id], classFilter));
+
+  const attentionItems = [...lowStock]
+    .sort((a, b) =>
+      attentionRank(classByItem[a.item_id]) - attentionRank(classByItem[b.item_id]) ||
+      a.quantity / a.min_required - b.quantity / b.min_required
+    )
+    .slice(0, 8);
 
   const statCards = [
     {
@@ -135,13 +270,26 @@ export default function Dashboard() {
   return (
     <div className="space-y-8 animate-in fade-in duration-500">
       {/* Header */}
-      <div className="space-y-2">
-        <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
-          Dashboard
-        </h1>
-        <p className="text-muted-foreground text-lg">
-          Real-time overview of your hospital inventory system
-        </p>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+            Dashboard
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Real-time overview of your hospital inventory system
+          </p>
+        </div>
+        <div className="flex flex-col md:flex-row gap-2">
+          <ItemClassFilter value={classFilter} onChange={setClassFilter} className="md:w-44" />
+          {locationOptions.length > 0 && (
+            <LocationSelect
+              value={locationFilter}
+              onChange={setLocationFilter}
+              options={locationOptions}
+              className="md:w-80"
+            />
+          )}
+        </div>
       </div>
 
       {/* KPI Cards */}
@@ -174,6 +322,71 @@ export default function Dashboard() {
         })}
       </div>
 
+      {/* Soonest stockout first */}
+      {runningOutItems.length > 0 && (
+        <Card className="border-none shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <CalendarClock className="h-6 w-6 text-destructive" />
+              Running Out This Week
+            </CardTitle>
+            <CardDescription className="text-base">
+              Items projected to run out within {RUNNING_OUT_DAYS} days at forecast demand, after open purchase orders arrive
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {runningOutItems.map((item) => (
+                <div key={item.item_id} className="flex items-center justify-between py-3 gap-4">
+                  <div className="flex items-center gap-3">
+                    <ItemClassBadges classification={classByItem[item.item_id]} />
+                    <span className="font-medium">{item.item_name}</span>
+                  </div>
+                  <div className="text-right text-sm whitespace-nowrap">
+                    <span className={stockoutUrgencyClass(item.days_until_stockout)}>
+                      {item.days_until_stockout <= 0
+                        ? "Out of stock"
+                        : `${format(new Date(item.stockout_date), "EEE MMM d")} · in ${item.days_until_stockout} ${item.days_until_stockout === 1 ? "day" : "days"}`}
+                    </span>
+                    <div className="text-xs text-muted-foreground">
+                      {item.days_of_cover !== null && `${item.days_of_cover.toFixed(1)} days of cover`}
+                      {item.incoming_quantity > 0 && ` · ${item.incoming_quantity} on order`}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Below minimum, most critical first */}
+      {attentionItems.length > 0 && (
+        <Card className="border-none shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-2xl">Needs Attention</CardTitle>
+            <CardDescription className="text-base">
+              Items below minimum stock, vital and high-value items first
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {attentionItems.map((item, index) => (
+                <div key={`${item.item_id}-${index}`} className="flex items-center justify-between py-3 gap-4">
+                  <div className="flex items-center gap-3">
+                    <ItemClassBadges classification={classByItem[item.item_id]} />
+                    <span className="font-medium">{item.item_name}</span>
+                  </div>
+                  <span className="text-sm text-muted-foreground whitespace-nowrap">
+                    {item.quantity} / {item.min_required} min
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card className="border-none shadow-lg">
         <CardHeader>
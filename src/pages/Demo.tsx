@@ -13,16 +13,19 @@ import { SingleRowTest } from "@/components/demo/SingleRowTest";
 import { DemoDataTable } from "@/components/demo/DemoDataTable";
 import { ModelMetrics } from "@/components/demo/ModelMetrics";
 import { PredictionChart } from "@/components/demo/PredictionChart";
+import { PredictionOutcome, TrainingDatasetSummary } from "@/lib/forecasting";
 
 export default function Demo() {
   const [modelInfo, setModelInfo] = useState<any>(null);
   const [sampleData, setSampleData] = useState<any[]>([]);
+  const [outcomes, setOutcomes] = useState<PredictionOutcome[]>([]);
   const [batchResults, setBatchResults] = useState<any[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchModelInfo();
     fetchSampleData();
+    fetchOutcomes();
   }, []);
 
   const fetchModelInfo = async () => {
@@ -43,12 +46,23 @@ export default function Demo() {
         *,
         inventory_items(item_name, item_type)
       `)
+      .eq("is_shadow", false)
       .order("created_at", { ascending: false })
       .limit(20);
     
     if (data) setSampleData(data);
   };
 
+  const fetchOutcomes = async () => {
+    const { data } = await supabase
+      .from("prediction_outcomes")
+      .select("*")
+      .order("window_end", { ascending: false })
+      .limit(10);
+
+    if (data) setOutcomes(data);
+  };
+
   const downloadTemplate = () => {
     const template = `item_name,item_type,current_stock,min_required,max_capacity,avg_usage_per_day,restock_lead_time,unit_cost,vendor_name
 Surgical Gloves,PPE,500,200,1000,50,7,2.50,MedSupply Inc
@@ -91,9 +105,11 @@ N95 Masks,PPE,200,100,500,25,10,3.00,SafetyFirst Ltd`;
             <div>
               <CardTitle className="text-lg">About This Model</CardTitle>
               <CardDescription className="mt-2">
-                This demo uses the exact preprocessing and model logic from our GradientBoosting regressor.
-                The model predicts inventory demand based on historical usage patterns, lead times, and stock levels.
-                All predictions show feature importance and explainability for transparency.
+                Live forecasts come from exponential smoothing models (simple, Holt trend, Holt-Winters
+                seasonal and Croston for intermittent items) fitted to each item's daily consumption. The
+                metrics below are measured by rolling-origin cross-validation on held-out days. The quick
+                test and CSV upload have no history to learn from, so they estimate demand as average usage
+                over the restock lead time.
               </CardDescription>
             </div>
           </div>
@@ -103,11 +119,12 @@ N95 Masks,PPE,200,100,500,25,10,3.00,SafetyFirst Ltd`;
       {modelInfo && (
         <ModelMetrics 
           modelVersion={modelInfo.model_version}
+          modelType={modelInfo.model_type}
           mae={modelInfo.mae}
           rmse={modelInfo.rmse}
           r2Score={modelInfo.r2_score}
           trainingDate={modelInfo.training_date}
-          featureImportance={modelInfo.feature_importance}
+          datasetSummary={modelInfo.dataset_summary as TrainingDatasetSummary | null}
         />
       )}
 
@@ -136,7 +153,7 @@ N95 Masks,PPE,200,100,500,25,10,3.00,SafetyFirst Ltd`;
             </CardContent>
           </Card>
 
-          <PredictionChart data={sampleData} />
+          <PredictionChart data={outcomes} />
         </TabsContent>
 
         <TabsContent value="upload" className="space-y-4">
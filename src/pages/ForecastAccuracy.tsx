@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format, startOfWeek } from "date-fns";
+import { Target } from "lucide-react";
+import { PredictionChart } from "@/components/demo/PredictionChart";
+import { OverrideAccuracyTable } from "@/components/forecast-overrides/OverrideAccuracyTable";
+import { AccuracyDimension, PredictionOutcome, TRACKING_SIGNAL_LIMIT } from "@/lib/forecasting";
+
+interface AccuracyRow {
+  dimension: string | null;
+  item_id: string | null;
+  item_name: string | null;
+  item_type: string | null;
+  model_version_id: string | null;
+  model_version: string | null;
+  forecast_count: number | null;
+  mae: number | null;
+  mape: number | null;
+  bias: number | null;
+  tracking_signal: number | null;
+  coverage_80: number | null;
+  coverage_95: number | null;
+}
+
+const DIMENSIONS: { value: AccuracyDimension; label: string }[] = [
+  { value: "item", label: "By Item" },
+  { value: "item_type", label: "By Item Type" },
+  { value: "model_version", label: "By Model Version" },
+];
+
+function rowLabel(row: AccuracyRow): string {
+  if (row.dimension === "item") return row.item_name ?? "Unknown item";
+  if (row.dimension === "item_type") return row.item_type ?? "Untyped";
+  return row.model_version ?? "No model recorded";
+}
+
+const percent = (value: number | null) => (value != null ? `${(value * 100).toFixed(1)}%` : "—");
+
+export default function ForecastAccuracy() {
+  const [accuracy, setAccuracy] = useState<AccuracyRow[]>([]);
+  const [outcomes, setOutcomes] = useState<PredictionOutcome[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAccuracy();
+  }, []);
+
+  const fetchAccuracy = async () => {
+    const [{ data: accuracyData }, { data: outcomeData }] = await Promise.all([
+      supabase.from("forecast_accuracy").select("*").order("mae", { ascending: false }),
+      supabase.from("prediction_outcomes").select("*").order("window_end", { ascending: false }).limit(1000),
+    ]);
+
+    if (accuracyData) setAccuracy(accuracyData);
+    if (outcomeData) setOutcomes(outcomeData);
+    setLoading(false);
+  };
+
+  // Weekly accuracy by the week each forecast horizon ended
+  const weekly = new Map<string, { absError: number; error: number; ape: number[]; count: number }>();
+  for (const outcome of outcomes) {
+    if (!outcome.window_end || outcome.error == null) continue;
+    const week = format(startOfWeek(new Date(outcome.window_end)), "yyyy-MM-dd");
+    const bucket = weekly.get(week) ?? { absError: 0, error: 0, ape: [], count: 0 };
+    bucket.absError += Math.abs(outcome.error);
+    bucket.error += outcome.error;
+    if (outcome.actual_demand) bucket.ape.push(Math.abs(outcome.error) / outcome.actual_demand);
+    bucket.count++;
+    weekly.set(week, bucket);
+  }
+  const trendData = [...weekly.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, bucket]) => ({
+      week: format(new Date(week), "MMM d"),
+      mae: Math.round(bucket.absError / bucket.count),
+      bias: Math.round(bucket.error / bucket.count),
+      mape: bucket.ape.length > 0
+        ? Math.round((bucket.ape.reduce((sum, ape) => sum + ape, 0) / bucket.ape.length) * 1000) / 10
+        : null,
+    }));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight">Forecast Accuracy</h1>
+        <p className="text-muted-foreground mt-2">
+          Past forecasts scored against the consumption that actually occurred over their horizon
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accuracy Over Time</CardTitle>
+          <CardDescription>
+            Weekly MAE and bias in units, and MAPE in percent, by the week each forecast horizon ended.
+            Positive bias means over-forecasting.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {trendData.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              No forecast has reached the end of its horizon yet
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="week" />
+                <YAxis yAxisId="units" />
+                <YAxis yAxisId="percent" orientation="right" unit="%" />
+                <Tooltip />
+                <Legend />
+                <Line yAxisId="units" type="monotone" dataKey="mae" stroke="hsl(var(--primary))" strokeWidth={2} name="MAE" />
+                <Line yAxisId="units" type="monotone" dataKey="bias" stroke="hsl(var(--warning))" strokeWidth={2} name="Bias" />
+                <Line yAxisId="percent" type="monotone" dataKey="mape" stroke="hsl(var(--secondary))" strokeWidth={2} name="MAPE" connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Backtest Results
+          </CardTitle>
+          <CardDescription>
+            A tracking signal beyond ±{TRACKING_SIGNAL_LIMIT} means forecasts are consistently off in one
+            direction rather than just noisy. Coverage is how often actual demand fell inside the interval.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="item">
+            <TabsList>
+              {DIMENSIONS.map((dimension) => (
+                <TabsTrigger key={dimension.value} value={dimension.value}>
+                  {dimension.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {DIMENSIONS.map((dimension) => {
+              const rows = accuracy.filter((row) => row.dimension === dimension.value);
+              return (
+                <TabsContent key={dimension.value} value={dimension.value}>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{dimension.label.replace("By ", "")}</TableHead>
+                          <TableHead className="text-right">Forecasts</TableHead>
+                          <TableHead className="text-right">MAE</TableHead>
+                          <TableHead className="text-right">MAPE</TableHead>
+                          <TableHead className="text-right">Bias</TableHead>
+                          <TableHead className="text-right">Tracking Signal</TableHead>
+                          <TableHead className="text-right">80% Coverage</TableHead>
+                          <TableHead className="text-right">95% Coverage</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={8} className="text-center text-muted-foreground">
+                              No evaluated forecasts
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          rows.map((row) => (
+                            <TableRow key={`${row.item_id}-${row.item_type}-${row.model_version_id}`}>
+                              <TableCell className="font-medium">{rowLabel(row)}</TableCell>
+                              <TableCell className="text-right">{row.forecast_count}</TableCell>
+                              <TableCell className="text-right">{row.mae?.toFixed(1) ?? "—"}</TableCell>
+                              <TableCell className="text-right">{percent(row.mape)}</TableCell>
+                              <TableCell className="text-right">{row.bias?.toFixed(1) ?? "—"}</TableCell>
+                              <TableCell className="text-right">
+                                {row.tracking_signal == null ? (
+                                  "—"
+                                ) : Math.abs(row.tracking_signal) > TRACKING_SIGNAL_LIMIT ? (
+                                  <Badge variant="destructive">{row.tracking_signal.toFixed(1)}</Badge>
+                                ) : (
+                                  row.tracking_signal.toFixed(1)
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">{percent(row.coverage_80)}</TableCell>
+                              <TableCell className="text-right">{percent(row.coverage_95)}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <OverrideAccuracyTable />
+
+      <PredictionChart data={outcomes} />
+    </div>
+  );
+}
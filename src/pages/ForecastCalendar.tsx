@@ -0,0 +1,42 @@
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Shield } from "lucide-react";
+import { CalendarEventsManager } from "@/components/forecast-calendar/CalendarEventsManager";
+import { RegressorsManager } from "@/components/forecast-calendar/RegressorsManager";
+import { ForecastOverridesManager } from "@/components/forecast-overrides/ForecastOverridesManager";
+
+export default function ForecastCalendar() {
+  const { isManager } = useAuth();
+
+  if (!isManager) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <Card className="max-w-md">
+          <CardHeader>
+            <Shield className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <CardTitle className="text-center">Access Denied</CardTitle>
+            <CardDescription className="text-center">
+              You don't have permission to access this page
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight">Forecast Calendar</h1>
+        <p className="text-muted-foreground mt-2">
+          Events and outside signals the demand forecasts take into account, alongside weekday and time-of-year
+          patterns, and manager overrides that replace the forecast outright
+        </p>
+      </div>
+
+      <CalendarEventsManager />
+      <RegressorsManager />
+      <ForecastOverridesManager />
+    </div>
+  );
+}
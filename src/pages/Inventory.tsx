@@ -13,7 +13,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Search, AlertTriangle } from "lucide-react";
+import { Plus, Search, AlertTriangle, History, ArrowLeftRight, Layers } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Dialog,
@@ -32,6 +32,25 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { StockMovementDrawer } from "@/components/inventory/StockMovementDrawer";
+import { TransferStockDialog } from "@/components/inventory/TransferStockDialog";
+import { ALL_LOCATIONS, LocationSelect, UNASSIGNED_LOCATION } from "@/components/locations/LocationSelect";
+import { NO_VENDOR, VendorSelect } from "@/components/vendors/VendorSelect";
+import { ItemClassBadges } from "@/components/classification/ItemClassBadges";
+import { ItemClassFilter } from "@/components/classification/ItemClassFilter";
+import { useLocations } from "@/hooks/useLocations";
+import { useVendors } from "@/hooks/useVendors";
+import { getDescendantIds } from "@/lib/locations";
+import { differenceInCalendarDays, format } from "date-fns";
+import {
+  ClassFilter,
+  EMPTY_CLASS_FILTER,
+  ItemClassification,
+  matchesClassFilter,
+  VED_LABELS,
+  VedClass,
+} from "@/lib/classification";
+import { projectionKey, StockProjection, stockoutUrgencyClass } from "@/lib/stockProjections";
 
 interface InventoryItem {
   id: string;
@@ -43,17 +62,45 @@ interface InventoryItem {
   unit_cost: number;
   avg_usage_per_day: number;
   restock_lead_time: number;
-  vendor_name: string | null;
+}
+
+interface LocationStockRow {
+  item_id: string;
+  location_id: string;
+  quantity: number;
+  min_required: number;
+  max_capacity: number;
+}
+
+interface ExpirySummary {
+  item_id: string;
+  nearest_expiry: string | null;
+  expired_quantity: number;
+  expiring_30_days: number;
+  expiring_60_days: number;
+  expiring_90_days: number;
 }
 
 export default function Inventory() {
-  const { isManager } = useAuth();
+  const { isManager, isAdmin } = useAuth();
+  const { locations, options: locationOptions } = useLocations();
+  const { activeVendors } = useVendors();
   const { toast } = useToast();
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [filteredItems, setFilteredItems] = useState<InventoryItem[]>([]);
+  const [expiryByItem, setExpiryByItem] = useState<Record<string, ExpirySummary>>({});
+  const [projections, setProjections] = useState<Record<string, StockProjection>>({});
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [transferItemId, setTransferItemId] = useState<string | null>(null);
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const [locationStock, setLocationStock] = useState<LocationStockRow[]>([]);
+  const [preferredVendors, setPreferredVendors] = useState<Record<string, string>>({});
+  const [classByItem, setClassByItem] = useState<Record<string, ItemClassification>>({});
+  const [classFilter, setClassFilter] = useState<ClassFilter>(EMPTY_CLASS_FILTER);
+  const [classifying, setClassifying] = useState(false);
   const [formData, setFormData] = useState({
     item_name: "",
     item_type: "Equipment",
@@ -63,7 +110,9 @@ export default function Inventory() {
     unit_cost: 0,
     avg_usage_per_day: 0,
     restock_lead_time: 0,
-    vendor_name: "",
+    unit_volume: "",
+    vendor_id: NO_VENDOR,
+    vendor_sku: "",
   });
 
   useEffect(() => {
@@ -71,11 +120,31 @@ export default function Inventory() {
   }, []);
 
   useEffect(() => {
-    const filtered = items.filter((item) =>
-      item.item_name.toLowerCase().includes(searchTerm.toLowerCase())
+    let scoped = items;
+
+    // With a location selected, show balances and par levels held there
+    // (including child locations) instead of the hospital-wide totals
+    if (locationFilter !== ALL_LOCATIONS) {
+      const locationIds = getDescendantIds(locations, locationFilter);
+      const rows = locationStock.filter((row) => locationIds.includes(row.location_id));
+      scoped = items.flatMap((item) => {
+        const itemRows = rows.filter((row) => row.item_id === item.id);
+        if (itemRows.length === 0) return [];
+        return [{
+          ...item,
+          current_stock: itemRows.reduce((sum, row) => sum + row.quantity, 0),
+          min_required: itemRows.reduce((sum, row) => sum + row.min_required, 0),
+          max_capacity: itemRows.reduce((sum, row) => sum + row.max_capacity, 0),
+        }];
+      });
+    }
+
+    const filtered = scoped.filter((item) =>
+      item.item_name.toLowerCase().includes(searchTerm.toLowerCase()) &&
+      matchesClassFilter(classByItem[item.id], classFilter)
     );
     setFilteredItems(filtered);
-  }, [searchTerm, items]);
+  }, [searchTerm, items, locationFilter, locationStock, locations, classByItem, classFilter]);
 
   const fetchItems = async () => {
     const { data, error } = await supabase
@@ -87,13 +156,63 @@ export default function Inventory() {
       setItems(data);
       setFilteredItems(data);
     }
+
+    const { data: stockRows } = await supabase
+      .from("location_stock")
+      .select("item_id, location_id, quantity, min_required, max_capacity");
+    if (stockRows) setLocationStock(stockRows);
+
+    const { data: vendorLinks } = await supabase
+      .from("item_vendors")
+      .select("item_id, vendors(name)")
+      .eq("is_preferred", true);
+    if (vendorLinks) {
+      setPreferredVendors(
+        Object.fromEntries(vendorLinks.map((link) => [link.item_id, link.vendors?.name ?? ""]))
+      );
+    }
+
+    const { data: classifications } = await supabase.from("item_classifications").select("*");
+    if (classifications) {
+      setClassByItem(
+        Object.fromEntries(classifications.map((row) => [row.item_id, row as ItemClassification]))
+      );
+    }
+
+    const { data: expiry } = await supabase.from("item_expiry_summary").select("*");
+    if (expiry) {
+      setExpiryByItem(
+        Object.fromEntries(expiry.map((row) => [row.item_id, row as ExpirySummary]))
+      );
+    }
+
+    const { data: projectionRows } = await supabase.from("latest_stock_projections").select("*");
+    if (projectionRows) {
+      setProjections(
+        Object.fromEntries(projectionRows.map((row) => [projectionKey(row.item_id, row.location_id), row]))
+      );
+    }
     setLoading(false);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    const { error } = await supabase.from("inventory_items").insert([formData]);
+
+    // The item, its preferred vendor and the opening receipt are created
+    // together, so a failure leaves nothing behind
+    const { error } = await supabase.rpc("create_inventory_item", {
+      _item_name: formData.item_name,
+      _item_type: formData.item_type,
+      _min_required: formData.min_required,
+      _max_capacity: formData.max_capacity,
+      _unit_cost: formData.unit_cost,
+      _avg_usage_per_day: formData.avg_usage_per_day,
+      _restock_lead_time: formData.restock_lead_time,
+      _unit_volume: formData.unit_volume ? parseFloat(formData.unit_volume) : undefined,
+      _opening_stock: formData.current_stock,
+      _vendor_id: formData.vendor_id === NO_VENDOR ? undefined : formData.vendor_id,
+      _vendor_sku: formData.vendor_sku || undefined,
+    });
 
     if (error) {
       toast({
@@ -117,7 +236,9 @@ export default function Inventory() {
         unit_cost: 0,
         avg_usage_per_day: 0,
         restock_lead_time: 0,
-        vendor_name: "",
+        unit_volume: "",
+        vendor_id: NO_VENDOR,
+        vendor_sku: "",
       });
     }
   };
@@ -132,6 +253,93 @@ export default function Inventory() {
     return <Badge className="bg-success text-white">Normal</Badge>;
   };
 
+  const renderNearestExpiry = (summary?: ExpirySummary) => {
+    if (!summary?.nearest_expiry) {
+      return summary?.expired_quantity ? (
+        <Badge variant="destructive">{summary.expired_quantity} expired</Badge>
+      ) : (
+        <span className="text-muted-foreground">—</span>
+      );
+    }
+    const daysLeft = differenceInCalendarDays(new Date(summary.nearest_expiry), new Date());
+    return (
+      <div className="flex items-center gap-2">
+        <span className={daysLeft <= 30 ? "text-warning font-semibold" : ""}>
+          {format(new Date(summary.nearest_expiry), "MMM d, yyyy")}
+        </span>
+        {summary.expired_quantity > 0 && (
+          <Badge variant="destructive">{summary.expired_quantity} expired</Badge>
+        )}
+      </div>
+    );
+  };
+
+  // Projections come from the latest prediction run for the same scope: the
+  // hospital-wide run, or a run for the selected location
+  const projectionFor = (item: InventoryItem) =>
+    projections[projectionKey(item.id, locationFilter === ALL_LOCATIONS ? null : locationFilter)];
+
+  const renderCover = (projection?: StockProjection) =>
+    projection?.days_of_cover != null ? `${projection.days_of_cover.toFixed(1)} days` : "—";
+
+  const renderStockout = (projection?: StockProjection) => {
+    if (!projection) return <span className="text-muted-foreground">Not projected</span>;
+    return (
+      <div>
+        {projection.stockout_date ? (
+          <span className={stockoutUrgencyClass(projection.days_until_stockout)}>
+            {projection.days_until_stockout !== null && projection.days_until_stockout <= 0
+              ? "Out of stock"
+              : format(new Date(projection.stockout_date), "MMM d, yyyy")}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Beyond a year</span>
+        )}
+        {!!projection.incoming_quantity && projection.incoming_quantity > 0 && (
+          <div className="text-xs text-muted-foreground">
+            incl. {projection.incoming_quantity} on order
+            {projection.next_arrival_date && `, next ${format(new Date(projection.next_arrival_date), "MMM d")}`}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const runClassification = async () => {
+    setClassifying(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("classify-items");
+      if (error) throw error;
+
+      toast({
+        title: "Items Classified",
+        description: `A/B/C: ${data.abc_counts.A ?? 0}/${data.abc_counts.B ?? 0}/${data.abc_counts.C ?? 0} · X/Y/Z: ${data.xyz_counts.X ?? 0}/${data.xyz_counts.Y ?? 0}/${data.xyz_counts.Z ?? 0}`,
+      });
+      fetchItems();
+    } catch (error) {
+      toast({
+        title: "Classification Failed",
+        description: error instanceof Error ? error.message : "Failed to classify items",
+        variant: "destructive",
+      });
+    } finally {
+      setClassifying(false);
+    }
+  };
+
+  const updateVedClass = async (itemId: string, vedClass: VedClass) => {
+    const { data, error } = await supabase.rpc("set_ved_class", {
+      _item_id: itemId,
+      _ved_class: vedClass,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    setClassByItem({ ...classByItem, [itemId]: data as ItemClassification });
+  };
+
   if (loading) {
     return (
       <div className="space-y-6 animate-in fade-in duration-500">
@@ -161,166 +369,203 @@ export default function Inventory() {
           </p>
         </div>
         {isManager && (
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="lg" className="gap-2 shadow-lg">
-                <Plus className="h-5 w-5" />
-                Add New Item
-              </Button>
-            </DialogTrigger>
-            {/* ... keep existing dialog content */}
-            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Add New Inventory Item</DialogTitle>
-                <DialogDescription>
-                  Enter the details for the new inventory item
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="item_name">Item Name</Label>
-                    <Input
-                      id="item_name"
-                      value={formData.item_name}
-                      onChange={(e) =>
-                        setFormData({ ...formData, item_name: e.target.value })
-                      }
-                      required
-                    />
+          <div className="flex gap-2">
+            <Button size="lg" variant="outline" className="gap-2" onClick={runClassification} disabled={classifying}>
+              <Layers className="h-5 w-5" />
+              {classifying ? "Classifying..." : "Classify Items"}
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="lg" className="gap-2 shadow-lg">
+                  <Plus className="h-5 w-5" />
+                  Add New Item
+                </Button>
+              </DialogTrigger>
+              {/* ... keep existing dialog content */}
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Add New Inventory Item</DialogTitle>
+                  <DialogDescription>
+                    Enter the details for the new inventory item
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="item_name">Item Name</Label>
+                      <Input
+                        id="item_name"
+                        value={formData.item_name}
+                        onChange={(e) =>
+                          setFormData({ ...formData, item_name: e.target.value })
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="item_type">Item Type</Label>
+                      <Select
+                        value={formData.item_type}
+                        onValueChange={(value) =>
+                          setFormData({ ...formData, item_type: value })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Equipment">Equipment</SelectItem>
+                          <SelectItem value="Consumable">Consumable</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="current_stock">Current Stock</Label>
+                      <Input
+                        id="current_stock"
+                        type="number"
+                        value={formData.current_stock}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            current_stock: parseInt(e.target.value) || 0,
+                          })
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="min_required">Min Required</Label>
+                      <Input
+                        id="min_required"
+                        type="number"
+                        value={formData.min_required}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            min_required: parseInt(e.target.value) || 0,
+                          })
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="max_capacity">Max Capacity</Label>
+                      <Input
+                        id="max_capacity"
+                        type="number"
+                        value={formData.max_capacity}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            max_capacity: parseInt(e.target.value) || 0,
+                          })
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="unit_cost">Unit Cost ($)</Label>
+                      <Input
+                        id="unit_cost"
+                        type="number"
+                        step="0.01"
+                        value={formData.unit_cost}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            unit_cost: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="avg_usage_per_day">Avg Usage/Day</Label>
+                      <Input
+                        id="avg_usage_per_day"
+                        type="number"
+                        value={formData.avg_usage_per_day}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            avg_usage_per_day: parseInt(e.target.value) || 0,
+                          })
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="restock_lead_time">Restock Lead Time (days)</Label>
+                      <Input
+                        id="restock_lead_time"
+                        type="number"
+                        value={formData.restock_lead_time}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            restock_lead_time: parseInt(e.target.value) || 0,
+                          })
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="unit_volume">Unit Volume (L)</Label>
+                      <Input
+                        id="unit_volume"
+                        type="number"
+                        step="0.001"
+                        min={0}
+                        placeholder="Optional"
+                        value={formData.unit_volume}
+                        onChange={(e) => setFormData({ ...formData, unit_volume: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="vendor_id">Preferred Vendor</Label>
+                      <VendorSelect
+                        id="vendor_id"
+                        value={formData.vendor_id}
+                        onChange={(value) => {
+                          // Start from the vendor's usual lead time if none was entered
+                          const vendor = activeVendors.find((v) => v.id === value);
+                          setFormData({
+                            ...formData,
+                            vendor_id: value,
+                            restock_lead_time:
+                              formData.restock_lead_time || vendor?.default_lead_time_days || 0,
+                          });
+                        }}
+                        vendors={activeVendors}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="vendor_sku">Vendor SKU</Label>
+                      <Input
+                        id="vendor_sku"
+                        value={formData.vendor_sku}
+                        onChange={(e) =>
+                          setFormData({ ...formData, vendor_sku: e.target.value })
+                        }
+                        disabled={formData.vendor_id === NO_VENDOR}
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="item_type">Item Type</Label>
-                    <Select
-                      value={formData.item_type}
-                      onValueChange={(value) =>
-                        setFormData({ ...formData, item_type: value })
-                      }
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setIsDialogOpen(false)}
                     >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Equipment">Equipment</SelectItem>
-                        <SelectItem value="Consumable">Consumable</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="current_stock">Current Stock</Label>
-                    <Input
-                      id="current_stock"
-                      type="number"
-                      value={formData.current_stock}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          current_stock: parseInt(e.target.value) || 0,
-                        })
-                      }
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="min_required">Min Required</Label>
-                    <Input
-                      id="min_required"
-                      type="number"
-                      value={formData.min_required}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          min_required: parseInt(e.target.value) || 0,
-                        })
-                      }
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="max_capacity">Max Capacity</Label>
-                    <Input
-                      id="max_capacity"
-                      type="number"
-                      value={formData.max_capacity}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          max_capacity: parseInt(e.target.value) || 0,
-                        })
-                      }
-                      required
-                    />
+                      Cancel
+                    </Button>
+                    <Button type="submit">Add Item</Button>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="unit_cost">Unit Cost ($)</Label>
-                    <Input
-                      id="unit_cost"
-                      type="number"
-                      step="0.01"
-                      value={formData.unit_cost}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          unit_cost: parseFloat(e.target.value) || 0,
-                        })
-                      }
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="avg_usage_per_day">Avg Usage/Day</Label>
-                    <Input
-                      id="avg_usage_per_day"
-                      type="number"
-                      value={formData.avg_usage_per_day}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          avg_usage_per_day: parseInt(e.target.value) || 0,
-                        })
-                      }
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="restock_lead_time">Restock Lead Time (days)</Label>
-                    <Input
-                      id="restock_lead_time"
-                      type="number"
-                      value={formData.restock_lead_time}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          restock_lead_time: parseInt(e.target.value) || 0,
-                        })
-                      }
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2 col-span-2">
-                    <Label htmlFor="vendor_name">Vendor Name</Label>
-                    <Input
-                      id="vendor_name"
-                      value={formData.vendor_name}
-                      onChange={(e) =>
-                        setFormData({ ...formData, vendor_name: e.target.value })
-                      }
-                    />
-                  </div>
-                </div>
-                <div className="flex justify-end gap-2">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setIsDialogOpen(false)}
-                  >
-                    Cancel
-                  </Button>
-                  <Button type="submit">Add Item</Button>
-                </div>
-              </form>
-            </DialogContent>
-          </Dialog>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         )}
       </div>
 
@@ -329,19 +574,31 @@ export default function Inventory() {
         <CardHeader>
           <CardTitle className="text-xl">Search Inventory</CardTitle>
           <CardDescription>
-            Find items by name or filter by type
+            Find items by name or filter by location, criticality (VED), value (ABC) and demand
+            variability (XYZ)
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="relative">
-            <Search className="absolute left-3 top-3.5 h-5 w-5 text-muted-foreground" />
-            <Input
-              placeholder="Search for inventory items..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10 h-12"
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3.5 h-5 w-5 text-muted-foreground" />
+              <Input
+                placeholder="Search for inventory items..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 h-12"
+              />
+            </div>
+            <LocationSelect
+              value={locationFilter}
+              onChange={setLocationFilter}
+              options={locationOptions}
+              className="h-12 md:w-80"
             />
           </div>
+          <div className="flex flex-col md:flex-row gap-4 mt-4">
+            <ItemClassFilter value={classFilter} onChange={setClassFilter} className="md:w-56" />
+          </div>
         </CardContent>
       </Card>
 
@@ -362,11 +619,18 @@ export default function Inventory() {
                 <TableRow className="bg-muted/50">
                   <TableHead className="font-semibold">Item Name</TableHead>
                   <TableHead className="font-semibold">Type</TableHead>
+                  <TableHead className="font-semibold">Class</TableHead>
                   <TableHead className="font-semibold">Current Stock</TableHead>
                   <TableHead className="font-semibold">Min Required</TableHead>
                   <TableHead className="font-semibold">Status</TableHead>
                   <TableHead className="font-semibold">Unit Cost</TableHead>
+                  <TableHead className="font-semibold">Vendor</TableHead>
                   <TableHead className="font-semibold">Avg Usage/Day</TableHead>
+                  <TableHead className="font-semibold">Days of Cover</TableHead>
+                  <TableHead className="font-semibold">Projected Stockout</TableHead>
+                  <TableHead className="font-semibold">Nearest Expiry</TableHead>
+                  <TableHead className="font-semibold">Expiring 30/60/90d</TableHead>
+                  <TableHead className="font-semibold text-right">Movements</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -374,11 +638,62 @@ export default function Inventory() {
                   <TableRow key={item.id} className="hover:bg-muted/30 transition-colors">
                     <TableCell className="font-medium">{item.item_name}</TableCell>
                     <TableCell>{item.item_type}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <ItemClassBadges classification={classByItem[item.id]} />
+                        {isAdmin && (
+                          <Select
+                            value={classByItem[item.id]?.ved_class ?? ""}
+                            onValueChange={(value) => updateVedClass(item.id, value as VedClass)}
+                          >
+                            <SelectTrigger className="h-8 w-28">
+                              <SelectValue placeholder="Set VED" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(VED_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="font-semibold">{item.current_stock}</TableCell>
                     <TableCell>{item.min_required}</TableCell>
                     <TableCell>{getStockStatus(item)}</TableCell>
                     <TableCell>${parseFloat(item.unit_cost.toString()).toFixed(2)}</TableCell>
+                    <TableCell>{preferredVendors[item.id] || "—"}</TableCell>
                     <TableCell>{item.avg_usage_per_day}</TableCell>
+                    <TableCell>{renderCover(projectionFor(item))}</TableCell>
+                    <TableCell className="whitespace-nowrap">{renderStockout(projectionFor(item))}</TableCell>
+                    <TableCell>{renderNearestExpiry(expiryByItem[item.id])}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {expiryByItem[item.id]
+                        ? `${expiryByItem[item.id].expiring_30_days} / ${expiryByItem[item.id].expiring_60_days} / ${expiryByItem[item.id].expiring_90_days}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => setHistoryItemId(item.id)}
+                      >
+                        <History className="h-4 w-4" />
+                        History
+                      </Button>
+                      {isManager && locationOptions.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => setTransferItemId(item.id)}
+                        >
+                          <ArrowLeftRight className="h-4 w-4" />
+                          Transfer
+                        </Button>
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -386,6 +701,22 @@ export default function Inventory() {
           </div>
         </CardContent>
       </Card>
+
+      <StockMovementDrawer
+        item={items.find((item) => item.id === historyItemId) ?? null}
+        defaultLocation={locationFilter === ALL_LOCATIONS ? UNASSIGNED_LOCATION : locationFilter}
+        onOpenChange={(open) => !open && setHistoryItemId(null)}
+        onRecorded={fetchItems}
+      />
+
+      <TransferStockDialog
+        key={`${transferItemId}-${locationFilter}`}
+        item={items.find((item) => item.id === transferItemId) ?? null}
+        locationOptions={locationOptions}
+        defaultFromLocation={locationFilter === ALL_LOCATIONS ? UNASSIGNED_LOCATION : locationFilter}
+        onOpenChange={(open) => !open && setTransferItemId(null)}
+        onTransferred={fetchItems}
+      />
     </div>
   );
 }
@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocations } from "@/hooks/useLocations";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MapPin, Plus, Save } from "lucide-react";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import {
+  CHILD_LOCATION_TYPES,
+  LOCATION_TYPE_LABELS,
+  Location,
+  LocationType,
+} from "@/lib/locations";
+
+interface ParLevelRow {
+  item_id: string;
+  item_name: string;
+  quantity: number;
+  min_required: number;
+  max_capacity: number;
+  dirty: boolean;
+}
+
+const ROOT_PARENT = "root";
+
+export default function Locations() {
+  const { isManager } = useAuth();
+  const { toast } = useToast();
+  const { locations, paths, options, loading, refetch } = useLocations();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedLocation, setSelectedLocation] = useState("");
+  const [parLevels, setParLevels] = useState<ParLevelRow[]>([]);
+  const [formData, setFormData] = useState({
+    name: "",
+    code: "",
+    parent_id: ROOT_PARENT,
+    location_type: "site" as LocationType,
+  });
+
+  useEffect(() => {
+    if (selectedLocation) {
+      fetchParLevels(selectedLocation);
+    }
+  }, [selectedLocation]);
+
+  const parentType = (parentId: string): LocationType | "root" =>
+    parentId === ROOT_PARENT
+      ? "root"
+      : locations.find((location) => location.id === parentId)?.location_type ?? "root";
+
+  const allowedTypes = CHILD_LOCATION_TYPES[parentType(formData.parent_id)];
+
+  const fetchParLevels = async (locationId: string) => {
+    const [{ data: items }, { data: rows }] = await Promise.all([
+      supabase.from("inventory_items").select("id, item_name").order("item_name"),
+      supabase
+        .from("location_stock")
+        .select("item_id, quantity, min_required, max_capacity")
+        .eq("location_id", locationId),
+    ]);
+
+    if (items) {
+      setParLevels(
+        items.map((item) => {
+          const row = rows?.find((r) => r.item_id === item.id);
+          return {
+            item_id: item.id,
+            item_name: item.item_name,
+            quantity: row?.quantity ?? 0,
+            min_required: row?.min_required ?? 0,
+            max_capacity: row?.max_capacity ?? 0,
+            dirty: false,
+          };
+        })
+      );
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { error } = await supabase.from("locations").insert({
+      name: formData.name,
+      code: formData.code || null,
+      location_type: formData.location_type,
+      parent_id: formData.parent_id === ROOT_PARENT ? null : formData.parent_id,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: "Location added successfully",
+      });
+      setIsDialogOpen(false);
+      setFormData({ name: "", code: "", parent_id: ROOT_PARENT, location_type: "site" });
+      refetch();
+    }
+  };
+
+  const toggleActive = async (location: Location) => {
+    const { error } = await supabase
+      .from("locations")
+      .update({ is_active: !location.is_active })
+      .eq("id", location.id);
+
+    if (!error) refetch();
+  };
+
+  const updateParLevel = (itemId: string, field: "min_required" | "max_capacity", value: number) => {
+    setParLevels(
+      parLevels.map((row) =>
+        row.item_id === itemId ? { ...row, [field]: value, dirty: true } : row
+      )
+    );
+  };
+
+  const saveParLevels = async () => {
+    const changed = parLevels.filter((row) => row.dirty);
+    if (changed.length === 0) return;
+
+    const { error } = await supabase.from("location_stock").upsert(
+      changed.map((row) => ({
+        item_id: row.item_id,
+        location_id: selectedLocation,
+        min_required: row.min_required,
+        max_capacity: row.max_capacity,
+      })),
+      { onConflict: "item_id,location_id" }
+    );
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Par levels saved",
+        description: `Updated ${changed.length} items at ${paths[selectedLocation]}`,
+      });
+      fetchParLevels(selectedLocation);
+    }
+  };
+
+  const sortedLocations = [...locations].sort((a, b) =>
+    (paths[a.id] ?? "").localeCompare(paths[b.id] ?? "")
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Locations</h1>
+          <p className="text-muted-foreground mt-2">
+            Sites, wards, store rooms and bins, with per-location par levels
+          </p>
+        </div>
+        {isManager && (
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Location
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add Location</DialogTitle>
+                <DialogDescription>
+                  Place the new location under its parent in the hierarchy
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="parent_id">Parent</Label>
+                  <LocationSelect
+                    id="parent_id"
+                    value={formData.parent_id}
+                    onChange={(value) =>
+                      setFormData({
+                        ...formData,
+                        parent_id: value,
+                        location_type: CHILD_LOCATION_TYPES[parentType(value)][0] ?? "bin",
+                      })
+                    }
+                    options={options}
+                    emptyOption={{ value: ROOT_PARENT, label: "None (top-level site)" }}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="location_name">Name</Label>
+                    <Input
+                      id="location_name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="location_code">Code (optional)</Label>
+                    <Input
+                      id="location_code"
+                      value={formData.code}
+                      onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="location_type">Type</Label>
+                  <Select
+                    value={formData.location_type}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, location_type: value as LocationType })
+                    }
+                    disabled={allowedTypes.length === 0}
+                  >
+                    <SelectTrigger id="location_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allowedTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {LOCATION_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={allowedTypes.length === 0}>
+                    Add Location
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Location Hierarchy
+          </CardTitle>
+          <CardDescription>{locations.length} locations</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedLocations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No locations defined yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sortedLocations.map((location) => (
+                    <TableRow key={location.id}>
+                      <TableCell className="font-medium">{paths[location.id]}</TableCell>
+                      <TableCell>{LOCATION_TYPE_LABELS[location.location_type]}</TableCell>
+                      <TableCell>{location.code || "—"}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={location.is_active ? "outline" : "secondary"}
+                          className={isManager ? "cursor-pointer" : ""}
+                          onClick={() => isManager && toggleActive(location)}
+                        >
+                          {location.is_active ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Par Levels</CardTitle>
+              <CardDescription>
+                Minimum and maximum stock to hold at a location
+              </CardDescription>
+            </div>
+            {isManager && selectedLocation && (
+              <Button
+                onClick={saveParLevels}
+                disabled={!parLevels.some((row) => row.dirty)}
+                className="gap-2"
+              >
+                <Save className="h-4 w-4" />
+                Save Changes
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <LocationSelect
+            value={selectedLocation}
+            onChange={setSelectedLocation}
+            options={options}
+            emptyOption={null}
+          />
+          {selectedLocation && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead>Min Required</TableHead>
+                    <TableHead>Max Capacity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {parLevels.map((row) => (
+                    <TableRow key={row.item_id}>
+                      <TableCell className="font-medium">{row.item_name}</TableCell>
+                      <TableCell className="text-right font-semibold">{row.quantity}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          className="w-28"
+                          value={row.min_required}
+                          disabled={!isManager}
+                          onChange={(e) =>
+                            updateParLevel(row.item_id, "min_required", parseInt(e.target.value) || 0)
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          className="w-28"
+                          value={row.max_capacity}
+                          disabled={!isManager}
+                          onChange={(e) =>
+                            updateParLevel(row.item_id, "max_capacity", parseInt(e.target.value) || 0)
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { BellRing, Moon } from "lucide-react";
+import {
+  browserTimeZone,
+  DEFAULT_PREFERENCES,
+  NotificationPreferences,
+  USER_CHANNELS,
+} from "@/lib/notifications";
+
+// Postgres time columns read back as "HH:MM:SS"; time inputs want "HH:MM"
+const toInputTime = (time: string | null) => (time ? time.slice(0, 5) : "");
+
+export default function NotificationSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences>({
+    ...DEFAULT_PREFERENCES,
+    timezone: browserTimeZone(),
+  });
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) fetchPreferences();
+  }, [user]);
+
+  const fetchPreferences = async () => {
+    const { data } = await supabase
+      .from("notification_preferences")
+      .select("channels, quiet_hours_start, quiet_hours_end, timezone, critical_overrides_quiet_hours")
+      .maybeSingle();
+
+    if (data) {
+      setPreferences(data);
+      setQuietHoursEnabled(!!data.quiet_hours_start);
+    }
+    setLoading(false);
+  };
+
+  const toggleChannel = (channel: string, checked: boolean) =>
+    setPreferences({
+      ...preferences,
+      channels: checked
+        ? [...preferences.channels, channel]
+        : preferences.channels.filter((candidate) => candidate !== channel),
+    });
+
+  const save = async () => {
+    if (!user) return;
+    if (quietHoursEnabled && (!preferences.quiet_hours_start || !preferences.quiet_hours_end)) {
+      toast({ title: "Quiet hours incomplete", description: "Set both a start and an end time", variant: "destructive" });
+      return;
+    }
+    try {
+      new Intl.DateTimeFormat("en-GB", { timeZone: preferences.timezone });
+    } catch {
+      toast({ title: "Unknown time zone", description: "Use a name such as Europe/London", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("notification_preferences").upsert({
+      user_id: user.id,
+      channels: preferences.channels,
+      quiet_hours_start: quietHoursEnabled ? preferences.quiet_hours_start : null,
+      quiet_hours_end: quietHoursEnabled ? preferences.quiet_hours_end : null,
+      timezone: preferences.timezone,
+      critical_overrides_quiet_hours: preferences.critical_overrides_quiet_hours,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Notification Settings Saved" });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in max-w-2xl">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight">Notification Settings</h1>
+        <p className="text-muted-foreground mt-2">
+          How you hear about alerts sent to your role
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Channels
+          </CardTitle>
+          <CardDescription>
+            Each alert rule chooses its channels; here you can opt out of them for yourself.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {USER_CHANNELS.map((channel) => (
+            <div key={channel.value} className="flex items-start gap-3">
+              <Checkbox
+                id={`channel_${channel.value}`}
+                checked={preferences.channels.includes(channel.value)}
+                onCheckedChange={(checked) => toggleChannel(channel.value, checked === true)}
+              />
+              <div className="space-y-1">
+                <Label htmlFor={`channel_${channel.value}`}>{channel.label}</Label>
+                <p className="text-sm text-muted-foreground">{channel.help}</p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="h-5 w-5" />
+            Quiet Hours
+          </CardTitle>
+          <CardDescription>
+            Email is held back until quiet hours end. Your in-app inbox still fills up.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch id="quiet_hours" checked={quietHoursEnabled} onCheckedChange={setQuietHoursEnabled} />
+            <Label htmlFor="quiet_hours" className="font-normal">Enable quiet hours</Label>
+          </div>
+
+          {quietHoursEnabled && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="quiet_start">From</Label>
+                  <Input
+                    id="quiet_start"
+                    type="time"
+                    value={toInputTime(preferences.quiet_hours_start)}
+                    onChange={(e) => setPreferences({ ...preferences, quiet_hours_start: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quiet_end">Until</Label>
+                  <Input
+                    id="quiet_end"
+                    type="time"
+                    value={toInputTime(preferences.quiet_hours_end)}
+                    onChange={(e) => setPreferences({ ...preferences, quiet_hours_end: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Time Zone</Label>
+                  <Input
+                    id="timezone"
+                    value={preferences.timezone}
+                    onChange={(e) => setPreferences({ ...preferences, timezone: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="critical_overrides"
+                  checked={preferences.critical_overrides_quiet_hours}
+                  onCheckedChange={(checked) => setPreferences({ ...preferences, critical_overrides_quiet_hours: checked })}
+                />
+                <Label htmlFor="critical_overrides" className="font-normal">
+                  Email critical alerts even during quiet hours
+                </Label>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Button onClick={save} disabled={saving}>
+        {saving ? "Saving..." : "Save Settings"}
+      </Button>
+    </div>
+  );
+}
@@ -13,9 +13,27 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
+import { useLocations } from "@/hooks/useLocations";
+import { ALL_LOCATIONS, LocationSelect } from "@/components/locations/LocationSelect";
+import {
+  DEFAULT_FORECAST_HORIZON,
+  FORECAST_HORIZONS,
+  forecastMethodLabel,
+  modelTypeLabel,
+} from "@/lib/forecasting";
+import { DailyForecast, ForecastBandChart } from "@/components/predictions/ForecastBandChart";
+import { ForecastEffectsList } from "@/components/predictions/ForecastEffectsList";
+import { DemandRegressor, ForecastEffect } from "@/lib/forecastCalendar";
+
+// Regressor picker value for forecasting on the calendar alone
+const NO_REGRESSOR = "none";
+
+// Simulated chance of running out before the next delivery flagged on the card
+const HIGH_STOCKOUT_RISK = 0.2;
 
 interface ModelInfo {
   model_version: string;
+  model_type: string;
   mae: number;
   training_date: string;
   is_active: boolean;
@@ -26,6 +44,18 @@ interface Prediction {
   estimated_demand: number;
   inventory_shortfall: number;
   replenishment_needs: number;
+  horizon_days: number | null;
+  forecast_method: string | null;
+  lower_80: number | null;
+  upper_80: number | null;
+  lower_95: number | null;
+  upper_95: number | null;
+  stockout_probability: number | null;
+  expected_units_short: number | null;
+  forecast_effects: ForecastEffect[];
+  // Demand over the horizon with manager overrides applied, if any were
+  overridden_demand: number | null;
+  demand_forecasts: DailyForecast[];
   item_name?: string;
 }
 
@@ -33,6 +63,11 @@ export default function Predictions() {
   const [loading, setLoading] = useState(false);
   const [runAll, setRunAll] = useState(true);
   const [selectedItem, setSelectedItem] = useState<string>("");
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const [horizon, setHorizon] = useState(String(DEFAULT_FORECAST_HORIZON));
+  const [regressors, setRegressors] = useState<DemandRegressor[]>([]);
+  const [regressorId, setRegressorId] = useState(NO_REGRESSOR);
+  const { options: locationOptions } = useLocations();
   const [items, setItems] = useState<any[]>([]);
   const [predictions, setPredictions] = useState<Prediction[]>([]);
   const [modelInfo, setModelInfo] = useState<ModelInfo | null>(null);
@@ -40,6 +75,7 @@ export default function Predictions() {
 
   useEffect(() => {
     fetchItems();
+    fetchRegressors();
     fetchModelInfo();
     fetchRecentPredictions();
   }, []);
@@ -53,6 +89,11 @@ export default function Predictions() {
     if (data) setItems(data);
   };
 
+  const fetchRegressors = async () => {
+    const { data } = await supabase.from("demand_regressors").select("id, name, unit, description").order("name");
+    if (data) setRegressors(data);
+  };
+
   const fetchModelInfo = async () => {
     const { data } = await supabase
       .from("model_registry")
@@ -68,7 +109,8 @@ export default function Predictions() {
       .from("predictions")
       .select(`
         *,
-        inventory_items(item_name)
+        inventory_items(item_name),
+        demand_forecasts(forecast_date, forecast_quantity, lower_80, upper_80, lower_95, upper_95)
       `)
       .order("created_at", { ascending: false })
       .limit(10);
@@ -79,8 +121,21 @@ export default function Predictions() {
         estimated_demand: p.estimated_demand,
         inventory_shortfall: p.inventory_shortfall,
         replenishment_needs: p.replenishment_needs,
+        horizon_days: p.horizon_days,
+        forecast_method: p.forecast_method,
+        lower_80: p.lower_80,
+        upper_80: p.upper_80,
+        lower_95: p.lower_95,
+        upper_95: p.upper_95,
+        stockout_probability: p.stockout_probability,
+        expected_units_short: p.expected_units_short,
+        forecast_effects: p.forecast_effects as unknown as ForecastEffect[],
+        overridden_demand: p.overridden_demand,
+        demand_forecasts: p.demand_forecasts,
         item_name: (p.inventory_items as any)?.item_name,
       }));
+      // Most likely to run out first
+      formattedPredictions.sort((a, b) => (b.stockout_probability ?? -1) - (a.stockout_probability ?? -1));
       setPredictions(formattedPredictions);
     }
   };
@@ -92,6 +147,9 @@ export default function Predictions() {
         body: {
           run_all: runAll,
           item_id: runAll ? undefined : selectedItem,
+          location_id: locationFilter === ALL_LOCATIONS ? undefined : locationFilter,
+          horizon_days: Number(horizon),
+          regressor_id: regressorId === NO_REGRESSOR ? undefined : regressorId,
         },
       });
 
@@ -119,7 +177,7 @@ export default function Predictions() {
       <div>
         <h1 className="text-4xl font-bold tracking-tight">AI Demand Predictions</h1>
         <p className="text-muted-foreground mt-2">
-          ML-powered forecasting for inventory demand and replenishment needs
+          Time-series forecasts of demand from consumption history, with replenishment needs
         </p>
       </div>
 
@@ -133,7 +191,7 @@ export default function Predictions() {
                   Active Model: {modelInfo.model_version}
                 </CardTitle>
                 <CardDescription>
-                  GradientBoosting Regressor • MAE: {modelInfo.mae.toFixed(2)}
+                  {modelTypeLabel(modelInfo.model_type)} • MAE: {modelInfo.mae.toFixed(2)}
                 </CardDescription>
               </div>
               <Badge variant="outline" className="bg-success/10 text-success">
@@ -195,6 +253,45 @@ export default function Predictions() {
             </Select>
           )}
 
+          <div className="flex gap-4">
+            <Select value={horizon} onValueChange={setHorizon}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORECAST_HORIZONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    Next {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {regressors.length > 0 && (
+              <Select value={regressorId} onValueChange={setRegressorId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_REGRESSOR}>Calendar only</SelectItem>
+                  {regressors.map((regressor) => (
+                    <SelectItem key={regressor.id} value={regressor.id}>
+                      With {regressor.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {locationOptions.length > 0 && (
+              <div className="flex-1">
+                <LocationSelect
+                  value={locationFilter}
+                  onChange={setLocationFilter}
+                  options={locationOptions}
+                />
+              </div>
+            )}
+          </div>
+
           <Button 
             onClick={runPredictions} 
             disabled={loading || (!runAll && !selectedItem)}
@@ -210,26 +307,60 @@ export default function Predictions() {
         <Card>
           <CardHeader>
             <CardTitle>Recent Predictions</CardTitle>
-            <CardDescription>Latest demand forecasts and restocking recommendations</CardDescription>
+            <CardDescription>
+              Latest demand forecasts and restocking recommendations, ranked by the simulated chance of running
+              out before the next delivery
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
               {predictions.map((pred, idx) => (
                 <div key={idx} className="p-4 border rounded-lg space-y-3">
                   <div className="flex items-center justify-between">
-                    <h4 className="font-semibold">{pred.item_name || "Unknown Item"}</h4>
-                    {pred.inventory_shortfall > 0 && (
-                      <Badge variant="destructive" className="gap-1">
-                        <AlertCircle className="h-3 w-3" />
-                        Shortage Alert
-                      </Badge>
-                    )}
+                    <div>
+                      <h4 className="font-semibold">{pred.item_name || "Unknown Item"}</h4>
+                      <p className="text-xs text-muted-foreground">
+                        {forecastMethodLabel(pred.forecast_method)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {pred.overridden_demand != null && (
+                        <Badge variant="outline" className="bg-primary/10 text-primary">
+                          Overridden
+                        </Badge>
+                      )}
+                      {pred.stockout_probability != null && pred.stockout_probability >= HIGH_STOCKOUT_RISK && (
+                        <Badge variant="outline" className="bg-warning/10 text-warning">
+                          High Stockout Risk
+                        </Badge>
+                      )}
+                      {pred.inventory_shortfall > 0 && (
+                        <Badge variant="destructive" className="gap-1">
+                          <AlertCircle className="h-3 w-3" />
+                          Shortage Alert
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                   
-                  <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div className="grid grid-cols-4 gap-4 text-sm">
                     <div>
-                      <p className="text-muted-foreground">Est. Demand</p>
+                      <p className="text-muted-foreground">
+                        {pred.horizon_days ? `Demand, Next ${pred.horizon_days} Days` : "Est. Demand"}
+                      </p>
                       <p className="font-bold text-lg">{pred.estimated_demand.toFixed(0)}</p>
+                      {pred.lower_80 != null && pred.upper_80 != null && (
+                        <p className="text-xs text-muted-foreground">
+                          80%: {pred.lower_80.toFixed(0)}–{pred.upper_80.toFixed(0)}
+                          {pred.lower_95 != null && pred.upper_95 != null &&
+                            ` • 95%: ${pred.lower_95.toFixed(0)}–${pred.upper_95.toFixed(0)}`}
+                        </p>
+                      )}
+                      {pred.overridden_demand != null && (
+                        <p className="text-xs text-muted-foreground">
+                          Planned on {pred.overridden_demand.toFixed(0)} per manager override
+                        </p>
+                      )}
                     </div>
                     <div>
                       <p className="text-muted-foreground">Shortage</p>
@@ -243,8 +374,29 @@ export default function Predictions() {
                         {pred.replenishment_needs.toFixed(0)}
                       </p>
                     </div>
+                    <div>
+                      <p className="text-muted-foreground">Stockout Risk</p>
+                      <p className="font-bold text-lg">
+                        {pred.stockout_probability != null
+                          ? `${(pred.stockout_probability * 100).toFixed(0)}%`
+                          : "—"}
+                      </p>
+                      {pred.expected_units_short != null && pred.expected_units_short > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          ~{pred.expected_units_short.toFixed(1)} units short before next delivery
+                        </p>
+                      )}
+                    </div>
                   </div>
 
+                  {pred.demand_forecasts.length > 1 && (
+                    <ForecastBandChart forecasts={pred.demand_forecasts} />
+                  )}
+
+                  {pred.forecast_method && pred.forecast_method !== "average_usage" && (
+                    <ForecastEffectsList effects={pred.forecast_effects} estimatedDemand={pred.estimated_demand} />
+                  )}
+
                   {pred.replenishment_needs > 0 && (
                     <div className="space-y-2">
                       <p className="text-sm text-muted-foreground">Urgency Level</p>
@@ -0,0 +1,618 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocations } from "@/hooks/useLocations";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowLeft, PackageCheck, Plus, Save, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { PurchaseOrderStatusBadge } from "@/components/purchase-orders/PurchaseOrderStatusBadge";
+import { ReceiveGoodsDialog } from "@/components/purchase-orders/ReceiveGoodsDialog";
+import {
+  DISCREPANCY_LABELS,
+  DiscrepancyType,
+  PO_STATUS_TRANSITIONS,
+  PO_TRANSITION_ACTIONS,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  RECEIVABLE_PO_STATUSES,
+  lineTotal,
+  orderTotal,
+} from "@/lib/purchaseOrders";
+
+interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  status: PurchaseOrderStatus;
+  auto_generated: boolean;
+  expected_delivery_date: string | null;
+  notes: string | null;
+  created_at: string;
+  approved_at: string | null;
+  sent_at: string | null;
+  closed_at: string | null;
+  vendor_id: string;
+  location_id: string | null;
+  vendors: {
+    name: string;
+    vendor_code: string;
+    email: string | null;
+    phone: string | null;
+    payment_terms: string | null;
+    minimum_order_value: number;
+  } | null;
+}
+
+interface LineRow extends PurchaseOrderLine {
+  inventory_items: { item_name: string; current_stock: number } | null;
+  cost_optimization: { eoq: number | null; reorder_point: number | null } | null;
+}
+
+interface GoodsReceipt {
+  id: string;
+  receipt_number: string;
+  delivery_reference: string | null;
+  received_at: string;
+  profiles: { full_name: string | null } | null;
+  goods_receipt_lines: {
+    id: string;
+    item_id: string;
+    quantity_received: number;
+    quantity_damaged: number;
+    quantity_short: number;
+    lot_number: string | null;
+    expiry_date: string | null;
+    discrepancy_type: DiscrepancyType | null;
+    inventory_items: { item_name: string } | null;
+  }[];
+}
+
+interface ItemOption {
+  id: string;
+  item_name: string;
+  unit_cost: number;
+}
+
+export default function PurchaseOrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { isManager } = useAuth();
+  const { options: locationOptions } = useLocations();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [lines, setLines] = useState<LineRow[]>([]);
+  const [editedQuantities, setEditedQuantities] = useState<Record<string, number>>({});
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [vendorPrices, setVendorPrices] = useState<Record<string, { unit_price: number; vendor_sku: string | null }>>({});
+  const [newLine, setNewLine] = useState({ item_id: "", quantity: 1 });
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (id) fetchOrder(id);
+  }, [id]);
+
+  const fetchOrder = async (orderId: string) => {
+    const { data: orderData } = await supabase
+      .from("purchase_orders")
+      .select("*, vendors(name, vendor_code, email, phone, payment_terms, minimum_order_value)")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    const { data: lineData } = await supabase
+      .from("purchase_order_lines")
+      .select("*, inventory_items(item_name, current_stock), cost_optimization(eoq, reorder_point)")
+      .eq("purchase_order_id", orderId);
+
+    const { data: receiptData } = await supabase
+      .from("goods_receipts")
+      .select(`
+        id, receipt_number, delivery_reference, received_at,
+        profiles(full_name),
+        goods_receipt_lines(id, item_id, quantity_received, quantity_damaged, quantity_short, lot_number, expiry_date, discrepancy_type, inventory_items(item_name))
+      `)
+      .eq("purchase_order_id", orderId)
+      .order("received_at", { ascending: false });
+    if (receiptData) setReceipts(receiptData as GoodsReceipt[]);
+
+    if (orderData) {
+      setOrder(orderData as PurchaseOrder);
+
+      const [{ data: itemData }, { data: priceData }] = await Promise.all([
+        supabase.from("inventory_items").select("id, item_name, unit_cost").order("item_name"),
+        supabase
+          .from("item_vendors")
+          .select("item_id, unit_price, vendor_sku")
+          .eq("vendor_id", orderData.vendor_id),
+      ]);
+      if (itemData) setItems(itemData);
+      if (priceData) {
+        setVendorPrices(
+          Object.fromEntries(
+            priceData.map((row) => [row.item_id, { unit_price: row.unit_price, vendor_sku: row.vendor_sku }])
+          )
+        );
+      }
+    }
+    if (lineData) {
+      setLines(
+        (lineData as LineRow[]).sort((a, b) =>
+          (a.inventory_items?.item_name ?? "").localeCompare(b.inventory_items?.item_name ?? "")
+        )
+      );
+    }
+    setEditedQuantities({});
+    setLoading(false);
+  };
+
+  const showError = (message: string) =>
+    toast({
+      title: "Error",
+      description: message,
+      variant: "destructive",
+    });
+
+  const changeStatus = async (status: PurchaseOrderStatus) => {
+    if (!order) return;
+
+    const { error } = await supabase
+      .from("purchase_orders")
+      .update({ status })
+      .eq("id", order.id);
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: "Status updated",
+        description: `${order.po_number}: ${PO_TRANSITION_ACTIONS[status].toLowerCase()}`,
+      });
+      fetchOrder(order.id);
+    }
+  };
+
+  const saveQuantities = async () => {
+    if (!order) return;
+
+    for (const [lineId, quantity] of Object.entries(editedQuantities)) {
+      const { error } = await supabase
+        .from("purchase_order_lines")
+        .update({ quantity_ordered: quantity })
+        .eq("id", lineId);
+      if (error) {
+        showError(error.message);
+        break;
+      }
+    }
+    fetchOrder(order.id);
+  };
+
+  const removeLine = async (lineId: string) => {
+    if (!order) return;
+
+    const { error } = await supabase.from("purchase_order_lines").delete().eq("id", lineId);
+    if (error) showError(error.message);
+    fetchOrder(order.id);
+  };
+
+  const addLine = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !newLine.item_id) return;
+
+    // Use the vendor's contract price when the item is linked to this vendor
+    const vendorPrice = vendorPrices[newLine.item_id];
+    const { error } = await supabase.from("purchase_order_lines").insert({
+      purchase_order_id: order.id,
+      item_id: newLine.item_id,
+      quantity_ordered: newLine.quantity,
+      unit_price: vendorPrice?.unit_price ?? items.find((item) => item.id === newLine.item_id)?.unit_cost ?? 0,
+      vendor_sku: vendorPrice?.vendor_sku ?? null,
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      setNewLine({ item_id: "", quantity: 1 });
+      fetchOrder(order.id);
+    }
+  };
+
+  const updateExpectedDelivery = async (value: string) => {
+    if (!order) return;
+
+    const { error } = await supabase
+      .from("purchase_orders")
+      .update({ expected_delivery_date: value || null })
+      .eq("id", order.id);
+    if (error) showError(error.message);
+    fetchOrder(order.id);
+  };
+
+  const deleteDraft = async () => {
+    if (!order) return;
+
+    const { error } = await supabase.from("purchase_orders").delete().eq("id", order.id);
+    if (error) {
+      showError(error.message);
+    } else {
+      navigate("/purchase-orders");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="space-y-4">
+        <Link to="/purchase-orders" className="text-sm text-muted-foreground flex items-center gap-1">
+          <ArrowLeft className="h-4 w-4" />
+          Back to purchase orders
+        </Link>
+        <p className="text-muted-foreground">Purchase order not found.</p>
+      </div>
+    );
+  }
+
+  const isDraft = order.status === "draft";
+  const canEdit = isManager && isDraft;
+  const displayedLines = lines.map((line) => ({
+    ...line,
+    quantity_ordered: editedQuantities[line.id] ?? line.quantity_ordered,
+  }));
+  const total = orderTotal(displayedLines);
+  const minimumOrderValue = Number(order.vendors?.minimum_order_value ?? 0);
+  const availableItems = items.filter((item) => !lines.some((line) => line.item_id === item.id));
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Link to="/purchase-orders" className="text-sm text-muted-foreground flex items-center gap-1">
+        <ArrowLeft className="h-4 w-4" />
+        Back to purchase orders
+      </Link>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-4xl font-bold tracking-tight font-mono">{order.po_number}</h1>
+            <PurchaseOrderStatusBadge status={order.status} />
+          </div>
+          <p className="text-muted-foreground mt-2">
+            {order.vendors?.name} ({order.vendors?.vendor_code})
+            {order.auto_generated && " · generated from reorder points"}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          {RECEIVABLE_PO_STATUSES.includes(order.status) && (
+            <Button className="gap-2" onClick={() => setIsReceiving(true)}>
+              <PackageCheck className="h-4 w-4" />
+              Receive Delivery
+            </Button>
+          )}
+          {isManager && (
+            <>
+              {/* Partial receipt is recorded by receiving goods, not set by hand */}
+              {PO_STATUS_TRANSITIONS[order.status]
+                .filter((status) => status !== "partially_received")
+                .map((status) => (
+                  <Button
+                    key={status}
+                    variant={status === "cancelled" || status === "draft" ? "outline" : "default"}
+                    onClick={() => changeStatus(status)}
+                    disabled={status === "approved" && lines.length === 0}
+                  >
+                    {PO_TRANSITION_ACTIONS[status]}
+                  </Button>
+                ))}
+              {isDraft && (
+                <Button variant="ghost" className="gap-2 text-destructive" onClick={deleteDraft}>
+                  <Trash2 className="h-4 w-4" />
+                  Delete Draft
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Order Total</CardDescription>
+            <CardTitle className="text-3xl">${total.toFixed(2)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {total < minimumOrderValue && (
+              <p className="text-sm text-warning flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4" />
+                Below the vendor's ${minimumOrderValue.toFixed(2)} minimum order value
+              </p>
+            )}
+            {order.vendors?.payment_terms && (
+              <p className="text-sm text-muted-foreground">Terms: {order.vendors.payment_terms}</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Expected Delivery</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {canEdit ? (
+              <Input
+                type="date"
+                defaultValue={order.expected_delivery_date ?? ""}
+                onBlur={(e) => updateExpectedDelivery(e.target.value)}
+              />
+            ) : (
+              <p className="text-2xl font-semibold">
+                {order.expected_delivery_date
+                  ? format(new Date(order.expected_delivery_date), "MMM d, yyyy")
+                  : "—"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Timeline</CardDescription>
+          </CardHeader>
+          <CardContent className="text-sm space-y-1">
+            <p>Created {format(new Date(order.created_at), "MMM d, yyyy HH:mm")}</p>
+            {order.approved_at && <p>Approved {format(new Date(order.approved_at), "MMM d, yyyy HH:mm")}</p>}
+            {order.sent_at && <p>Sent {format(new Date(order.sent_at), "MMM d, yyyy HH:mm")}</p>}
+            {order.closed_at && (
+              <p>
+                {order.status === "cancelled" ? "Cancelled" : "Closed"}{" "}
+                {format(new Date(order.closed_at), "MMM d, yyyy HH:mm")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Order Lines</CardTitle>
+              <CardDescription>
+                Quantities default to the economic order quantity from the latest cost optimization
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button
+                onClick={saveQuantities}
+                disabled={Object.keys(editedQuantities).length === 0}
+                className="gap-2"
+              >
+                <Save className="h-4 w-4" />
+                Save Changes
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Vendor SKU</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Reorder Point</TableHead>
+                  <TableHead className="text-right">EOQ</TableHead>
+                  <TableHead>Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Line Total</TableHead>
+                  {canEdit && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {displayedLines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={canEdit ? 10 : 9} className="text-center text-muted-foreground">
+                      No lines on this order
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  displayedLines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell className="font-medium">{line.inventory_items?.item_name}</TableCell>
+                      <TableCell className="font-mono">{line.vendor_sku || "—"}</TableCell>
+                      <TableCell className="text-right">{line.inventory_items?.current_stock}</TableCell>
+                      <TableCell className="text-right">
+                        {line.cost_optimization?.reorder_point ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{line.cost_optimization?.eoq ?? "—"}</TableCell>
+                      <TableCell>
+                        {canEdit ? (
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-24"
+                            value={line.quantity_ordered}
+                            onChange={(e) =>
+                              setEditedQuantities({
+                                ...editedQuantities,
+                                [line.id]: Math.max(1, parseInt(e.target.value) || 1),
+                              })
+                            }
+                          />
+                        ) : (
+                          line.quantity_ordered
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{line.quantity_received}</TableCell>
+                      <TableCell className="text-right">${Number(line.unit_price).toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-semibold">
+                        ${lineTotal(line).toFixed(2)}
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => removeLine(line.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {canEdit && (
+            <form onSubmit={addLine} className="flex flex-col md:flex-row gap-2 md:items-end">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="new_line_item">Add Item</Label>
+                <Select
+                  value={newLine.item_id}
+                  onValueChange={(value) => setNewLine({ ...newLine, item_id: value })}
+                >
+                  <SelectTrigger id="new_line_item">
+                    <SelectValue placeholder="Select an item..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableItems.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.item_name}
+                        {!vendorPrices[item.id] && " (not linked to this vendor)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new_line_quantity">Quantity</Label>
+                <Input
+                  id="new_line_quantity"
+                  type="number"
+                  min={1}
+                  className="w-28"
+                  value={newLine.quantity}
+                  onChange={(e) =>
+                    setNewLine({ ...newLine, quantity: Math.max(1, parseInt(e.target.value) || 1) })
+                  }
+                />
+              </div>
+              <Button type="submit" className="gap-2" disabled={!newLine.item_id}>
+                <Plus className="h-4 w-4" />
+                Add Line
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      {receipts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Deliveries</CardTitle>
+            <CardDescription>Goods received against this order</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {receipts.map((receipt) => (
+              <div key={receipt.id} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-mono font-medium">{receipt.receipt_number}</span>
+                  <span className="text-muted-foreground">
+                    {format(new Date(receipt.received_at), "MMM d, yyyy HH:mm")}
+                    {receipt.profiles?.full_name && ` · ${receipt.profiles.full_name}`}
+                    {receipt.delivery_reference && ` · Ref ${receipt.delivery_reference}`}
+                  </span>
+                </div>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">Accepted</TableHead>
+                        <TableHead className="text-right">Damaged</TableHead>
+                        <TableHead className="text-right">Short</TableHead>
+                        <TableHead>Lot</TableHead>
+                        <TableHead>Discrepancy</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {receipt.goods_receipt_lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell className="font-medium">{line.inventory_items?.item_name}</TableCell>
+                          <TableCell className="text-right">{line.quantity_received}</TableCell>
+                          <TableCell className="text-right">{line.quantity_damaged}</TableCell>
+                          <TableCell className="text-right">{line.quantity_short}</TableCell>
+                          <TableCell>
+                            {line.lot_number || "—"}
+                            {line.expiry_date && (
+                              <span className="text-muted-foreground text-xs ml-2">
+                                exp. {format(new Date(line.expiry_date), "MMM d, yyyy")}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {line.discrepancy_type ? (
+                              <Badge variant={line.discrepancy_type === "wrong_item" ? "destructive" : "outline"}>
+                                {DISCREPANCY_LABELS[line.discrepancy_type]}
+                              </Badge>
+                            ) : (
+                              "—"
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {isReceiving && (
+        <ReceiveGoodsDialog
+          open={isReceiving}
+          order={order}
+          lines={lines.map((line) => ({
+            id: line.id,
+            item_id: line.item_id,
+            item_name: line.inventory_items?.item_name ?? "",
+            quantity_ordered: line.quantity_ordered,
+            quantity_received: line.quantity_received,
+          }))}
+          items={items}
+          locationOptions={locationOptions}
+          onOpenChange={setIsReceiving}
+          onReceived={() => fetchOrder(order.id)}
+        />
+      )}
+    </div>
+  );
+}
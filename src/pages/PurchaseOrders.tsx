@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ClipboardList, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { PurchaseOrderStatusBadge } from "@/components/purchase-orders/PurchaseOrderStatusBadge";
+import {
+  OPEN_PO_STATUSES,
+  PO_STATUS_LABELS,
+  PurchaseOrderStatus,
+  orderTotal,
+} from "@/lib/purchaseOrders";
+
+interface PurchaseOrderRow {
+  id: string;
+  po_number: string;
+  status: PurchaseOrderStatus;
+  auto_generated: boolean;
+  expected_delivery_date: string | null;
+  created_at: string;
+  vendors: { name: string } | null;
+  purchase_order_lines: { quantity_ordered: number; unit_price: number }[];
+}
+
+const OPEN_ORDERS = "open";
+const ALL_ORDERS = "all";
+
+export default function PurchaseOrders() {
+  const { isManager } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [orders, setOrders] = useState<PurchaseOrderRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [statusFilter, setStatusFilter] = useState(OPEN_ORDERS);
+
+  useEffect(() => {
+    fetchOrders();
+  }, []);
+
+  const fetchOrders = async () => {
+    const { data } = await supabase
+      .from("purchase_orders")
+      .select(`
+        id, po_number, status, auto_generated, expected_delivery_date, created_at,
+        vendors(name),
+        purchase_order_lines(quantity_ordered, unit_price)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (data) setOrders(data as PurchaseOrderRow[]);
+    setLoading(false);
+  };
+
+  const generateOrders = async () => {
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("generate-purchase-orders", {
+        body: {},
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Purchase Orders Generated",
+        description:
+          data.purchase_orders.length > 0
+            ? `Drafted ${data.purchase_orders.length} orders for items below their reorder point`
+            : "No items are below their reorder point without an open order",
+      });
+
+      fetchOrders();
+    } catch (error) {
+      toast({
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate purchase orders",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const visibleOrders = orders.filter((order) => {
+    if (statusFilter === ALL_ORDERS) return true;
+    if (statusFilter === OPEN_ORDERS) return OPEN_PO_STATUSES.includes(order.status);
+    return order.status === statusFilter;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Purchase Orders</h1>
+          <p className="text-muted-foreground mt-2">
+            Replenishment orders from draft through to receipt
+          </p>
+        </div>
+        {isManager && (
+          <Button onClick={generateOrders} disabled={generating} className="gap-2">
+            <RefreshCw className={`h-4 w-4 ${generating ? "animate-spin" : ""}`} />
+            {generating ? "Generating..." : "Generate from Reorder Points"}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardList className="h-5 w-5" />
+                Orders
+              </CardTitle>
+              <CardDescription>{visibleOrders.length} purchase orders</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OPEN_ORDERS}>Open orders</SelectItem>
+                <SelectItem value={ALL_ORDERS}>All orders</SelectItem>
+                {(Object.keys(PO_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {PO_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Expected Delivery</TableHead>
+                  <TableHead>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleOrders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No purchase orders
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleOrders.map((order) => (
+                    <TableRow
+                      key={order.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/purchase-orders/${order.id}`)}
+                    >
+                      <TableCell className="font-mono font-medium">
+                        {order.po_number}
+                        {order.auto_generated && (
+                          <span className="ml-2 text-xs text-muted-foreground">auto</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{order.vendors?.name}</TableCell>
+                      <TableCell>
+                        <PurchaseOrderStatusBadge status={order.status} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {order.purchase_order_lines.length}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        ${orderTotal(order.purchase_order_lines).toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        {order.expected_delivery_date
+                          ? format(new Date(order.expected_delivery_date), "MMM d, yyyy")
+                          : "—"}
+                      </TableCell>
+                      <TableCell>{format(new Date(order.created_at), "MMM d, yyyy")}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FlaskConical, Pencil, Play, Plus, Shield, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { ScenarioEditor } from "@/components/scenarios/ScenarioEditor";
+import { ScenarioComparison } from "@/components/scenarios/ScenarioComparison";
+import {
+  DemandScenario,
+  describeWindow,
+  formatMultiplier,
+  MAX_COMPARED_SCENARIOS,
+  MULTIPLIER_SCOPES,
+  ScenarioResult,
+  SHOCK_SCOPES,
+} from "@/lib/scenarios";
+
+export default function Scenarios() {
+  const { isManager } = useAuth();
+  const { toast } = useToast();
+  const [scenarios, setScenarios] = useState<DemandScenario[]>([]);
+  const [compared, setCompared] = useState<string[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [editing, setEditing] = useState<DemandScenario | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [running, setRunning] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (isManager) fetchScenarios();
+  }, [isManager]);
+
+  const fetchScenarios = async () => {
+    const [{ data }, { data: itemData }, { data: locationData }] = await Promise.all([
+      supabase.from("demand_scenarios").select("*").order("created_at", { ascending: false }),
+      supabase.from("inventory_items").select("id, item_name"),
+      supabase.from("locations").select("id, name"),
+    ]);
+
+    if (data) setScenarios(data as unknown as DemandScenario[]);
+    setNames(
+      new Map([
+        ...(itemData || []).map((item) => [item.id, item.item_name] as [string, string]),
+        ...(locationData || []).map((location) => [location.id, location.name] as [string, string]),
+      ])
+    );
+    setLoading(false);
+  };
+
+  const run = async (scenario: DemandScenario) => {
+    setRunning(scenario.id);
+    try {
+      const { data, error } = await supabase.functions.invoke("simulate-scenario", {
+        body: { scenario_id: scenario.id },
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Scenario Simulated",
+        description: `${data.totals.scenario_stockout_items} items stock out; extra spend $${data.totals.extra_spend.toFixed(2)}`,
+      });
+      if (!compared.includes(scenario.id) && compared.length < MAX_COMPARED_SCENARIOS) {
+        setCompared([...compared, scenario.id]);
+      }
+      fetchScenarios();
+    } catch (error) {
+      toast({
+        title: "Simulation Failed",
+        description: error instanceof Error ? error.message : "Could not simulate the scenario",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const remove = async (scenario: DemandScenario) => {
+    const { error } = await supabase.from("demand_scenarios").delete().eq("id", scenario.id);
+    if (error) {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Scenario Deleted" });
+    setCompared(compared.filter((id) => id !== scenario.id));
+    fetchScenarios();
+  };
+
+  const toggleCompared = (scenario: DemandScenario, checked: boolean) => {
+    if (!checked) {
+      setCompared(compared.filter((id) => id !== scenario.id));
+    } else if (compared.length >= MAX_COMPARED_SCENARIOS) {
+      toast({ title: `Compare up to ${MAX_COMPARED_SCENARIOS} scenarios at a time`, variant: "destructive" });
+    } else {
+      setCompared([...compared, scenario.id]);
+    }
+  };
+
+  const openEditor = (scenario: DemandScenario | null) => {
+    setEditing(scenario);
+    setEditorOpen(true);
+  };
+
+  const describeChanges = (scenario: DemandScenario) => [
+    ...scenario.demand_multipliers.map((multiplier) => {
+      const target = multiplier.scope === "item_type" ? multiplier.target : names.get(multiplier.target) ?? "Unknown";
+      const scope = MULTIPLIER_SCOPES.find((option) => option.value === multiplier.scope)?.label ?? multiplier.scope;
+      return `${scope} ${target}: demand ${formatMultiplier(multiplier.multiplier)}, ${describeWindow(multiplier)}`;
+    }),
+    ...scenario.lead_time_shocks.map((shock) => {
+      const target =
+        shock.scope === "all"
+          ? SHOCK_SCOPES[0].label
+          : shock.scope === "item_type"
+            ? shock.target
+            : names.get(shock.target ?? "") ?? "Unknown";
+      return `${target}: lead time +${shock.extra_days}d, ${describeWindow(shock)}`;
+    }),
+  ];
+
+  const comparedScenarios = compared
+    .map((id) => scenarios.find((scenario) => scenario.id === id))
+    .filter((scenario): scenario is DemandScenario & { result: ScenarioResult } => !!scenario?.result);
+
+  if (!isManager) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <Card className="max-w-md">
+          <CardHeader>
+            <Shield className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <CardTitle className="text-center">Access Denied</CardTitle>
+            <CardDescription className="text-center">
+              You don't have permission to access this page
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Scenario Planner</h1>
+          <p className="text-muted-foreground mt-2">
+            What if demand surges or suppliers slow down? See the stockouts, orders and spend it would take.
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Scenario
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Saved Scenarios
+          </CardTitle>
+          <CardDescription>
+            Tick up to {MAX_COMPARED_SCENARIOS} simulated scenarios to compare them. Editing a scenario clears its
+            result until it is run again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10"></TableHead>
+                  <TableHead>Scenario</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Horizon</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scenarios.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No scenarios yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  scenarios.map((scenario) => (
+                    <TableRow key={scenario.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={compared.includes(scenario.id)}
+                          disabled={!scenario.result}
+                          onCheckedChange={(checked) => toggleCompared(scenario, checked === true)}
+                          aria-label={`Compare ${scenario.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {scenario.name}
+                        {scenario.description && (
+                          <div className="text-xs text-muted-foreground font-normal">{scenario.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {describeChanges(scenario).map((change) => (
+                          <div key={change}>{change}</div>
+                        ))}
+                        {describeChanges(scenario).length === 0 && (
+                          <span className="text-muted-foreground">Current forecast as is</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{scenario.horizon_days} days</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {scenario.simulated_at
+                          ? formatDistanceToNow(new Date(scenario.simulated_at), { addSuffix: true })
+                          : "Not run"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => run(scenario)}
+                            disabled={running !== null}
+                            className="gap-2"
+                          >
+                            <Play className="h-4 w-4" />
+                            {running === scenario.id ? "Running..." : "Run"}
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => openEditor(scenario)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => remove(scenario)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {comparedScenarios.length > 0 && <ScenarioComparison scenarios={comparedScenarios} />}
+
+      <ScenarioEditor
+        scenario={editing}
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        onSaved={fetchScenarios}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,716 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useVendors } from "@/hooks/useVendors";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Pencil, Plus, Shield, Star, Tags, Trash2, Truck } from "lucide-react";
+import { format } from "date-fns";
+import { DiscountType, PAYMENT_TERMS, Vendor, isContractActive, nextVendorCode } from "@/lib/vendors";
+import { PriceTierLink, PriceTiersDialog } from "@/components/vendors/PriceTiersDialog";
+
+interface ItemVendorLink {
+  id: string;
+  item_id: string;
+  vendor_sku: string | null;
+  unit_price: number;
+  lead_time_days: number | null;
+  is_preferred: boolean;
+  discount_type: DiscountType;
+  inventory_items: { item_name: string } | null;
+  vendor_price_tiers: { min_quantity: number }[];
+}
+
+interface InventoryItemOption {
+  id: string;
+  item_name: string;
+  unit_cost: number;
+}
+
+const NO_PAYMENT_TERMS = "none";
+
+const emptyVendorForm = {
+  vendor_code: "",
+  name: "",
+  contact_name: "",
+  email: "",
+  phone: "",
+  address: "",
+  contract_start: "",
+  contract_end: "",
+  contract_terms: "",
+  default_lead_time_days: "",
+  minimum_order_value: 0,
+  payment_terms: NO_PAYMENT_TERMS,
+};
+
+export default function Vendors() {
+  const { isManager } = useAuth();
+  const { toast } = useToast();
+  const { vendors, loading, refetch } = useVendors();
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyVendorForm);
+  const [selectedVendorId, setSelectedVendorId] = useState<string | null>(null);
+  const [links, setLinks] = useState<ItemVendorLink[]>([]);
+  const [items, setItems] = useState<InventoryItemOption[]>([]);
+  const [tierLink, setTierLink] = useState<PriceTierLink | null>(null);
+  const [linkForm, setLinkForm] = useState({
+    item_id: "",
+    vendor_sku: "",
+    unit_price: 0,
+  });
+
+  useEffect(() => {
+    if (isManager) {
+      fetchItems();
+    }
+  }, [isManager]);
+
+  useEffect(() => {
+    if (selectedVendorId) {
+      fetchLinks(selectedVendorId);
+    }
+  }, [selectedVendorId]);
+
+  const fetchItems = async () => {
+    const { data } = await supabase
+      .from("inventory_items")
+      .select("id, item_name, unit_cost")
+      .order("item_name");
+
+    if (data) setItems(data);
+  };
+
+  const fetchLinks = async (vendorId: string) => {
+    const { data } = await supabase
+      .from("item_vendors")
+      .select(
+        "id, item_id, vendor_sku, unit_price, lead_time_days, is_preferred, discount_type, inventory_items(item_name), vendor_price_tiers(min_quantity)"
+      )
+      .eq("vendor_id", vendorId);
+
+    if (data) {
+      setLinks(
+        (data as ItemVendorLink[]).sort((a, b) =>
+          (a.inventory_items?.item_name ?? "").localeCompare(b.inventory_items?.item_name ?? "")
+        )
+      );
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingVendor(null);
+    setFormData({ ...emptyVendorForm, vendor_code: nextVendorCode(vendors) });
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (vendor: Vendor) => {
+    setEditingVendor(vendor);
+    setFormData({
+      vendor_code: vendor.vendor_code,
+      name: vendor.name,
+      contact_name: vendor.contact_name ?? "",
+      email: vendor.email ?? "",
+      phone: vendor.phone ?? "",
+      address: vendor.address ?? "",
+      contract_start: vendor.contract_start ?? "",
+      contract_end: vendor.contract_end ?? "",
+      contract_terms: vendor.contract_terms ?? "",
+      default_lead_time_days: vendor.default_lead_time_days?.toString() ?? "",
+      minimum_order_value: vendor.minimum_order_value,
+      payment_terms: vendor.payment_terms ?? NO_PAYMENT_TERMS,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const record = {
+      vendor_code: formData.vendor_code,
+      name: formData.name,
+      contact_name: formData.contact_name || null,
+      email: formData.email || null,
+      phone: formData.phone || null,
+      address: formData.address || null,
+      contract_start: formData.contract_start || null,
+      contract_end: formData.contract_end || null,
+      contract_terms: formData.contract_terms || null,
+      default_lead_time_days: formData.default_lead_time_days
+        ? parseInt(formData.default_lead_time_days)
+        : null,
+      minimum_order_value: formData.minimum_order_value,
+      payment_terms: formData.payment_terms === NO_PAYMENT_TERMS ? null : formData.payment_terms,
+    };
+
+    const { error } = editingVendor
+      ? await supabase.from("vendors").update(record).eq("id", editingVendor.id)
+      : await supabase.from("vendors").insert(record);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: editingVendor ? "Vendor updated successfully" : "Vendor added successfully",
+      });
+      setIsDialogOpen(false);
+      refetch();
+    }
+  };
+
+  const toggleActive = async (vendor: Vendor) => {
+    const { error } = await supabase
+      .from("vendors")
+      .update({ is_active: !vendor.is_active })
+      .eq("id", vendor.id);
+
+    if (!error) refetch();
+  };
+
+  const handleAddLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedVendorId || !linkForm.item_id) return;
+
+    // The first vendor linked to an item becomes its preferred source
+    const { count } = await supabase
+      .from("item_vendors")
+      .select("id", { count: "exact", head: true })
+      .eq("item_id", linkForm.item_id)
+      .eq("is_preferred", true);
+
+    const { error } = await supabase.from("item_vendors").insert({
+      item_id: linkForm.item_id,
+      vendor_id: selectedVendorId,
+      vendor_sku: linkForm.vendor_sku || null,
+      unit_price: linkForm.unit_price,
+      is_preferred: !count,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setLinkForm({ item_id: "", vendor_sku: "", unit_price: 0 });
+      fetchLinks(selectedVendorId);
+    }
+  };
+
+  const makePreferred = async (link: ItemVendorLink) => {
+    // Only one preferred vendor per item: clear the current one first
+    const { error: clearError } = await supabase
+      .from("item_vendors")
+      .update({ is_preferred: false })
+      .eq("item_id", link.item_id)
+      .eq("is_preferred", true);
+
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase.from("item_vendors").update({ is_preferred: true }).eq("id", link.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else if (selectedVendorId) {
+      fetchLinks(selectedVendorId);
+    }
+  };
+
+  const removeLink = async (link: ItemVendorLink) => {
+    const { error } = await supabase.from("item_vendors").delete().eq("id", link.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else if (selectedVendorId) {
+      fetchLinks(selectedVendorId);
+    }
+  };
+
+  const selectedVendor = vendors.find((vendor) => vendor.id === selectedVendorId);
+  const unlinkedItems = items.filter((item) => !links.some((link) => link.item_id === item.id));
+
+  if (!isManager) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <Card className="max-w-md">
+          <CardHeader>
+            <Shield className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <CardTitle className="text-center">Access Denied</CardTitle>
+            <CardDescription className="text-center">
+              You don't have permission to access this page
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Vendors</h1>
+          <p className="text-muted-foreground mt-2">
+            Supplier contacts, contract terms and the items each vendor supplies
+          </p>
+        </div>
+        <Button className="gap-2" onClick={openCreateDialog}>
+          <Plus className="h-4 w-4" />
+          Add Vendor
+        </Button>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingVendor ? "Edit Vendor" : "Add Vendor"}</DialogTitle>
+            <DialogDescription>
+              Contact details and the commercial terms agreed with this vendor
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vendor_code">Vendor Code</Label>
+                <Input
+                  id="vendor_code"
+                  value={formData.vendor_code}
+                  onChange={(e) => setFormData({ ...formData, vendor_code: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor_name">Name</Label>
+                <Input
+                  id="vendor_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact_name">Contact Person</Label>
+                <Input
+                  id="contact_name"
+                  value={formData.contact_name}
+                  onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input
+                  id="phone"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_terms">Payment Terms</Label>
+                <Select
+                  value={formData.payment_terms}
+                  onValueChange={(value) => setFormData({ ...formData, payment_terms: value })}
+                >
+                  <SelectTrigger id="payment_terms">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PAYMENT_TERMS}>Not specified</SelectItem>
+                    {PAYMENT_TERMS.map((terms) => (
+                      <SelectItem key={terms} value={terms}>
+                        {terms}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="default_lead_time_days">Default Lead Time (days)</Label>
+                <Input
+                  id="default_lead_time_days"
+                  type="number"
+                  min={0}
+                  value={formData.default_lead_time_days}
+                  onChange={(e) =>
+                    setFormData({ ...formData, default_lead_time_days: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minimum_order_value">Minimum Order Value ($)</Label>
+                <Input
+                  id="minimum_order_value"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={formData.minimum_order_value}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      minimum_order_value: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contract_start">Contract Start</Label>
+                <Input
+                  id="contract_start"
+                  type="date"
+                  value={formData.contract_start}
+                  onChange={(e) => setFormData({ ...formData, contract_start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contract_end">Contract End</Label>
+                <Input
+                  id="contract_end"
+                  type="date"
+                  value={formData.contract_end}
+                  onChange={(e) => setFormData({ ...formData, contract_end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="address">Address</Label>
+                <Input
+                  id="address"
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="contract_terms">Contract Terms</Label>
+                <Textarea
+                  id="contract_terms"
+                  value={formData.contract_terms}
+                  onChange={(e) => setFormData({ ...formData, contract_terms: e.target.value })}
+                  placeholder="Pricing agreements, delivery commitments, return policy..."
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{editingVendor ? "Save Changes" : "Add Vendor"}</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Vendor Directory
+          </CardTitle>
+          <CardDescription>{vendors.length} vendors</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Lead Time</TableHead>
+                  <TableHead>Min Order</TableHead>
+                  <TableHead>Payment Terms</TableHead>
+                  <TableHead>Contract</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vendors.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">
+                      No vendors defined yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  vendors.map((vendor) => (
+                    <TableRow
+                      key={vendor.id}
+                      className={`cursor-pointer ${vendor.id === selectedVendorId ? "bg-muted/50" : ""}`}
+                      onClick={() => setSelectedVendorId(vendor.id)}
+                    >
+                      <TableCell className="font-mono">{vendor.vendor_code}</TableCell>
+                      <TableCell className="font-medium">{vendor.name}</TableCell>
+                      <TableCell>
+                        <div>{vendor.contact_name || "—"}</div>
+                        {(vendor.email || vendor.phone) && (
+                          <div className="text-xs text-muted-foreground">
+                            {[vendor.email, vendor.phone].filter(Boolean).join(" · ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {vendor.default_lead_time_days != null
+                          ? `${vendor.default_lead_time_days} days`
+                          : "—"}
+                      </TableCell>
+                      <TableCell>${Number(vendor.minimum_order_value).toFixed(2)}</TableCell>
+                      <TableCell>{vendor.payment_terms || "—"}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {vendor.contract_start || vendor.contract_end ? (
+                          <span className={isContractActive(vendor) ? "" : "text-destructive"}>
+                            {vendor.contract_start
+                              ? format(new Date(vendor.contract_start), "MMM d, yyyy")
+                              : "…"}
+                            {" – "}
+                            {vendor.contract_end
+                              ? format(new Date(vendor.contract_end), "MMM d, yyyy")
+                              : "…"}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={vendor.is_active ? "outline" : "secondary"}
+                          className="cursor-pointer"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleActive(vendor);
+                          }}
+                        >
+                          {vendor.is_active ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-2"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openEditDialog(vendor);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                          Edit
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedVendor && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Items Supplied by {selectedVendor.name}</CardTitle>
+            <CardDescription>
+              Vendor SKUs and contract prices. The starred vendor is the item's preferred source.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleAddLink} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="link_item">Item</Label>
+                <Select
+                  value={linkForm.item_id}
+                  onValueChange={(value) =>
+                    setLinkForm({
+                      ...linkForm,
+                      item_id: value,
+                      unit_price: items.find((item) => item.id === value)?.unit_cost ?? 0,
+                    })
+                  }
+                >
+                  <SelectTrigger id="link_item">
+                    <SelectValue placeholder="Select an item..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unlinkedItems.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.item_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="link_sku">Vendor SKU</Label>
+                <Input
+                  id="link_sku"
+                  value={linkForm.vendor_sku}
+                  onChange={(e) => setLinkForm({ ...linkForm, vendor_sku: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="link_price">Unit Price ($)</Label>
+                <Input
+                  id="link_price"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={linkForm.unit_price}
+                  onChange={(e) =>
+                    setLinkForm({ ...linkForm, unit_price: parseFloat(e.target.value) || 0 })
+                  }
+                />
+              </div>
+              <Button type="submit" className="gap-2" disabled={!linkForm.item_id}>
+                <Plus className="h-4 w-4" />
+                Link Item
+              </Button>
+            </form>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Vendor SKU</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead>Price Breaks</TableHead>
+                    <TableHead>Lead Time</TableHead>
+                    <TableHead>Preferred</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {links.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No items linked to this vendor
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    links.map((link) => (
+                      <TableRow key={link.id}>
+                        <TableCell className="font-medium">
+                          {link.inventory_items?.item_name}
+                        </TableCell>
+                        <TableCell className="font-mono">{link.vendor_sku || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          ${Number(link.unit_price).toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() =>
+                              setTierLink({
+                                id: link.id,
+                                item_name: link.inventory_items?.item_name ?? "",
+                                unit_price: link.unit_price,
+                                discount_type: link.discount_type,
+                              })
+                            }
+                          >
+                            <Tags className="h-4 w-4" />
+                            {link.vendor_price_tiers.length === 0
+                              ? "None"
+                              : `${link.vendor_price_tiers.length} (${
+                                  link.discount_type === "incremental" ? "incremental" : "all units"
+                                })`}
+                          </Button>
+                        </TableCell>
+                        <TableCell>
+                          {link.lead_time_days ?? selectedVendor.default_lead_time_days ?? "—"}
+                          {(link.lead_time_days ?? selectedVendor.default_lead_time_days) != null &&
+                            " days"}
+                        </TableCell>
+                        <TableCell>
+                          {link.is_preferred ? (
+                            <Badge className="gap-1">
+                              <Star className="h-3 w-3" />
+                              Preferred
+                            </Badge>
+                          ) : (
+                            <Button variant="ghost" size="sm" onClick={() => makePreferred(link)}>
+                              Make preferred
+                            </Button>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => removeLink(link)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <PriceTiersDialog
+        link={tierLink}
+        onOpenChange={(open) => !open && setTierLink(null)}
+        onSaved={() => selectedVendorId && fetchLinks(selectedVendorId)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+// Stock alert rules from alert_configurations. Each rule pairs an alert type
+// with a threshold on one stock measure; an item is checked against the
+// rules that apply to it and every rule it breaches raises an alert.
+
+import { AlertSeverity } from "./classification.ts";
+import { IncomingSupply, projectStock } from "./stockProjection.ts";
+import { StockoutRisk } from "./stockoutRisk.ts";
+
+export type StockThresholdType =
+  | 'percentage'
+  | 'absolute'
+  | 'days_of_cover'
+  | 'stockout_within_days'
+  | 'expiry_within_days'
+  | 'stockout_probability';
+
+const STOCK_THRESHOLD_TYPES: StockThresholdType[] = [
+  'percentage',
+  'absolute',
+  'days_of_cover',
+  'stockout_within_days',
+  'expiry_within_days',
+  'stockout_probability',
+];
+
+// Model monitoring alerts share the table but are not stock rules
+const MODEL_ALERT_TYPES = ['data_drift', 'prediction_error'];
+
+export interface AlertRuleRow {
+  id: string;
+  alert_type: string;
+  threshold_type: string | null;
+  threshold_value: number | null;
+  severity: AlertSeverity;
+  item_type: string | null;
+  item_id: string | null;
+  is_enabled: boolean | null;
+  recipient_roles: string[] | null;
+  notification_channels: string[] | null;
+}
+
+// Columns to select from alert_configurations
+export const ALERT_RULE_COLUMNS =
+  'id, alert_type, threshold_type, threshold_value, severity, item_type, item_id, is_enabled, recipient_roles, notification_channels';
+
+export interface StockSnapshot {
+  current_stock: number;
+  min_required: number;
+  // Forecast demand for each day from tomorrow
+  daily_forecast: number[];
+  // Lots on hand with an expiry date
+  lots: { expiry_date: string; quantity: number }[];
+  // Outstanding quantities on open purchase orders
+  incoming: IncomingSupply[];
+  // Simulated risk of running out before the next delivery; null when not
+  // simulated
+  stockout_risk: StockoutRisk | null;
+}
+
+export interface TriggeredAlert {
+  rule: AlertRuleRow;
+  severity: AlertSeverity;
+  // The measured value the threshold was compared with
+  value: number;
+  message: string;
+}
+
+export const ALERT_TITLES: Record<string, string> = {
+  critical_stock: 'Critical Stock Alert',
+  low_stock: 'Low Stock Warning',
+  stockout_risk: 'Stockout Risk',
+  expiry_warning: 'Expiry Warning',
+  usage_anomaly: 'Usage Anomaly',
+};
+
+/**
+ * Identifies the condition an alert reports on, so a recurrence can be
+ * matched to the earlier alert: same item, alert type and location.
+ */
+export function alertConditionKey(alert: {
+  item_id: string | null;
+  alert_type: string;
+  metadata?: unknown;
+}): string {
+  const locationId = (alert.metadata as { location_id?: string | null } | null)?.location_id ?? '';
+  return `${alert.item_id}:${alert.alert_type}:${locationId}`;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export function higherSeverity(a: AlertSeverity, b: AlertSeverity): AlertSeverity {
+  return SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds the lookup of stock rules that apply to an item. For each alert
+ * type the item's own rule wins over its item type's, which wins over the
+ * rule for all items; a disabled winner switches the alert type off.
+ */
+export function createAlertRuleResolver(rows: AlertRuleRow[]) {
+  const stockRules = rows.filter(
+    (row) =>
+      !MODEL_ALERT_TYPES.includes(row.alert_type) &&
+      STOCK_THRESHOLD_TYPES.includes(row.threshold_type as StockThresholdType) &&
+      row.threshold_value !== null
+  );
+
+  return (item: { id: string; item_type: string }): AlertRuleRow[] => {
+    const byAlertType = new Map<string, AlertRuleRow>();
+    const specificity = (row: AlertRuleRow) => (row.item_id ? 2 : row.item_type ? 1 : 0);
+
+    for (const row of stockRules) {
+      if (row.item_id && row.item_id !== item.id) continue;
+      if (row.item_type && row.item_type !== item.item_type) continue;
+      const current = byAlertType.get(row.alert_type);
+      if (!current || specificity(row) > specificity(current)) {
+        byAlertType.set(row.alert_type, row);
+      }
+    }
+    return [...byAlertType.values()].filter((row) => row.is_enabled !== false);
+  };
+}
+
+function expiringQuantity(snapshot: StockSnapshot, withinDays: number, today: Date) {
+  const cutoff = new Date(today.getTime() + withinDays * DAY_MS).toISOString().slice(0, 10);
+  const todayKey = today.toISOString().slice(0, 10);
+  const lots = snapshot.lots.filter((lot) => lot.quantity > 0 && lot.expiry_date <= cutoff);
+  return {
+    quantity: lots.reduce((sum, lot) => sum + lot.quantity, 0),
+    expired: lots.filter((lot) => lot.expiry_date < todayKey).reduce((sum, lot) => sum + lot.quantity, 0),
+    first_expiry: lots.map((lot) => lot.expiry_date).sort()[0] ?? null,
+  };
+}
+
+function evaluateRule(rule: AlertRuleRow, snapshot: StockSnapshot, today: Date): TriggeredAlert | null {
+  const threshold = Number(rule.threshold_value);
+  const triggered = (value: number, message: string): TriggeredAlert => ({
+    rule,
+    severity: rule.severity,
+    value,
+    message,
+  });
+
+  switch (rule.threshold_type as StockThresholdType) {
+    case 'percentage': {
+      if (snapshot.min_required <= 0) return null;
+      const percentage = (snapshot.current_stock / snapshot.min_required) * 100;
+      return percentage < threshold
+        ? triggered(percentage, `Item is at ${percentage.toFixed(1)}% of minimum required (alert below ${threshold}%).`)
+        : null;
+    }
+    case 'absolute':
+      return snapshot.current_stock < threshold
+        ? triggered(snapshot.current_stock, `Only ${snapshot.current_stock} units on hand (alert below ${threshold}).`)
+        : null;
+    case 'days_of_cover': {
+      // Cover from stock on hand alone; orders on the way are what
+      // stockout_within_days weighs
+      const cover = projectStock(snapshot.current_stock, snapshot.daily_forecast, [], today).days_of_cover;
+      return cover !== null && cover < threshold
+        ? triggered(cover, `Stock covers ${cover.toFixed(1)} days of forecast demand (alert below ${threshold} days).`)
+        : null;
+    }
+    case 'stockout_within_days': {
+      // Orders already placed count if they arrive in time
+      const projection = projectStock(snapshot.current_stock, snapshot.daily_forecast, snapshot.incoming, today);
+      const days = projection.days_until_stockout;
+      if (days === null || days > threshold) return null;
+      const onOrder = projection.incoming_quantity > 0
+        ? ` allowing for ${projection.incoming_quantity} units on order`
+        : '';
+      return triggered(
+        days,
+        days === 0
+          ? 'Item is out of stock.'
+          : `At forecast demand${onOrder}, stock runs out on ${projection.stockout_date}, in ${days} days (alert within ${threshold} days).`
+      );
+    }
+    case 'expiry_within_days': {
+      const expiring = expiringQuantity(snapshot, threshold, today);
+      if (expiring.quantity === 0) return null;
+      const expiredNote = expiring.expired > 0 ? `, ${expiring.expired} already expired` : '';
+      return triggered(
+        expiring.quantity,
+        `${expiring.quantity} units expire within ${threshold} days${expiredNote}; first on ${expiring.first_expiry}.`
+      );
+    }
+    case 'stockout_probability': {
+      // Threshold is a percentage; the alert fires at or above it
+      const risk = snapshot.stockout_risk;
+      if (!risk) return null;
+      const percent = risk.stockout_probability * 100;
+      if (percent < threshold) return null;
+      return triggered(
+        percent,
+        `${percent.toFixed(0)}% chance of running out before the next delivery, ` +
+          `about ${risk.expected_units_short.toFixed(0)} units short on average (alert at ${threshold}%).`
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks an item against its rules. Where several rules on the same measure
+ * trigger (say 20% and 10% of minimum), only the most severe is kept.
+ */
+export function evaluateAlertRules(
+  rules: AlertRuleRow[],
+  snapshot: StockSnapshot,
+  today: Date = new Date()
+): TriggeredAlert[] {
+  const byMeasure = new Map<string, TriggeredAlert>();
+  for (const rule of rules) {
+    const alert = evaluateRule(rule, snapshot, today);
+    if (!alert) continue;
+    const measure = rule.threshold_type ?? '';
+    const current = byMeasure.get(measure);
+    if (!current || SEVERITY_RANK[alert.severity] > SEVERITY_RANK[current.severity]) {
+      byMeasure.set(measure, alert);
+    }
+  }
+  return [...byMeasure.values()];
+}
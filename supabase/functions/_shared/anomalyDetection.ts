@@ -0,0 +1,103 @@
+import { buildDailySeries } from "./forecasting.ts";
+
+// Usage anomaly detection on daily consumption. Each day is compared with a
+// seasonal baseline, the median usage on the same weekday over the preceding
+// weeks, and its residual scaled by the median absolute deviation of the
+// baseline's own residuals (a robust z-score), so one earlier spike does not
+// hide the next.
+
+export type AnomalyLabel = 'real' | 'error' | 'theft_suspected';
+
+// Labelled anomalies that were not genuine usage; they are left out of the
+// baseline so a data-entry error or theft does not raise what counts as normal
+export const NON_USAGE_LABELS: AnomalyLabel[] = ['error', 'theft_suspected'];
+
+export interface UsageAnomaly {
+  consumption_date: string;
+  observed_quantity: number;
+  expected_quantity: number;
+  expected_low: number;
+  expected_high: number;
+  robust_z: number;
+  direction: 'spike' | 'drop';
+}
+
+// Iglewicz and Hoaglin's cut-off for modified z-scores
+export const ANOMALY_Z_THRESHOLD = 3.5;
+
+// Recent complete days checked on each run; anomalies already recorded are
+// not raised again
+export const ANOMALY_LOOKBACK_DAYS = 7;
+
+const BASELINE_DAYS = 56;
+const MIN_BASELINE_DAYS = 28;
+// Same-weekday observations needed before the weekday median is trusted
+// over the median of all days
+const MIN_WEEKDAY_OBSERVATIONS = 4;
+// Floor on the scale, in units, so a flat history does not flag every
+// change of a few units
+const MIN_SCALE = 2;
+// MAD and mean absolute deviation to standard deviation for normal data
+const MAD_SCALE = 1.4826;
+const MEAN_AD_SCALE = 1.2533;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Anomalous days among the last ANOMALY_LOOKBACK_DAYS up to `end` (the last
+ * complete day) in one item's consumption at one location. `excludedDates`
+ * are days labelled as not genuine usage.
+ */
+export function detectUsageAnomalies(
+  rows: { consumption_date: string; quantity: number }[],
+  end: Date,
+  excludedDates: Set<string> = new Set()
+): UsageAnomaly[] {
+  const series = buildDailySeries(rows, end);
+  const dateOf = (index: number) =>
+    new Date(end.getTime() - (series.length - 1 - index) * DAY_MS).toISOString().slice(0, 10);
+
+  const anomalies: UsageAnomaly[] = [];
+  for (let t = Math.max(series.length - ANOMALY_LOOKBACK_DAYS, 0); t < series.length; t++) {
+    const baseline: { value: number; weekday: number }[] = [];
+    for (let day = Math.max(t - BASELINE_DAYS, 0); day < t; day++) {
+      if (!excludedDates.has(dateOf(day))) baseline.push({ value: series[day], weekday: day % 7 });
+    }
+    if (baseline.length < MIN_BASELINE_DAYS) continue;
+
+    const overall = median(baseline.map((point) => point.value));
+    const weekdayMedians = new Map<number, number>();
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const values = baseline.filter((point) => point.weekday === weekday).map((point) => point.value);
+      weekdayMedians.set(weekday, values.length >= MIN_WEEKDAY_OBSERVATIONS ? median(values) : overall);
+    }
+
+    const residuals = baseline.map((point) => Math.abs(point.value - (weekdayMedians.get(point.weekday) ?? overall)));
+    const mad = median(residuals);
+    const meanAd = residuals.reduce((sum, value) => sum + value, 0) / residuals.length;
+    const scale = Math.max(mad > 0 ? MAD_SCALE * mad : MEAN_AD_SCALE * meanAd, MIN_SCALE);
+
+    const expected = weekdayMedians.get(t % 7) ?? overall;
+    const z = (series[t] - expected) / scale;
+    if (Math.abs(z) < ANOMALY_Z_THRESHOLD) continue;
+
+    anomalies.push({
+      consumption_date: dateOf(t),
+      observed_quantity: series[t],
+      expected_quantity: round(expected),
+      expected_low: round(Math.max(expected - ANOMALY_Z_THRESHOLD * scale, 0)),
+      expected_high: round(expected + ANOMALY_Z_THRESHOLD * scale),
+      robust_z: round(z),
+      direction: z > 0 ? 'spike' : 'drop',
+    });
+  }
+  return anomalies;
+}
@@ -0,0 +1,372 @@
+// Calendar effects layered on the smoothing forecasts. Weekday and
+// time-of-year patterns, holidays and other calendar events, and optionally
+// an external series such as bed occupancy or scheduled procedure counts are
+// fitted to the history by ridge regression. The smoothing model forecasts
+// what they leave, and the effects are added back for each forecast day. The
+// combination is kept only where it beats plain smoothing on AIC.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { aic, forecastDemand, ForecastResult, ForecastStrategy } from "./forecasting.ts";
+
+export type CalendarEventType = 'holiday' | 'elective_surgery' | 'respiratory_season' | 'other';
+
+const EVENT_TYPE_LABELS: Record<CalendarEventType, string> = {
+  holiday: 'Holidays',
+  elective_surgery: 'Elective surgery days',
+  respiratory_season: 'Respiratory virus season',
+  other: 'Other events',
+};
+
+// Columns to select from calendar_events
+export const CALENDAR_EVENT_COLUMNS = 'id, name, event_type, start_date, end_date, location_id';
+
+export interface CalendarEvent {
+  id: string;
+  name: string;
+  event_type: string;
+  // Inclusive
+  start_date: string;
+  end_date: string;
+  // null applies everywhere
+  location_id: string | null;
+}
+
+export interface RegressorSeries {
+  id: string;
+  name: string;
+  // Value by date, history and any known future days
+  values: Map<string, number>;
+}
+
+export interface CalendarInputs {
+  events: CalendarEvent[];
+  regressor: RegressorSeries | null;
+}
+
+export type EffectKind = 'weekly' | 'yearly' | 'event' | 'regressor';
+
+// Type rather than interface so it can be written to a jsonb column
+export type ForecastEffect = {
+  kind: EffectKind;
+  label: string;
+  // Net units the effect adds to demand over the horizon; negative lowers it
+  units: number;
+  detail: string;
+};
+
+export interface CalendarForecast {
+  // Smoothing plus effects; plain smoothing where effects did not help
+  result: ForecastResult;
+  effects: ForecastEffect[];
+  // The smoothing model, the series it was fitted to and the effect added to
+  // each forecast day, for predictionIntervals
+  base: ForecastResult;
+  adjusted_series: number[];
+  future_effect: number[];
+}
+
+// A year of history before time of year can be told apart from trend
+const MIN_YEARLY_DAYS = 365;
+const YEARLY_HARMONICS = 2;
+// Event types seen on fewer history days than this have nothing to fit
+const MIN_EVENT_DAYS = 3;
+// Regressor values needed in the history before it is used
+const MIN_REGRESSOR_DAYS = 28;
+// Ridge penalty per observation; keeps collinear terms (weekday dummies,
+// a season overlapping the yearly cycle) solvable without visibly shrinking
+const RIDGE = 1e-3;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateKey = (base: Date, days: number) => new Date(base.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+const signed = (value: number) => `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(1)}`;
+
+interface Column {
+  key: string;
+  history: number[];
+  future: number[];
+}
+
+interface Term {
+  kind: EffectKind;
+  label: string;
+  columns: Column[];
+  // Indicator terms add their effect only on the days they cover; the rest
+  // are centred on their history mean so they net out of the level
+  centred: boolean;
+  describe: (future: number[], coefficients: number[]) => string;
+}
+
+function weeklyTerm(history: string[], future: string[]): Term {
+  const weekday = (key: string) => new Date(`${key}T00:00:00Z`).getUTCDay();
+  const share = WEEKDAYS.map((_, day) => history.filter((key) => weekday(key) === day).length / history.length);
+  return {
+    kind: 'weekly',
+    label: 'Weekday pattern',
+    columns: WEEKDAYS.map((_, day) => ({
+      key: `weekday_${day}`,
+      history: history.map((key) => (weekday(key) === day ? 1 : 0)),
+      future: future.map((key) => (weekday(key) === day ? 1 : 0)),
+    })),
+    centred: true,
+    describe: (_, coefficients) => {
+      const mean = coefficients.reduce((sum, value, day) => sum + value * share[day], 0);
+      const byDay = coefficients.map((value, day) => ({ day, effect: value - mean }));
+      byDay.sort((a, b) => b.effect - a.effect);
+      const busiest = byDay[0];
+      const quietest = byDay[byDay.length - 1];
+      return `Busiest ${WEEKDAYS[busiest.day]} (${signed(busiest.effect)}/day), ` +
+        `quietest ${WEEKDAYS[quietest.day]} (${signed(quietest.effect)}/day)`;
+    },
+  };
+}
+
+function yearlyTerm(history: string[], future: string[]): Term {
+  const angle = (key: string) => {
+    const date = new Date(`${key}T00:00:00Z`);
+    const dayOfYear = (date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS;
+    return (2 * Math.PI * dayOfYear) / 365.25;
+  };
+  const columns: Column[] = [];
+  for (let harmonic = 1; harmonic <= YEARLY_HARMONICS; harmonic++) {
+    columns.push(
+      {
+        key: `yearly_sin_${harmonic}`,
+        history: history.map((key) => Math.sin(harmonic * angle(key))),
+        future: future.map((key) => Math.sin(harmonic * angle(key))),
+      },
+      {
+        key: `yearly_cos_${harmonic}`,
+        history: history.map((key) => Math.cos(harmonic * angle(key))),
+        future: future.map((key) => Math.cos(harmonic * angle(key))),
+      }
+    );
+  }
+  return {
+    kind: 'yearly',
+    label: 'Time of year',
+    columns,
+    centred: true,
+    describe: (effect) =>
+      `${signed(effect.reduce((sum, value) => sum + value, 0) / effect.length)}/day on average at this time of year`,
+  };
+}
+
+function eventTerms(events: CalendarEvent[], history: string[], future: string[]): Term[] {
+  const terms: Term[] = [];
+  for (const [type, label] of Object.entries(EVENT_TYPE_LABELS)) {
+    const ofType = events.filter((event) => event.event_type === type);
+    const covering = (key: string) => ofType.filter((event) => event.start_date <= key && key <= event.end_date);
+    const historyDays = history.map((key): number => (covering(key).length > 0 ? 1 : 0));
+    const eventDays = historyDays.reduce((sum, value) => sum + value, 0);
+    if (eventDays < MIN_EVENT_DAYS || eventDays === history.length) continue;
+
+    const upcoming = [...new Set(future.flatMap((key) => covering(key).map((event) => event.name)))];
+    terms.push({
+      kind: 'event',
+      label,
+      columns: [{
+        key: `event_${type}`,
+        history: historyDays,
+        future: future.map((key) => (covering(key).length > 0 ? 1 : 0)),
+      }],
+      centred: false,
+      describe: (effect, [coefficient]) => {
+        const days = effect.filter((value) => value !== 0).length;
+        return `${upcoming.join(', ')}: ${signed(coefficient)}/day on ${days} ${days === 1 ? 'day' : 'days'}`;
+      },
+    });
+  }
+  return terms;
+}
+
+function regressorTerm(regressor: RegressorSeries, history: string[], future: string[]): Term | null {
+  const known = history.filter((key) => regressor.values.has(key));
+  if (known.length < MIN_REGRESSOR_DAYS) return null;
+
+  // Days without a value, history or future, are taken to be average
+  const mean = known.reduce((sum, key) => sum + regressor.values.get(key)!, 0) / known.length;
+  const knownFuture = future.filter((key) => regressor.values.has(key)).length;
+  return {
+    kind: 'regressor',
+    label: regressor.name,
+    columns: [{
+      key: 'regressor',
+      history: history.map((key) => regressor.values.get(key) ?? mean),
+      future: future.map((key) => regressor.values.get(key) ?? mean),
+    }],
+    centred: true,
+    describe: (_, [coefficient]) =>
+      `${signed(coefficient)} units of demand per unit of ${regressor.name}; ` +
+      `values known for ${knownFuture} of ${future.length} forecast days, the rest taken as average`,
+  };
+}
+
+// Solves (XᵀX + λI)β = Xᵀy by Gaussian elimination with partial pivoting,
+// on columns and target centred on their means
+function ridgeRegression(columns: number[][], target: number[]): number[] {
+  const n = target.length;
+  const p = columns.length;
+  const centre = (values: number[]) => {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return values.map((value) => value - mean);
+  };
+  const x = columns.map(centre);
+  const y = centre(target);
+
+  const a = x.map((row, i) => [
+    ...x.map((other, j) => row.reduce((sum, value, t) => sum + value * other[t], 0) + (i === j ? RIDGE * n : 0)),
+    row.reduce((sum, value, t) => sum + value * y[t], 0),
+  ]);
+  for (let col = 0; col < p; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < p; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < p; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= p; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const beta = Array(p).fill(0);
+  for (let row = p - 1; row >= 0; row--) {
+    let sum = a[row][p];
+    for (let k = row + 1; k < p; k++) sum -= a[row][k] * beta[k];
+    beta[row] = sum / a[row][row];
+  }
+  return beta;
+}
+
+// Contribution of a term on each day given its fitted coefficients
+function termEffect(term: Term, coefficients: number[], which: 'history' | 'future'): number[] {
+  const length = term.columns[0][which].length;
+  const effect = Array(length).fill(0);
+  term.columns.forEach((column, c) => {
+    const mean = term.centred
+      ? column.history.reduce((sum, value) => sum + value, 0) / column.history.length
+      : 0;
+    for (let t = 0; t < length; t++) effect[t] += coefficients[c] * (column[which][t] - mean);
+  });
+  return effect;
+}
+
+/**
+ * Forecasts the next `horizon` days of a series ending on `end`, with
+ * weekday, time-of-year, calendar-event and regressor effects where they
+ * improve the fit. Returns null when history is too short to forecast.
+ */
+export function forecastWithCalendar(
+  series: number[],
+  end: Date,
+  horizon: number,
+  strategy: ForecastStrategy,
+  inputs: CalendarInputs
+): CalendarForecast | null {
+  const plain = forecastDemand(series, horizon, strategy);
+  if (!plain) return null;
+  const unadjusted: CalendarForecast = {
+    result: plain,
+    effects: [],
+    base: plain,
+    adjusted_series: series,
+    future_effect: Array(horizon).fill(0),
+  };
+
+  const history = series.map((_, t) => dateKey(end, t - series.length + 1));
+  const future = Array.from({ length: horizon }, (_, day) => dateKey(end, day + 1));
+  const terms = [
+    weeklyTerm(history, future),
+    ...(series.length >= MIN_YEARLY_DAYS ? [yearlyTerm(history, future)] : []),
+    ...eventTerms(inputs.events, history, future),
+  ];
+  const regressor = inputs.regressor ? regressorTerm(inputs.regressor, history, future) : null;
+  if (regressor) terms.push(regressor);
+
+  const columns = terms.flatMap((term) => term.columns);
+  const beta = ridgeRegression(columns.map((column) => column.history), series);
+  if (beta.some((value) => !Number.isFinite(value))) return unadjusted;
+
+  const historyEffect = Array(series.length).fill(0);
+  const futureEffect = Array(horizon).fill(0);
+  const effects: ForecastEffect[] = [];
+  let offset = 0;
+  for (const term of terms) {
+    const coefficients = beta.slice(offset, offset + term.columns.length);
+    offset += term.columns.length;
+    termEffect(term, coefficients, 'history').forEach((value, t) => (historyEffect[t] += value));
+    const effect = termEffect(term, coefficients, 'future');
+    effect.forEach((value, day) => (futureEffect[day] += value));
+
+    // Events outside the horizon explain nothing about this forecast
+    if (term.kind === 'event' && effect.every((value) => value === 0)) continue;
+    effects.push({
+      kind: term.kind,
+      label: term.label,
+      units: effect.reduce((sum, value) => sum + value, 0),
+      detail: term.describe(effect, coefficients),
+    });
+  }
+
+  const adjusted = series.map((value, t) => value - historyEffect[t]);
+  const base = forecastDemand(adjusted, horizon, strategy);
+  if (!base) return unadjusted;
+
+  const combined: ForecastResult = {
+    method: base.method,
+    forecast: base.forecast.map((value, day) => Math.max(0, value + futureEffect[day])),
+    fitted: series.map((_, t) => (Number.isNaN(base.fitted[t]) ? NaN : base.fitted[t] + historyEffect[t])),
+    params: {
+      ...base.params,
+      ...Object.fromEntries(columns.map((column, c) => [column.key, beta[c]])),
+    },
+  };
+  if (aic(series, combined) >= aic(series, plain)) return unadjusted;
+
+  effects.sort((a, b) => Math.abs(b.units) - Math.abs(a.units));
+  return { result: combined, effects, base, adjusted_series: adjusted, future_effect: futureEffect };
+}
+
+/**
+ * Calendar events overlapping `from`..`to` (YYYY-MM-DD, inclusive) at every
+ * location, and the values of the regressor over the same dates if one is
+ * given. Callers narrow the events to the locations they forecast for.
+ */
+export async function fetchCalendarInputs(
+  supabase: SupabaseClient,
+  from: string,
+  to: string,
+  regressorId?: string | null
+): Promise<CalendarInputs> {
+  const { data: events, error: eventsError } = await supabase
+    .from('calendar_events')
+    .select(CALENDAR_EVENT_COLUMNS)
+    .lte('start_date', to)
+    .gte('end_date', from);
+  if (eventsError) throw eventsError;
+
+  let regressor: RegressorSeries | null = null;
+  if (regressorId) {
+    const [{ data: regressorRow }, { data: regressorValues, error: valuesError }] = await Promise.all([
+      supabase.from('demand_regressors').select('id, name').eq('id', regressorId).maybeSingle(),
+      supabase
+        .from('regressor_values')
+        .select('value_date, value')
+        .eq('regressor_id', regressorId)
+        .gte('value_date', from)
+        .lte('value_date', to),
+    ]);
+    if (valuesError) throw valuesError;
+    if (!regressorRow) throw new Error('Regressor not found');
+    regressor = {
+      id: regressorRow.id,
+      name: regressorRow.name,
+      values: new Map((regressorValues || []).map((row) => [row.value_date, Number(row.value)])),
+    };
+  }
+
+  return { events: (events || []) as CalendarEvent[], regressor };
+}
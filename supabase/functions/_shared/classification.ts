@@ -0,0 +1,104 @@
+// ABC / XYZ / VED classification of the item catalog.
+
+export type AbcClass = 'A' | 'B' | 'C';
+export type XyzClass = 'X' | 'Y' | 'Z';
+export type VedClass = 'V' | 'E' | 'D';
+
+export interface ItemClassRow {
+  item_id: string;
+  abc_class: AbcClass;
+  xyz_class: XyzClass;
+  ved_class: VedClass;
+}
+
+// Columns to select from item_classifications
+export const ITEM_CLASS_COLUMNS = 'item_id, abc_class, xyz_class, ved_class';
+
+// Cumulative share of annual consumption value closing out classes A and B
+const ABC_A_SHARE = 0.8;
+const ABC_B_SHARE = 0.95;
+
+// Coefficient of variation of weekly demand closing out classes X and Y
+const XYZ_X_CV = 0.5;
+const XYZ_Y_CV = 1.0;
+
+// Fewer complete weeks than this and variability is unknown; such items are
+// treated as Z, the cautious choice
+export const MIN_XYZ_WEEKS = 4;
+
+export interface AbcResult {
+  item_id: string;
+  abc_class: AbcClass;
+  annual_consumption_value: number;
+  cumulative_value_share: number;
+}
+
+/**
+ * Pareto split of items by annual consumption value, highest first. An item
+ * is A while the share of spend before it is under 80%, so the item that
+ * crosses the line is still A.
+ */
+export function classifyAbc(values: { item_id: string; annual_value: number }[]): AbcResult[] {
+  const sorted = [...values].sort((a, b) => b.annual_value - a.annual_value);
+  const total = sorted.reduce((sum, item) => sum + item.annual_value, 0);
+
+  let cumulative = 0;
+  return sorted.map((item) => {
+    const before = total > 0 ? cumulative / total : 1;
+    cumulative += item.annual_value;
+    const abcClass: AbcClass = item.annual_value <= 0
+      ? 'C'
+      : before < ABC_A_SHARE ? 'A' : before < ABC_B_SHARE ? 'B' : 'C';
+    return {
+      item_id: item.item_id,
+      abc_class: abcClass,
+      annual_consumption_value: item.annual_value,
+      cumulative_value_share: total > 0 ? cumulative / total : 1,
+    };
+  });
+}
+
+/**
+ * Coefficient of variation of demand summed into complete weeks, counting
+ * back from the end of the daily series. Daily figures are too noisy for
+ * slow movers; ordering happens on a weekly rhythm anyway.
+ */
+export function weeklyDemandCv(series: number[]): { cv: number | null; weeks: number } {
+  const weeks: number[] = [];
+  for (let end = series.length; end - 7 >= 0; end -= 7) {
+    weeks.push(series.slice(end - 7, end).reduce((sum, value) => sum + value, 0));
+  }
+  if (weeks.length < MIN_XYZ_WEEKS) return { cv: null, weeks: weeks.length };
+
+  const mean = weeks.reduce((sum, value) => sum + value, 0) / weeks.length;
+  if (mean === 0) return { cv: null, weeks: weeks.length };
+  const variance = weeks.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (weeks.length - 1);
+  return { cv: Math.sqrt(variance) / mean, weeks: weeks.length };
+}
+
+export function classifyXyz(cv: number | null): XyzClass {
+  if (cv === null) return 'Z';
+  if (cv <= XYZ_X_CV) return 'X';
+  if (cv <= XYZ_Y_CV) return 'Y';
+  return 'Z';
+}
+
+/**
+ * Key for class-level cost parameters: VED letter then ABC letter, e.g. 'VA'.
+ */
+export function itemClassKey(row: Pick<ItemClassRow, 'abc_class' | 'ved_class'>): string {
+  return `${row.ved_class}${row.abc_class}`;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Shifts a stock alert's severity by the item's criticality: a vital item
+ * running low is already critical, while a desirable item running out is a
+ * warning. Unclassified and essential items keep the stock-based severity.
+ */
+export function severityForClass(severity: AlertSeverity, vedClass: VedClass | undefined): AlertSeverity {
+  if (vedClass === 'V' && severity === 'warning') return 'critical';
+  if (vedClass === 'D' && severity === 'critical') return 'warning';
+  return severity;
+}
@@ -0,0 +1,58 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+
+export interface ConsumptionRow {
+  item_id: string;
+  location_id: string | null;
+  consumption_date: string;
+  quantity: number;
+}
+
+interface ConsumptionFilter {
+  since: Date;
+  itemIds?: string[];
+  locationIds?: string[];
+}
+
+// PostgREST caps a response at 1000 rows by default
+const PAGE_SIZE = 1000;
+
+/**
+ * Daily consumption rows from `since` onwards, paged so long histories are
+ * not silently truncated.
+ */
+export async function fetchDailyConsumption(
+  supabase: SupabaseClient,
+  { since, itemIds, locationIds }: ConsumptionFilter
+): Promise<ConsumptionRow[]> {
+  const rows: ConsumptionRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('daily_consumption')
+      .select('item_id, location_id, consumption_date, quantity')
+      .gte('consumption_date', since.toISOString().slice(0, 10))
+      .order('consumption_date')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (itemIds) query = query.in('item_id', itemIds);
+    if (locationIds) query = query.in('location_id', locationIds);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    rows.push(...((data || []) as ConsumptionRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export function groupByItem(rows: ConsumptionRow[]): Map<string, ConsumptionRow[]> {
+  const byItem = new Map<string, ConsumptionRow[]>();
+  for (const row of rows) {
+    const itemRows = byItem.get(row.item_id);
+    if (itemRows) {
+      itemRows.push(row);
+    } else {
+      byItem.set(row.item_id, [row]);
+    }
+  }
+  return byItem;
+}
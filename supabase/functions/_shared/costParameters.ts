@@ -0,0 +1,72 @@
+// Resolves the cost inputs for an item from the cost_parameters table: the
+// item's own row, then its item type's row, then the defaults for its
+// VED/ABC class, then the global defaults, field by field, so an override
+// only needs the values that differ.
+
+export type CostParameterScope = 'global' | 'item_type' | 'class' | 'item';
+
+export interface CostParameterRow {
+  scope: CostParameterScope;
+  item_type: string | null;
+  item_id: string | null;
+  item_class: string | null;
+  ordering_cost: number | null;
+  holding_cost_rate: number | null;
+  service_level: number | null;
+  stockout_cost: number | null;
+}
+
+const COST_FIELDS = ['ordering_cost', 'holding_cost_rate', 'service_level', 'stockout_cost'] as const;
+
+type CostField = typeof COST_FIELDS[number];
+
+export type ResolvedCostParameters = Record<CostField, number> & {
+  // Which scope each value came from
+  sources: Record<CostField, CostParameterScope>;
+};
+
+// Columns to select from cost_parameters
+export const COST_PARAMETER_COLUMNS =
+  'scope, item_type, item_id, item_class, ordering_cost, holding_cost_rate, service_level, stockout_cost';
+
+function scopeKey(row: Pick<CostParameterRow, 'scope' | 'item_type' | 'item_id' | 'item_class'>): string {
+  if (row.scope === 'item') return `item:${row.item_id}`;
+  if (row.scope === 'item_type') return `item_type:${row.item_type}`;
+  if (row.scope === 'class') return `class:${row.item_class}`;
+  return 'global';
+}
+
+/**
+ * Builds the lookup from all cost_parameters rows. `draft` stands in for the
+ * stored row at the same scope, so an edit can be previewed before it is
+ * saved.
+ */
+export function createCostParameterResolver(rows: CostParameterRow[], draft?: CostParameterRow) {
+  const byScope = new Map<string, CostParameterRow>();
+  for (const row of rows) byScope.set(scopeKey(row), row);
+  if (draft) byScope.set(scopeKey(draft), draft);
+
+  const global = byScope.get('global');
+  if (!global) {
+    throw new Error('Global cost parameters are not configured');
+  }
+
+  // itemClass is the item's class key (see itemClassKey), or null if the
+  // item has not been classified
+  return (item: { id: string; item_type: string }, itemClass: string | null = null): ResolvedCostParameters => {
+    const chain = [
+      byScope.get(`item:${item.id}`),
+      byScope.get(`item_type:${item.item_type}`),
+      itemClass ? byScope.get(`class:${itemClass}`) : undefined,
+      global,
+    ].filter((row): row is CostParameterRow => row !== undefined);
+
+    const resolved = { sources: {} } as ResolvedCostParameters;
+    for (const field of COST_FIELDS) {
+      const row = chain.find((candidate) => candidate[field] !== null) ?? global;
+      resolved[field] = Number(row[field]);
+      resolved.sources[field] = row.scope;
+    }
+    return resolved;
+  };
+}
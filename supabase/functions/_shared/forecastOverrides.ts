@@ -0,0 +1,114 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { ASSUMED_DEMAND_CV, DemandStats } from "./reorderPolicy.ts";
+
+// Manager overrides of the demand forecast. While one is in force its daily
+// quantity replaces the model's forecast on the days it covers, in stock
+// projections, stockout risk, alerts and the reorder policy. The model's own
+// forecast is still what gets stored as the forecast; the override is stored
+// beside it.
+
+export interface ForecastOverride {
+  id: string;
+  item_id: string;
+  // null for the hospital-wide forecast
+  location_id: string | null;
+  start_date: string;
+  end_date: string;
+  daily_quantity: number;
+}
+
+export const FORECAST_OVERRIDE_COLUMNS = 'id, item_id, location_id, start_date, end_date, daily_quantity';
+
+/**
+ * Overrides not revoked and not yet expired for the given items.
+ */
+export async function fetchActiveOverrides(
+  supabase: SupabaseClient,
+  itemIds: string[],
+  today: Date = new Date()
+): Promise<ForecastOverride[]> {
+  const { data, error } = await supabase
+    .from('forecast_overrides')
+    .select(FORECAST_OVERRIDE_COLUMNS)
+    .is('revoked_at', null)
+    .gte('end_date', today.toISOString().slice(0, 10))
+    .in('item_id', itemIds);
+  if (error) throw error;
+  return ((data || []) as ForecastOverride[]).map((row) => ({ ...row, daily_quantity: Number(row.daily_quantity) }));
+}
+
+/**
+ * Looks up the overrides for an item's forecast. Location must match exactly:
+ * an override for a ward does not change the hospital-wide forecast, nor the
+ * other way round.
+ */
+export function createOverrideResolver(
+  overrides: ForecastOverride[]
+): (itemId: string, locationId: string | null) => ForecastOverride[] {
+  const byScope = new Map<string, ForecastOverride[]>();
+  for (const override of overrides) {
+    const key = `${override.item_id}:${override.location_id ?? ''}`;
+    byScope.set(key, [...(byScope.get(key) ?? []), override]);
+  }
+  return (itemId, locationId) => byScope.get(`${itemId}:${locationId ?? ''}`) ?? [];
+}
+
+// The override in force on a date (YYYY-MM-DD); overlapping overrides are
+// rejected when they are created
+export function overrideOn(overrides: ForecastOverride[], date: string): ForecastOverride | undefined {
+  return overrides.find((override) => override.start_date <= date && date <= override.end_date);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateKey = (today: Date, days: number) => new Date(today.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+export interface OverriddenForecast {
+  // Daily forecast starting tomorrow, with overrides in place of the model
+  forecast: number[];
+  // The override behind each day, null where the model's forecast stands
+  override_ids: (string | null)[];
+  // The first override applied, null if none covers the horizon
+  override_id: string | null;
+}
+
+/**
+ * Replaces the days of a daily forecast (starting tomorrow) that an override
+ * covers with the override's daily quantity.
+ */
+export function applyOverrides(
+  forecast: number[],
+  overrides: ForecastOverride[],
+  today: Date = new Date()
+): OverriddenForecast {
+  const applied = forecast.map((_, day) => overrideOn(overrides, dateKey(today, day + 1)));
+  const overrideIds = applied.map((override) => override?.id ?? null);
+  return {
+    forecast: forecast.map((value, day) => applied[day]?.daily_quantity ?? value),
+    override_ids: overrideIds,
+    override_id: overrideIds.find((id) => id !== null) ?? null,
+  };
+}
+
+/**
+ * Demand for the reorder policy with overrides taken into account over the
+ * next `days` days (the lead time): the mean is the average of the override
+ * quantity on covered days and the measured mean on the rest. Variability
+ * keeps the measured coefficient of variation.
+ */
+export function overrideDemandStats(
+  demand: DemandStats,
+  overrides: ForecastOverride[],
+  days: number,
+  today: Date = new Date()
+): DemandStats {
+  const window = Math.max(1, Math.ceil(days));
+  const daily = Array.from({ length: window }, (_, day) =>
+    overrideOn(overrides, dateKey(today, day + 1))?.daily_quantity ?? null
+  );
+  if (daily.every((value) => value === null)) return demand;
+
+  const mean = daily.reduce((sum: number, value) => sum + (value ?? demand.mean), 0) / window;
+  const cv = demand.mean > 0 ? demand.std_dev / demand.mean : ASSUMED_DEMAND_CV;
+  return { ...demand, mean, std_dev: mean * cv, source: 'override' };
+}
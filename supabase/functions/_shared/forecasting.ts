@@ -0,0 +1,405 @@
+// Time-series demand forecasting over daily consumption history.
+//
+// Every method returns one-step-ahead fitted values alongside the forecast so
+// candidates can be compared on the same in-sample errors. Smoothing
+// parameters are picked by grid search on one-step squared error.
+
+export type ForecastMethod = 'ses' | 'holt' | 'holt_winters' | 'croston' | 'average_usage';
+
+// What a registered model runs: one fixed method, or per-item selection
+export type ForecastStrategy = 'auto' | 'ses' | 'holt' | 'holt_winters' | 'croston';
+
+export const FORECAST_STRATEGIES: ForecastStrategy[] = ['auto', 'ses', 'holt', 'holt_winters', 'croston'];
+
+export interface ForecastResult {
+  method: ForecastMethod;
+  // One value per day of the horizon, starting tomorrow
+  forecast: number[];
+  // One-step-ahead fitted values; NaN where the method has no estimate yet
+  fitted: number[];
+  params: Record<string, number>;
+}
+
+// Below this many days of history there is nothing to fit
+export const MIN_HISTORY_DAYS = 14;
+
+// Average inter-demand interval above which a series counts as intermittent
+// (Syntetos-Boylan classification)
+const INTERMITTENT_ADI = 1.32;
+
+const SMOOTHING_GRID = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const DAMPING_GRID = [0.8, 0.9, 0.98];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Dense daily series from sparse rows, summing rows that share a date.
+ * Starts at the first recorded date (earlier days are unknown, not zero)
+ * and runs through `end`.
+ */
+export function buildDailySeries(
+  rows: { consumption_date: string; quantity: number }[],
+  end: Date
+): number[] {
+  if (rows.length === 0) return [];
+
+  const byDate = new Map<string, number>();
+  for (const row of rows) {
+    byDate.set(row.consumption_date, (byDate.get(row.consumption_date) ?? 0) + row.quantity);
+  }
+
+  const first = [...byDate.keys()].sort()[0];
+  const series: number[] = [];
+  const endDay = end.toISOString().slice(0, 10);
+  for (let day = new Date(`${first}T00:00:00Z`); ; day = new Date(day.getTime() + DAY_MS)) {
+    const key = day.toISOString().slice(0, 10);
+    if (key > endDay) break;
+    series.push(byDate.get(key) ?? 0);
+  }
+  return series;
+}
+
+function sumSquaredErrors(series: number[], fitted: number[]): { sse: number; n: number } {
+  let sse = 0;
+  let n = 0;
+  for (let t = 0; t < series.length; t++) {
+    if (Number.isNaN(fitted[t])) continue;
+    sse += (series[t] - fitted[t]) ** 2;
+    n++;
+  }
+  return { sse, n };
+}
+
+export function simpleExponentialSmoothing(series: number[], horizon: number, alpha: number): ForecastResult {
+  const fitted = [NaN];
+  let level = series[0];
+  for (let t = 1; t < series.length; t++) {
+    fitted.push(level);
+    level = alpha * series[t] + (1 - alpha) * level;
+  }
+  return {
+    method: 'ses',
+    forecast: Array(horizon).fill(Math.max(0, level)),
+    fitted,
+    params: { alpha },
+  };
+}
+
+// Holt's linear trend with damping, so long horizons level off rather than
+// extrapolating a short-lived trend indefinitely
+export function holt(series: number[], horizon: number, alpha: number, beta: number, phi: number): ForecastResult {
+  const fitted = [NaN, NaN];
+  let level = series[1];
+  let trend = series[1] - series[0];
+  for (let t = 2; t < series.length; t++) {
+    fitted.push(level + phi * trend);
+    const previousLevel = level;
+    level = alpha * series[t] + (1 - alpha) * (level + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+  }
+
+  const forecast: number[] = [];
+  let damping = 0;
+  for (let h = 1; h <= horizon; h++) {
+    damping += phi ** h;
+    forecast.push(Math.max(0, level + damping * trend));
+  }
+  return { method: 'holt', forecast, fitted, params: { alpha, beta, phi } };
+}
+
+// Additive Holt-Winters with a weekly (or other) season
+export function holtWinters(
+  series: number[],
+  horizon: number,
+  alpha: number,
+  beta: number,
+  gamma: number,
+  period: number
+): ForecastResult {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const firstSeason = series.slice(0, period);
+  const secondSeason = series.slice(period, 2 * period);
+
+  let level = mean(firstSeason);
+  let trend = (mean(secondSeason) - level) / period;
+  const seasonal = firstSeason.map((value) => value - level);
+
+  const fitted: number[] = Array(period).fill(NaN);
+  for (let t = period; t < series.length; t++) {
+    const s = seasonal[t % period];
+    fitted.push(level + trend + s);
+    const previousLevel = level;
+    level = alpha * (series[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonal[t % period] = gamma * (series[t] - level) + (1 - gamma) * s;
+  }
+
+  const forecast: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    forecast.push(Math.max(0, level + h * trend + seasonal[(series.length + h - 1) % period]));
+  }
+  return { method: 'holt_winters', forecast, fitted, params: { alpha, beta, gamma, period } };
+}
+
+// Croston's method with the Syntetos-Boylan bias correction: smooth demand
+// size and the interval between demands separately
+export function croston(series: number[], horizon: number, alpha: number): ForecastResult {
+  const fitted: number[] = [];
+  let size = NaN;
+  let interval = NaN;
+  let sinceLast = 1;
+
+  for (let t = 0; t < series.length; t++) {
+    fitted.push(Number.isNaN(size) ? NaN : (1 - alpha / 2) * (size / interval));
+    if (series[t] > 0) {
+      if (Number.isNaN(size)) {
+        size = series[t];
+        interval = sinceLast;
+      } else {
+        size = alpha * series[t] + (1 - alpha) * size;
+        interval = alpha * sinceLast + (1 - alpha) * interval;
+      }
+      sinceLast = 1;
+    } else {
+      sinceLast++;
+    }
+  }
+
+  const rate = Number.isNaN(size) ? 0 : (1 - alpha / 2) * (size / interval);
+  return {
+    method: 'croston',
+    forecast: Array(horizon).fill(Math.max(0, rate)),
+    fitted,
+    params: { alpha },
+  };
+}
+
+// Akaike information criterion on the one-step errors; penalises the extra
+// parameters of trend and seasonal models
+export function aic(series: number[], result: ForecastResult): number {
+  const { sse, n } = sumSquaredErrors(series, result.fitted);
+  if (n === 0) return Infinity;
+  const k = Object.keys(result.params).filter((key) => key !== 'period').length;
+  return n * Math.log(Math.max(sse / n, 1e-9)) + 2 * k;
+}
+
+function bestBy(series: number[], candidates: ForecastResult[]): ForecastResult {
+  let best = candidates[0];
+  let bestScore = aic(series, best);
+  for (const candidate of candidates.slice(1)) {
+    const score = aic(series, candidate);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function sesCandidates(series: number[], horizon: number): ForecastResult[] {
+  return SMOOTHING_GRID.map((alpha) => simpleExponentialSmoothing(series, horizon, alpha));
+}
+
+function holtCandidates(series: number[], horizon: number): ForecastResult[] {
+  return SMOOTHING_GRID.flatMap((alpha) =>
+    SMOOTHING_GRID.filter((beta) => beta <= alpha).flatMap((beta) =>
+      DAMPING_GRID.map((phi) => holt(series, horizon, alpha, beta, phi))
+    )
+  );
+}
+
+function holtWintersCandidates(series: number[], horizon: number, period: number): ForecastResult[] {
+  return SMOOTHING_GRID.flatMap((alpha) =>
+    SMOOTHING_GRID.filter((beta) => beta <= alpha).flatMap((beta) =>
+      SMOOTHING_GRID.filter((gamma) => gamma <= 1 - alpha).map((gamma) =>
+        holtWinters(series, horizon, alpha, beta, gamma, period)
+      )
+    )
+  );
+}
+
+/**
+ * Forecasts the next `horizon` days. With the `auto` strategy intermittent
+ * series go to Croston; otherwise SES, damped Holt and (with at least two
+ * full seasons) Holt-Winters compete on AIC. A fixed strategy fits only that
+ * method, except that Holt-Winters falls back to Holt without two seasons.
+ * Returns null when history is too short.
+ */
+export function forecastDemand(
+  series: number[],
+  horizon: number,
+  strategy: ForecastStrategy = 'auto',
+  period = 7
+): ForecastResult | null {
+  if (series.length < MIN_HISTORY_DAYS) return null;
+
+  const demandDays = series.filter((value) => value > 0).length;
+  if (demandDays === 0) {
+    return { method: 'ses', forecast: Array(horizon).fill(0), fitted: series.map(() => 0), params: { alpha: 0 } };
+  }
+
+  const seasonal = series.length >= 2 * period;
+  switch (strategy) {
+    case 'ses':
+      return bestBy(series, sesCandidates(series, horizon));
+    case 'holt':
+      return bestBy(series, holtCandidates(series, horizon));
+    case 'holt_winters':
+      return bestBy(series, seasonal ? holtWintersCandidates(series, horizon, period) : holtCandidates(series, horizon));
+    case 'croston':
+      return bestBy(series, SMOOTHING_GRID.map((alpha) => croston(series, horizon, alpha)));
+  }
+
+  if (series.length / demandDays >= INTERMITTENT_ADI) {
+    return bestBy(series, SMOOTHING_GRID.map((alpha) => croston(series, horizon, alpha)));
+  }
+
+  return bestBy(series, [
+    ...sesCandidates(series, horizon),
+    ...holtCandidates(series, horizon),
+    ...(seasonal ? holtWintersCandidates(series, horizon, period) : []),
+  ]);
+}
+
+/**
+ * Flat forecast from the item's recorded average usage, for items with too
+ * little history to fit anything.
+ */
+export function averageUsageForecast(avgUsagePerDay: number, horizon: number): ForecastResult {
+  return {
+    method: 'average_usage',
+    forecast: Array(horizon).fill(Math.max(0, avgUsagePerDay)),
+    fitted: [],
+    params: { avg_usage_per_day: avgUsagePerDay },
+  };
+}
+
+export interface IntervalBounds {
+  lower_80: number;
+  upper_80: number;
+  lower_95: number;
+  upper_95: number;
+}
+
+export interface PredictionIntervals {
+  daily: IntervalBounds[];
+  // Bounds on total demand over the whole horizon
+  total: IntervalBounds;
+  // How many errors the total's bounds were taken from
+  residual_count: number;
+}
+
+// Fewer errors than this cannot support a 95% quantile
+const MIN_ERRORS = 20;
+const BOOTSTRAP_DRAWS = 2000;
+
+// Deterministic generator so repeated runs over the same history agree
+export function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+// Bounds for `value` plus an error drawn from `errors`, floored at zero
+function boundsAround(value: number, errors: number[]): IntervalBounds {
+  const sorted = [...errors].sort((a, b) => a - b);
+  return {
+    lower_80: Math.max(0, value + quantile(sorted, 0.1)),
+    upper_80: Math.max(0, value + quantile(sorted, 0.9)),
+    lower_95: Math.max(0, value + quantile(sorted, 0.025)),
+    upper_95: Math.max(0, value + quantile(sorted, 0.975)),
+  };
+}
+
+// Re-runs a fitted model on a prefix of its series with the same parameters
+function refit(series: number[], horizon: number, result: ForecastResult): ForecastResult | null {
+  const { params } = result;
+  switch (result.method) {
+    case 'ses':
+      return simpleExponentialSmoothing(series, horizon, params.alpha);
+    case 'holt':
+      return series.length >= 2 ? holt(series, horizon, params.alpha, params.beta, params.phi) : null;
+    case 'holt_winters':
+      return series.length >= 2 * params.period
+        ? holtWinters(series, horizon, params.alpha, params.beta, params.gamma, params.period)
+        : null;
+    case 'croston':
+      return croston(series, horizon, params.alpha);
+    default:
+      return null;
+  }
+}
+
+/**
+ * 80% and 95% intervals from the model's empirical forecast errors. The
+ * fitted model is re-run from every earlier origin in the history, and the
+ * h-days-ahead errors (and errors on the horizon total) observed there give
+ * the quantiles, so bands widen with the horizon and carry skewed or
+ * zero-heavy error shapes instead of assuming normality. Where the history
+ * is too short for enough h-step errors, one-step residuals stand in, with
+ * the total bootstrapped from them. Returns null when there are too few
+ * errors of any kind, e.g. for the average-usage fallback.
+ *
+ * `effects` are calendar effects added to each forecast day on top of
+ * `result`, which was then fitted to the series with those effects removed
+ * (see calendarEffects.ts); the bands are centred on the combined forecast.
+ */
+export function predictionIntervals(
+  series: number[],
+  result: ForecastResult,
+  effects: number[] = []
+): PredictionIntervals | null {
+  const residuals: number[] = [];
+  result.fitted.forEach((fitted, t) => {
+    if (!Number.isNaN(fitted)) residuals.push(series[t] - fitted);
+  });
+  if (residuals.length < MIN_ERRORS) return null;
+
+  const horizon = result.forecast.length;
+  const stepErrors: number[][] = result.forecast.map(() => []);
+  const totalErrors: number[] = [];
+  for (let origin = MIN_HISTORY_DAYS; origin < series.length; origin++) {
+    const past = refit(series.slice(0, origin), horizon, result);
+    if (!past) continue;
+
+    const actual = series.slice(origin, origin + horizon);
+    actual.forEach((value, day) => stepErrors[day].push(value - past.forecast[day]));
+    if (actual.length === horizon) {
+      totalErrors.push(
+        actual.reduce((sum, value) => sum + value, 0) - past.forecast.reduce((sum, value) => sum + value, 0)
+      );
+    }
+  }
+
+  const forecast = result.forecast.map((value, day) => value + (effects[day] ?? 0));
+  const daily = forecast.map((value, day) =>
+    boundsAround(value, stepErrors[day].length >= MIN_ERRORS ? stepErrors[day] : residuals)
+  );
+
+  const forecastTotal = forecast.reduce((sum, value) => sum + value, 0);
+  if (totalErrors.length >= MIN_ERRORS) {
+    return { daily, total: boundsAround(forecastTotal, totalErrors), residual_count: totalErrors.length };
+  }
+
+  const random = seededRandom(series.length * 7919 + residuals.length);
+  const bootstrapErrors: number[] = [];
+  for (let draw = 0; draw < BOOTSTRAP_DRAWS; draw++) {
+    let total = 0;
+    for (const value of forecast) {
+      total += Math.max(0, value + residuals[Math.floor(random() * residuals.length)]);
+    }
+    bootstrapErrors.push(total - forecastTotal);
+  }
+  return { daily, total: boundsAround(forecastTotal, bootstrapErrors), residual_count: residuals.length };
+}
@@ -0,0 +1,80 @@
+// Resolves the lead time used for an item from measured order-to-receipt
+// durations (the lead_time_stats view), falling back to the manually entered
+// restock_lead_time when there is not enough history.
+
+export interface LeadTimeStatsRow {
+  item_id: string | null;
+  vendor_id: string | null;
+  sample_count: number | null;
+  mean_days: number | null;
+  variance_days: number | null;
+  recent_sample_count: number | null;
+  recent_mean_days: number | null;
+  trend_days_per_30d: number | null;
+}
+
+export interface ResolvedLeadTime {
+  days: number;
+  // Variance in days²; 0 when only the manual value is known
+  variance: number;
+  source: 'vendor_history' | 'item_history' | 'manual';
+  sample_count: number;
+  trend_days_per_30d: number | null;
+}
+
+// Columns to select from lead_time_stats
+export const LEAD_TIME_STATS_COLUMNS =
+  'item_id, vendor_id, sample_count, mean_days, variance_days, recent_sample_count, recent_mean_days, trend_days_per_30d';
+
+// Fewer deliveries than this and a recent average is noise
+const MIN_RECENT_SAMPLES = 2;
+
+function fromStats(row: LeadTimeStatsRow, source: ResolvedLeadTime['source']): ResolvedLeadTime {
+  // Prefer the last 90 days when there is enough of it, so a vendor that has
+  // been getting slower (or faster) is reflected straight away
+  const recent = (row.recent_sample_count ?? 0) >= MIN_RECENT_SAMPLES && row.recent_mean_days !== null;
+  return {
+    days: recent ? row.recent_mean_days! : row.mean_days ?? 0,
+    variance: row.variance_days ?? 0,
+    source,
+    sample_count: row.sample_count ?? 0,
+    trend_days_per_30d: row.trend_days_per_30d,
+  };
+}
+
+/**
+ * Builds a lookup that picks, in order: the item's history with its preferred
+ * vendor, its history across all vendors, then the manual value.
+ */
+export function createLeadTimeResolver(
+  stats: LeadTimeStatsRow[],
+  preferredVendorByItem: Map<string, string>
+) {
+  const byItemVendor = new Map<string, LeadTimeStatsRow>();
+  const byItem = new Map<string, LeadTimeStatsRow>();
+  for (const row of stats) {
+    if (!row.item_id || !row.sample_count || row.mean_days === null) continue;
+    if (row.vendor_id) {
+      byItemVendor.set(`${row.item_id}:${row.vendor_id}`, row);
+    } else {
+      byItem.set(row.item_id, row);
+    }
+  }
+
+  return (item: { id: string; restock_lead_time: number }): ResolvedLeadTime => {
+    const vendorId = preferredVendorByItem.get(item.id);
+    const vendorRow = vendorId ? byItemVendor.get(`${item.id}:${vendorId}`) : undefined;
+    if (vendorRow) return fromStats(vendorRow, 'vendor_history');
+
+    const itemRow = byItem.get(item.id);
+    if (itemRow) return fromStats(itemRow, 'item_history');
+
+    return {
+      days: item.restock_lead_time,
+      variance: 0,
+      source: 'manual',
+      sample_count: 0,
+      trend_days_per_30d: null,
+    };
+  };
+}
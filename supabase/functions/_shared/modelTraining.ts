@@ -0,0 +1,104 @@
+// Rolling-origin cross-validation of forecasting strategies.
+//
+// Each fold trains on everything before an origin and scores the forecast for
+// the `horizon` days after it; origins step back from the end of the series
+// one horizon at a time, so no fold ever sees its own future. With calendar
+// inputs each fold forecasts the way run-predictions does, with weekday,
+// time-of-year, event and regressor effects.
+
+import { CalendarInputs, forecastWithCalendar } from './calendarEffects.ts';
+import { forecastDemand, ForecastMethod, ForecastStrategy, MIN_HISTORY_DAYS } from './forecasting.ts';
+
+export interface CrossValidationOptions {
+  horizon: number;
+  folds: number;
+  // Events and regressor to forecast with, and the date the series ends on
+  calendar?: { inputs: CalendarInputs; end: Date };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CrossValidationMetrics {
+  strategy: ForecastStrategy;
+  mae: number;
+  rmse: number;
+  // 1 - SSE / SST over all held-out days
+  r2: number;
+  // Weighted absolute percentage error: total absolute error / total demand
+  wape: number;
+  // Mean signed error; positive means the strategy over-forecasts
+  bias: number;
+  items_evaluated: number;
+  folds_evaluated: number;
+  observations: number;
+  // How often each concrete method ended up fitted, per fold
+  methods_used: Partial<Record<ForecastMethod, number>>;
+}
+
+// The series length a fold needs: enough training history plus its test window
+export function minimumSeriesLength(horizon: number): number {
+  return MIN_HISTORY_DAYS + horizon;
+}
+
+export function crossValidate(
+  seriesByItem: Map<string, number[]>,
+  strategy: ForecastStrategy,
+  options: CrossValidationOptions
+): CrossValidationMetrics {
+  const { horizon, folds, calendar } = options;
+  const errors: number[] = [];
+  const actuals: number[] = [];
+  const methodsUsed: Partial<Record<ForecastMethod, number>> = {};
+  let itemsEvaluated = 0;
+  let foldsEvaluated = 0;
+
+  for (const series of seriesByItem.values()) {
+    let evaluated = false;
+    for (let fold = folds; fold >= 1; fold--) {
+      const origin = series.length - fold * horizon;
+      if (origin < MIN_HISTORY_DAYS) continue;
+
+      const training = series.slice(0, origin);
+      const result = calendar
+        ? forecastWithCalendar(
+          training,
+          new Date(calendar.end.getTime() - (series.length - origin) * DAY_MS),
+          horizon,
+          strategy,
+          calendar.inputs
+        )?.result
+        : forecastDemand(training, horizon, strategy);
+      if (!result) continue;
+
+      const test = series.slice(origin, origin + horizon);
+      test.forEach((actual, day) => {
+        errors.push(result.forecast[day] - actual);
+        actuals.push(actual);
+      });
+      methodsUsed[result.method] = (methodsUsed[result.method] ?? 0) + 1;
+      foldsEvaluated++;
+      evaluated = true;
+    }
+    if (evaluated) itemsEvaluated++;
+  }
+
+  const n = errors.length;
+  const absoluteError = errors.reduce((sum, e) => sum + Math.abs(e), 0);
+  const squaredError = errors.reduce((sum, e) => sum + e * e, 0);
+  const totalDemand = actuals.reduce((sum, a) => sum + a, 0);
+  const meanActual = n > 0 ? totalDemand / n : 0;
+  const totalVariance = actuals.reduce((sum, a) => sum + (a - meanActual) ** 2, 0);
+
+  return {
+    strategy,
+    mae: n > 0 ? absoluteError / n : NaN,
+    rmse: n > 0 ? Math.sqrt(squaredError / n) : NaN,
+    r2: totalVariance > 0 ? 1 - squaredError / totalVariance : NaN,
+    wape: totalDemand > 0 ? absoluteError / totalDemand : NaN,
+    bias: n > 0 ? errors.reduce((sum, e) => sum + e, 0) / n : NaN,
+    items_evaluated: itemsEvaluated,
+    folds_evaluated: foldsEvaluated,
+    observations: n,
+    methods_used: methodsUsed,
+  };
+}
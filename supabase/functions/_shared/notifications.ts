@@ -0,0 +1,423 @@
+// Notification dispatch. Open alerts are fanned out into notification
+// deliveries, one per channel and recipient: users holding the alert's
+// recipient roles for the in-app inbox and email, and the enabled webhooks
+// for webhook delivery. Due deliveries are then sent, each attempt recorded,
+// with failures retried on a backoff until max_attempts.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export type NotificationChannel = 'in_app' | 'email' | 'webhook';
+
+const USER_CHANNELS: NotificationChannel[] = ['in_app', 'email'];
+
+// Deliveries sent per dispatch; the rest wait for the next one
+const BATCH_SIZE = 100;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// PostgREST caps a response at 1000 rows
+const PAGE_SIZE = 1000;
+
+export interface QuietHours {
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+interface Preferences extends QuietHours {
+  user_id: string;
+  channels: string[];
+  critical_overrides_quiet_hours: boolean;
+}
+
+interface DispatchAlert {
+  id: string;
+  alert_type: string;
+  severity: string;
+  title: string;
+  message: string;
+  item_id: string | null;
+  status: string;
+  reopened_count: number;
+  escalation_level: number;
+  recipient_roles: string[];
+  metadata: Record<string, unknown> | null;
+  opened_at: string;
+}
+
+const ALERT_COLUMNS =
+  'id, alert_type, severity, title, message, item_id, status, reopened_count, escalation_level, recipient_roles, metadata, opened_at';
+
+export interface DispatchSummary {
+  queued: number;
+  sent: number;
+  deferred: number;
+  retrying: number;
+  failed: number;
+  cancelled: number;
+}
+
+/**
+ * Minutes to wait before retrying after the given (1-based) failed attempt:
+ * 1, 2, 4, 8... capped at an hour.
+ */
+export function retryDelayMinutes(attempt: number): number {
+  return Math.min(2 ** (attempt - 1), 60);
+}
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * When the quiet hours that `now` falls in end, or null outside quiet hours.
+ * Quiet hours are wall-clock times in the user's time zone and may wrap
+ * past midnight, e.g. 22:00-07:00.
+ */
+export function quietHoursEnd(prefs: QuietHours, now: Date): Date | null {
+  if (!prefs.quiet_hours_start || !prefs.quiet_hours_end) return null;
+  const start = minutesOfDay(prefs.quiet_hours_start);
+  const end = minutesOfDay(prefs.quiet_hours_end);
+  if (start === end) return null;
+
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: prefs.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const current = part('hour') * 60 + part('minute');
+
+  const quiet = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!quiet) return null;
+
+  const untilEnd = (end - current + 24 * 60) % (24 * 60);
+  const endsAt = new Date(now.getTime() + untilEnd * 60000);
+  endsAt.setSeconds(0, 0);
+  return endsAt;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}` as hex, sent in the
+ * X-Medstock-Signature header as "sha256=<hex>". Receivers recompute it
+ * with the webhook secret and should reject stale timestamps.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return toHex(signature);
+}
+
+/**
+ * Queues deliveries for every open alert, then sends the deliveries that
+ * are due. Safe to run repeatedly: a delivery is only ever queued once per
+ * alert episode, escalation level, channel and recipient.
+ */
+export async function dispatchNotifications(supabase: SupabaseClient): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { queued: 0, sent: 0, deferred: 0, retrying: 0, failed: 0, cancelled: 0 };
+  summary.queued = await queueDeliveries(supabase);
+
+  const now = new Date();
+  const { data: due, error: dueError } = await supabase
+    .from('notification_deliveries')
+    .select('*')
+    .in('status', ['pending', 'deferred'])
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at')
+    .limit(BATCH_SIZE);
+  if (dueError) throw dueError;
+  if (!due || due.length === 0) return summary;
+
+  const [{ data: alerts }, { data: preferences }, { data: webhooks }] = await Promise.all([
+    supabase.from('alerts_history').select(ALERT_COLUMNS).in('id', [...new Set(due.map((d) => d.alert_id))]),
+    supabase.from('notification_preferences').select('*'),
+    supabase.from('notification_webhooks').select('id, url, secret, is_enabled'),
+  ]);
+  const alertById = new Map((alerts as DispatchAlert[] | null ?? []).map((alert) => [alert.id, alert]));
+  const prefsByUser = new Map((preferences as Preferences[] | null ?? []).map((prefs) => [prefs.user_id, prefs]));
+  const webhookById = new Map((webhooks ?? []).map((webhook) => [webhook.id, webhook]));
+
+  const mailer = createMailer();
+  try {
+    for (const delivery of due) {
+      const alert = alertById.get(delivery.alert_id);
+
+      // Acknowledged, snoozed and resolved alerts need no more notifying
+      if (!alert || alert.status !== 'open') {
+        await supabase
+          .from('notification_deliveries')
+          .update({ status: 'cancelled', last_error: 'Alert is no longer open' })
+          .eq('id', delivery.id);
+        summary.cancelled++;
+        continue;
+      }
+
+      if (delivery.channel === 'email') {
+        const prefs = prefsByUser.get(delivery.user_id);
+        const resumeAt = prefs ? quietHoursEnd(prefs, now) : null;
+        if (resumeAt && !(alert.severity === 'critical' && prefs?.critical_overrides_quiet_hours)) {
+          await supabase
+            .from('notification_deliveries')
+            .update({ status: 'deferred', next_attempt_at: resumeAt.toISOString() })
+            .eq('id', delivery.id);
+          summary.deferred++;
+          continue;
+        }
+      }
+
+      const attemptNumber = delivery.attempt_count + 1;
+      const started = Date.now();
+      let responseStatus: number | null = null;
+      let failure: string | null = null;
+      try {
+        if (delivery.channel === 'in_app') {
+          const { error } = await supabase.from('notifications').upsert(
+            {
+              user_id: delivery.user_id,
+              alert_id: alert.id,
+              delivery_id: delivery.id,
+              title: alert.title,
+              message: alert.message,
+              severity: alert.severity,
+            },
+            { onConflict: 'delivery_id', ignoreDuplicates: true }
+          );
+          if (error) throw new Error(error.message);
+        } else if (delivery.channel === 'email') {
+          if (!delivery.destination) throw new Error('User has no email address');
+          await mailer.send(delivery.destination, alert);
+        } else {
+          const webhook = webhookById.get(delivery.webhook_id);
+          if (!webhook || !webhook.is_enabled) throw new Error('Webhook is disabled or removed');
+          responseStatus = await postWebhook(webhook, delivery.id, alert);
+          if (responseStatus < 200 || responseStatus >= 300) {
+            throw new Error(`Webhook responded ${responseStatus}`);
+          }
+        }
+      } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+      }
+
+      await supabase.from('notification_attempts').insert({
+        delivery_id: delivery.id,
+        attempt_number: attemptNumber,
+        status: failure ? 'failed' : 'sent',
+        error: failure,
+        response_status: responseStatus,
+        duration_ms: Date.now() - started,
+      });
+
+      if (!failure) {
+        await supabase
+          .from('notification_deliveries')
+          .update({ status: 'sent', attempt_count: attemptNumber, sent_at: new Date().toISOString(), last_error: null })
+          .eq('id', delivery.id);
+        summary.sent++;
+      } else if (attemptNumber >= delivery.max_attempts) {
+        await supabase
+          .from('notification_deliveries')
+          .update({ status: 'failed', attempt_count: attemptNumber, last_error: failure })
+          .eq('id', delivery.id);
+        summary.failed++;
+      } else {
+        const retryAt = new Date(Date.now() + retryDelayMinutes(attemptNumber) * 60000);
+        await supabase
+          .from('notification_deliveries')
+          .update({
+            status: 'pending',
+            attempt_count: attemptNumber,
+            last_error: failure,
+            next_attempt_at: retryAt.toISOString(),
+          })
+          .eq('id', delivery.id);
+        summary.retrying++;
+      }
+    }
+  } finally {
+    await mailer.close();
+  }
+
+  return summary;
+}
+
+/**
+ * Creates the deliveries each open alert still needs and returns how many
+ * were new. The alert's rule picks the channels (in-app when it names none);
+ * a user's preferences can switch off in-app or email for them.
+ */
+async function queueDeliveries(supabase: SupabaseClient): Promise<number> {
+  const alerts = await selectAll<DispatchAlert>((from, to) =>
+    supabase.from('alerts_history').select(ALERT_COLUMNS).eq('status', 'open').order('id').range(from, to)
+  );
+  if (alerts.length === 0) return 0;
+
+  const roles = [...new Set(alerts.flatMap((alert) => alert.recipient_roles))];
+  const [userRoles, profiles, preferences, { data: webhooks, error: webhooksError }] = await Promise.all([
+    selectAll<{ user_id: string; role: string }>((from, to) =>
+      supabase.from('user_roles').select('user_id, role').in('role', roles).order('id').range(from, to)
+    ),
+    selectAll<{ id: string; email: string | null }>((from, to) =>
+      supabase.from('profiles').select('id, email').order('id').range(from, to)
+    ),
+    selectAll<{ user_id: string; channels: string[] }>((from, to) =>
+      supabase.from('notification_preferences').select('user_id, channels').order('user_id').range(from, to)
+    ),
+    supabase.from('notification_webhooks').select('id, url, alert_types').eq('is_enabled', true),
+  ]);
+  if (webhooksError) throw webhooksError;
+  const emailByUser = new Map(profiles.map((profile) => [profile.id, profile.email]));
+  const channelsByUser = new Map(preferences.map((prefs) => [prefs.user_id, prefs.channels]));
+
+  const rows = [];
+  for (const alert of alerts) {
+    const channels = (alert.metadata?.notification_channels as string[] | undefined) ?? ['in_app'];
+    const key = { alert_id: alert.id, episode: alert.reopened_count, escalation_level: alert.escalation_level };
+
+    const userIds = new Set(
+      userRoles.filter((row) => alert.recipient_roles.includes(row.role)).map((row) => row.user_id)
+    );
+    for (const userId of userIds) {
+      const wanted = channelsByUser.get(userId) ?? USER_CHANNELS;
+      for (const channel of USER_CHANNELS) {
+        if (!channels.includes(channel) || !wanted.includes(channel)) continue;
+        rows.push({
+          ...key,
+          channel,
+          user_id: userId,
+          destination: channel === 'email' ? emailByUser.get(userId) ?? null : null,
+        });
+      }
+    }
+
+    if (channels.includes('webhook')) {
+      for (const webhook of webhooks ?? []) {
+        if (webhook.alert_types && !webhook.alert_types.includes(alert.alert_type)) continue;
+        rows.push({ ...key, channel: 'webhook', webhook_id: webhook.id, destination: webhook.url });
+      }
+    }
+  }
+  if (rows.length === 0) return 0;
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('notification_deliveries')
+    .upsert(rows, {
+      onConflict: 'alert_id,episode,escalation_level,channel,target_id',
+      ignoreDuplicates: true,
+    })
+    .select('id');
+  if (insertError) throw insertError;
+  return inserted?.length ?? 0;
+}
+
+/**
+ * Every row of a query, read a page at a time. `page` runs the query for
+ * the given inclusive row range; it must have a stable order.
+ */
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await page(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function postWebhook(
+  webhook: { url: string; secret: string },
+  deliveryId: string,
+  alert: DispatchAlert
+): Promise<number> {
+  const body = JSON.stringify({
+    event: 'alert.notification',
+    delivery_id: deliveryId,
+    alert: {
+      id: alert.id,
+      alert_type: alert.alert_type,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      item_id: alert.item_id,
+      escalation_level: alert.escalation_level,
+      opened_at: alert.opened_at,
+    },
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signWebhookPayload(webhook.secret, timestamp, body);
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Medstock-Timestamp': String(timestamp),
+        'X-Medstock-Signature': `sha256=${signature}`,
+      },
+      body,
+      signal: controller.signal,
+    });
+    return response.status;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * SMTP sender configured from SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS,
+ * SMTP_FROM and SMTP_TLS. Locally, point it at the inbucket server from
+ * supabase/config.toml (see supabase/functions/.env.example). The connection
+ * is opened on first use and shared by the whole dispatch.
+ */
+function createMailer() {
+  let client: SMTPClient | null = null;
+
+  const connect = () => {
+    const hostname = Deno.env.get('SMTP_HOST');
+    if (!hostname) throw new Error('SMTP is not configured (SMTP_HOST is not set)');
+    const tls = Deno.env.get('SMTP_TLS') === 'true';
+    const username = Deno.env.get('SMTP_USER');
+    return new SMTPClient({
+      connection: {
+        hostname,
+        port: Number(Deno.env.get('SMTP_PORT') ?? (tls ? 465 : 587)),
+        tls,
+        auth: username ? { username, password: Deno.env.get('SMTP_PASS') ?? '' } : undefined,
+      },
+      // Local test servers such as inbucket speak plain SMTP only
+      debug: { allowUnsecure: !tls, noStartTLS: Deno.env.get('SMTP_STARTTLS') === 'false' },
+    });
+  };
+
+  return {
+    async send(to: string, alert: DispatchAlert) {
+      client ??= connect();
+      await client.send({
+        from: Deno.env.get('SMTP_FROM') ?? 'alerts@medstock.local',
+        to,
+        subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+        content: `${alert.message}\n\nOpened ${new Date(alert.opened_at).toUTCString()}.`,
+      });
+    },
+    async close() {
+      if (client) await client.close();
+    },
+  };
+}
@@ -0,0 +1,254 @@
+// Order quantities under vendor quantity discounts and shared storage or
+// budget limits.
+//
+// Each item's annual cost for an order quantity Q is
+//   purchase  D * C(Q) / Q
+//   ordering  D / Q * cost_per_order
+//   holding   h * C(Q) / 2
+// where C(Q) is what one order of Q units costs under the price schedule.
+// Shared limits are handled by Lagrangian relaxation: each limit gets a
+// price per unit of resource, every item minimises its own cost plus that
+// charge, and the prices are raised by bisection until the limits hold.
+
+export type DiscountType = 'all_units' | 'incremental';
+
+export interface PriceBreak {
+  min_quantity: number;
+  unit_price: number;
+}
+
+export interface OrderQuantityItem {
+  item_id: string;
+  annual_demand: number;
+  // Cost incurred with every order: ordering cost plus expected shortage cost
+  cost_per_order: number;
+  holding_cost_rate: number;
+  // Ascending by min_quantity, the first starting at 1
+  price_breaks: PriceBreak[];
+  discount_type: DiscountType;
+  unit_volume: number;
+  max_quantity: number;
+}
+
+export interface OrderCost {
+  quantity: number;
+  // Average price per unit across the order
+  unit_price: number;
+  order_value: number;
+  annual_purchase_cost: number;
+  annual_ordering_cost: number;
+  annual_holding_cost: number;
+  total: number;
+}
+
+export interface OrderConstraints {
+  // Litres available for cycle stock across all items
+  storage_volume?: number | null;
+  // Spend allowed on one round of orders across all items
+  budget?: number | null;
+}
+
+export interface ConstraintUsage {
+  limit: number;
+  used: number;
+  // What one more litre or dollar of limit would save per year
+  shadow_price: number;
+  binding: boolean;
+}
+
+export interface ConstrainedOrderQuantities {
+  quantities: Map<string, number>;
+  storage: ConstraintUsage | null;
+  budget: ConstraintUsage | null;
+  feasible: boolean;
+}
+
+const BISECTION_STEPS = 60;
+const MAX_ROUNDS = 30;
+const MAX_MULTIPLIER = 1e9;
+
+/**
+ * Builds a price schedule from the base price and any price breaks,
+ * dropping breaks at or below quantity 1.
+ */
+export function priceSchedule(basePrice: number, breaks: PriceBreak[]): PriceBreak[] {
+  return [
+    { min_quantity: 1, unit_price: basePrice },
+    ...breaks
+      .filter((tier) => tier.min_quantity > 1)
+      .sort((a, b) => a.min_quantity - b.min_quantity),
+  ];
+}
+
+type PricedItem = Pick<OrderQuantityItem, 'price_breaks' | 'discount_type'>;
+
+function tierIndex(item: PricedItem, quantity: number): number {
+  let index = 0;
+  for (let k = 1; k < item.price_breaks.length; k++) {
+    if (item.price_breaks[k].min_quantity <= quantity) index = k;
+  }
+  return index;
+}
+
+/**
+ * What one order of `quantity` units costs under the item's schedule.
+ */
+export function orderValue(item: PricedItem, quantity: number): number {
+  const tiers = item.price_breaks;
+  if (item.discount_type === 'all_units') {
+    return quantity * tiers[tierIndex(item, quantity)].unit_price;
+  }
+
+  let value = 0;
+  for (let k = 0; k < tiers.length && tiers[k].min_quantity <= quantity; k++) {
+    const bandEnd = k + 1 < tiers.length ? Math.min(quantity, tiers[k + 1].min_quantity - 1) : quantity;
+    value += (bandEnd - tiers[k].min_quantity + 1) * tiers[k].unit_price;
+  }
+  return value;
+}
+
+export function annualCost(item: OrderQuantityItem, quantity: number): OrderCost {
+  const value = orderValue(item, quantity);
+  const annualPurchase = item.annual_demand * value / quantity;
+  const annualOrdering = item.annual_demand / quantity * item.cost_per_order;
+  const annualHolding = item.holding_cost_rate * value / 2;
+  return {
+    quantity,
+    unit_price: value / quantity,
+    order_value: value,
+    annual_purchase_cost: annualPurchase,
+    annual_ordering_cost: annualOrdering,
+    annual_holding_cost: annualHolding,
+    total: annualPurchase + annualOrdering + annualHolding,
+  };
+}
+
+/**
+ * The classic EOQ at the base price, capped at max_quantity, ignoring price
+ * breaks and shared limits.
+ */
+export function plainEOQ(item: OrderQuantityItem): number {
+  const holdingPerUnit = item.holding_cost_rate * item.price_breaks[0].unit_price;
+  const eoq = holdingPerUnit > 0 && item.annual_demand > 0
+    ? Math.sqrt((2 * item.annual_demand * item.cost_per_order) / holdingPerUnit)
+    : 1;
+  return Math.max(1, Math.min(Math.ceil(eoq), item.max_quantity));
+}
+
+/**
+ * Cost-minimising quantity for one item, with volume and spend charged at the
+ * given prices. Within a price tier the cost is convex, so each tier's
+ * stationary point clamped to the tier's range is that tier's best; the
+ * cheapest tier wins.
+ */
+export function bestQuantity(item: OrderQuantityItem, volumePrice = 0, budgetPrice = 0): number {
+  const tiers = item.price_breaks;
+  const penalised = (quantity: number) =>
+    annualCost(item, quantity).total +
+    volumePrice * item.unit_volume * quantity +
+    budgetPrice * orderValue(item, quantity);
+
+  let best = 1;
+  let bestCost = penalised(1);
+  for (let k = 0; k < tiers.length; k++) {
+    const low = tiers[k].min_quantity;
+    const high = Math.min(k + 1 < tiers.length ? tiers[k + 1].min_quantity - 1 : Infinity, item.max_quantity);
+    if (low > high) continue;
+
+    // Order value within the tier is fixed + price * Q; the fixed part is
+    // zero for all-units and the cost of the cheaper bands for incremental
+    const price = tiers[k].unit_price;
+    const fixed = item.discount_type === 'incremental' ? orderValue(item, low) - price * low : 0;
+    const denominator = item.holding_cost_rate * price + 2 * volumePrice * item.unit_volume + 2 * budgetPrice * price;
+    const stationary = denominator > 0
+      ? Math.sqrt((2 * item.annual_demand * (item.cost_per_order + fixed)) / denominator)
+      : high;
+
+    const clamped = Math.min(Math.max(stationary, low), high);
+    for (const candidate of new Set([Math.floor(clamped), Math.ceil(clamped)])) {
+      if (candidate < low || candidate > high || !Number.isFinite(candidate)) continue;
+      const cost = penalised(candidate);
+      if (cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Smallest price on a resource that brings usage within the limit.
+ */
+function findMultiplier(usage: (multiplier: number) => number, limit: number): number {
+  if (usage(0) <= limit) return 0;
+
+  let low = 0;
+  let high = 1;
+  while (usage(high) > limit && high < MAX_MULTIPLIER) high *= 2;
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const mid = (low + high) / 2;
+    if (usage(mid) <= limit) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+/**
+ * Jointly chooses order quantities so that all items' orders together fit in
+ * the storage volume and the budget. Volume counts full order quantities,
+ * as if every delivery arrived at once; budget counts one round of orders.
+ */
+export function optimizeOrderQuantities(
+  items: OrderQuantityItem[],
+  constraints: OrderConstraints
+): ConstrainedOrderQuantities {
+  const solve = (volumePrice: number, budgetPrice: number) =>
+    items.map((item) => bestQuantity(item, volumePrice, budgetPrice));
+  const volumeUsed = (quantities: number[]) =>
+    quantities.reduce((sum, quantity, i) => sum + quantity * items[i].unit_volume, 0);
+  const spend = (quantities: number[]) =>
+    quantities.reduce((sum, quantity, i) => sum + orderValue(items[i], quantity), 0);
+
+  const storageLimit = constraints.storage_volume ?? null;
+  const budgetLimit = constraints.budget ?? null;
+
+  // With both limits, alternate between them until the prices settle
+  let volumePrice = 0;
+  let budgetPrice = 0;
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const previous = [volumePrice, budgetPrice];
+    if (storageLimit !== null) {
+      volumePrice = findMultiplier((price) => volumeUsed(solve(price, budgetPrice)), storageLimit);
+    }
+    if (budgetLimit !== null) {
+      budgetPrice = findMultiplier((price) => spend(solve(volumePrice, price)), budgetLimit);
+    }
+    if (
+      storageLimit === null || budgetLimit === null ||
+      (Math.abs(volumePrice - previous[0]) <= 1e-9 * (1 + volumePrice) &&
+        Math.abs(budgetPrice - previous[1]) <= 1e-9 * (1 + budgetPrice))
+    ) break;
+  }
+
+  const quantities = solve(volumePrice, budgetPrice);
+  const storage = storageLimit === null ? null : {
+    limit: storageLimit,
+    used: volumeUsed(quantities),
+    shadow_price: volumePrice,
+    binding: volumePrice > 0,
+  };
+  const budget = budgetLimit === null ? null : {
+    limit: budgetLimit,
+    used: spend(quantities),
+    shadow_price: budgetPrice,
+    binding: budgetPrice > 0,
+  };
+
+  return {
+    quantities: new Map(items.map((item, i) => [item.item_id, quantities[i]])),
+    storage,
+    budget,
+    feasible: (!storage || storage.used <= storage.limit + 1e-6) && (!budget || budget.used <= budget.limit + 1e-6),
+  };
+}
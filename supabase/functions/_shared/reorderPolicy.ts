@@ -0,0 +1,279 @@
+import { ResolvedLeadTime } from "./leadTime.ts";
+import { ResolvedCostParameters } from "./costParameters.ts";
+import { MIN_HISTORY_DAYS } from "./forecasting.ts";
+import { meanAndStdDev, normalLoss, normalQuantile } from "./statistics.ts";
+import {
+  annualCost,
+  ConstrainedOrderQuantities,
+  DiscountType,
+  optimizeOrderQuantities,
+  OrderQuantityItem,
+  plainEOQ,
+  PriceBreak,
+  priceSchedule,
+} from "./orderQuantity.ts";
+
+// Reorder policy for an item: safety stock and reorder point from demand and
+// lead-time variability at the item's service level, and the order quantity
+// over the preferred vendor's price breaks under shared storage and budget
+// limits. calculate-cost-optimization stores it; simulate-scenario replays
+// stock against it.
+
+export interface ReorderItem {
+  id: string;
+  item_name: string;
+  item_type: string;
+  current_stock: number;
+  min_required: number;
+  max_capacity: number;
+  unit_cost: number;
+  avg_usage_per_day: number;
+  restock_lead_time: number;
+  unit_volume: number | null;
+}
+
+// Daily consumption used to measure demand variability
+export const DEMAND_HISTORY_DAYS = 90;
+
+// Without enough history, demand variability is assumed to be this fraction
+// of the manually entered average usage
+export const ASSUMED_DEMAND_CV = 0.2;
+
+export interface DemandStats {
+  mean: number;
+  std_dev: number;
+  source: 'history' | 'assumed' | 'override';
+  days_observed: number;
+}
+
+// Calculate Reorder Point (ROP)
+function calculateReorderPoint(
+  dailyDemand: number,
+  leadTime: number,
+  safetyStock: number
+): number {
+  return (dailyDemand * leadTime) + safetyStock;
+}
+
+// Standard deviation of demand over the lead time, covering both demand
+// variability and variability of the lead time itself: sqrt(L * σd² + d² * σL²)
+function leadTimeDemandStdDev(demand: DemandStats, leadTime: ResolvedLeadTime): number {
+  return Math.sqrt(
+    leadTime.days * demand.std_dev * demand.std_dev + demand.mean * demand.mean * leadTime.variance
+  );
+}
+
+export function demandStats(item: ReorderItem, series: number[]): DemandStats {
+  if (series.length >= MIN_HISTORY_DAYS) {
+    const { mean, stdDev } = meanAndStdDev(series);
+    return { mean, std_dev: stdDev, source: 'history', days_observed: series.length };
+  }
+  return {
+    mean: item.avg_usage_per_day,
+    std_dev: item.avg_usage_per_day * ASSUMED_DEMAND_CV,
+    source: 'assumed',
+    days_observed: series.length,
+  };
+}
+
+export interface ItemPricing {
+  base_price: number;
+  price_breaks: PriceBreak[];
+  discount_type: DiscountType;
+}
+
+export interface PreparedItem {
+  item: ReorderItem;
+  demand: DemandStats;
+  leadTime: ResolvedLeadTime;
+  costs: ResolvedCostParameters;
+  zScore: number;
+  sigmaLeadTime: number;
+  safetyStock: number;
+  reorderPoint: number;
+  expectedShortagePerCycle: number;
+  order: OrderQuantityItem;
+}
+
+// Everything that does not depend on the order quantity
+export function prepare(
+  item: ReorderItem,
+  demand: DemandStats,
+  leadTime: ResolvedLeadTime,
+  costs: ResolvedCostParameters,
+  pricing: ItemPricing
+): PreparedItem {
+  const zScore = normalQuantile(costs.service_level);
+  const sigmaLeadTime = leadTimeDemandStdDev(demand, leadTime);
+  const safetyStock = zScore * sigmaLeadTime;
+  // Units short per replenishment cycle at this safety stock, σL * G(z)
+  const expectedShortagePerCycle = sigmaLeadTime * normalLoss(zScore);
+
+  return {
+    item,
+    demand,
+    leadTime,
+    costs,
+    zScore,
+    sigmaLeadTime,
+    safetyStock,
+    reorderPoint: calculateReorderPoint(demand.mean, leadTime.days, safetyStock),
+    expectedShortagePerCycle,
+    order: {
+      item_id: item.id,
+      annual_demand: demand.mean * 365,
+      // Shortages happen once per cycle, so they cost like ordering does
+      cost_per_order: costs.ordering_cost + expectedShortagePerCycle * costs.stockout_cost,
+      holding_cost_rate: costs.holding_cost_rate,
+      price_breaks: priceSchedule(pricing.base_price, pricing.price_breaks),
+      discount_type: pricing.discount_type,
+      unit_volume: item.unit_volume ?? 0,
+      max_quantity: item.max_capacity,
+    },
+  };
+}
+
+function finalize(prepared: PreparedItem, quantity: number, constraints: ConstrainedOrderQuantities) {
+  const { item, demand, leadTime, costs, order } = prepared;
+  const annualDemand = order.annual_demand;
+  const basePrice = order.price_breaks[0].unit_price;
+  const holdingCostPerUnit = basePrice * costs.holding_cost_rate;
+
+  // Classic EOQ at the base price, for reference
+  const eoq = holdingCostPerUnit > 0 && annualDemand > 0
+    ? Math.sqrt((2 * annualDemand * costs.ordering_cost) / holdingCostPerUnit)
+    : 0;
+
+  const chosen = annualCost(order, quantity);
+  const plainQuantity = plainEOQ(order);
+  const plain = annualCost(order, plainQuantity);
+
+  const numberOfOrders = annualDemand / quantity;
+  const annualOrderingCost = numberOfOrders * costs.ordering_cost;
+  const annualShortageCost = numberOfOrders * prepared.expectedShortagePerCycle * costs.stockout_cost;
+  // Safety stock is held at the price actually paid
+  const safetyStockHoldingCost = prepared.safetyStock * chosen.unit_price * costs.holding_cost_rate;
+  const annualHoldingCost = chosen.annual_holding_cost + safetyStockHoldingCost;
+  const estimatedAnnualCost = chosen.total + safetyStockHoldingCost;
+  const plainAnnualCost = plain.total + prepared.safetyStock * plain.unit_price * costs.holding_cost_rate;
+
+  return {
+    eoq: Math.ceil(eoq),
+    reorder_point: Math.ceil(prepared.reorderPoint),
+    safety_stock: Math.ceil(prepared.safetyStock),
+    optimal_order_quantity: quantity,
+    estimated_annual_cost: estimatedAnnualCost,
+    parameters: {
+      annual_demand: annualDemand,
+      ordering_cost: costs.ordering_cost,
+      holding_cost_rate: costs.holding_cost_rate,
+      holding_cost_per_unit: holdingCostPerUnit,
+      service_level: costs.service_level,
+      z_score: prepared.zScore,
+      stockout_cost: costs.stockout_cost,
+      cost_parameter_sources: costs.sources,
+      number_of_orders: numberOfOrders,
+      annual_purchase_cost: chosen.annual_purchase_cost,
+      annual_ordering_cost: annualOrderingCost,
+      annual_holding_cost: annualHoldingCost,
+      expected_shortage_per_cycle: prepared.expectedShortagePerCycle,
+      annual_shortage_cost: annualShortageCost,
+      base_unit_price: basePrice,
+      unit_price: chosen.unit_price,
+      order_value: chosen.order_value,
+      discount_type: order.discount_type,
+      price_breaks: order.price_breaks,
+      plain_eoq: plainQuantity,
+      plain_eoq_annual_cost: plainAnnualCost,
+      savings_vs_eoq: plainAnnualCost - estimatedAnnualCost,
+      unit_volume: order.unit_volume,
+      storage_constraint: constraints.storage,
+      budget_constraint: constraints.budget,
+      constraints_feasible: constraints.feasible,
+      daily_demand_mean: demand.mean,
+      daily_demand_std_dev: demand.std_dev,
+      demand_source: demand.source,
+      demand_days_observed: demand.days_observed,
+      lead_time_demand_std_dev: prepared.sigmaLeadTime,
+      lead_time_days: leadTime.days,
+      lead_time_variance: leadTime.variance,
+      lead_time_source: leadTime.source,
+      lead_time_samples: leadTime.sample_count,
+      lead_time_trend_days_per_30d: leadTime.trend_days_per_30d,
+      manual_lead_time_days: item.restock_lead_time,
+    },
+  };
+}
+
+export type OptimizationResult = ReturnType<typeof finalize>;
+
+/**
+ * Chooses order quantities for all items together. Safety stock has to fit
+ * in the storage limit regardless, so only the space left over is shared out
+ * between order quantities.
+ */
+export function optimizeAll(
+  prepared: PreparedItem[],
+  storageLimit: number | null,
+  budgetLimit: number | null
+): OptimizationResult[] {
+  const safetyStockVolume = prepared.reduce(
+    (sum, entry) => sum + Math.ceil(entry.safetyStock) * entry.order.unit_volume,
+    0
+  );
+  const constraints = optimizeOrderQuantities(
+    prepared.map((entry) => entry.order),
+    {
+      storage_volume: storageLimit === null ? null : Math.max(storageLimit - safetyStockVolume, 0),
+      budget: budgetLimit,
+    }
+  );
+  return prepared.map((entry) =>
+    finalize(entry, constraints.quantities.get(entry.item.id) ?? 1, constraints)
+  );
+}
+
+export function summarize(result: OptimizationResult) {
+  return {
+    eoq: result.eoq,
+    reorder_point: result.reorder_point,
+    safety_stock: result.safety_stock,
+    optimal_order_quantity: result.optimal_order_quantity,
+    estimated_annual_cost: result.estimated_annual_cost,
+    unit_price: result.parameters.unit_price,
+    savings_vs_eoq: result.parameters.savings_vs_eoq,
+  };
+}
+
+// Preferred vendor links with their price schedules, from item_vendors
+export const PREFERRED_VENDOR_COLUMNS =
+  'item_id, vendor_id, unit_price, discount_type, vendor_price_tiers(min_quantity, unit_price)';
+
+interface PreferredVendorRow {
+  item_id: string;
+  unit_price: number | string;
+  discount_type: string;
+  vendor_price_tiers: { min_quantity: number; unit_price: number | string }[] | null;
+}
+
+/**
+ * The preferred vendor's price schedule for an item, or the catalog unit
+ * cost when it has no preferred vendor.
+ */
+export function createPricingResolver(links: PreferredVendorRow[]) {
+  const vendorByItem = new Map(links.map((link) => [link.item_id, link]));
+  return (item: ReorderItem): ItemPricing => {
+    const link = vendorByItem.get(item.id);
+    if (!link) {
+      return { base_price: item.unit_cost, price_breaks: [], discount_type: 'all_units' };
+    }
+    return {
+      base_price: Number(link.unit_price),
+      price_breaks: (link.vendor_price_tiers || []).map((tier) => ({
+        min_quantity: tier.min_quantity,
+        unit_price: Number(tier.unit_price),
+      })),
+      discount_type: link.discount_type as DiscountType,
+    };
+  };
+}
@@ -0,0 +1,171 @@
+// What-if scenarios for demand planning: demand multipliers and lead-time
+// shocks applied over a window of days, replayed day by day against the
+// current reorder policy. Demand that stock cannot meet is counted as short
+// and lost (borrowed or substituted), not carried over as a backorder.
+
+export type DemandMultiplierScope = 'item_type' | 'item' | 'location';
+
+export interface DemandMultiplier {
+  scope: DemandMultiplierScope;
+  // Item type name, item id or location id
+  target: string;
+  multiplier: number;
+  // Days from tomorrow (day 1) the multiplier applies
+  start_day: number;
+  duration_days: number;
+}
+
+export type LeadTimeShockScope = 'all' | 'item_type' | 'item';
+
+export interface LeadTimeShock {
+  scope: LeadTimeShockScope;
+  // Item type name or item id; null for all items
+  target: string | null;
+  // Added to the lead time of orders placed within the window
+  extra_days: number;
+  start_day: number;
+  duration_days: number;
+}
+
+export interface ScenarioDefinition {
+  horizon_days: number;
+  demand_multipliers: DemandMultiplier[];
+  lead_time_shocks: LeadTimeShock[];
+}
+
+export interface ScenarioItem {
+  id: string;
+  item_type: string;
+}
+
+const activeOn = (day: number, window: { start_day: number; duration_days: number }) =>
+  day >= window.start_day && day < window.start_day + window.duration_days;
+
+/**
+ * Demand multiplier for an item on a day. Item type and item multipliers
+ * compound; location multipliers apply to the share of the item's demand
+ * used at that location (`locationShares`, summing to at most 1).
+ */
+export function demandMultiplierOn(
+  day: number,
+  item: ScenarioItem,
+  multipliers: DemandMultiplier[],
+  locationShares: Map<string, number>
+): number {
+  let itemFactor = 1;
+  let locationFactor = 1;
+  for (const multiplier of multipliers) {
+    if (!activeOn(day, multiplier)) continue;
+    if (
+      (multiplier.scope === 'item_type' && multiplier.target === item.item_type) ||
+      (multiplier.scope === 'item' && multiplier.target === item.id)
+    ) {
+      itemFactor *= multiplier.multiplier;
+    } else if (multiplier.scope === 'location') {
+      const share = locationShares.get(multiplier.target) ?? 0;
+      locationFactor += share * (multiplier.multiplier - 1);
+    }
+  }
+  return itemFactor * Math.max(locationFactor, 0);
+}
+
+/**
+ * Extra lead time, in days, for an order for the item placed on a day; the
+ * largest shock that applies wins.
+ */
+export function leadTimeShockOn(day: number, item: ScenarioItem, shocks: LeadTimeShock[]): number {
+  let extra = 0;
+  for (const shock of shocks) {
+    if (!activeOn(day, shock)) continue;
+    if (
+      shock.scope === 'all' ||
+      (shock.scope === 'item_type' && shock.target === item.item_type) ||
+      (shock.scope === 'item' && shock.target === item.id)
+    ) {
+      extra = Math.max(extra, shock.extra_days);
+    }
+  }
+  return extra;
+}
+
+export interface SimulatedOrder {
+  order_day: number;
+  arrival_day: number;
+  quantity: number;
+  cost: number;
+}
+
+export interface ItemSimulation {
+  // First day demand went unmet; null if stock lasted the horizon
+  stockout_day: number | null;
+  stockout_days: number;
+  units_short: number;
+  orders: SimulatedOrder[];
+  spend: number;
+  ending_stock: number;
+}
+
+interface SimulationInput {
+  current_stock: number;
+  // Demand for days 1..horizon
+  daily_demand: number[];
+  // Outstanding supply already on order, by arrival day (overdue as day 1)
+  incoming: { day: number; quantity: number }[];
+  reorder_point: number;
+  order_quantity: number;
+  unit_price: number;
+  // Lead time for an order placed on a day
+  lead_time_on: (day: number) => number;
+}
+
+/**
+ * Replays one item day by day: arrivals are received, demand is met from
+ * stock, and whenever the inventory position (stock plus supply on order)
+ * is at or below the reorder point, order quantities are placed until it is
+ * above it again.
+ */
+export function simulateItem(input: SimulationInput): ItemSimulation {
+  const arrivals = new Map<number, number>();
+  for (const supply of input.incoming) {
+    arrivals.set(supply.day, (arrivals.get(supply.day) ?? 0) + supply.quantity);
+  }
+  let onOrder = input.incoming.reduce((sum, supply) => sum + supply.quantity, 0);
+  let stock = Math.max(input.current_stock, 0);
+  const orderQuantity = Math.max(input.order_quantity, 1);
+
+  const result: ItemSimulation = {
+    stockout_day: null,
+    stockout_days: 0,
+    units_short: 0,
+    orders: [],
+    spend: 0,
+    ending_stock: 0,
+  };
+
+  for (let day = 1; day <= input.daily_demand.length; day++) {
+    const received = arrivals.get(day) ?? 0;
+    stock += received;
+    onOrder -= received;
+
+    const demand = input.daily_demand[day - 1];
+    const short = Math.max(demand - stock, 0);
+    stock = Math.max(stock - demand, 0);
+    if (short > 0) {
+      result.stockout_day ??= day;
+      result.stockout_days++;
+      result.units_short += short;
+    }
+
+    while (stock + onOrder <= input.reorder_point) {
+      const arrivalDay = day + Math.max(Math.round(input.lead_time_on(day)), 1);
+      arrivals.set(arrivalDay, (arrivals.get(arrivalDay) ?? 0) + orderQuantity);
+      onOrder += orderQuantity;
+      const cost = orderQuantity * input.unit_price;
+      result.orders.push({ order_day: day, arrival_day: arrivalDay, quantity: orderQuantity, cost });
+      result.spend += cost;
+    }
+  }
+
+  result.ending_stock = stock;
+  return result;
+}
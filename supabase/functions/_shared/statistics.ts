@@ -0,0 +1,66 @@
+// Standard normal distribution helpers for service levels and safety stock.
+
+export function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF via the Abramowitz-Stegun 7.1.26 approximation of erf
+ * (absolute error below 1.5e-7).
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.2e-9), e.g. 0.95 -> 1.645.
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`Probability must be strictly between 0 and 1, got ${p}`);
+  }
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Standard normal loss function G(z) = E[max(X - z, 0)]: the expected
+ * shortfall, in standard deviations, when stock covers demand up to z.
+ */
+export function normalLoss(z: number): number {
+  return normalPdf(z) - z * (1 - normalCdf(z));
+}
+
+/**
+ * Mean and sample standard deviation of a series.
+ */
+export function meanAndStdDev(series: number[]): { mean: number; stdDev: number } {
+  const mean = series.reduce((sum, value) => sum + value, 0) / series.length;
+  const variance = series.length > 1
+    ? series.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (series.length - 1)
+    : 0;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
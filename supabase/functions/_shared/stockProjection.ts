@@ -0,0 +1,118 @@
+// Projects stock forward day by day: forecast demand is drawn down from the
+// stock on hand, and open purchase orders add their outstanding quantity on
+// the day they are due. Past the forecast horizon demand continues at the
+// forecast's daily mean.
+
+export interface IncomingSupply {
+  // Expected arrival; overdue orders are assumed to arrive tomorrow
+  arrival_date: string;
+  quantity: number;
+}
+
+export interface StockProjection {
+  // Days the stock on hand lasts at forecast demand, topped up by open orders
+  // as they arrive, to a fraction of a day; past MAX_PROJECTION_DAYS what is
+  // left is spread over mean demand. null when there is no demand.
+  days_of_cover: number | null;
+  // First day projected stock cannot meet demand, 0 being today (already
+  // out); null if stock lasts beyond MAX_PROJECTION_DAYS
+  days_until_stockout: number | null;
+  stockout_date: string | null;
+  incoming_quantity: number;
+  next_arrival_date: string | null;
+}
+
+// Purchase orders whose outstanding quantity is still to arrive
+export const OPEN_PO_STATUSES = ['approved', 'sent', 'partially_received'];
+
+// Columns to select from purchase_order_lines, filtered to open orders with
+// .in('purchase_orders.status', OPEN_PO_STATUSES)
+export const OPEN_ORDER_LINE_COLUMNS =
+  'item_id, quantity_ordered, quantity_received, purchase_orders!inner(status, location_id, expected_delivery_date, sent_at, approved_at, created_at)';
+
+export interface OpenOrderLine {
+  item_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  purchase_orders: unknown;
+}
+
+/**
+ * Outstanding supply on open order lines for an item, optionally only orders
+ * delivering to one of `locationIds`. An order with no expected date is
+ * assumed to take the item's lead time from when it was placed.
+ */
+export function openOrderSupply(
+  lines: OpenOrderLine[],
+  item: { id: string; restock_lead_time: number },
+  locationIds?: string[] | null
+): IncomingSupply[] {
+  return lines.flatMap((line) => {
+    const order = line.purchase_orders as {
+      location_id: string | null;
+      expected_delivery_date: string | null;
+      sent_at: string | null;
+      approved_at: string | null;
+      created_at: string;
+    };
+    if (line.item_id !== item.id) return [];
+    if (locationIds && !(order.location_id && locationIds.includes(order.location_id))) return [];
+    const outstanding = line.quantity_ordered - line.quantity_received;
+    if (outstanding <= 0) return [];
+
+    let arrival = order.expected_delivery_date;
+    if (!arrival) {
+      const placed = new Date(order.sent_at ?? order.approved_at ?? order.created_at);
+      placed.setDate(placed.getDate() + Math.round(item.restock_lead_time));
+      arrival = placed.toISOString().slice(0, 10);
+    }
+    return [{ arrival_date: arrival, quantity: outstanding }];
+  });
+}
+
+const MAX_PROJECTION_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateKey = (today: Date, days: number) => new Date(today.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Stock projection from the stock on hand, the daily forecast starting
+ * tomorrow and the supply on order.
+ */
+export function projectStock(
+  currentStock: number,
+  dailyForecast: number[],
+  incoming: IncomingSupply[],
+  today: Date = new Date()
+): StockProjection {
+  const meanDemand =
+    dailyForecast.length > 0 ? dailyForecast.reduce((sum, value) => sum + value, 0) / dailyForecast.length : 0;
+  const pending = incoming.filter((supply) => supply.quantity > 0);
+  const incomingQuantity = pending.reduce((sum, supply) => sum + supply.quantity, 0);
+  const nextArrival = pending.map((supply) => supply.arrival_date).sort()[0] ?? null;
+  const tomorrow = dateKey(today, 1);
+
+  const projection = (daysUntilStockout: number | null, daysOfCover: number): StockProjection => ({
+    days_of_cover: meanDemand > 0 ? daysOfCover : null,
+    days_until_stockout: daysUntilStockout,
+    stockout_date: daysUntilStockout === null ? null : dateKey(today, daysUntilStockout),
+    incoming_quantity: incomingQuantity,
+    next_arrival_date: nextArrival && nextArrival < tomorrow ? tomorrow : nextArrival,
+  });
+
+  if (currentStock <= 0) return projection(0, 0);
+
+  let stock = currentStock;
+  for (let day = 1; day <= MAX_PROJECTION_DAYS; day++) {
+    const date = dateKey(today, day);
+    for (const supply of pending) {
+      const arrival = supply.arrival_date < tomorrow ? tomorrow : supply.arrival_date;
+      if (arrival === date) stock += supply.quantity;
+    }
+    const demand = day <= dailyForecast.length ? dailyForecast[day - 1] : meanDemand;
+    if (stock < demand) return projection(day, day - 1 + stock / demand);
+    stock -= demand;
+  }
+  return projection(null, meanDemand > 0 ? MAX_PROJECTION_DAYS + stock / meanDemand : 0);
+}
@@ -0,0 +1,152 @@
+// Monte Carlo stockout risk: demand and lead time are sampled from their
+// fitted distributions many times over, and each run checks whether the stock
+// on hand lasts until the next delivery. Where projectStock gives the date
+// stock runs out at forecast demand, this gives how likely that is to happen
+// before replenishment, and how short the item is likely to fall.
+
+import { ForecastResult, MIN_HISTORY_DAYS, seededRandom } from "./forecasting.ts";
+import { ResolvedLeadTime } from "./leadTime.ts";
+import { ASSUMED_DEMAND_CV } from "./reorderPolicy.ts";
+import { meanAndStdDev } from "./statistics.ts";
+import { IncomingSupply } from "./stockProjection.ts";
+
+export const SIMULATION_RUNS = 5000;
+
+export interface StockoutRisk {
+  // Share of runs in which demand before the next delivery exceeds stock
+  stockout_probability: number;
+  // Demand stock could not meet, averaged over all runs
+  expected_units_short: number;
+  // Mean days until the next delivery across runs
+  mean_replenishment_days: number;
+  // Daily demand standard deviation the runs were drawn with
+  daily_std_dev: number;
+  runs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Day-to-day spread of demand around the forecast: the standard deviation of
+ * the model's one-step residuals, else of the history itself, else an assumed
+ * fraction of mean forecast demand.
+ */
+export function dailyDemandStdDev(series: number[], forecast: ForecastResult): number {
+  const residuals: number[] = [];
+  forecast.fitted.forEach((fitted, t) => {
+    if (!Number.isNaN(fitted)) residuals.push(series[t] - fitted);
+  });
+  if (residuals.length >= MIN_HISTORY_DAYS) return meanAndStdDev(residuals).stdDev;
+  if (series.length >= MIN_HISTORY_DAYS) return meanAndStdDev(series).stdDev;
+
+  const meanForecast = forecast.forecast.length > 0
+    ? forecast.forecast.reduce((sum, value) => sum + value, 0) / forecast.forecast.length
+    : 0;
+  return meanForecast * ASSUMED_DEMAND_CV;
+}
+
+// Stable seed per item, so repeated runs over unchanged data agree
+function seedFor(key: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Box-Muller
+function sampleStandardNormal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Gamma with shape k and scale 1 (Marsaglia and Tsang)
+function sampleGammaShape(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGammaShape(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleStandardNormal(random);
+    const v = (1 + c * x) ** 3;
+    if (v <= 0) continue;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/**
+ * Non-negative draw with the given mean and variance, from the gamma
+ * distribution matching both. Demand and lead times are skewed and never
+ * negative, which a normal draw would not respect.
+ */
+function sampleGamma(mean: number, variance: number, random: () => number): number {
+  if (mean <= 0) return 0;
+  if (variance <= 0) return mean;
+  return sampleGammaShape((mean * mean) / variance, random) * (variance / mean);
+}
+
+/**
+ * Simulates demand until the next delivery `runs` times. The next delivery
+ * is the earliest open order, or, with nothing on order, one placed today.
+ * Either way its arrival varies with the item's lead time: each run draws a
+ * lead time and an open order is late or early by its difference from the
+ * mean. Demand over the window is drawn around the summed daily forecast
+ * (continuing at the forecast's mean past its horizon), with a variance of
+ * `dailyStdDev`² per day.
+ */
+export function simulateStockoutRisk(
+  item: { id: string; location_id?: string | null; current_stock: number },
+  dailyForecast: number[],
+  dailyStdDev: number,
+  leadTime: Pick<ResolvedLeadTime, 'days' | 'variance'>,
+  incoming: IncomingSupply[],
+  today: Date = new Date(),
+  runs: number = SIMULATION_RUNS
+): StockoutRisk {
+  const meanDemand = dailyForecast.length > 0
+    ? dailyForecast.reduce((sum, value) => sum + value, 0) / dailyForecast.length
+    : 0;
+  const cumulative = [0];
+  for (const value of dailyForecast) cumulative.push(cumulative[cumulative.length - 1] + value);
+  const demandThrough = (days: number) =>
+    days < cumulative.length
+      ? cumulative[days]
+      : cumulative[cumulative.length - 1] + (days - dailyForecast.length) * meanDemand;
+
+  // Overdue orders are expected tomorrow, as in projectStock
+  const todayKey = today.toISOString().slice(0, 10);
+  const nextArrival = incoming
+    .filter((supply) => supply.quantity > 0)
+    .map((supply) => supply.arrival_date)
+    .sort()[0];
+  const scheduledDays = nextArrival
+    ? Math.max(1, Math.round((Date.parse(nextArrival) - Date.parse(todayKey)) / DAY_MS))
+    : null;
+
+  const random = seededRandom(seedFor(`${item.id}:${item.location_id ?? ''}`));
+  let stockouts = 0;
+  let unitsShort = 0;
+  let windowDays = 0;
+  for (let run = 0; run < runs; run++) {
+    const sampledLeadTime = sampleGamma(leadTime.days, leadTime.variance, random);
+    const days = Math.max(
+      1,
+      Math.round(scheduledDays === null ? sampledLeadTime : scheduledDays + sampledLeadTime - leadTime.days)
+    );
+    const demand = sampleGamma(demandThrough(days), days * dailyStdDev * dailyStdDev, random);
+    const short = demand - Math.max(item.current_stock, 0);
+    // An item with nothing on hand is already out
+    if (short > 0 || item.current_stock <= 0) stockouts++;
+    if (short > 0) unitsShort += short;
+    windowDays += days;
+  }
+
+  return {
+    stockout_probability: stockouts / runs,
+    expected_units_short: unitsShort / runs,
+    mean_replenishment_days: windowDays / runs,
+    daily_std_dev: dailyStdDev,
+    runs,
+  };
+}
@@ -1,5 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { createLeadTimeResolver, LEAD_TIME_STATS_COLUMNS } from "../_shared/leadTime.ts";
+import { COST_PARAMETER_COLUMNS, CostParameterRow, createCostParameterResolver } from "../_shared/costParameters.ts";
+import { fetchDailyConsumption, groupByItem } from "../_shared/consumption.ts";
+import { buildDailySeries } from "../_shared/forecasting.ts";
+import { ITEM_CLASS_COLUMNS, itemClassKey } from "../_shared/classification.ts";
+import { createOverrideResolver, fetchActiveOverrides, overrideDemandStats } from "../_shared/forecastOverrides.ts";
+import {
+  createPricingResolver,
+  DEMAND_HISTORY_DAYS,
+  demandStats,
+  optimizeAll,
+  prepare,
+  PREFERRED_VENDOR_COLUMNS,
+  ReorderItem,
+  summarize,
+} from "../_shared/reorderPolicy.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,46 +25,14 @@ const corsHeaders = {
 interface EOQInput {
   item_id?: string;
   run_all?: boolean;
-}
-
-interface InventoryItem {
-  id: string;
-  item_name: string;
-  current_stock: number;
-  min_required: number;
-  unit_cost: number;
-  avg_usage_per_day: number;
-  restock_lead_time: number;
-}
-
-// Calculate Economic Order Quantity (EOQ)
-function calculateEOQ(
-  annualDemand: number,
-  orderingCost: number,
-  holdingCostPerUnit: number
-): number {
-  return Math.sqrt((2 * annualDemand * orderingCost) / holdingCostPerUnit);
-}
-
-// Calculate Reorder Point (ROP)
-function calculateReorderPoint(
-  dailyDemand: number,
-  leadTime: number,
-  safetyStock: number
-): number {
-  return (dailyDemand * leadTime) + safetyStock;
-}
-
-// Calculate Safety Stock
-function calculateSafetyStock(
-  dailyDemand: number,
-  leadTime: number,
-  serviceLevel: number = 1.65 // 95% service level (Z-score)
-): number {
-  // Assuming standard deviation is 20% of daily demand
-  const demandStdDev = dailyDemand * 0.2;
-  const leadTimeStdDev = Math.sqrt(leadTime);
-  return serviceLevel * demandStdDev * leadTimeStdDev;
+  // Calculate without storing, optionally with an unsaved parameter row in
+  // place of the stored one at the same scope
+  dry_run?: boolean;
+  draft_parameters?: CostParameterRow;
+  // Shared limits across the items in the run: litres of storage for all
+  // stock, and spend on one round of orders
+  storage_volume_limit?: number | null;
+  budget_limit?: number | null;
 }
 
 serve(async (req) => {
@@ -74,7 +58,14 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { item_id, run_all }: EOQInput = await req.json();
+    const {
+      item_id,
+      run_all,
+      dry_run,
+      draft_parameters,
+      storage_volume_limit,
+      budget_limit,
+    }: EOQInput = await req.json();
 
     // Get inventory items
     let query = supabase.from('inventory_items').select('*');
@@ -87,75 +78,128 @@ serve(async (req) => {
       throw new Error('No items found');
     }
 
+    // Measured lead times replace the manual restock_lead_time where history exists
+    const [
+      { data: leadTimeStats },
+      { data: preferredVendors },
+      { data: costParameters, error: costError },
+      { data: classifications },
+    ] = await Promise.all([
+      supabase.from('lead_time_stats').select(LEAD_TIME_STATS_COLUMNS),
+      supabase.from('item_vendors').select(PREFERRED_VENDOR_COLUMNS).eq('is_preferred', true),
+      supabase.from('cost_parameters').select(COST_PARAMETER_COLUMNS),
+      supabase.from('item_classifications').select(ITEM_CLASS_COLUMNS),
+    ]);
+    if (costError) throw costError;
+
+    // Class defaults apply once classify-items has run for the item
+    const classByItem = new Map((classifications || []).map((row) => [row.item_id, itemClassKey(row)]));
+
+    const resolveLeadTime = createLeadTimeResolver(
+      leadTimeStats || [],
+      new Map((preferredVendors || []).map((link) => [link.item_id, link.vendor_id]))
+    );
+    const resolveCosts = createCostParameterResolver(costParameters || []);
+    const resolveDraftCosts = draft_parameters
+      ? createCostParameterResolver(costParameters || [], draft_parameters)
+      : null;
+
+    // The preferred vendor's price schedule, or the catalog unit cost
+    const pricingFor = createPricingResolver(preferredVendors || []);
+
+    // Daily demand across all locations, through yesterday
+    const historyStart = new Date();
+    historyStart.setDate(historyStart.getDate() - DEMAND_HISTORY_DAYS);
+    const historyEnd = new Date();
+    historyEnd.setDate(historyEnd.getDate() - 1);
+    const historyByItem = groupByItem(await fetchDailyConsumption(supabase, {
+      since: historyStart,
+      itemIds: items.map((item) => item.id),
+    }));
+    // Hospital-wide overrides replace measured demand over the lead time
+    const overridesFor = createOverrideResolver(await fetchActiveOverrides(supabase, items.map((item) => item.id)));
+
+    const storageLimit = storage_volume_limit ?? null;
+    const budgetLimit = budget_limit ?? null;
+
+    const inputs = (items as ReorderItem[]).map((item) => {
+      const itemClass = classByItem.get(item.id) ?? null;
+      const leadTime = resolveLeadTime(item);
+      return {
+        item,
+        itemClass,
+        leadTime,
+        demand: overrideDemandStats(
+          demandStats(item, buildDailySeries(historyByItem.get(item.id) ?? [], historyEnd)),
+          overridesFor(item.id, null),
+          leadTime.days
+        ),
+        pricing: pricingFor(item),
+      };
+    });
+    const results = optimizeAll(
+      inputs.map((input) =>
+        prepare(input.item, input.demand, input.leadTime, resolveCosts(input.item, input.itemClass), input.pricing)
+      ),
+      storageLimit,
+      budgetLimit
+    );
+
+    // With shared limits a draft can move items it does not apply to, so the
+    // whole set is re-optimised and every item whose result changed is shown
+    const draftResults = dry_run && resolveDraftCosts
+      ? optimizeAll(
+        inputs.map((input) =>
+          prepare(input.item, input.demand, input.leadTime, resolveDraftCosts(input.item, input.itemClass), input.pricing)
+        ),
+        storageLimit,
+        budgetLimit
+      )
+      : null;
+
     const optimizations = [];
 
-    for (const item of items) {
-      const annualDemand = item.avg_usage_per_day * 365;
-      
-      // Estimated costs (can be made configurable)
-      const orderingCost = 50; // Cost per order
-      const holdingCostRate = 0.25; // 25% of unit cost per year
-      const holdingCostPerUnit = item.unit_cost * holdingCostRate;
-      
-      // Calculate EOQ
-      const eoq = calculateEOQ(annualDemand, orderingCost, holdingCostPerUnit);
-      
-      // Calculate Safety Stock
-      const safetyStock = calculateSafetyStock(
-        item.avg_usage_per_day,
-        item.restock_lead_time
-      );
-      
-      // Calculate Reorder Point
-      const reorderPoint = calculateReorderPoint(
-        item.avg_usage_per_day,
-        item.restock_lead_time,
-        safetyStock
-      );
-      
-      // Calculate optimal order quantity (considering max capacity)
-      const optimalOrderQty = Math.min(Math.ceil(eoq), item.max_capacity);
-      
-      // Calculate annual costs
-      const numberOfOrders = annualDemand / optimalOrderQty;
-      const annualOrderingCost = numberOfOrders * orderingCost;
-      const averageInventory = (optimalOrderQty / 2) + safetyStock;
-      const annualHoldingCost = averageInventory * holdingCostPerUnit;
-      const estimatedAnnualCost = annualOrderingCost + annualHoldingCost + (annualDemand * item.unit_cost);
-      
+    for (const [index, { item, itemClass, leadTime }] of inputs.entries()) {
+      const result = results[index];
+
+      const summary = {
+        item_id: item.id,
+        item_name: item.item_name,
+        ...summarize(result),
+        current_stock: item.current_stock,
+        should_reorder: item.current_stock <= result.reorder_point,
+        lead_time_days: leadTime.days,
+        lead_time_source: leadTime.source,
+      };
+
+      if (dry_run) {
+        if (!draftResults) {
+          optimizations.push(summary);
+          continue;
+        }
+        const draft = draftResults[index];
+        if (
+          draft.optimal_order_quantity === result.optimal_order_quantity &&
+          draft.reorder_point === result.reorder_point &&
+          draft.safety_stock === result.safety_stock &&
+          Math.abs(draft.estimated_annual_cost - result.estimated_annual_cost) < 0.005
+        ) continue;
+
+        optimizations.push({ ...summary, draft: summarize(draft) });
+        continue;
+      }
+
       // Store optimization data
       const { error: insertError } = await supabase
         .from('cost_optimization')
         .insert({
           item_id: item.id,
-          eoq: Math.ceil(eoq),
-          reorder_point: Math.ceil(reorderPoint),
-          safety_stock: Math.ceil(safetyStock),
-          optimal_order_quantity: optimalOrderQty,
-          estimated_annual_cost: estimatedAnnualCost,
-          parameters: {
-            annual_demand: annualDemand,
-            ordering_cost: orderingCost,
-            holding_cost_rate: holdingCostRate,
-            holding_cost_per_unit: holdingCostPerUnit,
-            number_of_orders: numberOfOrders,
-            annual_ordering_cost: annualOrderingCost,
-            annual_holding_cost: annualHoldingCost,
-          },
+          ...result,
+          parameters: { ...result.parameters, item_class: itemClass },
         });
 
       if (!insertError) {
-        optimizations.push({
-          item_id: item.id,
-          item_name: item.item_name,
-          eoq: Math.ceil(eoq),
-          reorder_point: Math.ceil(reorderPoint),
-          safety_stock: Math.ceil(safetyStock),
-          optimal_order_quantity: optimalOrderQty,
-          estimated_annual_cost: estimatedAnnualCost,
-          current_stock: item.current_stock,
-          should_reorder: item.current_stock <= reorderPoint,
-        });
+        optimizations.push(summary);
       }
     }
 
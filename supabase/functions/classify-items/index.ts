@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { fetchDailyConsumption, groupByItem } from "../_shared/consumption.ts";
+import { buildDailySeries, MIN_HISTORY_DAYS } from "../_shared/forecasting.ts";
+import { classifyAbc, classifyXyz, weeklyDemandCv } from "../_shared/classification.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A year of consumption evens out seasonal items in the value ranking
+const HISTORY_DAYS = 365;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: roles } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id);
+    if (!roles?.some((r) => r.role === 'admin' || r.role === 'inventory_manager')) {
+      throw new Error('Only admins and inventory managers can classify items');
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('inventory_items')
+      .select('id, item_name, unit_cost, avg_usage_per_day');
+    if (itemsError || !items || items.length === 0) {
+      throw new Error('No items found');
+    }
+
+    const historyStart = new Date();
+    historyStart.setDate(historyStart.getDate() - HISTORY_DAYS);
+    const historyEnd = new Date();
+    historyEnd.setDate(historyEnd.getDate() - 1);
+    const historyByItem = groupByItem(await fetchDailyConsumption(supabase, { since: historyStart }));
+
+    const seriesByItem = new Map(
+      items.map((item) => [item.id, buildDailySeries(historyByItem.get(item.id) ?? [], historyEnd)])
+    );
+
+    // Annualised from recorded consumption, or the manual average usage for
+    // items without enough history yet
+    const abc = classifyAbc(items.map((item) => {
+      const series = seriesByItem.get(item.id)!;
+      const dailyUsage = series.length >= MIN_HISTORY_DAYS
+        ? series.reduce((sum, value) => sum + value, 0) / series.length
+        : item.avg_usage_per_day;
+      return { item_id: item.id, annual_value: dailyUsage * 365 * item.unit_cost };
+    }));
+
+    const classifiedAt = new Date().toISOString();
+    const rows = abc.map((result) => {
+      const { cv, weeks } = weeklyDemandCv(seriesByItem.get(result.item_id)!);
+      return {
+        item_id: result.item_id,
+        abc_class: result.abc_class,
+        xyz_class: classifyXyz(cv),
+        annual_consumption_value: Math.round(result.annual_consumption_value * 100) / 100,
+        cumulative_value_share: result.cumulative_value_share,
+        demand_cv: cv,
+        weeks_observed: weeks,
+        classified_at: classifiedAt,
+      };
+    });
+
+    // ved_class is left out so admin classifications survive a rerun
+    const { error: upsertError } = await supabase
+      .from('item_classifications')
+      .upsert(rows, { onConflict: 'item_id' });
+    if (upsertError) throw upsertError;
+
+    const counts = (key: 'abc_class' | 'xyz_class') =>
+      rows.reduce<Record<string, number>>((acc, row) => {
+        acc[row[key]] = (acc[row[key]] ?? 0) + 1;
+        return acc;
+      }, {});
+
+    console.log(`Classified ${rows.length} items`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        items_classified: rows.length,
+        abc_counts: counts('abc_class'),
+        xyz_counts: counts('xyz_class'),
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Error in classify-items:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { dispatchNotifications } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DispatchInput {
+  // Failed deliveries to give one more attempt
+  retry_delivery_ids?: string[];
+}
+
+// run-predictions dispatches after every run; this function sends retries
+// and deferred email in between. Call it with a user token from the Admin
+// page, or with the service role key from a scheduler.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        throw new Error('Unauthorized');
+      }
+
+      const { data: roles } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id);
+      if (!roles?.some((r) => r.role === 'admin' || r.role === 'inventory_manager')) {
+        throw new Error('Only admins and inventory managers can dispatch notifications');
+      }
+    }
+
+    const { retry_delivery_ids }: DispatchInput = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+
+    if (retry_delivery_ids && retry_delivery_ids.length > 0) {
+      const { data: failed, error: failedError } = await supabase
+        .from('notification_deliveries')
+        .select('id, attempt_count')
+        .in('id', retry_delivery_ids)
+        .eq('status', 'failed');
+      if (failedError) throw new Error(failedError.message);
+
+      for (const delivery of failed || []) {
+        await supabase
+          .from('notification_deliveries')
+          .update({
+            status: 'pending',
+            next_attempt_at: new Date().toISOString(),
+            max_attempts: delivery.attempt_count + 1,
+          })
+          .eq('id', delivery.id);
+      }
+    }
+
+    const summary = await dispatchNotifications(supabase);
+
+    console.log(
+      `Queued ${summary.queued} notifications; sent ${summary.sent}, deferred ${summary.deferred}, ` +
+        `retrying ${summary.retrying}, failed ${summary.failed}, cancelled ${summary.cancelled}`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Error in dispatch-notifications:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
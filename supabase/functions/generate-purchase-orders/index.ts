@@ -0,0 +1,283 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { createLeadTimeResolver, LEAD_TIME_STATS_COLUMNS } from "../_shared/leadTime.ts";
+import { DiscountType, orderValue, priceSchedule } from "../_shared/orderQuantity.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Orders in any of these states already cover an item's shortfall
+const OPEN_STATUSES = ['draft', 'approved', 'sent', 'partially_received'];
+
+// PostgREST caps a response at 1000 rows
+const PAGE_SIZE = 1000;
+
+interface GenerateInput {
+  item_ids?: string[];
+}
+
+interface Optimization {
+  id: string;
+  item_id: string;
+  eoq: number | null;
+  optimal_order_quantity: number | null;
+  reorder_point: number | null;
+  calculation_date: string;
+}
+
+interface VendorLink {
+  item_id: string;
+  vendor_id: string;
+  vendor_sku: string | null;
+  unit_price: number;
+  discount_type: string;
+  vendor_price_tiers: { min_quantity: number; unit_price: number | string }[] | null;
+  lead_time_days: number | null;
+  vendors: {
+    id: string;
+    name: string;
+    is_active: boolean;
+    default_lead_time_days: number | null;
+    minimum_order_value: number;
+  } | null;
+}
+
+interface ProposedLine {
+  item_id: string;
+  item_name: string;
+  quantity_ordered: number;
+  suggested_quantity: number;
+  unit_price: number;
+  vendor_sku: string | null;
+  cost_optimization_id: string;
+  lead_time_days: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Purchase orders are a manager concern; this function writes with the service role
+    const { data: roles } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id);
+    if (!roles?.some((r) => r.role === 'admin' || r.role === 'inventory_manager')) {
+      throw new Error('Only admins and inventory managers can generate purchase orders');
+    }
+
+    const { item_ids }: GenerateInput = await req.json().catch(() => ({}));
+
+    let itemsQuery = supabase
+      .from('inventory_items')
+      .select('id, item_name, current_stock, restock_lead_time');
+    if (item_ids && item_ids.length > 0) {
+      itemsQuery = itemsQuery.in('id', item_ids);
+    }
+
+    const { data: items, error: itemsError } = await itemsQuery;
+    if (itemsError || !items) {
+      throw new Error('No items found');
+    }
+
+    // Latest optimization run per item
+    const latestOptimization = new Map<string, Optimization>();
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: page, error: optimizationError } = await supabase
+        .from('latest_cost_optimization')
+        .select('id, item_id, eoq, optimal_order_quantity, reorder_point, calculation_date')
+        .order('item_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (optimizationError) throw optimizationError;
+      for (const row of (page || []) as Optimization[]) {
+        latestOptimization.set(row.item_id, row);
+      }
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // Items that already sit on an open order are left alone
+    const onOrder = new Set<string>();
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: page, error: openLinesError } = await supabase
+        .from('purchase_order_lines')
+        .select('id, item_id, purchase_orders!inner(status)')
+        .in('purchase_orders.status', OPEN_STATUSES)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (openLinesError) throw openLinesError;
+      for (const line of page || []) onOrder.add(line.item_id);
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    const { data: vendorLinks, error: vendorLinkError } = await supabase
+      .from('item_vendors')
+      .select('item_id, vendor_id, vendor_sku, unit_price, discount_type, vendor_price_tiers(min_quantity, unit_price), lead_time_days, vendors(id, name, is_active, default_lead_time_days, minimum_order_value)')
+      .eq('is_preferred', true);
+    if (vendorLinkError) throw vendorLinkError;
+    const preferredVendor = new Map(
+      ((vendorLinks || []) as unknown as VendorLink[]).map((link) => [link.item_id, link])
+    );
+
+    const { data: leadTimeStats } = await supabase.from('lead_time_stats').select(LEAD_TIME_STATS_COLUMNS);
+    const resolveLeadTime = createLeadTimeResolver(
+      leadTimeStats || [],
+      new Map([...preferredVendor].map(([itemId, link]) => [itemId, link.vendor_id]))
+    );
+
+    const linesByVendor = new Map<string, ProposedLine[]>();
+    const skipped: { item_id: string; item_name: string; reason: string }[] = [];
+
+    for (const item of items) {
+      const optimization = latestOptimization.get(item.id);
+      if (!optimization || optimization.reorder_point === null) {
+        skipped.push({ item_id: item.id, item_name: item.item_name, reason: 'No cost optimization has been calculated' });
+        continue;
+      }
+
+      if (item.current_stock > optimization.reorder_point) continue;
+
+      if (onOrder.has(item.id)) {
+        skipped.push({ item_id: item.id, item_name: item.item_name, reason: 'Already on an open purchase order' });
+        continue;
+      }
+
+      const link = preferredVendor.get(item.id);
+      if (!link?.vendors?.is_active) {
+        skipped.push({ item_id: item.id, item_name: item.item_name, reason: 'No active preferred vendor' });
+        continue;
+      }
+
+      // Default to the EOQ; never order less than what brings stock back to the reorder point
+      const eoqQuantity = optimization.optimal_order_quantity ?? optimization.eoq ?? 0;
+      const quantity = Math.max(eoqQuantity, optimization.reorder_point - item.current_stock, 1);
+
+      // Priced at the vendor's break for this quantity, as an average per unit
+      // when the discount is incremental
+      const schedule = {
+        price_breaks: priceSchedule(
+          Number(link.unit_price),
+          (link.vendor_price_tiers || []).map((tier) => ({ min_quantity: tier.min_quantity, unit_price: Number(tier.unit_price) }))
+        ),
+        discount_type: link.discount_type as DiscountType,
+      };
+      const unitPrice = Math.round((orderValue(schedule, quantity) / quantity) * 100) / 100;
+
+      // Delivery date from measured history first, then the agreed vendor terms
+      const measuredLeadTime = resolveLeadTime(item);
+      const lines = linesByVendor.get(link.vendor_id) ?? [];
+      lines.push({
+        item_id: item.id,
+        item_name: item.item_name,
+        quantity_ordered: quantity,
+        suggested_quantity: quantity,
+        unit_price: unitPrice,
+        vendor_sku: link.vendor_sku,
+        cost_optimization_id: optimization.id,
+        lead_time_days: measuredLeadTime.source === 'manual'
+          ? link.lead_time_days ?? link.vendors.default_lead_time_days ?? item.restock_lead_time
+          : Math.ceil(measuredLeadTime.days),
+      });
+      linesByVendor.set(link.vendor_id, lines);
+    }
+
+    const purchaseOrders = [];
+
+    for (const [vendorId, lines] of linesByVendor) {
+      const vendor = preferredVendor.get(lines[0].item_id)!.vendors!;
+      const leadTime = Math.max(...lines.map((line) => line.lead_time_days));
+      const expected = new Date();
+      expected.setDate(expected.getDate() + leadTime);
+
+      // Top up an existing auto-generated draft for the vendor rather than opening another
+      const { data: existingDraft } = await supabase
+        .from('purchase_orders')
+        .select('id, po_number')
+        .eq('vendor_id', vendorId)
+        .eq('status', 'draft')
+        .eq('auto_generated', true)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      let order = existingDraft;
+      if (!order) {
+        const { data: created, error: orderError } = await supabase
+          .from('purchase_orders')
+          .insert({
+            vendor_id: vendorId,
+            auto_generated: true,
+            expected_delivery_date: expected.toISOString().slice(0, 10),
+            created_by: user.id,
+            notes: 'Generated from reorder points',
+          })
+          .select('id, po_number')
+          .single();
+        if (orderError) throw orderError;
+        order = created;
+      }
+
+      const { error: lineError } = await supabase
+        .from('purchase_order_lines')
+        .insert(lines.map(({ item_name: _itemName, lead_time_days: _leadTime, ...line }) => ({
+          ...line,
+          purchase_order_id: order!.id,
+        })));
+      if (lineError) throw lineError;
+
+      const orderValue = lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_price, 0);
+      purchaseOrders.push({
+        id: order.id,
+        po_number: order.po_number,
+        vendor_name: vendor.name,
+        lines: lines.length,
+        order_value: orderValue,
+        below_minimum_order_value: orderValue < vendor.minimum_order_value,
+      });
+    }
+
+    console.log(`Generated ${purchaseOrders.length} purchase orders, skipped ${skipped.length} items`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        purchase_orders: purchaseOrders,
+        skipped,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Error in generate-purchase-orders:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
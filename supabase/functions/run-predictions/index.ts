@@ -1,5 +1,36 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { createLeadTimeResolver, LEAD_TIME_STATS_COLUMNS } from "../_shared/leadTime.ts";
+import { fetchDailyConsumption, groupByItem } from "../_shared/consumption.ts";
+import {
+  averageUsageForecast,
+  buildDailySeries,
+  FORECAST_STRATEGIES,
+  ForecastStrategy,
+  predictionIntervals,
+} from "../_shared/forecasting.ts";
+import { CalendarInputs, fetchCalendarInputs, forecastWithCalendar } from "../_shared/calendarEffects.ts";
+import { AlertSeverity, ITEM_CLASS_COLUMNS, ItemClassRow, severityForClass } from "../_shared/classification.ts";
+import {
+  ALERT_RULE_COLUMNS,
+  ALERT_TITLES,
+  alertConditionKey,
+  AlertRuleRow,
+  createAlertRuleResolver,
+  evaluateAlertRules,
+  higherSeverity,
+} from "../_shared/alertRules.ts";
+import { dispatchNotifications, DispatchSummary } from "../_shared/notifications.ts";
+import {
+  OPEN_ORDER_LINE_COLUMNS,
+  OPEN_PO_STATUSES,
+  OpenOrderLine,
+  openOrderSupply,
+  projectStock,
+} from "../_shared/stockProjection.ts";
+import { detectUsageAnomalies, NON_USAGE_LABELS, UsageAnomaly } from "../_shared/anomalyDetection.ts";
+import { dailyDemandStdDev, simulateStockoutRisk } from "../_shared/stockoutRisk.ts";
+import { applyOverrides, createOverrideResolver, fetchActiveOverrides } from "../_shared/forecastOverrides.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +40,10 @@ const corsHeaders = {
 interface PredictionInput {
   item_id?: string;
   run_all?: boolean;
+  location_id?: string;
+  horizon_days?: number;
+  // demand_regressors row to fit alongside the calendar
+  regressor_id?: string;
   single_prediction?: {
     item_name: string;
     item_type: string;
@@ -31,9 +66,77 @@ interface InventoryItem {
   avg_usage_per_day: number;
   restock_lead_time: number;
   item_type: string;
+  item_name?: string;
+  location_id?: string | null;
+  location_name?: string | null;
 }
 
-// Simplified GradientBoosting-like prediction based on the document
+const DEFAULT_HORIZON_DAYS = 14;
+const MAX_HORIZON_DAYS = 90;
+
+// How far back the forecasting methods look; two years gives time-of-year
+// effects a full cycle to fit
+const HISTORY_DAYS = 730;
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+const ALERT_PAGE_SIZE = 1000;
+
+// A dated lot: an inventory_lots row hospital-wide, or a lot_location_stock
+// row (with its lot embedded) for a scoped run
+interface ScopedLotRow {
+  item_id: string;
+  expiry_date: string | null;
+  quantity: number;
+  inventory_lots?: { item_id: string; expiry_date: string | null };
+}
+
+interface ExistingAlert {
+  id: string;
+  item_id: string;
+  alert_type: string;
+  status: string;
+  severity: string;
+  reopened_count: number;
+  occurrence_count: number;
+  recipient_roles: string[];
+  metadata: unknown;
+}
+
+interface LocationRow {
+  id: string;
+  parent_id: string | null;
+  name: string;
+}
+
+interface RegisteredModel {
+  id: string;
+  model_version: string;
+  hyperparameters: { strategy?: string } | null;
+}
+
+// Models that predate trained strategies fall back to per-item selection
+function strategyOf(model: RegisteredModel): ForecastStrategy {
+  const registered = model.hyperparameters?.strategy as ForecastStrategy | undefined;
+  return registered && FORECAST_STRATEGIES.includes(registered) ? registered : 'auto';
+}
+
+// A location plus everything nested below it
+function descendantLocationIds(locations: LocationRow[], rootId: string): string[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const location of locations) {
+      if (location.parent_id === ids[i] && !ids.includes(location.id)) {
+        ids.push(location.id);
+      }
+    }
+  }
+  return ids;
+}
+
+// Back-of-envelope estimate for the demo endpoint, which has no consumption
+// history: average usage over one restock lead time
 function predictDemand(item: InventoryItem): {
   estimated_demand: number;
   inventory_shortfall: number;
@@ -88,9 +191,14 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { item_id, run_all, single_prediction }: PredictionInput = await req.json();
+    const { item_id, run_all, location_id, horizon_days, regressor_id, single_prediction }: PredictionInput =
+      await req.json();
+    const horizonDays = Math.min(
+      MAX_HORIZON_DAYS,
+      Math.max(1, Math.round(horizon_days ?? DEFAULT_HORIZON_DAYS))
+    );
 
-    // Get active model version (get the most recent one if multiple exist)
+    // The active model serves predictions; at most one is active at a time
     const { data: activeModels, error: modelError } = await supabase
       .from('model_registry')
       .select('*')
@@ -130,17 +238,220 @@ serve(async (req) => {
       query = query.eq('id', item_id);
     }
 
-    const { data: items, error: itemsError } = await query;
-    if (itemsError || !items || items.length === 0) {
+    const { data: allItems, error: itemsError } = await query;
+    if (itemsError || !allItems || allItems.length === 0) {
       throw new Error('No items found');
     }
 
+    let items: InventoryItem[] = allItems;
+    let scopeLocationIds: string[] | null = null;
+
+    // Scope the run to one location: use its balances and par levels, and the
+    // usage actually issued there over the last 30 days
+    if (location_id) {
+      const { data: locations } = await supabase.from('locations').select('id, parent_id, name');
+      const location = locations?.find((l) => l.id === location_id);
+      if (!locations || !location) {
+        throw new Error('Location not found');
+      }
+      const locationIds = descendantLocationIds(locations, location_id);
+      scopeLocationIds = locationIds;
+
+      const { data: stockRows } = await supabase
+        .from('location_stock')
+        .select('item_id, quantity, min_required, max_capacity')
+        .in('location_id', locationIds)
+        .in('item_id', allItems.map((item) => item.id));
+
+      const since = new Date();
+      since.setDate(since.getDate() - 30);
+      const { data: issues } = await supabase
+        .from('stock_transactions')
+        .select('item_id, quantity')
+        .eq('transaction_type', 'issue')
+        .in('location_id', locationIds)
+        .gte('created_at', since.toISOString());
+
+      items = allItems.flatMap((item) => {
+        const rows = (stockRows || []).filter((row) => row.item_id === item.id);
+        if (rows.length === 0) return [];
+
+        const minRequired = rows.reduce((sum, row) => sum + row.min_required, 0);
+        const issued = (issues || [])
+          .filter((tx) => tx.item_id === item.id)
+          .reduce((sum, tx) => sum - tx.quantity, 0);
+        // Without local issue history, assume the location consumes in
+        // proportion to its share of the item's par level
+        const parShare = item.min_required > 0 ? Math.min(1, minRequired / item.min_required) : 0;
+        const dailyUsage = issued > 0 ? issued / 30 : item.avg_usage_per_day * parShare;
+
+        return [{
+          ...item,
+          current_stock: rows.reduce((sum, row) => sum + row.quantity, 0),
+          min_required: minRequired,
+          max_capacity: rows.reduce((sum, row) => sum + row.max_capacity, 0),
+          avg_usage_per_day: dailyUsage,
+          location_id,
+          location_name: location.name,
+        }];
+      });
+
+      if (items.length === 0) {
+        throw new Error('No items stocked at this location');
+      }
+    }
+
+    // Measured lead times replace the manual restock_lead_time where history exists
+    const [{ data: leadTimeStats }, { data: preferredVendors }] = await Promise.all([
+      supabase.from('lead_time_stats').select(LEAD_TIME_STATS_COLUMNS),
+      supabase.from('item_vendors').select('item_id, vendor_id').eq('is_preferred', true),
+    ]);
+    const resolveLeadTime = createLeadTimeResolver(
+      leadTimeStats || [],
+      new Map((preferredVendors || []).map((link) => [link.item_id, link.vendor_id]))
+    );
+
+    // Daily consumption history, summed over the locations in scope
+    const historyStart = new Date();
+    historyStart.setDate(historyStart.getDate() - HISTORY_DAYS);
+    const historyByItem = groupByItem(await fetchDailyConsumption(supabase, {
+      since: historyStart,
+      itemIds: items.map((item) => item.id),
+      locationIds: scopeLocationIds ?? undefined,
+    }));
+
+    const strategy = strategyOf(activeModel);
+
+    // Calendar events over the history and horizon, for the locations in
+    // scope, plus the regressor series if one was chosen
+    const horizonEnd = new Date();
+    horizonEnd.setDate(horizonEnd.getDate() + horizonDays);
+    const historyStartKey = historyStart.toISOString().slice(0, 10);
+    const horizonEndKey = horizonEnd.toISOString().slice(0, 10);
+    const calendarInputs = await fetchCalendarInputs(supabase, historyStartKey, horizonEndKey, regressor_id);
+    const { regressor } = calendarInputs;
+    const calendar: CalendarInputs = {
+      ...calendarInputs,
+      events: calendarInputs.events.filter(
+        (event) => !scopeLocationIds || !event.location_id || scopeLocationIds.includes(event.location_id)
+      ),
+    };
+
+    // Shadow models forecast the same items into prediction_history only, so
+    // their accuracy can be compared before promotion; they never drive
+    // predictions, alerts or ordering
+    const { data: shadowModels, error: shadowModelsError } = await supabase
+      .from('model_registry')
+      .select('id, model_version, hyperparameters')
+      .eq('is_shadow', true);
+    if (shadowModelsError) throw shadowModelsError;
+
+    const [
+      { data: classifications },
+      { data: alertRules, error: rulesError },
+      { data: lots, error: lotsError },
+      { data: openOrderLines, error: openOrdersError },
+    ] = await Promise.all([
+      supabase.from('item_classifications').select(ITEM_CLASS_COLUMNS),
+      supabase.from('alert_configurations').select(ALERT_RULE_COLUMNS),
+      // Dated lots in scope: what each lot holds across the locations of a
+      // scoped run, or its whole quantity hospital-wide
+      scopeLocationIds
+        ? supabase
+          .from('lot_location_stock')
+          .select('quantity, inventory_lots!inner(item_id, expiry_date)')
+          .gt('quantity', 0)
+          .in('location_id', scopeLocationIds)
+          .not('inventory_lots.expiry_date', 'is', null)
+          .in('inventory_lots.item_id', items.map((item) => item.id))
+        : supabase
+          .from('inventory_lots')
+          .select('item_id, expiry_date, quantity')
+          .gt('quantity', 0)
+          .not('expiry_date', 'is', null)
+          .in('item_id', items.map((item) => item.id)),
+      supabase
+        .from('purchase_order_lines')
+        .select(OPEN_ORDER_LINE_COLUMNS)
+        .in('purchase_orders.status', OPEN_PO_STATUSES)
+        .in('item_id', items.map((item) => item.id)),
+    ]);
+    if (rulesError) throw rulesError;
+    if (lotsError) throw lotsError;
+    if (openOrdersError) throw openOrdersError;
+    const classByItem = new Map(
+      ((classifications || []) as ItemClassRow[]).map((row) => [row.item_id, row])
+    );
+    const rulesFor = createAlertRuleResolver((alertRules || []) as AlertRuleRow[]);
+    // Managers' overrides stand in for the model's forecast on the days they
+    // cover, for the run's scope only (hospital-wide or this location)
+    const overridesFor = createOverrideResolver(await fetchActiveOverrides(supabase, items.map((item) => item.id)));
+    const lotsByItem = new Map<string, { expiry_date: string; quantity: number }[]>();
+    for (const row of (lots || []) as ScopedLotRow[]) {
+      const lot = row.inventory_lots ?? row;
+      const itemLots = lotsByItem.get(lot.item_id) ?? [];
+      itemLots.push({ expiry_date: lot.expiry_date as string, quantity: Number(row.quantity) });
+      lotsByItem.set(lot.item_id, itemLots);
+    }
+
+    // History runs through yesterday; today is still being consumed
+    const historyEnd = new Date();
+    historyEnd.setDate(historyEnd.getDate() - 1);
+
     const predictions = [];
     const alerts = [];
 
-    for (const item of items) {
-      const prediction = predictDemand(item);
-      
+    for (const baseItem of items) {
+      const leadTime = resolveLeadTime(baseItem);
+      const item = { ...baseItem, restock_lead_time: leadTime.days };
+
+      const series = buildDailySeries(historyByItem.get(item.id) ?? [], historyEnd);
+      const calendarForecast = forecastWithCalendar(series, historyEnd, horizonDays, strategy, calendar);
+      const forecast = calendarForecast?.result ?? averageUsageForecast(item.avg_usage_per_day, horizonDays);
+      const forecastEffects = calendarForecast?.effects ?? [];
+
+      // Intervals come from the smoothing model's errors once calendar
+      // effects are taken out, centred on the combined forecast
+      const intervals = calendarForecast
+        ? predictionIntervals(
+          calendarForecast.adjusted_series,
+          calendarForecast.base,
+          calendarForecast.future_effect
+        )
+        : null;
+
+      const estimatedDemand = forecast.forecast.reduce((sum, value) => sum + value, 0);
+      // estimated_demand stays the model's; everything that acts on the
+      // forecast uses it with overrides applied
+      const overridden = applyOverrides(forecast.forecast, overridesFor(item.id, item.location_id ?? null));
+      const dailyForecast = overridden.forecast;
+      const plannedDemand = dailyForecast.reduce((sum, value) => sum + value, 0);
+      // Open orders delivering into the scope of this run
+      const incoming = openOrderSupply((openOrderLines || []) as OpenOrderLine[], item, scopeLocationIds);
+      const projection = projectStock(item.current_stock, dailyForecast, incoming);
+      const risk = simulateStockoutRisk(
+        item,
+        dailyForecast,
+        dailyDemandStdDev(series, forecast),
+        leadTime,
+        incoming
+      );
+      const prediction = {
+        estimated_demand: estimatedDemand,
+        inventory_shortfall: Math.max(0, item.min_required - item.current_stock),
+        replenishment_needs: Math.max(0, plannedDemand - item.current_stock),
+        ...intervals?.total,
+        days_of_cover: projection.days_of_cover,
+        stockout_date: projection.stockout_date,
+        incoming_quantity: projection.incoming_quantity,
+        next_arrival_date: projection.next_arrival_date,
+        stockout_probability: risk.stockout_probability,
+        expected_units_short: risk.expected_units_short,
+        forecast_effects: forecastEffects,
+        override_id: overridden.override_id,
+        overridden_demand: overridden.override_id ? plannedDemand : null,
+      };
+
       // Store prediction
       const { data: predictionData, error: predError } = await supabase
         .from('predictions')
@@ -150,78 +461,389 @@ serve(async (req) => {
           replenishment_needs: prediction.replenishment_needs,
           inventory_shortfall: prediction.inventory_shortfall,
           predicted_by: user.id,
+          location_id: item.location_id ?? null,
+          horizon_days: horizonDays,
+          forecast_method: forecast.method,
+          ...intervals?.total,
+          days_of_cover: projection.days_of_cover,
+          stockout_date: projection.stockout_date,
+          incoming_quantity: projection.incoming_quantity,
+          next_arrival_date: projection.next_arrival_date,
+          stockout_probability: risk.stockout_probability,
+          expected_units_short: risk.expected_units_short,
+          forecast_effects: forecastEffects,
+          regressor_id: regressor?.id ?? null,
+          override_id: prediction.override_id,
+          overridden_demand: prediction.overridden_demand,
         })
         .select()
         .single();
 
-      if (!predError && predictionData) {
-        // Store detailed prediction history
-        await supabase.from('prediction_history').insert({
+      if (predError) throw predError;
+
+      const forecastRows = forecast.forecast.map((quantity, day) => {
+        const date = new Date();
+        date.setDate(date.getDate() + day + 1);
+        return {
+          prediction_id: predictionData.id,
+          item_id: item.id,
+          location_id: item.location_id ?? null,
+          forecast_date: date.toISOString().slice(0, 10),
+          forecast_quantity: quantity,
+          method: forecast.method,
+          ...intervals?.daily[day],
+          override_id: overridden.override_ids[day],
+          override_quantity: overridden.override_ids[day] ? dailyForecast[day] : null,
+        };
+      });
+      const { error: forecastError } = await supabase.from('demand_forecasts').insert(forecastRows);
+      if (forecastError) throw forecastError;
+
+      // Store detailed prediction history
+      const { error: historyError } = await supabase.from('prediction_history').insert({
+        item_id: item.id,
+        model_version_id: activeModel.id,
+        predicted_demand: prediction.estimated_demand,
+        ...intervals?.total,
+        feature_values: {
+          current_stock: item.current_stock,
+          min_required: item.min_required,
+          avg_usage_per_day: item.avg_usage_per_day,
+          restock_lead_time: item.restock_lead_time,
+          manual_restock_lead_time: baseItem.restock_lead_time,
+          lead_time_source: leadTime.source,
+          lead_time_samples: leadTime.sample_count,
+          lead_time_trend_days_per_30d: leadTime.trend_days_per_30d,
+          location_id: item.location_id ?? null,
+          horizon_days: horizonDays,
+          forecast_method: forecast.method,
+          forecast_strategy: strategy,
+          history_days: series.length,
+          residual_count: intervals?.residual_count ?? 0,
+          lead_time_variance: leadTime.variance,
+          demand_std_dev: risk.daily_std_dev,
+          simulation_runs: risk.runs,
+          mean_replenishment_days: risk.mean_replenishment_days,
+          calendar_events: calendar.events.length,
+          regressor_id: regressor?.id ?? null,
+          calendar_effects: forecastEffects.map((effect) => effect.kind),
+          override_id: overridden.override_id,
+        },
+        feature_contributions: forecast.params,
+        created_by: user.id,
+      });
+      if (historyError) throw historyError;
+
+      for (const shadowModel of (shadowModels || []) as RegisteredModel[]) {
+        const shadowStrategy = strategyOf(shadowModel);
+        const shadowCalendarForecast = forecastWithCalendar(series, historyEnd, horizonDays, shadowStrategy, calendar);
+        const shadowForecast = shadowCalendarForecast?.result
+          ?? averageUsageForecast(item.avg_usage_per_day, horizonDays);
+        const shadowIntervals = shadowCalendarForecast
+          ? predictionIntervals(
+            shadowCalendarForecast.adjusted_series,
+            shadowCalendarForecast.base,
+            shadowCalendarForecast.future_effect
+          )
+          : null;
+
+        const { error: shadowError } = await supabase.from('prediction_history').insert({
           item_id: item.id,
-          model_version_id: activeModel.id,
-          predicted_demand: prediction.estimated_demand,
-          confidence_score: 0.85, // Placeholder
+          model_version_id: shadowModel.id,
+          is_shadow: true,
+          predicted_demand: shadowForecast.forecast.reduce((sum, value) => sum + value, 0),
+          ...shadowIntervals?.total,
           feature_values: {
             current_stock: item.current_stock,
-            min_required: item.min_required,
-            avg_usage_per_day: item.avg_usage_per_day,
-            restock_lead_time: item.restock_lead_time,
+            location_id: item.location_id ?? null,
+            horizon_days: horizonDays,
+            forecast_method: shadowForecast.method,
+            forecast_strategy: shadowStrategy,
+            history_days: series.length,
+            residual_count: shadowIntervals?.residual_count ?? 0,
+            served_prediction_id: predictionData.id,
           },
-          feature_contributions: prediction.feature_contributions,
+          feature_contributions: shadowForecast.params,
           created_by: user.id,
         });
+        if (shadowError) throw shadowError;
+      }
+
+      predictions.push({
+        item_id: item.id,
+        ...prediction,
+        horizon_days: horizonDays,
+        forecast_method: forecast.method,
+        forecast: forecastRows.map(({ prediction_id: _predictionId, item_id: _itemId, location_id: _locationId, method: _method, ...day }) => day),
+      });
 
-        predictions.push({
+      // Check the item against its alert rules, with severity adjusted for
+      // how critical the item is clinically
+      const itemLabel = item.location_name ? `${item.item_name} @ ${item.location_name}` : item.item_name;
+      const itemClass = classByItem.get(item.id);
+      const triggered = evaluateAlertRules(rulesFor(item), {
+        current_stock: item.current_stock,
+        min_required: item.min_required,
+        daily_forecast: dailyForecast,
+        lots: lotsByItem.get(item.id) ?? [],
+        incoming,
+        stockout_risk: risk,
+      });
+
+      for (const alert of triggered) {
+        alerts.push({
+          alert_type: alert.rule.alert_type,
+          severity: severityForClass(alert.severity, itemClass?.ved_class),
+          title: `${ALERT_TITLES[alert.rule.alert_type] ?? 'Stock Alert'}: ${itemLabel}`,
+          message: alert.message,
           item_id: item.id,
-          ...prediction,
+          metadata: {
+            current_stock: item.current_stock,
+            min_required: item.min_required,
+            predicted_demand: plannedDemand,
+            override_id: overridden.override_id,
+            location_id: item.location_id ?? null,
+            abc_class: itemClass?.abc_class ?? null,
+            xyz_class: itemClass?.xyz_class ?? null,
+            ved_class: itemClass?.ved_class ?? null,
+            rule_id: alert.rule.id,
+            threshold_type: alert.rule.threshold_type,
+            threshold_value: alert.rule.threshold_value,
+            measured_value: Math.round(alert.value * 100) / 100,
+            recipient_roles: alert.rule.recipient_roles,
+            notification_channels: alert.rule.notification_channels,
+          },
         });
+      }
+    }
+
+    // Most at risk first
+    predictions.sort((a, b) => b.stockout_probability - a.stockout_probability);
 
-        // Generate alerts based on thresholds
-        const stockPercentage = (item.current_stock / item.min_required) * 100;
-        
-        if (stockPercentage < 10) {
-          alerts.push({
-            alert_type: 'critical_stock',
-            severity: 'critical',
-            title: `Critical Stock Alert: ${item.item_name}`,
-            message: `Item is at ${stockPercentage.toFixed(1)}% of minimum required. Immediate action needed.`,
-            item_id: item.id,
-            metadata: {
-              current_stock: item.current_stock,
-              min_required: item.min_required,
-              predicted_demand: prediction.estimated_demand,
-            },
-          });
-        } else if (stockPercentage < 20) {
-          alerts.push({
-            alert_type: 'low_stock',
-            severity: 'warning',
-            title: `Low Stock Warning: ${item.item_name}`,
-            message: `Item is at ${stockPercentage.toFixed(1)}% of minimum required. Consider restocking soon.`,
-            item_id: item.id,
-            metadata: {
-              current_stock: item.current_stock,
-              min_required: item.min_required,
-              predicted_demand: prediction.estimated_demand,
-            },
-          });
+    // Usage anomalies per item and location. Newly found ones are recorded
+    // for labelling and raised as alerts; days labelled as errors or theft
+    // stay out of the baseline they are judged against.
+    const [{ data: nonUsageDays }, { data: locationNames }] = await Promise.all([
+      supabase
+        .from('usage_anomalies')
+        .select('item_id, location_id, consumption_date')
+        .in('label', NON_USAGE_LABELS)
+        .in('item_id', items.map((item) => item.id))
+        .gte('consumption_date', historyStart.toISOString().slice(0, 10)),
+      supabase.from('locations').select('id, name'),
+    ]);
+    const locationName = new Map((locationNames || []).map((location) => [location.id, location.name]));
+    const excludedDates = new Map<string, Set<string>>();
+    for (const day of nonUsageDays || []) {
+      const key = `${day.item_id}:${day.location_id ?? ''}`;
+      excludedDates.set(key, (excludedDates.get(key) ?? new Set()).add(day.consumption_date));
+    }
+
+    type ItemAnomaly = UsageAnomaly & { item_id: string; location_id: string | null };
+    const detectedAnomalies: ItemAnomaly[] = [];
+    for (const item of new Map(items.map((item) => [item.id, item])).values()) {
+      const rowsByLocation = new Map<string | null, { consumption_date: string; quantity: number }[]>();
+      for (const row of historyByItem.get(item.id) ?? []) {
+        rowsByLocation.set(row.location_id, [...(rowsByLocation.get(row.location_id) ?? []), row]);
+      }
+      for (const [locationId, rows] of rowsByLocation) {
+        const found = detectUsageAnomalies(rows, historyEnd, excludedDates.get(`${item.id}:${locationId ?? ''}`));
+        detectedAnomalies.push(...found.map((anomaly) => ({ ...anomaly, item_id: item.id, location_id: locationId })));
+      }
+    }
+
+    let newAnomalies: (ItemAnomaly & { id: string })[] = [];
+    if (detectedAnomalies.length > 0) {
+      const { data: inserted, error: anomalyError } = await supabase
+        .from('usage_anomalies')
+        .upsert(detectedAnomalies, { onConflict: 'item_id,location_id,consumption_date', ignoreDuplicates: true })
+        .select('*');
+      if (anomalyError) throw anomalyError;
+      newAnomalies = inserted || [];
+    }
+
+    const itemById = new Map(items.map((item) => [item.id, item]));
+    // Oldest first, so the latest anomaly of a condition is the one its alert shows
+    const anomaliesByDate = [...newAnomalies].sort((a, b) => a.consumption_date.localeCompare(b.consumption_date));
+    for (const anomaly of anomaliesByDate) {
+      const item = itemById.get(anomaly.item_id);
+      if (!item) continue;
+      const place = anomaly.location_id ? locationName.get(anomaly.location_id) : null;
+      const itemLabel = place ? `${item.item_name} @ ${place}` : item.item_name;
+      const itemClass = classByItem.get(item.id);
+      alerts.push({
+        alert_type: 'usage_anomaly',
+        severity: severityForClass('warning', itemClass?.ved_class),
+        title: `${ALERT_TITLES.usage_anomaly}: ${itemLabel}`,
+        message:
+          `${anomaly.direction === 'spike' ? 'Usage spike' : 'Usage drop'} on ${anomaly.consumption_date}: ` +
+          `${anomaly.observed_quantity} used, expected ${anomaly.expected_low}–${anomaly.expected_high}`,
+        item_id: item.id,
+        metadata: {
+          anomaly_id: anomaly.id,
+          location_id: anomaly.location_id,
+          consumption_date: anomaly.consumption_date,
+          direction: anomaly.direction,
+          observed_quantity: anomaly.observed_quantity,
+          expected_quantity: anomaly.expected_quantity,
+          expected_low: anomaly.expected_low,
+          expected_high: anomaly.expected_high,
+          robust_z: anomaly.robust_z,
+          recipient_roles: ['admin', 'inventory_manager'],
+          notification_channels: ['in_app'],
+          abc_class: itemClass?.abc_class ?? null,
+          xyz_class: itemClass?.xyz_class ?? null,
+          ved_class: itemClass?.ved_class ?? null,
+        },
+      });
+    }
+
+    // Alerts whose snooze has run out are open again
+    const { error: snoozeError } = await supabase
+      .from('alerts_history')
+      .update({ status: 'open', snoozed_until: null })
+      .eq('status', 'snoozed')
+      .lte('snoozed_until', new Date().toISOString());
+    if (snoozeError) throw snoozeError;
+
+    // An alert still unresolved for the same condition counts the recurrence
+    // instead of raising a duplicate (a snoozed one stays snoozed). A
+    // condition that was resolved and has come back reopens its alert.
+    // current_alert_conditions holds one alert per condition, paged since
+    // PostgREST caps a response at 1000 rows.
+    const latestByCondition = new Map<string, ExistingAlert>();
+    for (let offset = 0; ; offset += ALERT_PAGE_SIZE) {
+      const { data: page, error: existingError } = await supabase
+        .from('current_alert_conditions')
+        .select('id, item_id, alert_type, status, severity, reopened_count, occurrence_count, recipient_roles, metadata')
+        .in('item_id', items.map((item) => item.id))
+        .order('id')
+        .range(offset, offset + ALERT_PAGE_SIZE - 1);
+      if (existingError) throw existingError;
+      for (const existing of (page || []) as ExistingAlert[]) {
+        latestByCondition.set(alertConditionKey(existing), existing);
+      }
+      if (!page || page.length < ALERT_PAGE_SIZE) break;
+    }
+
+    // Alerts raised more than once for one condition in this run (usage
+    // anomalies on several days) are one alert: the last raised stands and
+    // the others count as its occurrences
+    const alertsByCondition = new Map<string, { alert: (typeof alerts)[number]; occurrences: number }>();
+    for (const alert of alerts) {
+      const key = alertConditionKey(alert);
+      alertsByCondition.set(key, { alert, occurrences: (alertsByCondition.get(key)?.occurrences ?? 0) + 1 });
+    }
+
+    const newAlerts = [];
+    let reopenedCount = 0;
+    let recurringCount = 0;
+    const now = new Date().toISOString();
+    for (const { alert, occurrences } of alertsByCondition.values()) {
+      const latest = latestByCondition.get(alertConditionKey(alert));
+      const recipientRoles = alert.metadata.recipient_roles ?? ['admin', 'inventory_manager'];
+      if (latest && latest.status !== 'resolved') {
+        // Escalation may have raised the severity; a recurrence never lowers it
+        const { error: recurError } = await supabase
+          .from('alerts_history')
+          .update({
+            occurrence_count: latest.occurrence_count + occurrences,
+            last_seen_at: now,
+            severity: higherSeverity(latest.severity as AlertSeverity, alert.severity),
+            title: alert.title,
+            message: alert.message,
+            metadata: alert.metadata,
+            recipient_roles: [...new Set([...latest.recipient_roles, ...recipientRoles])],
+          })
+          .eq('id', latest.id);
+        if (recurError) throw recurError;
+        recurringCount++;
+        continue;
+      }
+      if (latest?.status === 'resolved') {
+        const { error: reopenError } = await supabase
+          .from('alerts_history')
+          .update({
+            status: 'open',
+            opened_at: now,
+            acknowledged_at: null,
+            acknowledged_by: null,
+            resolved_at: null,
+            resolved_by: null,
+            resolution_note: null,
+            reopened_count: latest.reopened_count + 1,
+            occurrence_count: occurrences,
+            last_seen_at: now,
+            is_read: false,
+            severity: alert.severity,
+            title: alert.title,
+            message: alert.message,
+            metadata: alert.metadata,
+            recipient_roles: recipientRoles,
+          })
+          .eq('id', latest.id);
+        if (reopenError) throw reopenError;
+        reopenedCount++;
+        continue;
+      }
+      newAlerts.push({ ...alert, recipient_roles: recipientRoles, occurrence_count: occurrences });
+    }
+
+    // Batch insert alerts. A prediction run working at the same time may have
+    // raised the same condition since it was looked up, which the unresolved
+    // condition index rejects; then insert one by one and skip those, rather
+    // than lose the whole batch.
+    let insertedCount = newAlerts.length;
+    if (newAlerts.length > 0) {
+      const { error: insertError } = await supabase.from('alerts_history').insert(newAlerts);
+      if (insertError?.code === UNIQUE_VIOLATION) {
+        insertedCount = 0;
+        for (const alert of newAlerts) {
+          const { error: singleError } = await supabase.from('alerts_history').insert(alert);
+          if (!singleError) {
+            insertedCount++;
+          } else if (singleError.code !== UNIQUE_VIOLATION) {
+            throw singleError;
+          }
         }
+      } else if (insertError) {
+        throw insertError;
       }
     }
 
-    // Batch insert alerts
-    if (alerts.length > 0) {
-      await supabase.from('alerts_history').insert(alerts);
+    // Alerts left unacknowledged past their escalation policy go up a level
+    const { data: escalatedCount, error: escalateError } = await supabase.rpc('escalate_alerts');
+    if (escalateError) throw escalateError;
+
+    // Notify recipients of new and escalated alerts. A delivery problem is
+    // retried by the dispatcher and must not fail the prediction run.
+    let notifications: DispatchSummary | null = null;
+    try {
+      notifications = await dispatchNotifications(supabase);
+    } catch (dispatchError) {
+      console.error('Error dispatching notifications:', dispatchError);
     }
 
-    console.log(`Generated ${predictions.length} predictions and ${alerts.length} alerts`);
+    console.log(
+      `Generated ${predictions.length} predictions and ${insertedCount} alerts, ` +
+        `updated ${recurringCount}, reopened ${reopenedCount}, escalated ${escalatedCount ?? 0}`
+    );
 
     return new Response(
       JSON.stringify({ 
         success: true, 
         predictions,
-        alerts_generated: alerts.length,
+        alerts_generated: insertedCount,
+        alerts_reopened: reopenedCount,
+        alerts_recurring: recurringCount,
+        alerts_escalated: escalatedCount ?? 0,
+        anomalies_detected: newAnomalies.length,
+        notifications,
         model_version: activeModel.model_version,
+        shadow_model_versions: (shadowModels || []).map((model) => model.model_version),
+        location_id: location_id ?? null,
+        horizon_days: horizonDays,
+        regressor_id: regressor?.id ?? null,
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
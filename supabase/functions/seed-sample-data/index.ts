@@ -18,13 +18,79 @@ serve(async (req) => {
 
     console.log("Starting data seeding...");
 
-    // Vendor mapping from vendor_data.csv
-    const vendorMap: Record<string, string> = {
-      "V001": "MedSupplies Inc.",
-      "V002": "EquipMed Co.",
-      "V003": "HealthTools Ltd."
+    // Vendors from vendor_data.csv. Vendors migrated from existing items were
+    // given codes in name order, so a vendor that already exists keeps its
+    // code and a new one takes the next free code if its usual one is taken.
+    const { data: existingVendors, error: existingVendorError } = await supabase
+      .from("vendors")
+      .select("name, vendor_code");
+
+    if (existingVendorError) {
+      console.error("Error loading vendors:", existingVendorError);
+      throw existingVendorError;
+    }
+
+    const codeByName = new Map((existingVendors || []).map((vendor) => [vendor.name, vendor.vendor_code]));
+    const takenCodes = new Set(codeByName.values());
+    const vendorCode = (name: string, preferred: string) => {
+      const existing = codeByName.get(name);
+      if (existing) return existing;
+      let code = preferred;
+      for (let n = 1; takenCodes.has(code); n++) {
+        code = `V${String(n).padStart(3, "0")}`;
+      }
+      takenCodes.add(code);
+      return code;
     };
 
+    // Items below refer to their vendor by seed_code, which is the vendor_code
+    // on a fresh database
+    const vendorSeeds = [
+      {
+        seed_code: "V001",
+        name: "MedSupplies Inc.",
+        contact_name: "Priya Nair",
+        email: "orders@medsupplies.example",
+        phone: "+1 555 0101",
+        default_lead_time_days: 10,
+        minimum_order_value: 500,
+        payment_terms: "Net 30",
+      },
+      {
+        seed_code: "V002",
+        name: "EquipMed Co.",
+        contact_name: "Daniel Okafor",
+        email: "sales@equipmed.example",
+        phone: "+1 555 0102",
+        default_lead_time_days: 14,
+        minimum_order_value: 1000,
+        payment_terms: "Net 45",
+      },
+      {
+        seed_code: "V003",
+        name: "HealthTools Ltd.",
+        contact_name: "Mei Tanaka",
+        email: "supply@healthtools.example",
+        phone: "+1 555 0103",
+        default_lead_time_days: 18,
+        minimum_order_value: 750,
+        payment_terms: "Net 30",
+      },
+    ];
+
+    const { data: seededVendors, error: vendorError } = await supabase
+      .from("vendors")
+      .upsert(
+        vendorSeeds.map(({ seed_code, ...vendor }) => ({ ...vendor, vendor_code: vendorCode(vendor.name, seed_code) })),
+        { onConflict: "name" }
+      )
+      .select();
+
+    if (vendorError) {
+      console.error("Error inserting vendors:", vendorError);
+      throw vendorError;
+    }
+
     // Real inventory data from inventory_data.csv (sample representative items)
     const inventoryItems = [
       {
@@ -36,7 +102,7 @@ serve(async (req) => {
         unit_cost: 5832.29,
         avg_usage_per_day: 55,
         restock_lead_time: 12,
-        vendor_name: "MedSupplies Inc."
+        vendor_seed_code: "V001"
       },
       {
         item_name: "Surgical Mask",
@@ -47,7 +113,7 @@ serve(async (req) => {
         unit_cost: 16062.98,
         avg_usage_per_day: 470,
         restock_lead_time: 6,
-        vendor_name: "MedSupplies Inc."
+        vendor_seed_code: "V001"
       },
       {
         item_name: "IV Drip",
@@ -58,7 +124,7 @@ serve(async (req) => {
         unit_cost: 15426.53,
         avg_usage_per_day: 158,
         restock_lead_time: 12,
-        vendor_name: "HealthTools Ltd."
+        vendor_seed_code: "V003"
       },
       {
         item_name: "Gloves",
@@ -69,7 +135,7 @@ serve(async (req) => {
         unit_cost: 2729.08,
         avg_usage_per_day: 418,
         restock_lead_time: 5,
-        vendor_name: "EquipMed Co."
+        vendor_seed_code: "V002"
       },
       {
         item_name: "X-ray Machine",
@@ -80,7 +146,7 @@ serve(async (req) => {
         unit_cost: 10669.37,
         avg_usage_per_day: 244,
         restock_lead_time: 2,
-        vendor_name: "MedSupplies Inc."
+        vendor_seed_code: "V001"
       },
       {
         item_name: "Bandages",
@@ -91,7 +157,7 @@ serve(async (req) => {
         unit_cost: 125.50,
         avg_usage_per_day: 95,
         restock_lead_time: 10,
-        vendor_name: "HealthTools Ltd."
+        vendor_seed_code: "V003"
       },
       {
         item_name: "Syringes",
@@ -102,7 +168,7 @@ serve(async (req) => {
         unit_cost: 744.10,
         avg_usage_per_day: 207,
         restock_lead_time: 15,
-        vendor_name: "EquipMed Co."
+        vendor_seed_code: "V002"
       },
       {
         item_name: "Oxygen Tanks",
@@ -113,14 +179,14 @@ serve(async (req) => {
         unit_cost: 8500.00,
         avg_usage_per_day: 8,
         restock_lead_time: 20,
-        vendor_name: "HealthTools Ltd."
+        vendor_seed_code: "V003"
       }
     ];
 
-    // Insert inventory items
-    const { data: insertedItems, error: inventoryError } = await supabase
+    // Insert inventory items with zero stock; balances come from the ledger
+    const { data: createdItems, error: inventoryError } = await supabase
       .from("inventory_items")
-      .insert(inventoryItems)
+      .insert(inventoryItems.map(({ vendor_seed_code: _vendorSeedCode, ...item }) => ({ ...item, current_stock: 0 })))
       .select();
 
     if (inventoryError) {
@@ -128,47 +194,162 @@ serve(async (req) => {
       throw inventoryError;
     }
 
-    console.log(`Inserted ${insertedItems?.length} inventory items`);
+    console.log(`Inserted ${createdItems?.length} inventory items`);
+
+    // Link each item to its vendor as the preferred source
+    const { error: itemVendorError } = await supabase
+      .from("item_vendors")
+      .insert(
+        (createdItems || []).map((item) => {
+          const seed = inventoryItems.find((row) => row.item_name === item.item_name)!;
+          const vendorName = vendorSeeds.find((vendor) => vendor.seed_code === seed.vendor_seed_code)!.name;
+          const vendor = seededVendors!.find((row) => row.name === vendorName)!;
+          return {
+            item_id: item.id,
+            vendor_id: vendor.id,
+            vendor_sku: `${vendor.vendor_code}-${item.item_name.replace(/\W/g, "").slice(0, 6).toUpperCase()}`,
+            unit_price: item.unit_cost,
+            is_preferred: true,
+          };
+        })
+      );
+
+    if (itemVendorError) {
+      console.error("Error linking vendors:", itemVendorError);
+      throw itemVendorError;
+    }
+
+    // Consumables arrive in lots with staggered expiry dates
+    const consumables = (createdItems || []).filter((item) => item.item_type === "Consumable");
+    const { data: seededLots, error: lotError } = await supabase
+      .from("inventory_lots")
+      .insert(
+        consumables.map((item, index) => {
+          const expiry = new Date();
+          expiry.setDate(expiry.getDate() + 20 + index * 45);
+          return {
+            item_id: item.id,
+            lot_number: `LOT-${item.item_name.replace(/\W/g, "").slice(0, 4).toUpperCase()}-001`,
+            expiry_date: expiry.toISOString().slice(0, 10),
+          };
+        })
+      )
+      .select();
+
+    if (lotError) {
+      console.error("Error inserting lots:", lotError);
+      throw lotError;
+    }
 
-    // Insert model registry entry (from PDF: Validation MAE: 215.72, Test MAE: 157.17)
+    // Consumption history so forecasting has something to learn from: a
+    // weekday pattern with noise, and sporadic demand for low-volume items.
+    // Seeded PRNG keeps the sample data identical between runs.
+    let rngState = 42;
+    const random = () => {
+      rngState = (rngState + 0x6d2b79f5) | 0;
+      let t = Math.imul(rngState ^ (rngState >>> 15), 1 | rngState);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const historyDays = 120;
+    const weekdayFactor = [0.6, 1.15, 1.2, 1.15, 1.1, 1.05, 0.75];
+    const historyStart = new Date();
+    historyStart.setUTCHours(8, 0, 0, 0);
+    historyStart.setUTCDate(historyStart.getUTCDate() - historyDays);
+
+    const consumptionHistory = (createdItems || []).flatMap((item) => {
+      const intermittent = item.avg_usage_per_day < 20;
+      return Array.from({ length: historyDays }, (_, index) => {
+        const day = new Date(historyStart);
+        day.setUTCDate(day.getUTCDate() + index);
+        day.setUTCHours(14);
+        let quantity: number;
+        if (intermittent) {
+          quantity = random() < 0.35 ? Math.round((item.avg_usage_per_day / 0.35) * (0.5 + random())) : 0;
+        } else {
+          const trend = 0.9 + (0.2 * index) / historyDays;
+          const noise = 0.8 + 0.4 * random();
+          quantity = Math.round(item.avg_usage_per_day * weekdayFactor[day.getUTCDay()] * trend * noise);
+        }
+        return { item, day, quantity };
+      }).filter((entry) => entry.quantity > 0);
+    });
+
+    // Book the opening stock as receipts in the stock ledger, dated before the
+    // history and large enough to cover it
+    const openingReceipts = (createdItems || []).map((item) => ({
+      item_id: item.id,
+      lot_id: seededLots?.find((lot) => lot.item_id === item.id)?.id ?? null,
+      transaction_type: "receipt",
+      quantity:
+        inventoryItems.find((seed) => seed.item_name === item.item_name)!.current_stock +
+        consumptionHistory
+          .filter((entry) => entry.item.id === item.id)
+          .reduce((sum, entry) => sum + entry.quantity, 0),
+      reason: "Opening stock (sample data)",
+      created_at: historyStart.toISOString(),
+    }));
+
+    const { error: ledgerError } = await supabase
+      .from("stock_transactions")
+      .insert(openingReceipts);
+
+    if (ledgerError) {
+      console.error("Error inserting stock transactions:", ledgerError);
+      throw ledgerError;
+    }
+
+    console.log(`Inserted ${openingReceipts.length} opening stock receipts`);
+
+    // Insert in date order so running balances read correctly
+    const historyIssues = consumptionHistory
+      .sort((a, b) => a.day.getTime() - b.day.getTime())
+      .map(({ item, day, quantity }) => ({
+        item_id: item.id,
+        lot_id: seededLots?.find((lot) => lot.item_id === item.id)?.id ?? null,
+        transaction_type: "issue",
+        quantity: -quantity,
+        reason: "Ward usage (sample data)",
+        created_at: day.toISOString(),
+      }));
+
+    const { error: historyError } = await supabase
+      .from("stock_transactions")
+      .insert(historyIssues);
+
+    if (historyError) {
+      console.error("Error inserting consumption history:", historyError);
+      throw historyError;
+    }
+
+    console.log(`Inserted ${historyIssues.length} historical issues`);
+
+    const { data: insertedItems, error: refreshError } = await supabase
+      .from("inventory_items")
+      .select()
+      .in("id", (createdItems || []).map((item) => item.id));
+
+    if (refreshError) {
+      console.error("Error reloading inventory:", refreshError);
+      throw refreshError;
+    }
+
+    // Predictions are recorded against the active model. The baseline
+    // migration registers v1.0.0 as active, and at most one model can be
+    // active, so the seed uses it rather than registering another.
     const { data: modelData, error: modelError } = await supabase
       .from("model_registry")
-      .insert({
-        model_version: "v1.0.0",
-        model_type: "GradientBoosting",
-        mae: 157.17,
-        rmse: 215.72,
-        r2_score: 0.92,
-        training_date: new Date().toISOString(),
-        is_active: true,
-        feature_importance: {
-          "Avg_Usage_Per_Day": 0.45,
-          "Restock_Lead_Time": 0.30,
-          "Current_Stock": 0.15,
-          "Unit_Cost": 0.10
-        },
-        hyperparameters: {
-          "n_estimators": 100,
-          "learning_rate": 0.1,
-          "max_depth": 3,
-          "random_state": 42
-        },
-        dataset_summary: {
-          "total_samples": 500,
-          "train_samples": 350,
-          "val_samples": 75,
-          "test_samples": 75
-        }
-      })
       .select()
-      .single();
+      .eq("is_active", true)
+      .maybeSingle();
 
     if (modelError) {
-      console.error("Error inserting model:", modelError);
+      console.error("Error loading active model:", modelError);
       throw modelError;
     }
-
-    console.log("Inserted model registry entry");
+    if (!modelData) {
+      throw new Error("No active model found");
+    }
 
     // Create predictions for each item
     if (insertedItems && modelData) {
@@ -181,7 +362,6 @@ serve(async (req) => {
           item_id: item.id,
           model_version_id: modelData.id,
           predicted_demand: estimatedDemand,
-          confidence_score: 0.85 + Math.random() * 0.1,
           feature_values: {
             avg_usage_per_day: item.avg_usage_per_day,
             restock_lead_time: item.restock_lead_time,
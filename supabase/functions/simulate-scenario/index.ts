@@ -0,0 +1,375 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { createLeadTimeResolver, LEAD_TIME_STATS_COLUMNS } from "../_shared/leadTime.ts";
+import { COST_PARAMETER_COLUMNS, createCostParameterResolver } from "../_shared/costParameters.ts";
+import { fetchDailyConsumption, groupByItem } from "../_shared/consumption.ts";
+import { buildDailySeries } from "../_shared/forecasting.ts";
+import { ITEM_CLASS_COLUMNS, itemClassKey } from "../_shared/classification.ts";
+import {
+  createOverrideResolver,
+  fetchActiveOverrides,
+  overrideDemandStats,
+  overrideOn,
+} from "../_shared/forecastOverrides.ts";
+import {
+  createPricingResolver,
+  DEMAND_HISTORY_DAYS,
+  demandStats,
+  optimizeAll,
+  prepare,
+  PREFERRED_VENDOR_COLUMNS,
+  ReorderItem,
+} from "../_shared/reorderPolicy.ts";
+import {
+  OPEN_ORDER_LINE_COLUMNS,
+  OPEN_PO_STATUSES,
+  OpenOrderLine,
+  openOrderSupply,
+} from "../_shared/stockProjection.ts";
+import {
+  demandMultiplierOn,
+  ItemSimulation,
+  leadTimeShockOn,
+  ScenarioDefinition,
+  simulateItem,
+} from "../_shared/scenarioSimulation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SimulationRequest {
+  scenario_id: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// PostgREST caps a response at 1000 rows
+const PAGE_SIZE = 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+type RunSummary = ReturnType<typeof summarizeRun>;
+
+function summarizeRun(run: ItemSimulation, dateOf: (day: number) => string) {
+  return {
+    stockout_date: run.stockout_day === null ? null : dateOf(run.stockout_day),
+    stockout_days: run.stockout_days,
+    units_short: round(run.units_short),
+    order_count: run.orders.length,
+    order_quantity: run.orders.reduce((sum, order) => sum + order.quantity, 0),
+    spend: round(run.spend),
+    ending_stock: round(run.ending_stock),
+  };
+}
+
+// Replays the current forecast, stock and open orders through the reorder
+// policy calculate-cost-optimization would set today, once as forecast and
+// once under the scenario, and stores the comparison on the scenario
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: roles } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id);
+    if (!roles?.some((r) => r.role === 'admin' || r.role === 'inventory_manager')) {
+      throw new Error('Only admins and inventory managers can run scenarios');
+    }
+
+    const { scenario_id }: SimulationRequest = await req.json();
+
+    const { data: scenarioRow, error: scenarioError } = await supabase
+      .from('demand_scenarios')
+      .select('id, name, horizon_days, demand_multipliers, lead_time_shocks')
+      .eq('id', scenario_id)
+      .maybeSingle();
+    if (scenarioError) throw new Error(scenarioError.message);
+    if (!scenarioRow) throw new Error('Scenario not found');
+    const scenario = scenarioRow as ScenarioDefinition & { id: string; name: string };
+
+    const { data: items, error: itemsError } = await supabase.from('inventory_items').select('*');
+    if (itemsError || !items || items.length === 0) {
+      throw new Error('No items found');
+    }
+    const itemIds = items.map((item) => item.id);
+
+    const [
+      { data: leadTimeStats },
+      { data: preferredVendors },
+      { data: costParameters, error: costError },
+      { data: classifications },
+    ] = await Promise.all([
+      supabase.from('lead_time_stats').select(LEAD_TIME_STATS_COLUMNS),
+      supabase.from('item_vendors').select(PREFERRED_VENDOR_COLUMNS).eq('is_preferred', true),
+      supabase.from('cost_parameters').select(COST_PARAMETER_COLUMNS),
+      supabase.from('item_classifications').select(ITEM_CLASS_COLUMNS),
+    ]);
+    if (costError) throw costError;
+
+    // The latest hospital-wide forecast run for each item
+    const latestPredictionIds = new Set<string>();
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: page, error: projectionsError } = await supabase
+        .from('latest_stock_projections')
+        .select('item_id, prediction_id')
+        .is('location_id', null)
+        .order('item_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (projectionsError) throw projectionsError;
+      for (const projection of page || []) {
+        if (projection.prediction_id) latestPredictionIds.add(projection.prediction_id);
+      }
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    const openOrderLines: OpenOrderLine[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: page, error: openOrdersError } = await supabase
+        .from('purchase_order_lines')
+        .select(OPEN_ORDER_LINE_COLUMNS)
+        .in('purchase_orders.status', OPEN_PO_STATUSES)
+        .in('item_id', itemIds)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (openOrdersError) throw openOrdersError;
+      openOrderLines.push(...((page || []) as OpenOrderLine[]));
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    const classByItem = new Map((classifications || []).map((row) => [row.item_id, itemClassKey(row)]));
+    const resolveLeadTime = createLeadTimeResolver(
+      leadTimeStats || [],
+      new Map((preferredVendors || []).map((link) => [link.item_id, link.vendor_id]))
+    );
+    const resolveCosts = createCostParameterResolver(costParameters || []);
+    const pricingFor = createPricingResolver(preferredVendors || []);
+
+    const today = new Date(new Date().toISOString().slice(0, 10));
+    const dateOf = (day: number) => new Date(today.getTime() + day * DAY_MS).toISOString().slice(0, 10);
+    const dayOf = (date: string) => Math.round((new Date(date).getTime() - today.getTime()) / DAY_MS);
+    const horizonDays = scenario.horizon_days;
+
+    // Hospital-wide forecast days over the horizon, kept where they belong to
+    // an item's latest run. Filtered by date rather than by a list of
+    // prediction ids, which would not fit in the URL.
+    const forecastByItem = new Map<string, Map<string, number>>();
+    for (let offset = 0; latestPredictionIds.size > 0; offset += PAGE_SIZE) {
+      const { data: forecastRows, error: forecastError } = await supabase
+        .from('demand_forecasts')
+        .select('prediction_id, item_id, forecast_date, forecast_quantity')
+        .is('location_id', null)
+        .gte('forecast_date', dateOf(1))
+        .lte('forecast_date', dateOf(horizonDays))
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (forecastError) throw new Error(forecastError.message);
+      for (const row of forecastRows || []) {
+        if (!latestPredictionIds.has(row.prediction_id)) continue;
+        const itemForecast = forecastByItem.get(row.item_id) ?? new Map<string, number>();
+        itemForecast.set(row.forecast_date, Number(row.forecast_quantity));
+        forecastByItem.set(row.item_id, itemForecast);
+      }
+      if (!forecastRows || forecastRows.length < PAGE_SIZE) break;
+    }
+
+    // Demand history across all locations, through yesterday, for the
+    // reorder policy and for each location's share of an item's demand
+    const historyStart = new Date();
+    historyStart.setDate(historyStart.getDate() - DEMAND_HISTORY_DAYS);
+    const historyEnd = new Date();
+    historyEnd.setDate(historyEnd.getDate() - 1);
+    const historyByItem = groupByItem(await fetchDailyConsumption(supabase, { since: historyStart, itemIds }));
+    // Hospital-wide overrides take precedence over both
+    const overridesFor = createOverrideResolver(await fetchActiveOverrides(supabase, itemIds));
+
+    const inputs = (items as ReorderItem[]).map((item) => {
+      const leadTime = resolveLeadTime(item);
+      return {
+        item,
+        leadTime,
+        demand: overrideDemandStats(
+          demandStats(item, buildDailySeries(historyByItem.get(item.id) ?? [], historyEnd)),
+          overridesFor(item.id, null),
+          leadTime.days
+        ),
+      };
+    });
+    // The policy as it stands, without shared storage or budget limits
+    const policies = optimizeAll(
+      inputs.map(({ item, leadTime, demand }) =>
+        prepare(item, demand, leadTime, resolveCosts(item, classByItem.get(item.id) ?? null), pricingFor(item))
+      ),
+      null,
+      null
+    );
+
+    const simulatedItems = [];
+    // Every item's runs, for totals across the whole catalogue
+    const allRuns: { baseline: RunSummary; scenario: RunSummary; extra_spend: number }[] = [];
+    for (const [index, { item, leadTime, demand }] of inputs.entries()) {
+      const policy = policies[index];
+
+      // A manager's override where one is in force, otherwise the forecast,
+      // falling back to the forecast's mean beyond its horizon, or the
+      // measured mean with no forecast
+      const itemForecast = forecastByItem.get(item.id);
+      const forecastValues = itemForecast ? [...itemForecast.values()] : [];
+      const fallback = forecastValues.length > 0
+        ? forecastValues.reduce((sum, value) => sum + value, 0) / forecastValues.length
+        : demand.mean;
+      const itemOverrides = overridesFor(item.id, null);
+      const baseDemand = Array.from(
+        { length: horizonDays },
+        (_, i) =>
+          overrideOn(itemOverrides, dateOf(i + 1))?.daily_quantity ?? itemForecast?.get(dateOf(i + 1)) ?? fallback
+      );
+
+      const rows = historyByItem.get(item.id) ?? [];
+      const totalUsed = rows.reduce((sum, row) => sum + row.quantity, 0);
+      const locationShares = new Map<string, number>();
+      for (const row of rows) {
+        if (row.location_id && totalUsed > 0) {
+          locationShares.set(row.location_id, (locationShares.get(row.location_id) ?? 0) + row.quantity / totalUsed);
+        }
+      }
+
+      const incoming = openOrderSupply(openOrderLines, {
+        id: item.id,
+        restock_lead_time: leadTime.days,
+      }).map((supply) => ({ day: Math.max(dayOf(supply.arrival_date), 1), quantity: supply.quantity }));
+
+      const common = {
+        current_stock: item.current_stock,
+        incoming,
+        reorder_point: policy.reorder_point,
+        order_quantity: policy.optimal_order_quantity,
+        unit_price: policy.parameters.unit_price,
+      };
+      const baseline = simulateItem({ ...common, daily_demand: baseDemand, lead_time_on: () => leadTime.days });
+      const scenarioDemand = baseDemand.map(
+        (value, i) => value * demandMultiplierOn(i + 1, item, scenario.demand_multipliers, locationShares)
+      );
+      const shocked = simulateItem({
+        ...common,
+        daily_demand: scenarioDemand,
+        lead_time_on: (day) => leadTime.days + leadTimeShockOn(day, item, scenario.lead_time_shocks),
+      });
+
+      const runs = {
+        baseline: summarizeRun(baseline, dateOf),
+        scenario: summarizeRun(shocked, dateOf),
+        extra_spend: round(shocked.spend - baseline.spend),
+      };
+      allRuns.push(runs);
+
+      const changed =
+        shocked.orders.length !== baseline.orders.length ||
+        Math.abs(shocked.units_short - baseline.units_short) >= 0.005 ||
+        Math.abs(shocked.spend - baseline.spend) >= 0.005;
+      if (!changed && shocked.stockout_day === null) continue;
+
+      simulatedItems.push({
+        item_id: item.id,
+        item_name: item.item_name,
+        item_type: item.item_type,
+        current_stock: item.current_stock,
+        reorder_point: policy.reorder_point,
+        order_quantity: policy.optimal_order_quantity,
+        unit_price: policy.parameters.unit_price,
+        lead_time_days: leadTime.days,
+        baseline_demand: round(baseDemand.reduce((sum, value) => sum + value, 0)),
+        scenario_demand: round(scenarioDemand.reduce((sum, value) => sum + value, 0)),
+        baseline: runs.baseline,
+        scenario: runs.scenario,
+        orders: shocked.orders.map((order) => ({
+          order_date: dateOf(order.order_day),
+          arrival_date: dateOf(order.arrival_day),
+          quantity: order.quantity,
+          cost: round(order.cost),
+        })),
+        extra_spend: runs.extra_spend,
+      });
+    }
+
+    // Soonest scenario stockout first, then by extra spend
+    simulatedItems.sort((a, b) =>
+      (a.scenario.stockout_date ?? '9999').localeCompare(b.scenario.stockout_date ?? '9999') ||
+      b.extra_spend - a.extra_spend
+    );
+
+    // Totals cover every item simulated; items lists only those the scenario
+    // changes or that stock out under it
+    const total = (pick: (entry: (typeof allRuns)[number]) => number) =>
+      round(allRuns.reduce((sum, entry) => sum + pick(entry), 0));
+    const result = {
+      horizon_days: horizonDays,
+      start_date: dateOf(1),
+      end_date: dateOf(horizonDays),
+      items_simulated: inputs.length,
+      totals: {
+        baseline_stockout_items: allRuns.filter((entry) => entry.baseline.stockout_date !== null).length,
+        scenario_stockout_items: allRuns.filter((entry) => entry.scenario.stockout_date !== null).length,
+        baseline_units_short: total((entry) => entry.baseline.units_short),
+        scenario_units_short: total((entry) => entry.scenario.units_short),
+        baseline_order_count: total((entry) => entry.baseline.order_count),
+        scenario_order_count: total((entry) => entry.scenario.order_count),
+        baseline_spend: total((entry) => entry.baseline.spend),
+        scenario_spend: total((entry) => entry.scenario.spend),
+        extra_spend: total((entry) => entry.extra_spend),
+      },
+      items: simulatedItems,
+    };
+
+    const simulatedAt = new Date().toISOString();
+    const { error: saveError } = await supabase
+      .from('demand_scenarios')
+      .update({ result, simulated_at: simulatedAt })
+      .eq('id', scenario.id);
+    if (saveError) throw new Error(saveError.message);
+
+    console.log(
+      `Simulated scenario ${scenario.name}: ${result.totals.scenario_stockout_items} items stock out, ` +
+        `extra spend ${result.totals.extra_spend}`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, simulated_at: simulatedAt, ...result }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Error in simulate-scenario:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
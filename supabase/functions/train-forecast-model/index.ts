@@ -0,0 +1,193 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { fetchDailyConsumption, groupByItem } from "../_shared/consumption.ts";
+import { fetchCalendarInputs } from "../_shared/calendarEffects.ts";
+import { buildDailySeries, FORECAST_STRATEGIES } from "../_shared/forecasting.ts";
+import { crossValidate, minimumSeriesLength } from "../_shared/modelTraining.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface TrainingInput {
+  horizon_days?: number;
+  folds?: number;
+  history_days?: number;
+  // demand_regressors row to fit alongside the calendar, as for run-predictions
+  regressor_id?: string;
+}
+
+const DEFAULT_HORIZON_DAYS = 14;
+const DEFAULT_FOLDS = 4;
+const DEFAULT_HISTORY_DAYS = 365;
+
+// v1.2.0 -> v1.3.0; anything unrecognised restarts the sequence
+function nextModelVersion(latest: string | null): string {
+  const match = latest?.match(/^v(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return 'v2.0.0';
+  return `v${match[1]}.${Number(match[2]) + 1}.0`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    // The model registry is admin-managed; this function writes with the service role
+    const { data: roles } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id);
+    if (!roles?.some((r) => r.role === 'admin')) {
+      throw new Error('Only admins can train forecast models');
+    }
+
+    const input: TrainingInput = await req.json().catch(() => ({}));
+    const horizon = Math.min(90, Math.max(1, Math.round(input.horizon_days ?? DEFAULT_HORIZON_DAYS)));
+    const folds = Math.min(12, Math.max(1, Math.round(input.folds ?? DEFAULT_FOLDS)));
+    const historyDays = Math.max(30, Math.round(input.history_days ?? DEFAULT_HISTORY_DAYS));
+
+    const historyStart = new Date();
+    historyStart.setDate(historyStart.getDate() - historyDays);
+    const rows = await fetchDailyConsumption(supabase, { since: historyStart });
+
+    // Same daily series run-predictions forecasts from: all locations summed,
+    // through yesterday
+    const historyEnd = new Date();
+    historyEnd.setDate(historyEnd.getDate() - 1);
+    const rowsByItem = groupByItem(rows);
+
+    const seriesByItem = new Map<string, number[]>();
+    for (const [itemId, itemRows] of rowsByItem) {
+      const series = buildDailySeries(itemRows, historyEnd);
+      if (series.length >= minimumSeriesLength(horizon)) {
+        seriesByItem.set(itemId, series);
+      }
+    }
+
+    if (seriesByItem.size === 0) {
+      throw new Error(`No item has the ${minimumSeriesLength(horizon)} days of consumption history needed to train`);
+    }
+
+    // Scored the way forecasts are served: with the hospital-wide calendar
+    // events and the regressor, if one was chosen
+    const calendarInputs = await fetchCalendarInputs(
+      supabase,
+      historyStart.toISOString().slice(0, 10),
+      historyEnd.toISOString().slice(0, 10),
+      input.regressor_id
+    );
+    const calendar = { inputs: calendarInputs, end: historyEnd };
+
+    const leaderboard = FORECAST_STRATEGIES
+      .map((strategy) => crossValidate(seriesByItem, strategy, { horizon, folds, calendar }))
+      .filter((metrics) => metrics.observations > 0)
+      // WAPE is undefined when the test windows saw no demand at all; those
+      // strategies rank after every scored one, by MAE among themselves
+      .sort((a, b) => {
+        const aScored = Number.isFinite(a.wape);
+        const bScored = Number.isFinite(b.wape);
+        if (aScored !== bScored) return aScored ? -1 : 1;
+        return aScored ? a.wape - b.wape : a.mae - b.mae;
+      });
+    const best = leaderboard[0];
+
+    const { data: latest } = await supabase
+      .from('model_registry')
+      .select('model_version')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const modelVersion = nextModelVersion(latest?.model_version ?? null);
+
+    const observationDates = rows.map((row) => row.consumption_date).sort();
+
+    const { data: model, error: insertError } = await supabase
+      .from('model_registry')
+      .insert({
+        model_version: modelVersion,
+        model_type: best.strategy,
+        mae: best.mae,
+        rmse: best.rmse,
+        r2_score: Number.isNaN(best.r2) ? null : best.r2,
+        // Smoothing models have no input features to rank
+        feature_importance: null,
+        hyperparameters: {
+          strategy: best.strategy,
+          horizon_days: horizon,
+          folds,
+          seasonal_period: 7,
+          selection_metric: 'wape',
+          calendar_events: calendarInputs.events.length,
+          regressor_id: calendarInputs.regressor?.id ?? null,
+        },
+        dataset_summary: {
+          items: rowsByItem.size,
+          items_evaluated: best.items_evaluated,
+          observations: rows.length,
+          test_observations: best.observations,
+          start_date: observationDates[0] ?? null,
+          end_date: observationDates[observationDates.length - 1] ?? null,
+          history_days: historyDays,
+          leaderboard: leaderboard.map((metrics) => ({
+            strategy: metrics.strategy,
+            mae: metrics.mae,
+            rmse: metrics.rmse,
+            r2: Number.isNaN(metrics.r2) ? null : metrics.r2,
+            wape: metrics.wape,
+            bias: metrics.bias,
+            methods_used: metrics.methods_used,
+          })),
+        },
+        // Promotion goes through promote_model() so it is logged
+        is_active: false,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    if (insertError) throw insertError;
+
+    console.log(`Trained ${modelVersion}: ${best.strategy} with WAPE ${best.wape.toFixed(3)} over ${best.items_evaluated} items`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        model,
+        leaderboard,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Error in train-forecast-model:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
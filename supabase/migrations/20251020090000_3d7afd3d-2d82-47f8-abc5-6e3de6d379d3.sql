@@ -0,0 +1,109 @@
+-- Stock movement ledger. inventory_items.current_stock is derived from the sum
+-- of these rows and may only change through an insert here.
+CREATE TABLE public.stock_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  transaction_type text NOT NULL CHECK (transaction_type IN ('receipt', 'issue', 'adjustment', 'transfer', 'waste', 'return')),
+  quantity integer NOT NULL CHECK (quantity <> 0),
+  balance_after integer,
+  reason text,
+  performed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- Receipts and returns add stock, issues and waste remove it; adjustments
+  -- and transfers may go either way.
+  CONSTRAINT stock_transactions_direction_check CHECK (
+    (transaction_type IN ('receipt', 'return') AND quantity > 0) OR
+    (transaction_type IN ('issue', 'waste') AND quantity < 0) OR
+    transaction_type IN ('adjustment', 'transfer')
+  )
+);
+
+CREATE INDEX idx_stock_transactions_item_created ON public.stock_transactions(item_id, created_at DESC);
+
+-- Opening balances for stock that existed before the ledger
+INSERT INTO public.stock_transactions (item_id, transaction_type, quantity, balance_after, reason, created_at)
+SELECT id, 'adjustment', current_stock, current_stock, 'Opening balance', created_at
+FROM public.inventory_items
+WHERE current_stock > 0;
+
+ALTER TABLE public.stock_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view stock transactions"
+  ON public.stock_transactions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can record their own stock transactions"
+  ON public.stock_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (performed_by = auth.uid());
+
+-- Apply a ledger row to the item balance. Runs as definer so nurses can issue
+-- stock without holding update rights on inventory_items.
+CREATE OR REPLACE FUNCTION public.apply_stock_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _current integer;
+BEGIN
+  SELECT current_stock INTO _current
+  FROM public.inventory_items
+  WHERE id = NEW.item_id
+  FOR UPDATE;
+
+  IF _current IS NULL THEN
+    RAISE EXCEPTION 'Inventory item % not found', NEW.item_id;
+  END IF;
+
+  IF _current + NEW.quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand, % requested', _current, -NEW.quantity;
+  END IF;
+
+  PERFORM set_config('app.stock_ledger', 'on', true);
+
+  UPDATE public.inventory_items
+  SET current_stock = _current + NEW.quantity
+  WHERE id = NEW.item_id;
+
+  PERFORM set_config('app.stock_ledger', 'off', true);
+
+  NEW.balance_after := _current + NEW.quantity;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_stock_transaction
+  BEFORE INSERT ON public.stock_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_stock_transaction();
+
+-- Reject direct writes to current_stock that bypass the ledger
+CREATE OR REPLACE FUNCTION public.guard_current_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.stock_ledger', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.current_stock <> 0 THEN
+    RAISE EXCEPTION 'New items must start with zero stock; record a receipt in stock_transactions instead';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.current_stock IS DISTINCT FROM OLD.current_stock THEN
+    RAISE EXCEPTION 'current_stock can only be changed through stock_transactions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_inventory_current_stock
+  BEFORE INSERT OR UPDATE ON public.inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_current_stock();
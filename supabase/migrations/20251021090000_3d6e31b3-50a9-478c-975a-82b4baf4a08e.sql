@@ -0,0 +1,208 @@
+-- Lots / batches with expiry dates. Lot quantities are maintained by the
+-- stock ledger trigger, never written directly.
+CREATE TABLE public.inventory_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  lot_number text NOT NULL,
+  expiry_date date,
+  received_date date NOT NULL DEFAULT CURRENT_DATE,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (item_id, lot_number)
+);
+
+CREATE INDEX idx_inventory_lots_item_expiry ON public.inventory_lots(item_id, expiry_date);
+
+ALTER TABLE public.stock_transactions
+  ADD COLUMN lot_id uuid REFERENCES public.inventory_lots(id) ON DELETE SET NULL;
+
+ALTER TABLE public.inventory_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view lots"
+  ON public.inventory_lots FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can register empty lots"
+  ON public.inventory_lots FOR INSERT
+  TO authenticated
+  WITH CHECK (quantity = 0);
+
+CREATE POLICY "Admins and managers can update lot details"
+  ON public.inventory_lots FOR UPDATE
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+-- Extend the ledger trigger to keep lot balances in step with the item balance
+CREATE OR REPLACE FUNCTION public.apply_stock_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _current integer;
+  _lot_quantity integer;
+BEGIN
+  SELECT current_stock INTO _current
+  FROM public.inventory_items
+  WHERE id = NEW.item_id
+  FOR UPDATE;
+
+  IF _current IS NULL THEN
+    RAISE EXCEPTION 'Inventory item % not found', NEW.item_id;
+  END IF;
+
+  IF _current + NEW.quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand, % requested', _current, -NEW.quantity;
+  END IF;
+
+  IF NEW.lot_id IS NOT NULL THEN
+    SELECT quantity INTO _lot_quantity
+    FROM public.inventory_lots
+    WHERE id = NEW.lot_id AND item_id = NEW.item_id
+    FOR UPDATE;
+
+    IF _lot_quantity IS NULL THEN
+      RAISE EXCEPTION 'Lot % does not belong to item %', NEW.lot_id, NEW.item_id;
+    END IF;
+
+    IF _lot_quantity + NEW.quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient quantity in lot: % available, % requested', _lot_quantity, -NEW.quantity;
+    END IF;
+
+    UPDATE public.inventory_lots
+    SET quantity = _lot_quantity + NEW.quantity
+    WHERE id = NEW.lot_id;
+  END IF;
+
+  PERFORM set_config('app.stock_ledger', 'on', true);
+
+  UPDATE public.inventory_items
+  SET current_stock = _current + NEW.quantity
+  WHERE id = NEW.item_id;
+
+  PERFORM set_config('app.stock_ledger', 'off', true);
+
+  NEW.balance_after := _current + NEW.quantity;
+  RETURN NEW;
+END;
+$$;
+
+-- Receive stock, registering the lot on first sight
+CREATE OR REPLACE FUNCTION public.receive_stock(
+  _item_id uuid,
+  _quantity integer,
+  _lot_number text DEFAULT NULL,
+  _expiry_date date DEFAULT NULL,
+  _reason text DEFAULT NULL
+)
+RETURNS public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _lot_id uuid;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF NULLIF(trim(_lot_number), '') IS NOT NULL THEN
+    INSERT INTO public.inventory_lots (item_id, lot_number, expiry_date)
+    VALUES (_item_id, trim(_lot_number), _expiry_date)
+    ON CONFLICT (item_id, lot_number) DO NOTHING;
+
+    SELECT id INTO _lot_id
+    FROM public.inventory_lots
+    WHERE item_id = _item_id AND lot_number = trim(_lot_number);
+  END IF;
+
+  INSERT INTO public.stock_transactions (item_id, lot_id, transaction_type, quantity, reason, performed_by)
+  VALUES (_item_id, _lot_id, 'receipt', _quantity, _reason, auth.uid())
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$$;
+
+-- Issue stock first-expiry-first-out. Expired lots are skipped (they should be
+-- written off as waste); stock held outside any lot is used last.
+CREATE OR REPLACE FUNCTION public.issue_stock_fefo(
+  _item_id uuid,
+  _quantity integer,
+  _reason text DEFAULT NULL
+)
+RETURNS SETOF public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _remaining integer := _quantity;
+  _take integer;
+  _lot record;
+  _unlotted integer;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  FOR _lot IN
+    SELECT id, quantity
+    FROM public.inventory_lots
+    WHERE item_id = _item_id
+      AND quantity > 0
+      AND (expiry_date IS NULL OR expiry_date >= CURRENT_DATE)
+    ORDER BY expiry_date ASC NULLS LAST, received_date ASC
+  LOOP
+    EXIT WHEN _remaining = 0;
+    _take := LEAST(_lot.quantity, _remaining);
+
+    INSERT INTO public.stock_transactions (item_id, lot_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _lot.id, 'issue', -_take, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+
+    _remaining := _remaining - _take;
+  END LOOP;
+
+  IF _remaining > 0 THEN
+    SELECT i.current_stock - COALESCE(SUM(l.quantity), 0) INTO _unlotted
+    FROM public.inventory_items i
+    LEFT JOIN public.inventory_lots l ON l.item_id = i.id
+    WHERE i.id = _item_id
+    GROUP BY i.current_stock;
+
+    IF COALESCE(_unlotted, 0) < _remaining THEN
+      RAISE EXCEPTION 'Insufficient unexpired stock: % units short', _remaining - COALESCE(_unlotted, 0);
+    END IF;
+
+    INSERT INTO public.stock_transactions (item_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, 'issue', -_remaining, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+  END IF;
+
+  RETURN;
+END;
+$$;
+
+-- Nearest expiry and quantities expiring within 30/60/90 days per item
+CREATE VIEW public.item_expiry_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  item_id,
+  MIN(expiry_date) FILTER (WHERE expiry_date >= CURRENT_DATE) AS nearest_expiry,
+  COALESCE(SUM(quantity) FILTER (WHERE expiry_date < CURRENT_DATE), 0)::integer AS expired_quantity,
+  COALESCE(SUM(quantity) FILTER (WHERE expiry_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 30), 0)::integer AS expiring_30_days,
+  COALESCE(SUM(quantity) FILTER (WHERE expiry_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 60), 0)::integer AS expiring_60_days,
+  COALESCE(SUM(quantity) FILTER (WHERE expiry_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 90), 0)::integer AS expiring_90_days
+FROM public.inventory_lots
+WHERE quantity > 0
+GROUP BY item_id;
@@ -0,0 +1,338 @@
+-- Storage location hierarchy: site -> building -> ward / store room / OR -> cabinet / bin
+CREATE TABLE public.locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid REFERENCES public.locations(id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  code text UNIQUE,
+  location_type text NOT NULL CHECK (location_type IN ('site', 'building', 'ward', 'store_room', 'operating_room', 'crash_cart', 'cabinet', 'bin')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX idx_locations_parent ON public.locations(parent_id);
+
+-- Per-location balances with their own par levels. Quantities are maintained
+-- by the stock ledger trigger; inventory_items.current_stock stays the total.
+CREATE TABLE public.location_stock (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  location_id uuid NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  min_required integer NOT NULL DEFAULT 0 CHECK (min_required >= 0),
+  max_capacity integer NOT NULL DEFAULT 0 CHECK (max_capacity >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (item_id, location_id)
+);
+
+CREATE INDEX idx_location_stock_location ON public.location_stock(location_id);
+
+ALTER TABLE public.stock_transactions
+  ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL,
+  ADD COLUMN transfer_id uuid;
+
+CREATE INDEX idx_stock_transactions_location_created ON public.stock_transactions(location_id, created_at DESC);
+CREATE INDEX idx_stock_transactions_transfer ON public.stock_transactions(transfer_id) WHERE transfer_id IS NOT NULL;
+
+ALTER TABLE public.predictions
+  ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.location_stock ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view locations"
+  ON public.locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage locations"
+  ON public.locations FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE POLICY "All authenticated users can view location stock"
+  ON public.location_stock FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage location par levels"
+  ON public.location_stock FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_locations_updated_at
+  BEFORE UPDATE ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_location_stock_updated_at
+  BEFORE UPDATE ON public.location_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ledger trigger now also maintains the balance at the transaction's location
+CREATE OR REPLACE FUNCTION public.apply_stock_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _current integer;
+  _lot_quantity integer;
+  _location_quantity integer;
+BEGIN
+  SELECT current_stock INTO _current
+  FROM public.inventory_items
+  WHERE id = NEW.item_id
+  FOR UPDATE;
+
+  IF _current IS NULL THEN
+    RAISE EXCEPTION 'Inventory item % not found', NEW.item_id;
+  END IF;
+
+  IF _current + NEW.quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand, % requested', _current, -NEW.quantity;
+  END IF;
+
+  IF NEW.lot_id IS NOT NULL THEN
+    SELECT quantity INTO _lot_quantity
+    FROM public.inventory_lots
+    WHERE id = NEW.lot_id AND item_id = NEW.item_id
+    FOR UPDATE;
+
+    IF _lot_quantity IS NULL THEN
+      RAISE EXCEPTION 'Lot % does not belong to item %', NEW.lot_id, NEW.item_id;
+    END IF;
+
+    IF _lot_quantity + NEW.quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient quantity in lot: % available, % requested', _lot_quantity, -NEW.quantity;
+    END IF;
+
+    UPDATE public.inventory_lots
+    SET quantity = _lot_quantity + NEW.quantity
+    WHERE id = NEW.lot_id;
+  END IF;
+
+  PERFORM set_config('app.stock_ledger', 'on', true);
+
+  IF NEW.location_id IS NOT NULL THEN
+    SELECT quantity INTO _location_quantity
+    FROM public.location_stock
+    WHERE item_id = NEW.item_id AND location_id = NEW.location_id
+    FOR UPDATE;
+
+    IF COALESCE(_location_quantity, 0) + NEW.quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock at location: % on hand, % requested', COALESCE(_location_quantity, 0), -NEW.quantity;
+    END IF;
+
+    IF _location_quantity IS NULL THEN
+      INSERT INTO public.location_stock (item_id, location_id, quantity)
+      VALUES (NEW.item_id, NEW.location_id, NEW.quantity);
+    ELSE
+      UPDATE public.location_stock
+      SET quantity = _location_quantity + NEW.quantity
+      WHERE item_id = NEW.item_id AND location_id = NEW.location_id;
+    END IF;
+  END IF;
+
+  UPDATE public.inventory_items
+  SET current_stock = _current + NEW.quantity
+  WHERE id = NEW.item_id;
+
+  PERFORM set_config('app.stock_ledger', 'off', true);
+
+  NEW.balance_after := _current + NEW.quantity;
+  RETURN NEW;
+END;
+$$;
+
+-- Location quantities, like item totals, only move through the ledger
+CREATE OR REPLACE FUNCTION public.guard_location_stock_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.stock_ledger', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.quantity <> 0 THEN
+    RAISE EXCEPTION 'New location balances must start at zero; record stock in stock_transactions instead';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.quantity IS DISTINCT FROM OLD.quantity THEN
+    RAISE EXCEPTION 'Location quantities can only be changed through stock_transactions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_location_stock_quantity
+  BEFORE INSERT OR UPDATE ON public.location_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_location_stock_quantity();
+
+-- Receiving and FEFO issuing gain an optional location
+DROP FUNCTION public.receive_stock(uuid, integer, text, date, text);
+DROP FUNCTION public.issue_stock_fefo(uuid, integer, text);
+
+CREATE OR REPLACE FUNCTION public.receive_stock(
+  _item_id uuid,
+  _quantity integer,
+  _lot_number text DEFAULT NULL,
+  _expiry_date date DEFAULT NULL,
+  _reason text DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _lot_id uuid;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF NULLIF(trim(_lot_number), '') IS NOT NULL THEN
+    INSERT INTO public.inventory_lots (item_id, lot_number, expiry_date)
+    VALUES (_item_id, trim(_lot_number), _expiry_date)
+    ON CONFLICT (item_id, lot_number) DO NOTHING;
+
+    SELECT id INTO _lot_id
+    FROM public.inventory_lots
+    WHERE item_id = _item_id AND lot_number = trim(_lot_number);
+  END IF;
+
+  INSERT INTO public.stock_transactions (item_id, lot_id, location_id, transaction_type, quantity, reason, performed_by)
+  VALUES (_item_id, _lot_id, _location_id, 'receipt', _quantity, _reason, auth.uid())
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_stock_fefo(
+  _item_id uuid,
+  _quantity integer,
+  _reason text DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _remaining integer := _quantity;
+  _take integer;
+  _lot record;
+  _unlotted integer;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  FOR _lot IN
+    SELECT id, quantity
+    FROM public.inventory_lots
+    WHERE item_id = _item_id
+      AND quantity > 0
+      AND (expiry_date IS NULL OR expiry_date >= CURRENT_DATE)
+    ORDER BY expiry_date ASC NULLS LAST, received_date ASC
+  LOOP
+    EXIT WHEN _remaining = 0;
+    _take := LEAST(_lot.quantity, _remaining);
+
+    INSERT INTO public.stock_transactions (item_id, lot_id, location_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _lot.id, _location_id, 'issue', -_take, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+
+    _remaining := _remaining - _take;
+  END LOOP;
+
+  IF _remaining > 0 THEN
+    SELECT i.current_stock - COALESCE(SUM(l.quantity), 0) INTO _unlotted
+    FROM public.inventory_items i
+    LEFT JOIN public.inventory_lots l ON l.item_id = i.id
+    WHERE i.id = _item_id
+    GROUP BY i.current_stock;
+
+    IF COALESCE(_unlotted, 0) < _remaining THEN
+      RAISE EXCEPTION 'Insufficient unexpired stock: % units short', _remaining - COALESCE(_unlotted, 0);
+    END IF;
+
+    INSERT INTO public.stock_transactions (item_id, location_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _location_id, 'issue', -_remaining, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+  END IF;
+
+  RETURN;
+END;
+$$;
+
+-- Move stock between locations as a linked pair of ledger rows. A null source
+-- draws from stock not yet assigned to any location.
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _item_id uuid,
+  _from_location_id uuid,
+  _to_location_id uuid,
+  _quantity integer,
+  _reason text DEFAULT NULL
+)
+RETURNS SETOF public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _transfer_id uuid := gen_random_uuid();
+  _unassigned integer;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF _to_location_id IS NULL OR _from_location_id IS NOT DISTINCT FROM _to_location_id THEN
+    RAISE EXCEPTION 'Transfers need a destination different from the source';
+  END IF;
+
+  IF _from_location_id IS NULL THEN
+    SELECT i.current_stock - COALESCE(SUM(ls.quantity), 0) INTO _unassigned
+    FROM public.inventory_items i
+    LEFT JOIN public.location_stock ls ON ls.item_id = i.id
+    WHERE i.id = _item_id
+    GROUP BY i.current_stock;
+
+    IF COALESCE(_unassigned, 0) < _quantity THEN
+      RAISE EXCEPTION 'Only % unassigned units available to transfer', COALESCE(_unassigned, 0);
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_transactions (item_id, location_id, transfer_id, transaction_type, quantity, reason, performed_by)
+  VALUES (_item_id, _from_location_id, _transfer_id, 'transfer', -_quantity, _reason, auth.uid())
+  RETURNING * INTO _tx;
+  RETURN NEXT _tx;
+
+  INSERT INTO public.stock_transactions (item_id, location_id, transfer_id, transaction_type, quantity, reason, performed_by)
+  VALUES (_item_id, _to_location_id, _transfer_id, 'transfer', _quantity, _reason, auth.uid())
+  RETURNING * INTO _tx;
+  RETURN NEXT _tx;
+
+  RETURN;
+END;
+$$;
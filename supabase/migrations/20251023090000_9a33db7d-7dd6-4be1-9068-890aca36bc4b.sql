@@ -0,0 +1,97 @@
+-- Vendor master data replaces the free-text inventory_items.vendor_name
+CREATE TABLE public.vendors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_code text NOT NULL UNIQUE,
+  name text NOT NULL UNIQUE,
+  contact_name text,
+  email text,
+  phone text,
+  address text,
+  contract_start date,
+  contract_end date,
+  contract_terms text,
+  default_lead_time_days integer CHECK (default_lead_time_days >= 0),
+  minimum_order_value numeric(10,2) NOT NULL DEFAULT 0 CHECK (minimum_order_value >= 0),
+  payment_terms text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (contract_end IS NULL OR contract_start IS NULL OR contract_end >= contract_start)
+);
+
+-- An item can be sourced from several vendors, each with its own SKU and
+-- price. At most one of them is the preferred source.
+CREATE TABLE public.item_vendors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL REFERENCES public.vendors(id) ON DELETE CASCADE,
+  vendor_sku text,
+  unit_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  lead_time_days integer CHECK (lead_time_days >= 0),
+  is_preferred boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (item_id, vendor_id)
+);
+
+CREATE INDEX idx_item_vendors_vendor ON public.item_vendors(vendor_id);
+CREATE UNIQUE INDEX idx_item_vendors_one_preferred ON public.item_vendors(item_id) WHERE is_preferred;
+
+-- Move the existing free-text vendor names over, then drop the column
+INSERT INTO public.vendors (vendor_code, name, default_lead_time_days)
+SELECT
+  'V' || lpad(row_number() OVER (ORDER BY name)::text, 3, '0'),
+  name,
+  lead_time
+FROM (
+  SELECT btrim(vendor_name) AS name, round(avg(restock_lead_time))::integer AS lead_time
+  FROM public.inventory_items
+  WHERE btrim(coalesce(vendor_name, '')) <> ''
+  GROUP BY btrim(vendor_name)
+) existing;
+
+INSERT INTO public.item_vendors (item_id, vendor_id, unit_price, is_preferred)
+SELECT i.id, v.id, i.unit_cost, true
+FROM public.inventory_items i
+JOIN public.vendors v ON v.name = btrim(i.vendor_name);
+
+ALTER TABLE public.inventory_items DROP COLUMN vendor_name;
+
+ALTER TABLE public.vendors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.item_vendors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view vendors"
+  ON public.vendors FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage vendors"
+  ON public.vendors FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE POLICY "All authenticated users can view item vendors"
+  ON public.item_vendors FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage item vendors"
+  ON public.item_vendors FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_vendors_updated_at
+  BEFORE UPDATE ON public.vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_item_vendors_updated_at
+  BEFORE UPDATE ON public.item_vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
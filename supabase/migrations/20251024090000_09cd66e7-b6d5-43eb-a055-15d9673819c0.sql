@@ -0,0 +1,167 @@
+-- Purchase orders: draft -> approved -> sent -> partially_received -> closed
+CREATE SEQUENCE public.purchase_order_number_seq;
+
+CREATE TABLE public.purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text NOT NULL UNIQUE DEFAULT 'PO-' || lpad(nextval('public.purchase_order_number_seq')::text, 5, '0'),
+  vendor_id uuid NOT NULL REFERENCES public.vendors(id) ON DELETE RESTRICT,
+  location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'sent', 'partially_received', 'closed', 'cancelled')),
+  auto_generated boolean NOT NULL DEFAULT false,
+  expected_delivery_date date,
+  notes text,
+  created_by uuid REFERENCES public.profiles(id),
+  approved_by uuid REFERENCES public.profiles(id),
+  approved_at timestamptz,
+  sent_at timestamptz,
+  closed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER SEQUENCE public.purchase_order_number_seq OWNED BY public.purchase_orders.po_number;
+
+CREATE INDEX idx_purchase_orders_vendor_status ON public.purchase_orders(vendor_id, status);
+
+CREATE TABLE public.purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  quantity_ordered integer NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  -- What the reorder calculation proposed, kept for reference when the buyer edits the quantity
+  suggested_quantity integer,
+  unit_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  vendor_sku text,
+  cost_optimization_id uuid REFERENCES public.cost_optimization(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (purchase_order_id, item_id)
+);
+
+CREATE INDEX idx_purchase_order_lines_item ON public.purchase_order_lines(item_id);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view purchase orders"
+  ON public.purchase_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage purchase orders"
+  ON public.purchase_orders FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE POLICY "All authenticated users can view purchase order lines"
+  ON public.purchase_order_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage purchase order lines"
+  ON public.purchase_order_lines FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_purchase_order_lines_updated_at
+  BEFORE UPDATE ON public.purchase_order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only allow the documented status transitions and stamp who/when
+CREATE OR REPLACE FUNCTION public.enforce_purchase_order_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('approved', 'cancelled')) OR
+    (OLD.status = 'approved' AND NEW.status IN ('draft', 'sent', 'cancelled')) OR
+    (OLD.status = 'sent' AND NEW.status IN ('partially_received', 'closed')) OR
+    (OLD.status = 'partially_received' AND NEW.status = 'closed')
+  ) THEN
+    RAISE EXCEPTION 'Purchase order % cannot move from % to %', OLD.po_number, OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = NEW.id) THEN
+      RAISE EXCEPTION 'Purchase order % has no lines', OLD.po_number;
+    END IF;
+    NEW.approved_by := auth.uid();
+    NEW.approved_at := now();
+  ELSIF NEW.status = 'draft' THEN
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+  ELSIF NEW.status = 'sent' THEN
+    NEW.sent_at := now();
+  ELSIF NEW.status IN ('closed', 'cancelled') THEN
+    NEW.closed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_purchase_order_status
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_purchase_order_status();
+
+-- Lines are fixed once the order leaves draft; only received quantities move after that
+CREATE OR REPLACE FUNCTION public.guard_purchase_order_lines()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _status text;
+BEGIN
+  -- What has been received only changes by receiving goods against the order
+  -- (receive_purchase_order), which also books the stock
+  IF TG_OP <> 'DELETE'
+    AND NEW.quantity_received IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.quantity_received ELSE 0 END)
+    AND COALESCE(current_setting('app.goods_receipt', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'Received quantities can only be changed by receiving goods';
+  END IF;
+
+  SELECT status INTO _status
+  FROM public.purchase_orders
+  WHERE id = COALESCE(NEW.purchase_order_id, OLD.purchase_order_id);
+
+  IF _status = 'draft' OR _status IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.quantity_ordered = OLD.quantity_ordered
+    AND NEW.unit_price = OLD.unit_price
+    AND NEW.item_id = OLD.item_id
+    AND NEW.purchase_order_id = OLD.purchase_order_id THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Lines can only be changed while the purchase order is a draft';
+END;
+$$;
+
+CREATE TRIGGER guard_purchase_order_lines
+  BEFORE INSERT OR UPDATE OR DELETE ON public.purchase_order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_purchase_order_lines();
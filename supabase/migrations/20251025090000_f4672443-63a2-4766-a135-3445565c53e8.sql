@@ -0,0 +1,258 @@
+-- Goods receipts record each delivery against a purchase order, line by line
+CREATE SEQUENCE public.goods_receipt_number_seq;
+
+CREATE TABLE public.goods_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number text NOT NULL UNIQUE DEFAULT 'GR-' || lpad(nextval('public.goods_receipt_number_seq')::text, 5, '0'),
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE RESTRICT,
+  location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL,
+  delivery_reference text,
+  notes text,
+  received_by uuid REFERENCES public.profiles(id),
+  received_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER SEQUENCE public.goods_receipt_number_seq OWNED BY public.goods_receipts.receipt_number;
+
+CREATE INDEX idx_goods_receipts_purchase_order ON public.goods_receipts(purchase_order_id, received_at DESC);
+
+-- quantity_received is what went into stock; damaged and short-shipped units
+-- are recorded alongside it but never booked
+CREATE TABLE public.goods_receipt_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  goods_receipt_id uuid NOT NULL REFERENCES public.goods_receipts(id) ON DELETE CASCADE,
+  purchase_order_line_id uuid REFERENCES public.purchase_order_lines(id) ON DELETE SET NULL,
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  quantity_damaged integer NOT NULL DEFAULT 0 CHECK (quantity_damaged >= 0),
+  quantity_short integer NOT NULL DEFAULT 0 CHECK (quantity_short >= 0),
+  lot_number text,
+  expiry_date date,
+  lot_id uuid REFERENCES public.inventory_lots(id) ON DELETE SET NULL,
+  stock_transaction_id uuid REFERENCES public.stock_transactions(id) ON DELETE SET NULL,
+  discrepancy_type text CHECK (discrepancy_type IN ('over_delivery', 'under_delivery', 'wrong_item', 'damaged', 'short_shipped')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_goods_receipt_lines_receipt ON public.goods_receipt_lines(goods_receipt_id);
+CREATE INDEX idx_goods_receipt_lines_po_line ON public.goods_receipt_lines(purchase_order_line_id);
+
+ALTER TABLE public.goods_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_receipt_lines ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are written by receive_purchase_order() only
+CREATE POLICY "All authenticated users can view goods receipts"
+  ON public.goods_receipts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "All authenticated users can view goods receipt lines"
+  ON public.goods_receipt_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Receive a delivery against a sent purchase order.
+-- _lines is a JSON array of
+--   { purchase_order_line_id?, item_id?, quantity_received, quantity_damaged?,
+--     quantity_short?, lot_number?, expiry_date? }
+-- Accepted units go through receive_stock(), so lots and the ledger behave
+-- exactly as for any other receipt. Items that are not on the order are
+-- recorded as wrong_item and not booked. _final closes the order and reports
+-- any outstanding quantity as under-delivered.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id uuid,
+  _lines jsonb,
+  _location_id uuid DEFAULT NULL,
+  _delivery_reference text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _final boolean DEFAULT false
+)
+RETURNS public.goods_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _order public.purchase_orders;
+  _vendor_name text;
+  _receipt public.goods_receipts;
+  _line jsonb;
+  _po_line public.purchase_order_lines;
+  _item_id uuid;
+  _item_name text;
+  _received integer;
+  _damaged integer;
+  _short integer;
+  _discrepancy text;
+  _tx public.stock_transactions;
+  _discrepancies jsonb := '[]'::jsonb;
+  _all_received boolean;
+  _any_received boolean;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF _order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order % not found', _purchase_order_id;
+  END IF;
+
+  IF _order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %; only sent orders can be received', _order.po_number, _order.status;
+  END IF;
+
+  IF jsonb_typeof(_lines) <> 'array' OR (jsonb_array_length(_lines) = 0 AND NOT _final) THEN
+    RAISE EXCEPTION 'A goods receipt needs at least one line';
+  END IF;
+
+  SELECT name INTO _vendor_name FROM public.vendors WHERE id = _order.vendor_id;
+
+  INSERT INTO public.goods_receipts (purchase_order_id, location_id, delivery_reference, notes, received_by)
+  VALUES (_order.id, COALESCE(_location_id, _order.location_id), NULLIF(trim(_delivery_reference), ''), NULLIF(trim(_notes), ''), auth.uid())
+  RETURNING * INTO _receipt;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines)
+  LOOP
+    _received := COALESCE((_line->>'quantity_received')::integer, 0);
+    _damaged := COALESCE((_line->>'quantity_damaged')::integer, 0);
+    _short := COALESCE((_line->>'quantity_short')::integer, 0);
+    _item_id := NULLIF(_line->>'item_id', '')::uuid;
+    _po_line := NULL;
+    _tx := NULL;
+    _discrepancy := NULL;
+
+    IF _received < 0 OR _damaged < 0 OR _short < 0 THEN
+      RAISE EXCEPTION 'Receipt quantities cannot be negative';
+    END IF;
+
+    IF NULLIF(_line->>'purchase_order_line_id', '') IS NOT NULL THEN
+      SELECT * INTO _po_line
+      FROM public.purchase_order_lines
+      WHERE id = (_line->>'purchase_order_line_id')::uuid AND purchase_order_id = _order.id
+      FOR UPDATE;
+
+      IF _po_line.id IS NULL THEN
+        RAISE EXCEPTION 'Line % is not on purchase order %', _line->>'purchase_order_line_id', _order.po_number;
+      END IF;
+
+      _item_id := COALESCE(_item_id, _po_line.item_id);
+    ELSIF _item_id IS NOT NULL THEN
+      SELECT * INTO _po_line
+      FROM public.purchase_order_lines
+      WHERE purchase_order_id = _order.id AND item_id = _item_id
+      FOR UPDATE;
+    END IF;
+
+    IF _item_id IS NULL THEN
+      RAISE EXCEPTION 'Each receipt line needs an item';
+    END IF;
+
+    IF _po_line.id IS NULL OR _po_line.item_id <> _item_id THEN
+      _discrepancy := 'wrong_item';
+    ELSIF _po_line.quantity_received + _received > _po_line.quantity_ordered THEN
+      _discrepancy := 'over_delivery';
+    ELSIF _short > 0 THEN
+      _discrepancy := 'short_shipped';
+    ELSIF _damaged > 0 THEN
+      _discrepancy := 'damaged';
+    END IF;
+
+    IF _discrepancy IS DISTINCT FROM 'wrong_item' AND _received > 0 THEN
+      _tx := public.receive_stock(
+        _item_id,
+        _received,
+        _line->>'lot_number',
+        NULLIF(_line->>'expiry_date', '')::date,
+        'Received on ' || _order.po_number || ' (' || _receipt.receipt_number || ')',
+        _receipt.location_id
+      );
+
+      PERFORM set_config('app.goods_receipt', 'on', true);
+      UPDATE public.purchase_order_lines
+      SET quantity_received = quantity_received + _received
+      WHERE id = _po_line.id;
+      PERFORM set_config('app.goods_receipt', 'off', true);
+    END IF;
+
+    INSERT INTO public.goods_receipt_lines (
+      goods_receipt_id, purchase_order_line_id, item_id, quantity_received, quantity_damaged,
+      quantity_short, lot_number, expiry_date, lot_id, stock_transaction_id, discrepancy_type
+    )
+    VALUES (
+      _receipt.id, _po_line.id, _item_id,
+      CASE WHEN _discrepancy = 'wrong_item' THEN 0 ELSE _received END,
+      _damaged, _short,
+      NULLIF(trim(_line->>'lot_number'), ''), NULLIF(_line->>'expiry_date', '')::date,
+      _tx.lot_id, _tx.id, _discrepancy
+    );
+
+    IF _discrepancy IS NOT NULL THEN
+      SELECT item_name INTO _item_name FROM public.inventory_items WHERE id = _item_id;
+      _discrepancies := _discrepancies || jsonb_build_object(
+        'item_id', _item_id,
+        'item_name', _item_name,
+        'type', _discrepancy,
+        'ordered', _po_line.quantity_ordered,
+        'received', _received,
+        'damaged', _damaged,
+        'short', _short
+      );
+    END IF;
+  END LOOP;
+
+  -- On a final delivery, whatever is still outstanding will not arrive
+  IF _final THEN
+    _discrepancies := _discrepancies || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'item_id', l.item_id,
+        'item_name', i.item_name,
+        'type', 'under_delivery',
+        'ordered', l.quantity_ordered,
+        'received', l.quantity_received,
+        'outstanding', l.quantity_ordered - l.quantity_received
+      ))
+      FROM public.purchase_order_lines l
+      JOIN public.inventory_items i ON i.id = l.item_id
+      WHERE l.purchase_order_id = _order.id AND l.quantity_received < l.quantity_ordered
+    ), '[]'::jsonb);
+  END IF;
+
+  SELECT bool_and(quantity_received >= quantity_ordered), bool_or(quantity_received > 0)
+  INTO _all_received, _any_received
+  FROM public.purchase_order_lines
+  WHERE purchase_order_id = _order.id;
+
+  IF _all_received OR _final THEN
+    UPDATE public.purchase_orders SET status = 'closed' WHERE id = _order.id;
+  ELSIF _any_received THEN
+    UPDATE public.purchase_orders SET status = 'partially_received' WHERE id = _order.id;
+  END IF;
+
+  IF jsonb_array_length(_discrepancies) > 0 THEN
+    INSERT INTO public.alerts_history (alert_type, severity, title, message, item_id, metadata)
+    VALUES (
+      'receiving_discrepancy',
+      CASE WHEN _discrepancies @> '[{"type": "wrong_item"}]' THEN 'critical' ELSE 'warning' END,
+      'Receiving discrepancy: ' || _order.po_number,
+      jsonb_array_length(_discrepancies) || ' line(s) on ' || _order.po_number || ' from ' || COALESCE(_vendor_name, 'vendor') ||
+        ' did not match the order (' || _receipt.receipt_number || ')',
+      CASE WHEN jsonb_array_length(_discrepancies) = 1 THEN (_discrepancies->0->>'item_id')::uuid END,
+      jsonb_build_object(
+        'purchase_order_id', _order.id,
+        'po_number', _order.po_number,
+        'goods_receipt_id', _receipt.id,
+        'receipt_number', _receipt.receipt_number,
+        'notify_role', 'inventory_manager',
+        'discrepancies', _discrepancies
+      )
+    );
+  END IF;
+
+  RETURN _receipt;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- Measured lead times: one observation per delivery of a purchase order line,
+-- from the moment the order was sent (or approved, or created) to the receipt
+CREATE OR REPLACE VIEW public.lead_time_observations
+WITH (security_invoker = true)
+AS
+SELECT
+  grl.item_id,
+  po.vendor_id,
+  po.id AS purchase_order_id,
+  gr.id AS goods_receipt_id,
+  gr.received_at,
+  EXTRACT(EPOCH FROM (gr.received_at - COALESCE(po.sent_at, po.approved_at, po.created_at))) / 86400.0 AS lead_time_days
+FROM public.goods_receipt_lines grl
+JOIN public.goods_receipts gr ON gr.id = grl.goods_receipt_id
+JOIN public.purchase_orders po ON po.id = gr.purchase_order_id
+WHERE grl.quantity_received > 0
+  AND grl.discrepancy_type IS DISTINCT FROM 'wrong_item';
+
+-- Mean, variance and trend per item and vendor, plus an all-vendor row per
+-- item (vendor_id IS NULL). trend_days_per_30d is the least-squares slope of
+-- lead time against receipt date, scaled to a 30-day change.
+CREATE OR REPLACE VIEW public.lead_time_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  item_id,
+  vendor_id,
+  count(*)::integer AS sample_count,
+  avg(lead_time_days)::double precision AS mean_days,
+  var_samp(lead_time_days)::double precision AS variance_days,
+  stddev_samp(lead_time_days)::double precision AS stddev_days,
+  count(*) FILTER (WHERE received_at >= now() - interval '90 days')::integer AS recent_sample_count,
+  (avg(lead_time_days) FILTER (WHERE received_at >= now() - interval '90 days'))::double precision AS recent_mean_days,
+  (regr_slope(lead_time_days, EXTRACT(EPOCH FROM received_at) / 86400.0) * 30)::double precision AS trend_days_per_30d,
+  max(received_at) AS last_received_at
+FROM public.lead_time_observations
+GROUP BY GROUPING SETS ((item_id, vendor_id), (item_id));
@@ -0,0 +1,97 @@
+-- Daily consumption per item and location, rolled up from the stock ledger.
+-- location_id IS NULL holds consumption of stock not assigned to a location.
+CREATE TABLE public.daily_consumption (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE,
+  consumption_date date NOT NULL,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  waste_quantity integer NOT NULL DEFAULT 0 CHECK (waste_quantity >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (item_id, location_id, consumption_date)
+);
+
+CREATE INDEX idx_daily_consumption_item_date ON public.daily_consumption(item_id, consumption_date DESC);
+
+ALTER TABLE public.daily_consumption ENABLE ROW LEVEL SECURITY;
+
+-- Maintained by the ledger trigger below; read-only for users
+CREATE POLICY "All authenticated users can view daily consumption"
+  ON public.daily_consumption FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Issues count as consumption, returns give it back, waste is tracked apart
+CREATE OR REPLACE FUNCTION public.record_daily_consumption()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _used integer := 0;
+  _wasted integer := 0;
+BEGIN
+  IF NEW.transaction_type = 'issue' THEN
+    _used := -NEW.quantity;
+  ELSIF NEW.transaction_type = 'return' THEN
+    _used := -NEW.quantity;
+  ELSIF NEW.transaction_type = 'waste' THEN
+    _wasted := -NEW.quantity;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.daily_consumption (item_id, location_id, consumption_date, quantity, waste_quantity)
+  VALUES (NEW.item_id, NEW.location_id, NEW.created_at::date, GREATEST(_used, 0), _wasted)
+  ON CONFLICT (item_id, location_id, consumption_date) DO UPDATE
+  SET quantity = GREATEST(public.daily_consumption.quantity + _used, 0),
+      waste_quantity = public.daily_consumption.waste_quantity + _wasted,
+      updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_daily_consumption
+  AFTER INSERT ON public.stock_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_daily_consumption();
+
+-- Backfill from the ledger so far
+INSERT INTO public.daily_consumption (item_id, location_id, consumption_date, quantity, waste_quantity)
+SELECT
+  item_id,
+  location_id,
+  created_at::date,
+  GREATEST(SUM(CASE WHEN transaction_type IN ('issue', 'return') THEN -quantity ELSE 0 END), 0),
+  SUM(CASE WHEN transaction_type = 'waste' THEN -quantity ELSE 0 END)
+FROM public.stock_transactions
+WHERE transaction_type IN ('issue', 'return', 'waste')
+GROUP BY item_id, location_id, created_at::date;
+
+-- Forecast runs now cover a caller-chosen horizon, with one row per day
+ALTER TABLE public.predictions
+  ADD COLUMN horizon_days integer CHECK (horizon_days > 0),
+  ADD COLUMN forecast_method text;
+
+CREATE TABLE public.demand_forecasts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  prediction_id uuid NOT NULL REFERENCES public.predictions(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE,
+  forecast_date date NOT NULL,
+  forecast_quantity numeric NOT NULL CHECK (forecast_quantity >= 0),
+  method text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (prediction_id, forecast_date)
+);
+
+CREATE INDEX idx_demand_forecasts_item_date ON public.demand_forecasts(item_id, forecast_date);
+
+ALTER TABLE public.demand_forecasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view demand forecasts"
+  ON public.demand_forecasts FOR SELECT
+  TO authenticated
+  USING (true);
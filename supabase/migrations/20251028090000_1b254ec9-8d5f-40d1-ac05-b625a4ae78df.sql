@@ -0,0 +1,20 @@
+-- Prediction intervals from each forecast's residual distribution, replacing
+-- the fixed confidence score. Bounds on predictions and prediction_history
+-- cover total demand over the horizon; demand_forecasts carries daily bounds.
+ALTER TABLE public.predictions
+  ADD COLUMN lower_80 numeric,
+  ADD COLUMN upper_80 numeric,
+  ADD COLUMN lower_95 numeric,
+  ADD COLUMN upper_95 numeric;
+
+ALTER TABLE public.prediction_history
+  ADD COLUMN lower_80 numeric,
+  ADD COLUMN upper_80 numeric,
+  ADD COLUMN lower_95 numeric,
+  ADD COLUMN upper_95 numeric;
+
+ALTER TABLE public.demand_forecasts
+  ADD COLUMN lower_80 numeric CHECK (lower_80 >= 0),
+  ADD COLUMN upper_80 numeric,
+  ADD COLUMN lower_95 numeric CHECK (lower_95 >= 0),
+  ADD COLUMN upper_95 numeric;
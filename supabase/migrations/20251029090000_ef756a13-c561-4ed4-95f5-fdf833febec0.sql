@@ -0,0 +1,94 @@
+-- Backtesting: every stored forecast whose horizon has fully elapsed, joined
+-- with the consumption that actually occurred over that horizon. The window
+-- runs from the day after the forecast for horizon_days; forecasts from
+-- before horizons existed covered one restock lead time. Location-scoped
+-- forecasts are scored against the location and everything nested below it.
+-- error is predicted minus actual, so positive values mean over-forecasting.
+CREATE OR REPLACE VIEW public.prediction_outcomes
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE location_scope AS (
+  SELECT id AS root_id, id AS location_id
+  FROM public.locations
+  UNION ALL
+  SELECT s.root_id, l.id
+  FROM location_scope s
+  JOIN public.locations l ON l.parent_id = s.location_id
+),
+windows AS (
+  SELECT
+    ph.*,
+    (ph.created_at::date + 1) AS window_start,
+    (ph.created_at::date + COALESCE(
+      (ph.feature_values->>'horizon_days')::integer,
+      CEIL((ph.feature_values->>'restock_lead_time')::numeric)::integer
+    )) AS window_end,
+    (ph.feature_values->>'location_id')::uuid AS location_id
+  FROM public.prediction_history ph
+)
+SELECT
+  w.id AS prediction_history_id,
+  w.item_id,
+  i.item_name,
+  i.item_type,
+  w.model_version_id,
+  m.model_version,
+  w.location_id,
+  w.created_at,
+  w.window_start,
+  w.window_end,
+  (w.window_end - w.window_start + 1) AS horizon_days,
+  w.predicted_demand,
+  actual.quantity AS actual_demand,
+  w.predicted_demand - actual.quantity AS error,
+  w.lower_80,
+  w.upper_80,
+  w.lower_95,
+  w.upper_95,
+  CASE WHEN w.lower_80 IS NOT NULL THEN actual.quantity BETWEEN w.lower_80 AND w.upper_80 END AS within_80,
+  CASE WHEN w.lower_95 IS NOT NULL THEN actual.quantity BETWEEN w.lower_95 AND w.upper_95 END AS within_95
+FROM windows w
+JOIN public.inventory_items i ON i.id = w.item_id
+LEFT JOIN public.model_registry m ON m.id = w.model_version_id
+CROSS JOIN LATERAL (
+  SELECT COALESCE(SUM(dc.quantity), 0)::numeric AS quantity
+  FROM public.daily_consumption dc
+  WHERE dc.item_id = w.item_id
+    AND dc.consumption_date BETWEEN w.window_start AND w.window_end
+    AND (
+      w.location_id IS NULL
+      OR dc.location_id IN (SELECT s.location_id FROM location_scope s WHERE s.root_id = w.location_id)
+    )
+) actual
+WHERE w.window_end < CURRENT_DATE;
+
+-- Accuracy per item, per item type and per model version (dimension says
+-- which). MAPE skips horizons with no consumption. tracking_signal is the
+-- running sum of errors over the mean absolute error; beyond +/-4 the
+-- forecasts are consistently biased rather than noisy.
+CREATE OR REPLACE VIEW public.forecast_accuracy
+WITH (security_invoker = true)
+AS
+SELECT
+  CASE
+    WHEN GROUPING(item_id) = 0 THEN 'item'
+    WHEN GROUPING(item_type) = 0 THEN 'item_type'
+    ELSE 'model_version'
+  END AS dimension,
+  item_id,
+  item_name,
+  item_type,
+  model_version_id,
+  model_version,
+  count(*)::integer AS forecast_count,
+  avg(abs(error))::double precision AS mae,
+  (avg(abs(error) / actual_demand) FILTER (WHERE actual_demand > 0))::double precision AS mape,
+  avg(error)::double precision AS bias,
+  (sum(error) / NULLIF(avg(abs(error)), 0))::double precision AS tracking_signal,
+  avg(within_80::integer)::double precision AS coverage_80,
+  avg(within_95::integer)::double precision AS coverage_95,
+  sum(predicted_demand)::double precision AS total_predicted,
+  sum(actual_demand)::double precision AS total_actual,
+  max(window_end) AS last_window_end
+FROM public.prediction_outcomes
+GROUP BY GROUPING SETS ((item_id, item_name, item_type), (item_type), (model_version_id, model_version));
@@ -0,0 +1,269 @@
+-- Model lifecycle: one active model serves predictions; shadow models forecast
+-- alongside it into prediction_history only, so they can be compared on
+-- backtests before promotion. promoted_at orders the promotion history that
+-- rollback walks back through.
+ALTER TABLE public.model_registry
+  ADD COLUMN is_shadow boolean NOT NULL DEFAULT false,
+  ADD COLUMN promoted_at timestamptz;
+
+-- Earlier code tolerated several active rows; keep only the newest
+UPDATE public.model_registry
+SET is_active = false
+WHERE is_active
+  AND id <> (
+    SELECT id FROM public.model_registry
+    WHERE is_active
+    ORDER BY created_at DESC
+    LIMIT 1
+  );
+
+UPDATE public.model_registry
+SET promoted_at = training_date
+WHERE is_active;
+
+UPDATE public.model_registry SET is_active = false WHERE is_active IS NULL;
+
+ALTER TABLE public.model_registry
+  ALTER COLUMN is_active SET NOT NULL,
+  ADD CONSTRAINT model_registry_active_not_shadow CHECK (NOT (is_active AND is_shadow));
+
+CREATE UNIQUE INDEX model_registry_single_active
+  ON public.model_registry ((true))
+  WHERE is_active;
+
+ALTER TABLE public.prediction_history
+  ADD COLUMN is_shadow boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.promote_model(
+  _model_id uuid,
+  _reason text DEFAULT NULL
+)
+RETURNS public.model_registry
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _model public.model_registry;
+  _previous public.model_registry;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can promote models';
+  END IF;
+
+  SELECT * INTO _model FROM public.model_registry WHERE id = _model_id FOR UPDATE;
+  IF _model.id IS NULL THEN
+    RAISE EXCEPTION 'Model % not found', _model_id;
+  END IF;
+  IF _model.is_active THEN
+    RAISE EXCEPTION 'Model % is already active', _model.model_version;
+  END IF;
+
+  SELECT * INTO _previous FROM public.model_registry WHERE is_active FOR UPDATE;
+
+  UPDATE public.model_registry SET is_active = false WHERE id = _previous.id;
+
+  UPDATE public.model_registry
+  SET is_active = true, is_shadow = false, promoted_at = now()
+  WHERE id = _model_id
+  RETURNING * INTO _model;
+
+  INSERT INTO public.activity_logs (user_id, action, details)
+  VALUES (
+    auth.uid(),
+    'model_promoted',
+    jsonb_build_object(
+      'model_id', _model.id,
+      'model_version', _model.model_version,
+      'previous_model_id', _previous.id,
+      'previous_model_version', _previous.model_version,
+      'reason', _reason
+    )
+  );
+
+  RETURN _model;
+END;
+$$;
+
+-- Reactivates the model promoted before the current one. The current model
+-- leaves the promotion history, so repeated rollbacks keep stepping back.
+CREATE OR REPLACE FUNCTION public.rollback_model(_reason text DEFAULT NULL)
+RETURNS public.model_registry
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _current public.model_registry;
+  _target public.model_registry;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can roll back models';
+  END IF;
+
+  SELECT * INTO _current FROM public.model_registry WHERE is_active FOR UPDATE;
+  IF _current.id IS NULL THEN
+    RAISE EXCEPTION 'No model is active';
+  END IF;
+
+  SELECT * INTO _target
+  FROM public.model_registry
+  WHERE NOT is_active AND promoted_at IS NOT NULL
+  ORDER BY promoted_at DESC
+  LIMIT 1
+  FOR UPDATE;
+  IF _target.id IS NULL THEN
+    RAISE EXCEPTION 'No earlier model to roll back to';
+  END IF;
+
+  UPDATE public.model_registry
+  SET is_active = false, promoted_at = NULL
+  WHERE id = _current.id;
+
+  UPDATE public.model_registry
+  SET is_active = true, is_shadow = false
+  WHERE id = _target.id
+  RETURNING * INTO _target;
+
+  INSERT INTO public.activity_logs (user_id, action, details)
+  VALUES (
+    auth.uid(),
+    'model_rolled_back',
+    jsonb_build_object(
+      'model_id', _target.id,
+      'model_version', _target.model_version,
+      'previous_model_id', _current.id,
+      'previous_model_version', _current.model_version,
+      'reason', _reason
+    )
+  );
+
+  RETURN _target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_model_shadow(_model_id uuid, _enabled boolean)
+RETURNS public.model_registry
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _model public.model_registry;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can manage shadow models';
+  END IF;
+
+  SELECT * INTO _model FROM public.model_registry WHERE id = _model_id FOR UPDATE;
+  IF _model.id IS NULL THEN
+    RAISE EXCEPTION 'Model % not found', _model_id;
+  END IF;
+  IF _model.is_active AND _enabled THEN
+    RAISE EXCEPTION 'The active model cannot run in shadow mode';
+  END IF;
+
+  UPDATE public.model_registry SET is_shadow = _enabled WHERE id = _model_id RETURNING * INTO _model;
+
+  INSERT INTO public.activity_logs (user_id, action, details)
+  VALUES (
+    auth.uid(),
+    CASE WHEN _enabled THEN 'model_shadow_started' ELSE 'model_shadow_stopped' END,
+    jsonb_build_object('model_id', _model.id, 'model_version', _model.model_version)
+  );
+
+  RETURN _model;
+END;
+$$;
+
+-- Shadow forecasts count towards their own model version's accuracy only;
+-- per-item and per-type accuracy reflects the forecasts actually served
+CREATE OR REPLACE VIEW public.prediction_outcomes
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE location_scope AS (
+  SELECT id AS root_id, id AS location_id
+  FROM public.locations
+  UNION ALL
+  SELECT s.root_id, l.id
+  FROM location_scope s
+  JOIN public.locations l ON l.parent_id = s.location_id
+),
+windows AS (
+  SELECT
+    ph.*,
+    (ph.created_at::date + 1) AS window_start,
+    (ph.created_at::date + COALESCE(
+      (ph.feature_values->>'horizon_days')::integer,
+      CEIL((ph.feature_values->>'restock_lead_time')::numeric)::integer
+    )) AS window_end,
+    (ph.feature_values->>'location_id')::uuid AS location_id
+  FROM public.prediction_history ph
+)
+SELECT
+  w.id AS prediction_history_id,
+  w.item_id,
+  i.item_name,
+  i.item_type,
+  w.model_version_id,
+  m.model_version,
+  w.location_id,
+  w.created_at,
+  w.window_start,
+  w.window_end,
+  (w.window_end - w.window_start + 1) AS horizon_days,
+  w.predicted_demand,
+  actual.quantity AS actual_demand,
+  w.predicted_demand - actual.quantity AS error,
+  w.lower_80,
+  w.upper_80,
+  w.lower_95,
+  w.upper_95,
+  CASE WHEN w.lower_80 IS NOT NULL THEN actual.quantity BETWEEN w.lower_80 AND w.upper_80 END AS within_80,
+  CASE WHEN w.lower_95 IS NOT NULL THEN actual.quantity BETWEEN w.lower_95 AND w.upper_95 END AS within_95,
+  w.is_shadow
+FROM windows w
+JOIN public.inventory_items i ON i.id = w.item_id
+LEFT JOIN public.model_registry m ON m.id = w.model_version_id
+CROSS JOIN LATERAL (
+  SELECT COALESCE(SUM(dc.quantity), 0)::numeric AS quantity
+  FROM public.daily_consumption dc
+  WHERE dc.item_id = w.item_id
+    AND dc.consumption_date BETWEEN w.window_start AND w.window_end
+    AND (
+      w.location_id IS NULL
+      OR dc.location_id IN (SELECT s.location_id FROM location_scope s WHERE s.root_id = w.location_id)
+    )
+) actual
+WHERE w.window_end < CURRENT_DATE;
+
+CREATE OR REPLACE VIEW public.forecast_accuracy
+WITH (security_invoker = true)
+AS
+WITH scored AS (
+  SELECT *, NOT is_shadow AS served FROM public.prediction_outcomes
+)
+SELECT
+  CASE
+    WHEN GROUPING(item_id) = 0 THEN 'item'
+    WHEN GROUPING(item_type) = 0 THEN 'item_type'
+    ELSE 'model_version'
+  END AS dimension,
+  item_id,
+  item_name,
+  item_type,
+  model_version_id,
+  model_version,
+  count(*)::integer AS forecast_count,
+  avg(abs(error))::double precision AS mae,
+  (avg(abs(error) / actual_demand) FILTER (WHERE actual_demand > 0))::double precision AS mape,
+  avg(error)::double precision AS bias,
+  (sum(error) / NULLIF(avg(abs(error)), 0))::double precision AS tracking_signal,
+  avg(within_80::integer)::double precision AS coverage_80,
+  avg(within_95::integer)::double precision AS coverage_95,
+  sum(predicted_demand)::double precision AS total_predicted,
+  sum(actual_demand)::double precision AS total_actual,
+  max(window_end) AS last_window_end
+FROM scored
+GROUP BY GROUPING SETS ((served, item_id, item_name, item_type), (served, item_type), (model_version_id, model_version))
+HAVING GROUPING(served) = 1 OR served;
@@ -0,0 +1,66 @@
+-- Inputs to EOQ and safety stock. The global row holds the defaults; item
+-- type and item rows override them, and a NULL field in an override inherits
+-- from the broader scope, so an override only carries the values that differ.
+CREATE TABLE public.cost_parameters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL CHECK (scope IN ('global', 'item_type', 'item')),
+  item_type text,
+  item_id uuid REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  -- Cost of placing one order
+  ordering_cost numeric(10,2) CHECK (ordering_cost >= 0),
+  -- Annual holding cost as a fraction of unit cost
+  holding_cost_rate numeric(6,4) CHECK (holding_cost_rate > 0),
+  -- Probability of not stocking out during a replenishment cycle
+  service_level numeric(5,4) CHECK (service_level >= 0.5 AND service_level < 1),
+  -- Cost of each unit of demand that cannot be met from stock
+  stockout_cost numeric(10,2) CHECK (stockout_cost >= 0),
+  updated_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (
+    (scope = 'global' AND item_type IS NULL AND item_id IS NULL) OR
+    (scope = 'item_type' AND item_type IS NOT NULL AND item_id IS NULL) OR
+    (scope = 'item' AND item_id IS NOT NULL AND item_type IS NULL)
+  ),
+  CHECK (
+    scope <> 'global' OR (
+      ordering_cost IS NOT NULL AND holding_cost_rate IS NOT NULL AND
+      service_level IS NOT NULL AND stockout_cost IS NOT NULL
+    )
+  )
+);
+
+CREATE UNIQUE INDEX cost_parameters_single_global ON public.cost_parameters ((true)) WHERE scope = 'global';
+CREATE UNIQUE INDEX cost_parameters_item_type ON public.cost_parameters(item_type) WHERE scope = 'item_type';
+CREATE UNIQUE INDEX cost_parameters_item ON public.cost_parameters(item_id) WHERE scope = 'item';
+
+-- The values calculate-cost-optimization used to hard-code; a zero stockout
+-- cost leaves shortages out of the annual cost until one is set
+INSERT INTO public.cost_parameters (scope, ordering_cost, holding_cost_rate, service_level, stockout_cost)
+VALUES ('global', 50, 0.25, 0.95, 0);
+
+ALTER TABLE public.cost_parameters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view cost parameters"
+  ON public.cost_parameters FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage cost parameters"
+  ON public.cost_parameters FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+-- The defaults can be edited but not removed
+CREATE POLICY "Global cost parameters cannot be deleted"
+  ON public.cost_parameters AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (scope <> 'global');
+
+CREATE TRIGGER update_cost_parameters_updated_at
+  BEFORE UPDATE ON public.cost_parameters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
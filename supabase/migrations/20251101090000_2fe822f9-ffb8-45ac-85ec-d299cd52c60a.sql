@@ -0,0 +1,109 @@
+-- Catalog classification written by the classify-items job:
+--   ABC by annual consumption value (A: first 80% of spend, B: next 15%, C: rest)
+--   XYZ by variability of weekly demand (coefficient of variation)
+--   VED by clinical criticality (Vital / Essential / Desirable)
+-- Criticality cannot be read off consumption data, so every item counts as
+-- Essential until an admin classifies it; the job never touches ved_class.
+CREATE TABLE public.item_classifications (
+  item_id uuid PRIMARY KEY REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  abc_class text NOT NULL CHECK (abc_class IN ('A', 'B', 'C')),
+  xyz_class text NOT NULL CHECK (xyz_class IN ('X', 'Y', 'Z')),
+  ved_class text NOT NULL DEFAULT 'E' CHECK (ved_class IN ('V', 'E', 'D')),
+  ved_set_by uuid REFERENCES public.profiles(id),
+  ved_set_at timestamptz,
+  annual_consumption_value numeric(14,2) NOT NULL DEFAULT 0,
+  -- Share of total annual spend up to and including this item
+  cumulative_value_share numeric(6,5) NOT NULL DEFAULT 0,
+  -- Coefficient of variation of weekly demand; NULL with too little history
+  demand_cv double precision,
+  weeks_observed integer NOT NULL DEFAULT 0,
+  classified_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_item_classifications_classes
+  ON public.item_classifications(abc_class, xyz_class, ved_class);
+
+ALTER TABLE public.item_classifications ENABLE ROW LEVEL SECURITY;
+
+-- Written by classify-items with the service role and by set_ved_class()
+CREATE POLICY "All authenticated users can view item classifications"
+  ON public.item_classifications FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_item_classifications_updated_at
+  BEFORE UPDATE ON public.item_classifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.set_ved_class(
+  _item_id uuid,
+  _ved_class text
+)
+RETURNS public.item_classifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _previous text;
+  _row public.item_classifications;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can set the VED class';
+  END IF;
+  IF _ved_class NOT IN ('V', 'E', 'D') THEN
+    RAISE EXCEPTION 'Unknown VED class %', _ved_class;
+  END IF;
+
+  SELECT ved_class INTO _previous FROM public.item_classifications WHERE item_id = _item_id;
+
+  -- Items the job has not reached yet start out as C / Z until it runs
+  INSERT INTO public.item_classifications (item_id, abc_class, xyz_class, ved_class, ved_set_by, ved_set_at)
+  VALUES (_item_id, 'C', 'Z', _ved_class, auth.uid(), now())
+  ON CONFLICT (item_id) DO UPDATE
+    SET ved_class = EXCLUDED.ved_class,
+        ved_set_by = EXCLUDED.ved_set_by,
+        ved_set_at = EXCLUDED.ved_set_at
+  RETURNING * INTO _row;
+
+  INSERT INTO public.activity_logs (user_id, action, details)
+  VALUES (
+    auth.uid(),
+    'ved_class_set',
+    jsonb_build_object(
+      'item_id', _item_id,
+      'ved_class', _ved_class,
+      'previous_ved_class', _previous
+    )
+  );
+
+  RETURN _row;
+END;
+$$;
+
+-- Class defaults for cost optimization. They sit between item type and
+-- global in the lookup: item, item type, class, then global. item_class is
+-- the VED letter followed by the ABC letter, e.g. 'VA'.
+ALTER TABLE public.cost_parameters
+  ADD COLUMN item_class text CHECK (item_class ~ '^[VED][ABC]$'),
+  DROP CONSTRAINT cost_parameters_scope_check,
+  DROP CONSTRAINT cost_parameters_check,
+  ADD CONSTRAINT cost_parameters_scope_check CHECK (scope IN ('global', 'item_type', 'class', 'item')),
+  ADD CONSTRAINT cost_parameters_scope_target_check CHECK (
+    (scope = 'global' AND item_type IS NULL AND item_id IS NULL AND item_class IS NULL) OR
+    (scope = 'item_type' AND item_type IS NOT NULL AND item_id IS NULL AND item_class IS NULL) OR
+    (scope = 'class' AND item_class IS NOT NULL AND item_type IS NULL AND item_id IS NULL) OR
+    (scope = 'item' AND item_id IS NOT NULL AND item_type IS NULL AND item_class IS NULL)
+  );
+
+CREATE UNIQUE INDEX cost_parameters_item_class ON public.cost_parameters(item_class) WHERE scope = 'class';
+
+-- Vital items get the highest service level; within a criticality class,
+-- cheap C items can be held at a higher level for little extra cost
+INSERT INTO public.cost_parameters (scope, item_class, service_level)
+VALUES
+  ('class', 'VA', 0.98), ('class', 'VB', 0.99), ('class', 'VC', 0.995),
+  ('class', 'EA', 0.95), ('class', 'EB', 0.96), ('class', 'EC', 0.97),
+  ('class', 'DA', 0.90), ('class', 'DB', 0.92), ('class', 'DC', 0.95);
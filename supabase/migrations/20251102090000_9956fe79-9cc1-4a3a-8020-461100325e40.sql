@@ -0,0 +1,41 @@
+-- Quantity discounts: price breaks per item-vendor link. item_vendors.unit_price
+-- is the price below the first break. With all-units discounts the whole
+-- order is charged at the price of the highest break reached; with
+-- incremental discounts only the units beyond each break get its price.
+ALTER TABLE public.item_vendors
+  ADD COLUMN discount_type text NOT NULL DEFAULT 'all_units'
+    CHECK (discount_type IN ('all_units', 'incremental'));
+
+CREATE TABLE public.vendor_price_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_vendor_id uuid NOT NULL REFERENCES public.item_vendors(id) ON DELETE CASCADE,
+  min_quantity integer NOT NULL CHECK (min_quantity > 1),
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (item_vendor_id, min_quantity)
+);
+
+-- Storage space one unit takes up, in litres; used for shared space limits
+ALTER TABLE public.inventory_items
+  ADD COLUMN unit_volume numeric(10,3) CHECK (unit_volume >= 0);
+
+ALTER TABLE public.vendor_price_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view price tiers"
+  ON public.vendor_price_tiers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage price tiers"
+  ON public.vendor_price_tiers FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_vendor_price_tiers_updated_at
+  BEFORE UPDATE ON public.vendor_price_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,47 @@
+-- Alert rules: alert_configurations rows now drive stock alerts in
+-- run-predictions. A rule applies to every item, to one item type or to one
+-- item; for a given alert type the item's own rule replaces its type's rule,
+-- which replaces the rule for all items. A disabled rule still replaces the
+-- broader one, so an item or type can be opted out.
+ALTER TABLE public.alert_configurations
+  ADD COLUMN severity text NOT NULL DEFAULT 'warning'
+    CHECK (severity IN ('info', 'warning', 'critical')),
+  ADD COLUMN item_type text,
+  ADD COLUMN item_id uuid REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  ADD COLUMN updated_by uuid REFERENCES auth.users(id),
+  ADD CONSTRAINT alert_configurations_scope_check CHECK (item_type IS NULL OR item_id IS NULL);
+
+ALTER TABLE public.alert_configurations
+  DROP CONSTRAINT alert_configurations_alert_type_check,
+  ADD CONSTRAINT alert_configurations_alert_type_check CHECK (alert_type IN (
+    'low_stock', 'critical_stock', 'stockout_risk', 'expiry_warning', 'data_drift', 'prediction_error'
+  ));
+
+-- Stock thresholds:
+--   percentage            stock below this % of min_required
+--   absolute              stock below this many units
+--   days_of_cover         stock lasts fewer than this many days at forecast demand
+--   stockout_within_days  forecast demand runs stock out within this many days
+--   expiry_within_days    stock on hand expires within this many days
+ALTER TABLE public.alert_configurations
+  DROP CONSTRAINT alert_configurations_threshold_type_check,
+  ADD CONSTRAINT alert_configurations_threshold_type_check CHECK (threshold_type IN (
+    'absolute', 'percentage', 'days_of_cover', 'stockout_within_days', 'expiry_within_days'
+  ));
+
+CREATE UNIQUE INDEX idx_alert_configurations_global
+  ON public.alert_configurations(alert_type)
+  WHERE item_type IS NULL AND item_id IS NULL;
+CREATE UNIQUE INDEX idx_alert_configurations_item_type
+  ON public.alert_configurations(alert_type, item_type)
+  WHERE item_type IS NOT NULL;
+CREATE UNIQUE INDEX idx_alert_configurations_item
+  ON public.alert_configurations(alert_type, item_id)
+  WHERE item_id IS NOT NULL;
+
+-- Carry over the thresholds run-predictions used to hard-code
+UPDATE public.alert_configurations SET severity = 'critical' WHERE alert_type = 'critical_stock';
+UPDATE public.alert_configurations
+SET threshold_type = 'expiry_within_days'
+WHERE alert_type = 'expiry_warning' AND threshold_type = 'absolute';
+
@@ -0,0 +1,255 @@
+-- Alert lifecycle: open -> acknowledged -> resolved, with snoozing and
+-- assignment along the way. An alert whose condition recurs after it was
+-- resolved is reopened by run-predictions rather than raised afresh. Every
+-- transition is recorded in alert_events, which the response-time metrics
+-- are built from.
+ALTER TABLE public.alerts_history
+  ADD COLUMN status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'acknowledged', 'snoozed', 'resolved')),
+  ADD COLUMN opened_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN acknowledged_at timestamptz,
+  ADD COLUMN acknowledged_by uuid REFERENCES auth.users(id),
+  ADD COLUMN assigned_to uuid REFERENCES auth.users(id),
+  ADD COLUMN assigned_at timestamptz,
+  ADD COLUMN snoozed_until timestamptz,
+  ADD COLUMN resolution_note text,
+  ADD COLUMN reopened_count integer NOT NULL DEFAULT 0;
+
+UPDATE public.alerts_history
+SET opened_at = created_at,
+    status = CASE WHEN resolved_at IS NOT NULL THEN 'resolved' ELSE 'open' END;
+
+CREATE INDEX idx_alerts_history_status ON public.alerts_history(status);
+CREATE INDEX idx_alerts_history_assigned_to ON public.alerts_history(assigned_to);
+
+CREATE TABLE public.alert_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES public.alerts_history(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'opened', 'acknowledged', 'assigned', 'snoozed', 'unsnoozed', 'resolved', 'reopened'
+  )),
+  actor uuid REFERENCES auth.users(id),
+  details jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_alert_events_alert ON public.alert_events(alert_id, created_at);
+
+ALTER TABLE public.alert_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the log_alert_event() trigger
+CREATE POLICY "All authenticated users can view alert events"
+  ON public.alert_events FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Existing alerts start their history at creation
+INSERT INTO public.alert_events (alert_id, event_type, created_at)
+SELECT id, 'opened', created_at FROM public.alerts_history;
+INSERT INTO public.alert_events (alert_id, event_type, actor, created_at)
+SELECT id, 'resolved', resolved_by, resolved_at FROM public.alerts_history WHERE resolved_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.log_alert_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.alert_events (alert_id, event_type, actor)
+    VALUES (NEW.id, 'opened', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, actor, details)
+    VALUES (
+      NEW.id,
+      CASE
+        WHEN NEW.status = 'open' AND OLD.status = 'resolved' THEN 'reopened'
+        WHEN NEW.status = 'open' THEN 'unsnoozed'
+        ELSE NEW.status
+      END,
+      auth.uid(),
+      CASE NEW.status
+        WHEN 'snoozed' THEN jsonb_build_object('snoozed_until', NEW.snoozed_until)
+        WHEN 'resolved' THEN jsonb_build_object('resolution_note', NEW.resolution_note)
+        ELSE jsonb_build_object('previous_status', OLD.status)
+      END
+    );
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.alert_events (alert_id, event_type, actor, details)
+    VALUES (
+      NEW.id,
+      'assigned',
+      auth.uid(),
+      jsonb_build_object('assigned_to', NEW.assigned_to, 'previous_assignee', OLD.assigned_to)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_alerts_history_events
+  AFTER INSERT OR UPDATE ON public.alerts_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_alert_event();
+
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(_alert_id uuid)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.alerts_history
+  SET status = 'acknowledged',
+      acknowledged_at = now(),
+      acknowledged_by = auth.uid(),
+      snoozed_until = NULL,
+      is_read = true
+  WHERE id = _alert_id AND status IN ('open', 'snoozed')
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is not open', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+-- Admins and managers can assign to anyone; others can only take an alert
+-- themselves. Leaving out the assignee unassigns.
+CREATE OR REPLACE FUNCTION public.assign_alert(_alert_id uuid, _assignee uuid DEFAULT NULL)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _assignee IS DISTINCT FROM auth.uid() AND NOT (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only admins and managers can assign alerts to others';
+  END IF;
+
+  UPDATE public.alerts_history
+  SET assigned_to = _assignee,
+      assigned_at = CASE WHEN _assignee IS NULL THEN NULL ELSE now() END
+  WHERE id = _alert_id AND status <> 'resolved'
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is resolved or does not exist', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snooze_alert(_alert_id uuid, _until timestamptz)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _until <= now() THEN
+    RAISE EXCEPTION 'Snooze must end in the future';
+  END IF;
+
+  UPDATE public.alerts_history
+  SET status = 'snoozed',
+      snoozed_until = _until
+  WHERE id = _alert_id AND status <> 'resolved'
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is resolved or does not exist', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+-- Resolving also counts as acknowledging if nobody had
+CREATE OR REPLACE FUNCTION public.resolve_alert(_alert_id uuid, _note text)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _note IS NULL OR trim(_note) = '' THEN
+    RAISE EXCEPTION 'A resolution note is required';
+  END IF;
+
+  UPDATE public.alerts_history
+  SET status = 'resolved',
+      resolved_at = now(),
+      resolved_by = auth.uid(),
+      resolution_note = trim(_note),
+      snoozed_until = NULL,
+      acknowledged_at = COALESCE(acknowledged_at, now()),
+      acknowledged_by = COALESCE(acknowledged_by, auth.uid()),
+      is_read = true
+  WHERE id = _alert_id AND status <> 'resolved'
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is already resolved or does not exist', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+-- One row per time an alert was open: from opening (or reopening) to the
+-- first acknowledgement and the resolution that followed. Resolving without
+-- acknowledging counts as acknowledging at that moment.
+CREATE VIEW public.alert_episodes
+WITH (security_invoker = true)
+AS
+WITH numbered AS (
+  SELECT
+    e.*,
+    COUNT(*) FILTER (WHERE e.event_type IN ('opened', 'reopened'))
+      OVER (PARTITION BY e.alert_id ORDER BY e.created_at, e.id) AS episode
+  FROM public.alert_events e
+)
+SELECT
+  n.alert_id,
+  n.episode::integer AS episode,
+  a.alert_type,
+  a.severity,
+  a.item_id,
+  MIN(n.created_at) FILTER (WHERE n.event_type IN ('opened', 'reopened')) AS opened_at,
+  MIN(n.created_at) FILTER (WHERE n.event_type IN ('acknowledged', 'resolved')) AS acknowledged_at,
+  MIN(n.created_at) FILTER (WHERE n.event_type = 'resolved') AS resolved_at
+FROM numbered n
+JOIN public.alerts_history a ON a.id = n.alert_id
+WHERE n.episode > 0
+GROUP BY n.alert_id, n.episode, a.alert_type, a.severity, a.item_id;
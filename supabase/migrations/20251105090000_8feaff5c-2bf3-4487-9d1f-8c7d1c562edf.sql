@@ -0,0 +1,460 @@
+-- Alert deduplication: while an alert is unresolved, a recurrence of its
+-- condition (same item, alert type and scope) bumps occurrence_count and
+-- last_seen_at instead of raising another alert.
+ALTER TABLE public.alerts_history
+  ADD COLUMN occurrence_count integer NOT NULL DEFAULT 1,
+  ADD COLUMN last_seen_at timestamptz NOT NULL DEFAULT now(),
+  -- Who the alert is for; starts as the rule's recipients and grows as it escalates
+  ADD COLUMN recipient_roles text[] NOT NULL DEFAULT ARRAY['admin', 'inventory_manager'],
+  ADD COLUMN escalation_level integer NOT NULL DEFAULT 0,
+  ADD COLUMN escalated_at timestamptz;
+
+UPDATE public.alerts_history SET last_seen_at = created_at;
+
+-- What a condition is scoped to besides its item and alert type: the
+-- purchase order for a receiving discrepancy, since discrepancies on
+-- different orders are different problems, and the location for the rest
+CREATE OR REPLACE FUNCTION public.alert_condition_scope(_alert_type text, _metadata jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN _alert_type = 'receiving_discrepancy' THEN COALESCE(_metadata->>'purchase_order_id', '')
+    ELSE COALESCE(_metadata->>'location_id', '')
+  END;
+$$;
+UPDATE public.alerts_history
+SET recipient_roles = ARRAY(SELECT jsonb_array_elements_text(metadata->'recipient_roles'))
+WHERE jsonb_typeof(metadata->'recipient_roles') = 'array';
+
+-- Fold existing duplicates into the earliest unresolved alert of each group
+WITH grouped AS (
+  SELECT
+    id,
+    row_number() OVER w AS position,
+    COUNT(*) OVER w AS occurrences,
+    MAX(created_at) OVER w AS last_seen
+  FROM public.alerts_history
+  WHERE status <> 'resolved' AND item_id IS NOT NULL
+  WINDOW w AS (
+    PARTITION BY item_id, alert_type, public.alert_condition_scope(alert_type, metadata)
+    ORDER BY created_at
+    ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING
+  )
+)
+UPDATE public.alerts_history a
+SET occurrence_count = g.occurrences,
+    last_seen_at = g.last_seen
+FROM grouped g
+WHERE a.id = g.id AND g.position = 1;
+
+DELETE FROM public.alerts_history a
+USING (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY item_id, alert_type, public.alert_condition_scope(alert_type, metadata)
+      ORDER BY created_at
+    ) AS position
+  FROM public.alerts_history
+  WHERE status <> 'resolved' AND item_id IS NOT NULL
+) duplicates
+WHERE a.id = duplicates.id AND duplicates.position > 1;
+
+CREATE UNIQUE INDEX idx_alerts_history_unresolved_condition
+  ON public.alerts_history(item_id, alert_type, (public.alert_condition_scope(alert_type, metadata)))
+  WHERE status <> 'resolved' AND item_id IS NOT NULL;
+
+-- A discrepancy on a further receipt against the same order, while the
+-- order's alert for that item is still unresolved, counts as a recurrence of
+-- it rather than failing the receipt on the unique index
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id uuid,
+  _lines jsonb,
+  _location_id uuid DEFAULT NULL,
+  _delivery_reference text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _final boolean DEFAULT false
+)
+RETURNS public.goods_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _order public.purchase_orders;
+  _vendor_name text;
+  _receipt public.goods_receipts;
+  _line jsonb;
+  _po_line public.purchase_order_lines;
+  _item_id uuid;
+  _item_name text;
+  _received integer;
+  _damaged integer;
+  _short integer;
+  _discrepancy text;
+  _tx public.stock_transactions;
+  _discrepancies jsonb := '[]'::jsonb;
+  _all_received boolean;
+  _any_received boolean;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF _order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order % not found', _purchase_order_id;
+  END IF;
+
+  IF _order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %; only sent orders can be received', _order.po_number, _order.status;
+  END IF;
+
+  IF jsonb_typeof(_lines) <> 'array' OR (jsonb_array_length(_lines) = 0 AND NOT _final) THEN
+    RAISE EXCEPTION 'A goods receipt needs at least one line';
+  END IF;
+
+  SELECT name INTO _vendor_name FROM public.vendors WHERE id = _order.vendor_id;
+
+  INSERT INTO public.goods_receipts (purchase_order_id, location_id, delivery_reference, notes, received_by)
+  VALUES (_order.id, COALESCE(_location_id, _order.location_id), NULLIF(trim(_delivery_reference), ''), NULLIF(trim(_notes), ''), auth.uid())
+  RETURNING * INTO _receipt;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines)
+  LOOP
+    _received := COALESCE((_line->>'quantity_received')::integer, 0);
+    _damaged := COALESCE((_line->>'quantity_damaged')::integer, 0);
+    _short := COALESCE((_line->>'quantity_short')::integer, 0);
+    _item_id := NULLIF(_line->>'item_id', '')::uuid;
+    _po_line := NULL;
+    _tx := NULL;
+    _discrepancy := NULL;
+
+    IF _received < 0 OR _damaged < 0 OR _short < 0 THEN
+      RAISE EXCEPTION 'Receipt quantities cannot be negative';
+    END IF;
+
+    IF NULLIF(_line->>'purchase_order_line_id', '') IS NOT NULL THEN
+      SELECT * INTO _po_line
+      FROM public.purchase_order_lines
+      WHERE id = (_line->>'purchase_order_line_id')::uuid AND purchase_order_id = _order.id
+      FOR UPDATE;
+
+      IF _po_line.id IS NULL THEN
+        RAISE EXCEPTION 'Line % is not on purchase order %', _line->>'purchase_order_line_id', _order.po_number;
+      END IF;
+
+      _item_id := COALESCE(_item_id, _po_line.item_id);
+    ELSIF _item_id IS NOT NULL THEN
+      SELECT * INTO _po_line
+      FROM public.purchase_order_lines
+      WHERE purchase_order_id = _order.id AND item_id = _item_id
+      FOR UPDATE;
+    END IF;
+
+    IF _item_id IS NULL THEN
+      RAISE EXCEPTION 'Each receipt line needs an item';
+    END IF;
+
+    IF _po_line.id IS NULL OR _po_line.item_id <> _item_id THEN
+      _discrepancy := 'wrong_item';
+    ELSIF _po_line.quantity_received + _received > _po_line.quantity_ordered THEN
+      _discrepancy := 'over_delivery';
+    ELSIF _short > 0 THEN
+      _discrepancy := 'short_shipped';
+    ELSIF _damaged > 0 THEN
+      _discrepancy := 'damaged';
+    END IF;
+
+    IF _discrepancy IS DISTINCT FROM 'wrong_item' AND _received > 0 THEN
+      _tx := public.receive_stock(
+        _item_id,
+        _received,
+        _line->>'lot_number',
+        NULLIF(_line->>'expiry_date', '')::date,
+        'Received on ' || _order.po_number || ' (' || _receipt.receipt_number || ')',
+        _receipt.location_id
+      );
+
+      PERFORM set_config('app.goods_receipt', 'on', true);
+      UPDATE public.purchase_order_lines
+      SET quantity_received = quantity_received + _received
+      WHERE id = _po_line.id;
+      PERFORM set_config('app.goods_receipt', 'off', true);
+    END IF;
+
+    INSERT INTO public.goods_receipt_lines (
+      goods_receipt_id, purchase_order_line_id, item_id, quantity_received, quantity_damaged,
+      quantity_short, lot_number, expiry_date, lot_id, stock_transaction_id, discrepancy_type
+    )
+    VALUES (
+      _receipt.id, _po_line.id, _item_id,
+      CASE WHEN _discrepancy = 'wrong_item' THEN 0 ELSE _received END,
+      _damaged, _short,
+      NULLIF(trim(_line->>'lot_number'), ''), NULLIF(_line->>'expiry_date', '')::date,
+      _tx.lot_id, _tx.id, _discrepancy
+    );
+
+    IF _discrepancy IS NOT NULL THEN
+      SELECT item_name INTO _item_name FROM public.inventory_items WHERE id = _item_id;
+      _discrepancies := _discrepancies || jsonb_build_object(
+        'item_id', _item_id,
+        'item_name', _item_name,
+        'type', _discrepancy,
+        'ordered', _po_line.quantity_ordered,
+        'received', _received,
+        'damaged', _damaged,
+        'short', _short
+      );
+    END IF;
+  END LOOP;
+
+  -- On a final delivery, whatever is still outstanding will not arrive
+  IF _final THEN
+    _discrepancies := _discrepancies || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'item_id', l.item_id,
+        'item_name', i.item_name,
+        'type', 'under_delivery',
+        'ordered', l.quantity_ordered,
+        'received', l.quantity_received,
+        'outstanding', l.quantity_ordered - l.quantity_received
+      ))
+      FROM public.purchase_order_lines l
+      JOIN public.inventory_items i ON i.id = l.item_id
+      WHERE l.purchase_order_id = _order.id AND l.quantity_received < l.quantity_ordered
+    ), '[]'::jsonb);
+  END IF;
+
+  SELECT bool_and(quantity_received >= quantity_ordered), bool_or(quantity_received > 0)
+  INTO _all_received, _any_received
+  FROM public.purchase_order_lines
+  WHERE purchase_order_id = _order.id;
+
+  IF _all_received OR _final THEN
+    UPDATE public.purchase_orders SET status = 'closed' WHERE id = _order.id;
+  ELSIF _any_received THEN
+    UPDATE public.purchase_orders SET status = 'partially_received' WHERE id = _order.id;
+  END IF;
+
+  IF jsonb_array_length(_discrepancies) > 0 THEN
+    INSERT INTO public.alerts_history AS a (alert_type, severity, title, message, item_id, metadata)
+    VALUES (
+      'receiving_discrepancy',
+      CASE WHEN _discrepancies @> '[{"type": "wrong_item"}]' THEN 'critical' ELSE 'warning' END,
+      'Receiving discrepancy: ' || _order.po_number,
+      jsonb_array_length(_discrepancies) || ' line(s) on ' || _order.po_number || ' from ' || COALESCE(_vendor_name, 'vendor') ||
+        ' did not match the order (' || _receipt.receipt_number || ')',
+      CASE WHEN jsonb_array_length(_discrepancies) = 1 THEN (_discrepancies->0->>'item_id')::uuid END,
+      jsonb_build_object(
+        'purchase_order_id', _order.id,
+        'po_number', _order.po_number,
+        'goods_receipt_id', _receipt.id,
+        'receipt_number', _receipt.receipt_number,
+        'notify_role', 'inventory_manager',
+        'discrepancies', _discrepancies
+      )
+    )
+    ON CONFLICT (item_id, alert_type, (public.alert_condition_scope(alert_type, metadata)))
+      WHERE status <> 'resolved' AND item_id IS NOT NULL
+    DO UPDATE SET
+      occurrence_count = a.occurrence_count + 1,
+      last_seen_at = now(),
+      severity = CASE WHEN EXCLUDED.severity = 'critical' THEN 'critical' ELSE a.severity END,
+      message = EXCLUDED.message,
+      metadata = EXCLUDED.metadata;
+  END IF;
+
+  RETURN _receipt;
+END;
+$$;
+
+-- Escalation: an alert left open (unacknowledged) for escalate_after_minutes
+-- goes up a level, and again after the same time at each level up to
+-- max_level. Each level raises the severity one step if raise_severity is
+-- set, and adds the next role up the nurse -> inventory_manager -> admin
+-- chain to the recipients. The alert type's own policy replaces the policy
+-- for all types, even when disabled.
+CREATE TABLE public.escalation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_type text,
+  escalate_after_minutes integer NOT NULL CHECK (escalate_after_minutes > 0),
+  max_level integer NOT NULL DEFAULT 2 CHECK (max_level BETWEEN 1 AND 5),
+  raise_severity boolean NOT NULL DEFAULT true,
+  is_enabled boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_escalation_policies_global
+  ON public.escalation_policies((alert_type IS NULL))
+  WHERE alert_type IS NULL;
+CREATE UNIQUE INDEX idx_escalation_policies_alert_type
+  ON public.escalation_policies(alert_type)
+  WHERE alert_type IS NOT NULL;
+
+ALTER TABLE public.escalation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view escalation policies"
+  ON public.escalation_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage escalation policies"
+  ON public.escalation_policies FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_escalation_policies_updated_at
+  BEFORE UPDATE ON public.escalation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.escalation_policies (alert_type, escalate_after_minutes, max_level)
+VALUES (NULL, 60, 2);
+
+ALTER TABLE public.alert_events
+  DROP CONSTRAINT alert_events_event_type_check,
+  ADD CONSTRAINT alert_events_event_type_check CHECK (event_type IN (
+    'opened', 'acknowledged', 'assigned', 'snoozed', 'unsnoozed', 'resolved', 'reopened', 'escalated'
+  ));
+
+CREATE OR REPLACE FUNCTION public.log_alert_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.alert_events (alert_id, event_type, actor)
+    VALUES (NEW.id, 'opened', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, actor, details)
+    VALUES (
+      NEW.id,
+      CASE
+        WHEN NEW.status = 'open' AND OLD.status = 'resolved' THEN 'reopened'
+        WHEN NEW.status = 'open' THEN 'unsnoozed'
+        ELSE NEW.status
+      END,
+      auth.uid(),
+      CASE NEW.status
+        WHEN 'snoozed' THEN jsonb_build_object('snoozed_until', NEW.snoozed_until)
+        WHEN 'resolved' THEN jsonb_build_object('resolution_note', NEW.resolution_note)
+        ELSE jsonb_build_object('previous_status', OLD.status)
+      END
+    );
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.alert_events (alert_id, event_type, actor, details)
+    VALUES (
+      NEW.id,
+      'assigned',
+      auth.uid(),
+      jsonb_build_object('assigned_to', NEW.assigned_to, 'previous_assignee', OLD.assigned_to)
+    );
+  END IF;
+
+  IF NEW.escalation_level > OLD.escalation_level THEN
+    INSERT INTO public.alert_events (alert_id, event_type, actor, details)
+    VALUES (
+      NEW.id,
+      'escalated',
+      auth.uid(),
+      jsonb_build_object(
+        'escalation_level', NEW.escalation_level,
+        'severity', NEW.severity,
+        'previous_severity', OLD.severity,
+        'recipient_roles', NEW.recipient_roles
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Escalates every alert that is due. Safe to call at any time and from
+-- anywhere; run-predictions calls it on each run and the Alerts page when it
+-- is opened. Returns the number of alerts escalated.
+CREATE OR REPLACE FUNCTION public.escalate_alerts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  WITH due AS (
+    SELECT a.id, p.raise_severity
+    FROM public.alerts_history a
+    CROSS JOIN LATERAL (
+      SELECT *
+      FROM public.escalation_policies p
+      WHERE p.alert_type = a.alert_type OR p.alert_type IS NULL
+      ORDER BY p.alert_type IS NULL
+      LIMIT 1
+    ) p
+    WHERE a.status = 'open'
+      AND p.is_enabled
+      AND a.escalation_level < p.max_level
+      AND now() - COALESCE(a.escalated_at, a.opened_at) >= make_interval(mins => p.escalate_after_minutes)
+  )
+  UPDATE public.alerts_history a
+  SET escalation_level = a.escalation_level + 1,
+      escalated_at = now(),
+      severity = CASE
+        WHEN NOT due.raise_severity THEN a.severity
+        WHEN a.severity = 'info' THEN 'warning'
+        ELSE 'critical'
+      END,
+      recipient_roles = CASE
+        WHEN 'admin' = ANY(a.recipient_roles) THEN a.recipient_roles
+        WHEN 'inventory_manager' = ANY(a.recipient_roles) THEN array_append(a.recipient_roles, 'admin')
+        WHEN 'nurse' = ANY(a.recipient_roles) THEN array_append(a.recipient_roles, 'inventory_manager')
+        ELSE array_append(a.recipient_roles, 'nurse')
+      END
+  FROM due
+  WHERE a.id = due.id;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Reopening and escalation both start a new waiting period
+CREATE OR REPLACE FUNCTION public.reset_alert_escalation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status = 'open' AND OLD.status = 'resolved' THEN
+    NEW.escalation_level := 0;
+    NEW.escalated_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_alerts_history_escalation
+  BEFORE UPDATE ON public.alerts_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_alert_escalation();
@@ -0,0 +1,170 @@
+-- Notification delivery. The dispatcher (_shared/notifications.ts) turns each
+-- open alert into one delivery per channel and recipient, then works through
+-- the deliveries with retries, recording every attempt.
+
+-- Per-user channel choices and quiet hours. Users without a row get every
+-- channel at any time.
+CREATE TABLE public.notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  channels text[] NOT NULL DEFAULT ARRAY['in_app', 'email'],
+  -- Email waits until quiet hours end; the in-app inbox is always filled
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text NOT NULL DEFAULT 'UTC',
+  critical_overrides_quiet_hours boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT notification_preferences_quiet_hours_check CHECK (
+    (quiet_hours_start IS NULL) = (quiet_hours_end IS NULL)
+  )
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Outgoing webhooks. Each request is signed with the webhook's secret so
+-- the receiver can verify it came from us.
+CREATE TABLE public.notification_webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  secret text NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  -- NULL sends every alert type
+  alert_types text[],
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_webhooks ENABLE ROW LEVEL SECURITY;
+
+-- Admins only, as the rows hold signing secrets
+CREATE POLICY "Admins can manage notification webhooks"
+  ON public.notification_webhooks FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_notification_webhooks_updated_at
+  BEFORE UPDATE ON public.notification_webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One delivery of one alert episode (reopened_count) at one escalation level
+-- over one channel to one user or webhook
+CREATE TABLE public.notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES public.alerts_history(id) ON DELETE CASCADE,
+  episode integer NOT NULL DEFAULT 0,
+  escalation_level integer NOT NULL DEFAULT 0,
+  channel text NOT NULL CHECK (channel IN ('in_app', 'email', 'webhook')),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  webhook_id uuid REFERENCES public.notification_webhooks(id) ON DELETE CASCADE,
+  target_id uuid GENERATED ALWAYS AS (COALESCE(user_id, webhook_id)) STORED,
+  -- Email address or URL at the time the delivery was queued
+  destination text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'deferred', 'sent', 'failed', 'cancelled')),
+  attempt_count integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT notification_deliveries_target_check CHECK (
+    CASE channel WHEN 'webhook' THEN webhook_id IS NOT NULL ELSE user_id IS NOT NULL END
+  ),
+  CONSTRAINT notification_deliveries_unique UNIQUE (alert_id, episode, escalation_level, channel, target_id)
+);
+
+CREATE INDEX idx_notification_deliveries_due
+  ON public.notification_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'deferred');
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view notification deliveries"
+  ON public.notification_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON public.notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.notification_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid NOT NULL REFERENCES public.notification_deliveries(id) ON DELETE CASCADE,
+  attempt_number integer NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  -- HTTP status for webhooks
+  response_status integer,
+  duration_ms integer,
+  attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_attempts_delivery ON public.notification_attempts(delivery_id);
+
+ALTER TABLE public.notification_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view notification attempts"
+  ON public.notification_attempts FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+-- In-app inbox
+CREATE TABLE public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  alert_id uuid REFERENCES public.alerts_history(id) ON DELETE CASCADE,
+  delivery_id uuid UNIQUE REFERENCES public.notification_deliveries(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  severity text NOT NULL DEFAULT 'info',
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON public.notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,26 @@
+-- Stock projection per prediction: how long stock on hand lasts at forecast
+-- demand as open purchase orders arrive, and when it runs out
+ALTER TABLE public.predictions
+  ADD COLUMN days_of_cover numeric,
+  -- NULL when stock outlasts the projection (a year), or there is no demand
+  ADD COLUMN stockout_date date,
+  ADD COLUMN incoming_quantity numeric NOT NULL DEFAULT 0,
+  ADD COLUMN next_arrival_date date;
+
+-- The latest projection for each item, hospital-wide (location_id NULL) and
+-- per location that has had a location-scoped prediction run
+CREATE VIEW public.latest_stock_projections
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (p.item_id, p.location_id)
+  p.item_id,
+  p.location_id,
+  p.id AS prediction_id,
+  p.created_at AS projected_at,
+  p.days_of_cover,
+  p.stockout_date,
+  (p.stockout_date - CURRENT_DATE) AS days_until_stockout,
+  p.incoming_quantity,
+  p.next_arrival_date
+FROM public.predictions p
+ORDER BY p.item_id, p.location_id, p.created_at DESC;
@@ -0,0 +1,70 @@
+-- Consumption days flagged as anomalous by run-predictions, one row per item,
+-- location and day. Each is raised as a usage_anomaly alert; managers label
+-- the cause, and days labelled as errors or theft are left out of the
+-- baseline later days are judged against.
+CREATE TABLE public.usage_anomalies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE,
+  consumption_date date NOT NULL,
+  observed_quantity numeric NOT NULL,
+  expected_quantity numeric NOT NULL,
+  expected_low numeric NOT NULL,
+  expected_high numeric NOT NULL,
+  robust_z numeric NOT NULL,
+  direction text NOT NULL CHECK (direction IN ('spike', 'drop')),
+  label text CHECK (label IN ('real', 'error', 'theft_suspected')),
+  labelled_by uuid REFERENCES auth.users(id),
+  labelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (item_id, location_id, consumption_date)
+);
+
+CREATE INDEX idx_usage_anomalies_date ON public.usage_anomalies(consumption_date DESC);
+
+ALTER TABLE public.usage_anomalies ENABLE ROW LEVEL SECURITY;
+
+-- Written by run-predictions with the service role; labelled through
+-- label_usage_anomaly
+CREATE POLICY "All authenticated users can view usage anomalies"
+  ON public.usage_anomalies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_usage_anomalies_updated_at
+  BEFORE UPDATE ON public.usage_anomalies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Admins and managers label what caused an anomaly; leaving out the label
+-- clears it
+CREATE OR REPLACE FUNCTION public.label_usage_anomaly(_anomaly_id uuid, _label text DEFAULT NULL)
+RETURNS public.usage_anomalies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.usage_anomalies;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only admins and managers can label anomalies';
+  END IF;
+
+  UPDATE public.usage_anomalies
+  SET label = _label,
+      labelled_by = CASE WHEN _label IS NULL THEN NULL ELSE auth.uid() END,
+      labelled_at = CASE WHEN _label IS NULL THEN NULL ELSE now() END
+  WHERE id = _anomaly_id
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Anomaly % not found', _anomaly_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
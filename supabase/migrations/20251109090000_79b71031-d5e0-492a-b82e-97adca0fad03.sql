@@ -0,0 +1,64 @@
+-- Saved what-if scenarios for demand planning. Demand multipliers and
+-- lead-time shocks are JSON arrays (see simulate-scenario); the latest
+-- simulation result is kept with the scenario so scenarios can be compared.
+CREATE TABLE public.demand_scenarios (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  horizon_days integer NOT NULL DEFAULT 28 CHECK (horizon_days BETWEEN 1 AND 365),
+  -- [{ scope: item_type | item | location, target, multiplier, start_day, duration_days }]
+  demand_multipliers jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(demand_multipliers) = 'array'),
+  -- [{ scope: all | item_type | item, target, extra_days, start_day, duration_days }]
+  lead_time_shocks jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(lead_time_shocks) = 'array'),
+  result jsonb,
+  simulated_at timestamptz,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.demand_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view demand scenarios"
+  ON public.demand_scenarios FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage demand scenarios"
+  ON public.demand_scenarios FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_demand_scenarios_updated_at
+  BEFORE UPDATE ON public.demand_scenarios
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Editing a scenario makes its stored result stale
+CREATE OR REPLACE FUNCTION public.clear_stale_scenario_result()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.horizon_days IS DISTINCT FROM OLD.horizon_days
+    OR NEW.demand_multipliers IS DISTINCT FROM OLD.demand_multipliers
+    OR NEW.lead_time_shocks IS DISTINCT FROM OLD.lead_time_shocks THEN
+    NEW.result := NULL;
+    NEW.simulated_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_stale_scenario_result
+  BEFORE UPDATE ON public.demand_scenarios
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_stale_scenario_result();
@@ -0,0 +1,44 @@
+-- Simulated stockout risk per prediction: run-predictions samples demand and
+-- lead time thousands of times and records how often stock on hand runs out
+-- before the next delivery, and by how much on average
+ALTER TABLE public.predictions
+  -- 0 to 1; NULL for predictions made before simulation
+  ADD COLUMN stockout_probability numeric,
+  ADD COLUMN expected_units_short numeric;
+
+CREATE INDEX idx_predictions_stockout_probability
+  ON public.predictions(stockout_probability DESC NULLS LAST);
+
+-- New columns go at the end so the view can be replaced in place
+CREATE OR REPLACE VIEW public.latest_stock_projections
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (p.item_id, p.location_id)
+  p.item_id,
+  p.location_id,
+  p.id AS prediction_id,
+  p.created_at AS projected_at,
+  p.days_of_cover,
+  p.stockout_date,
+  (p.stockout_date - CURRENT_DATE) AS days_until_stockout,
+  p.incoming_quantity,
+  p.next_arrival_date,
+  p.stockout_probability,
+  p.expected_units_short
+FROM public.predictions p
+ORDER BY p.item_id, p.location_id, p.created_at DESC;
+
+-- Stock thresholds:
+--   percentage            stock below this % of min_required
+--   absolute              stock below this many units
+--   days_of_cover         stock lasts fewer than this many days at forecast demand
+--   stockout_within_days  forecast demand runs stock out within this many days
+--   expiry_within_days    stock on hand expires within this many days
+--   stockout_probability  simulated chance (%) of running out before the next
+--                         delivery is at least this
+ALTER TABLE public.alert_configurations
+  DROP CONSTRAINT alert_configurations_threshold_type_check,
+  ADD CONSTRAINT alert_configurations_threshold_type_check CHECK (threshold_type IN (
+    'absolute', 'percentage', 'days_of_cover', 'stockout_within_days', 'expiry_within_days',
+    'stockout_probability'
+  ));
@@ -0,0 +1,120 @@
+-- Calendar inputs to forecasting. run-predictions fits weekday and
+-- time-of-year patterns, the effect of each type of calendar event, and
+-- optionally an external regressor series alongside its smoothing models
+-- (see _shared/calendarEffects.ts), and records which effects drove each
+-- forecast.
+CREATE TABLE public.calendar_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  -- Effects are estimated per type, so one year's holidays inform the next
+  event_type text NOT NULL DEFAULT 'holiday'
+    CHECK (event_type IN ('holiday', 'elective_surgery', 'respiratory_season', 'other')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  -- NULL applies to every location
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE,
+  notes text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_calendar_events_dates ON public.calendar_events(start_date, end_date);
+
+ALTER TABLE public.calendar_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view calendar events"
+  ON public.calendar_events FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage calendar events"
+  ON public.calendar_events FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_calendar_events_updated_at
+  BEFORE UPDATE ON public.calendar_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- External daily series, hospital-wide, such as bed occupancy or scheduled
+-- procedure counts. Values for future days (a theatre schedule) feed the
+-- forecast directly; days without a value are taken as average.
+CREATE TABLE public.demand_regressors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  unit text,
+  description text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.regressor_values (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  regressor_id uuid NOT NULL REFERENCES public.demand_regressors(id) ON DELETE CASCADE,
+  value_date date NOT NULL,
+  value numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- A re-imported CSV replaces the values for its dates
+  UNIQUE (regressor_id, value_date)
+);
+
+ALTER TABLE public.demand_regressors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.regressor_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view demand regressors"
+  ON public.demand_regressors FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage demand regressors"
+  ON public.demand_regressors FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE POLICY "All authenticated users can view regressor values"
+  ON public.regressor_values FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage regressor values"
+  ON public.regressor_values FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  );
+
+CREATE TRIGGER update_demand_regressors_updated_at
+  BEFORE UPDATE ON public.demand_regressors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The effects behind each forecast:
+-- [{ kind: weekly | yearly | event | regressor, label, units, detail }]
+-- where units is what the effect adds to demand over the horizon
+ALTER TABLE public.predictions
+  ADD COLUMN forecast_effects jsonb NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(forecast_effects) = 'array'),
+  ADD COLUMN regressor_id uuid REFERENCES public.demand_regressors(id) ON DELETE SET NULL;
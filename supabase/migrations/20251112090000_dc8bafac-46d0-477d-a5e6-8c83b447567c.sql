@@ -0,0 +1,250 @@
+-- Manager overrides of the demand forecast for an item, at one location or
+-- hospital-wide, over a date range. While an override is in force its daily
+-- quantity replaces the model's forecast in stock projections and reorder
+-- calculations; the model's forecasts are still stored unchanged. Overrides
+-- are created and revoked only through the functions below, which log to
+-- activity_logs, so the table is an audit trail of who overrode what and why.
+CREATE TABLE public.forecast_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  -- NULL overrides the hospital-wide forecast
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  -- Inclusive; the override expires after this day
+  end_date date NOT NULL,
+  daily_quantity numeric NOT NULL CHECK (daily_quantity >= 0),
+  reason text NOT NULL CHECK (btrim(reason) <> ''),
+  -- The model's mean daily forecast over the period when the override was
+  -- made, from the latest prediction for the item and location
+  model_daily_forecast numeric,
+  model_prediction_id uuid REFERENCES public.predictions(id) ON DELETE SET NULL,
+  created_by uuid NOT NULL REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz,
+  revoked_by uuid REFERENCES public.profiles(id),
+  revoke_reason text,
+  CHECK (end_date >= start_date),
+  CHECK ((revoked_at IS NULL) = (revoked_by IS NULL))
+);
+
+CREATE INDEX idx_forecast_overrides_item ON public.forecast_overrides(item_id, location_id, end_date);
+
+ALTER TABLE public.forecast_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view forecast overrides"
+  ON public.forecast_overrides FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.create_forecast_override(
+  _item_id uuid,
+  _start_date date,
+  _end_date date,
+  _daily_quantity numeric,
+  _reason text,
+  -- NULL overrides the hospital-wide forecast
+  _location_id uuid DEFAULT NULL
+)
+RETURNS public.forecast_overrides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _override public.forecast_overrides;
+  _prediction_id uuid;
+  _model_daily numeric;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only admins and inventory managers can override forecasts';
+  END IF;
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to override a forecast';
+  END IF;
+  IF _end_date < _start_date THEN
+    RAISE EXCEPTION 'The override cannot end before it starts';
+  END IF;
+  IF _end_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The override period has already ended';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.forecast_overrides o
+    WHERE o.item_id = _item_id
+      AND o.location_id IS NOT DISTINCT FROM _location_id
+      AND o.revoked_at IS NULL
+      AND o.start_date <= _end_date
+      AND o.end_date >= _start_date
+  ) THEN
+    RAISE EXCEPTION 'An override already covers part of this period; revoke it first';
+  END IF;
+
+  -- What the model expected, kept to measure the override against
+  SELECT p.id INTO _prediction_id
+  FROM public.predictions p
+  WHERE p.item_id = _item_id AND p.location_id IS NOT DISTINCT FROM _location_id
+  ORDER BY p.created_at DESC
+  LIMIT 1;
+
+  SELECT COALESCE(
+    avg(df.forecast_quantity) FILTER (WHERE df.forecast_date BETWEEN _start_date AND _end_date),
+    avg(df.forecast_quantity)
+  ) INTO _model_daily
+  FROM public.demand_forecasts df
+  WHERE df.prediction_id = _prediction_id;
+
+  INSERT INTO public.forecast_overrides (
+    item_id, location_id, start_date, end_date, daily_quantity, reason,
+    model_daily_forecast, model_prediction_id, created_by
+  )
+  VALUES (
+    _item_id, _location_id, _start_date, _end_date, _daily_quantity, btrim(_reason),
+    _model_daily, _prediction_id, auth.uid()
+  )
+  RETURNING * INTO _override;
+
+  INSERT INTO public.activity_logs (user_id, action, details)
+  VALUES (
+    auth.uid(),
+    'forecast_override_created',
+    jsonb_build_object(
+      'override_id', _override.id,
+      'item_id', _item_id,
+      'location_id', _location_id,
+      'start_date', _start_date,
+      'end_date', _end_date,
+      'daily_quantity', _daily_quantity,
+      'model_daily_forecast', _model_daily,
+      'reason', _override.reason
+    )
+  );
+
+  RETURN _override;
+END;
+$$;
+
+-- Ends an override early. The row stays, so its accuracy up to revocation
+-- still counts.
+CREATE OR REPLACE FUNCTION public.revoke_forecast_override(_override_id uuid, _reason text)
+RETURNS public.forecast_overrides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _override public.forecast_overrides;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only admins and inventory managers can revoke forecast overrides';
+  END IF;
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to revoke an override';
+  END IF;
+
+  UPDATE public.forecast_overrides
+  SET revoked_at = now(), revoked_by = auth.uid(), revoke_reason = btrim(_reason)
+  WHERE id = _override_id AND revoked_at IS NULL
+  RETURNING * INTO _override;
+  IF _override.id IS NULL THEN
+    RAISE EXCEPTION 'Override % not found or already revoked', _override_id;
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, action, details)
+  VALUES (
+    auth.uid(),
+    'forecast_override_revoked',
+    jsonb_build_object('override_id', _override.id, 'item_id', _override.item_id, 'reason', _override.revoke_reason)
+  );
+
+  RETURN _override;
+END;
+$$;
+
+-- Which override, if any, replaced the model's forecast on a prediction and
+-- on each of its days. forecast_quantity remains the model's forecast.
+ALTER TABLE public.predictions
+  ADD COLUMN override_id uuid REFERENCES public.forecast_overrides(id) ON DELETE SET NULL,
+  -- Demand over the horizon with overrides applied; NULL when none applied
+  ADD COLUMN overridden_demand numeric;
+
+ALTER TABLE public.demand_forecasts
+  ADD COLUMN override_id uuid REFERENCES public.forecast_overrides(id) ON DELETE SET NULL,
+  ADD COLUMN override_quantity numeric;
+
+-- Each override against actual consumption over the days it has been in
+-- force so far (through yesterday, or until revoked), beside the model
+-- forecast it replaced
+CREATE VIEW public.forecast_override_outcomes
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE location_scope AS (
+  SELECT id AS root_id, id AS location_id
+  FROM public.locations
+  UNION ALL
+  SELECT s.root_id, l.id
+  FROM location_scope s
+  JOIN public.locations l ON l.parent_id = s.location_id
+),
+windows AS (
+  SELECT
+    o.*,
+    LEAST(o.end_date, CURRENT_DATE - 1, COALESCE(o.revoked_at::date - 1, o.end_date)) AS evaluated_through
+  FROM public.forecast_overrides o
+)
+SELECT
+  w.id AS override_id,
+  w.item_id,
+  i.item_name,
+  w.location_id,
+  w.created_by,
+  pr.full_name AS created_by_name,
+  w.created_at,
+  w.start_date,
+  w.end_date,
+  w.evaluated_through,
+  (w.evaluated_through - w.start_date + 1) AS days_evaluated,
+  w.evaluated_through = w.end_date AS is_complete,
+  w.revoked_at IS NOT NULL AS is_revoked,
+  w.daily_quantity * (w.evaluated_through - w.start_date + 1) AS override_demand,
+  w.model_daily_forecast * (w.evaluated_through - w.start_date + 1) AS model_demand,
+  actual.quantity AS actual_demand,
+  w.daily_quantity * (w.evaluated_through - w.start_date + 1) - actual.quantity AS override_error,
+  w.model_daily_forecast * (w.evaluated_through - w.start_date + 1) - actual.quantity AS model_error,
+  abs(w.daily_quantity * (w.evaluated_through - w.start_date + 1) - actual.quantity)
+    < abs(w.model_daily_forecast * (w.evaluated_through - w.start_date + 1) - actual.quantity) AS override_helped
+FROM windows w
+JOIN public.inventory_items i ON i.id = w.item_id
+LEFT JOIN public.profiles pr ON pr.id = w.created_by
+CROSS JOIN LATERAL (
+  SELECT COALESCE(SUM(dc.quantity), 0)::numeric AS quantity
+  FROM public.daily_consumption dc
+  WHERE dc.item_id = w.item_id
+    AND dc.consumption_date BETWEEN w.start_date AND w.evaluated_through
+    AND (
+      w.location_id IS NULL
+      OR dc.location_id IN (SELECT s.location_id FROM location_scope s WHERE s.root_id = w.location_id)
+    )
+) actual
+WHERE w.evaluated_through >= w.start_date;
+
+-- Per manager: how often their overrides beat the model, and by how much
+CREATE VIEW public.forecast_override_accuracy
+WITH (security_invoker = true)
+AS
+SELECT
+  created_by,
+  created_by_name,
+  count(*)::integer AS override_count,
+  (count(*) FILTER (WHERE override_helped))::integer AS helped_count,
+  (count(*) FILTER (WHERE NOT override_helped))::integer AS hurt_count,
+  avg(abs(override_error) / days_evaluated)::double precision AS override_daily_mae,
+  (avg(abs(model_error) / days_evaluated) FILTER (WHERE model_error IS NOT NULL))::double precision AS model_daily_mae,
+  sum(days_evaluated)::integer AS days_evaluated,
+  max(evaluated_through) AS last_evaluated
+FROM public.forecast_override_outcomes
+GROUP BY created_by, created_by_name;
@@ -0,0 +1,27 @@
+-- The alert a recurring condition (same item, alert type and scope) is
+-- matched against: the unresolved one if there is one (at most one, by
+-- idx_alerts_history_unresolved_condition), otherwise the latest resolved
+-- one, which a recurrence reopens. Saves loading each item's full alert
+-- history to find it.
+CREATE VIEW public.current_alert_conditions
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (item_id, alert_type, public.alert_condition_scope(alert_type, metadata))
+  id,
+  item_id,
+  alert_type,
+  status,
+  severity,
+  reopened_count,
+  occurrence_count,
+  recipient_roles,
+  metadata,
+  created_at
+FROM public.alerts_history
+WHERE item_id IS NOT NULL
+ORDER BY
+  item_id,
+  alert_type,
+  public.alert_condition_scope(alert_type, metadata),
+  (status <> 'resolved') DESC,
+  created_at DESC;
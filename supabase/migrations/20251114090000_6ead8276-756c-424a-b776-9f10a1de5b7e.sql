@@ -0,0 +1,28 @@
+-- Alert workflow changes go through acknowledge_alert, assign_alert,
+-- snooze_alert, resolve_alert and escalate_alerts, which enforce who may do
+-- what. The original blanket UPDATE policy let any user change status,
+-- assignment, severity or recipients directly and skip those checks, so it
+-- goes; marking alerts read, the one direct update the app made, gets its
+-- own function.
+DROP POLICY "Users can update their alerts" ON public.alerts_history;
+
+CREATE OR REPLACE FUNCTION public.mark_alerts_read(_alert_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.alerts_history
+  SET is_read = true
+  WHERE id = ANY(_alert_ids) AND is_read IS DISTINCT FROM true;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,350 @@
+-- Lots become location-aware: how much of each lot is held at each location,
+-- maintained by the ledger trigger like location_stock. What is left of a lot
+-- beyond its location balances is held unassigned. FEFO issues and transfers
+-- now pick only lots held where the stock leaves from, and any decrement
+-- without a location is limited to unassigned stock, so location balances
+-- can no longer add up to more than the item's total.
+CREATE TABLE public.lot_location_stock (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lot_id uuid NOT NULL REFERENCES public.inventory_lots(id) ON DELETE CASCADE,
+  location_id uuid NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (lot_id, location_id)
+);
+
+CREATE INDEX idx_lot_location_stock_location ON public.lot_location_stock(location_id);
+
+ALTER TABLE public.lot_location_stock ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the ledger trigger
+CREATE POLICY "All authenticated users can view lot location stock"
+  ON public.lot_location_stock FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_lot_location_stock_updated_at
+  BEFORE UPDATE ON public.lot_location_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing lot stock at locations, from the receipts, issues and adjustments
+-- recorded there. Transfers never carried lots, so stock moved before now
+-- is counted where it was received. No location is credited with more of a
+-- lot than the lot still holds, earliest location first.
+INSERT INTO public.lot_location_stock (lot_id, location_id, quantity)
+SELECT lot_id, location_id, LEAST(quantity, lot_quantity - (running - quantity))
+FROM (
+  SELECT
+    t.lot_id,
+    t.location_id,
+    t.quantity,
+    l.quantity AS lot_quantity,
+    SUM(t.quantity) OVER (PARTITION BY t.lot_id ORDER BY t.first_at, t.location_id) AS running
+  FROM (
+    SELECT lot_id, location_id, SUM(quantity)::integer AS quantity, MIN(created_at) AS first_at
+    FROM public.stock_transactions
+    WHERE lot_id IS NOT NULL AND location_id IS NOT NULL AND transfer_id IS NULL
+    GROUP BY lot_id, location_id
+    HAVING SUM(quantity) > 0
+  ) t
+  JOIN public.inventory_lots l ON l.id = t.lot_id
+) allocated
+WHERE lot_quantity - (running - quantity) > 0;
+
+CREATE OR REPLACE FUNCTION public.apply_stock_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _current integer;
+  _lot_quantity integer;
+  _location_quantity integer;
+  _lot_location_quantity integer;
+  _available integer;
+BEGIN
+  SELECT current_stock INTO _current
+  FROM public.inventory_items
+  WHERE id = NEW.item_id
+  FOR UPDATE;
+
+  IF _current IS NULL THEN
+    RAISE EXCEPTION 'Inventory item % not found', NEW.item_id;
+  END IF;
+
+  IF _current + NEW.quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand, % requested', _current, -NEW.quantity;
+  END IF;
+
+  -- Stock taken without a location comes out of what no location holds
+  IF NEW.location_id IS NULL AND NEW.quantity < 0 THEN
+    SELECT _current - COALESCE(SUM(quantity), 0) INTO _available
+    FROM public.location_stock
+    WHERE item_id = NEW.item_id;
+
+    IF _available + NEW.quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient unassigned stock: % not held at any location, % requested', _available, -NEW.quantity;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.stock_ledger', 'on', true);
+
+  IF NEW.lot_id IS NOT NULL THEN
+    SELECT quantity INTO _lot_quantity
+    FROM public.inventory_lots
+    WHERE id = NEW.lot_id AND item_id = NEW.item_id
+    FOR UPDATE;
+
+    IF _lot_quantity IS NULL THEN
+      RAISE EXCEPTION 'Lot % does not belong to item %', NEW.lot_id, NEW.item_id;
+    END IF;
+
+    IF _lot_quantity + NEW.quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient quantity in lot: % available, % requested', _lot_quantity, -NEW.quantity;
+    END IF;
+
+    IF NEW.location_id IS NOT NULL THEN
+      SELECT quantity INTO _lot_location_quantity
+      FROM public.lot_location_stock
+      WHERE lot_id = NEW.lot_id AND location_id = NEW.location_id
+      FOR UPDATE;
+
+      IF COALESCE(_lot_location_quantity, 0) + NEW.quantity < 0 THEN
+        RAISE EXCEPTION 'Insufficient quantity of lot at location: % held there, % requested',
+          COALESCE(_lot_location_quantity, 0), -NEW.quantity;
+      END IF;
+
+      IF _lot_location_quantity IS NULL THEN
+        INSERT INTO public.lot_location_stock (lot_id, location_id, quantity)
+        VALUES (NEW.lot_id, NEW.location_id, NEW.quantity);
+      ELSE
+        UPDATE public.lot_location_stock
+        SET quantity = _lot_location_quantity + NEW.quantity
+        WHERE lot_id = NEW.lot_id AND location_id = NEW.location_id;
+      END IF;
+    ELSIF NEW.quantity < 0 THEN
+      SELECT _lot_quantity - COALESCE(SUM(quantity), 0) INTO _available
+      FROM public.lot_location_stock
+      WHERE lot_id = NEW.lot_id;
+
+      IF _available + NEW.quantity < 0 THEN
+        RAISE EXCEPTION 'Insufficient unassigned quantity in lot: % not held at any location, % requested',
+          _available, -NEW.quantity;
+      END IF;
+    END IF;
+
+    UPDATE public.inventory_lots
+    SET quantity = _lot_quantity + NEW.quantity
+    WHERE id = NEW.lot_id;
+  END IF;
+
+  IF NEW.location_id IS NOT NULL THEN
+    SELECT quantity INTO _location_quantity
+    FROM public.location_stock
+    WHERE item_id = NEW.item_id AND location_id = NEW.location_id
+    FOR UPDATE;
+
+    IF COALESCE(_location_quantity, 0) + NEW.quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock at location: % on hand, % requested', COALESCE(_location_quantity, 0), -NEW.quantity;
+    END IF;
+
+    IF _location_quantity IS NULL THEN
+      INSERT INTO public.location_stock (item_id, location_id, quantity)
+      VALUES (NEW.item_id, NEW.location_id, NEW.quantity);
+    ELSE
+      UPDATE public.location_stock
+      SET quantity = _location_quantity + NEW.quantity
+      WHERE item_id = NEW.item_id AND location_id = NEW.location_id;
+    END IF;
+  END IF;
+
+  UPDATE public.inventory_items
+  SET current_stock = _current + NEW.quantity
+  WHERE id = NEW.item_id;
+
+  PERFORM set_config('app.stock_ledger', 'off', true);
+
+  NEW.balance_after := _current + NEW.quantity;
+  RETURN NEW;
+END;
+$$;
+
+-- Unexpired lots held at the location (or unassigned, for a null location),
+-- soonest expiry first, then stock held there outside any lot
+CREATE OR REPLACE FUNCTION public.issue_stock_fefo(
+  _item_id uuid,
+  _quantity integer,
+  _reason text DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _remaining integer := _quantity;
+  _take integer;
+  _lot record;
+  _held integer;
+  _lotted integer;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  FOR _lot IN
+    SELECT l.id, held.quantity
+    FROM public.inventory_lots l
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN _location_id IS NULL THEN
+          l.quantity - COALESCE((SELECT SUM(ll.quantity) FROM public.lot_location_stock ll WHERE ll.lot_id = l.id), 0)
+        ELSE
+          COALESCE((SELECT ll.quantity FROM public.lot_location_stock ll WHERE ll.lot_id = l.id AND ll.location_id = _location_id), 0)
+      END AS quantity
+    ) held
+    WHERE l.item_id = _item_id
+      AND held.quantity > 0
+      AND (l.expiry_date IS NULL OR l.expiry_date >= CURRENT_DATE)
+    ORDER BY l.expiry_date ASC NULLS LAST, l.received_date ASC
+  LOOP
+    EXIT WHEN _remaining = 0;
+    _take := LEAST(_lot.quantity, _remaining);
+
+    INSERT INTO public.stock_transactions (item_id, lot_id, location_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _lot.id, _location_id, 'issue', -_take, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+
+    _remaining := _remaining - _take;
+  END LOOP;
+
+  IF _remaining > 0 THEN
+    IF _location_id IS NULL THEN
+      SELECT i.current_stock - COALESCE((SELECT SUM(ls.quantity) FROM public.location_stock ls WHERE ls.item_id = i.id), 0)
+        INTO _held
+      FROM public.inventory_items i
+      WHERE i.id = _item_id;
+
+      SELECT COALESCE(SUM(l.quantity - COALESCE(held.quantity, 0)), 0) INTO _lotted
+      FROM public.inventory_lots l
+      LEFT JOIN LATERAL (
+        SELECT SUM(ll.quantity) AS quantity FROM public.lot_location_stock ll WHERE ll.lot_id = l.id
+      ) held ON true
+      WHERE l.item_id = _item_id;
+    ELSE
+      SELECT quantity INTO _held
+      FROM public.location_stock
+      WHERE item_id = _item_id AND location_id = _location_id;
+
+      SELECT COALESCE(SUM(ll.quantity), 0) INTO _lotted
+      FROM public.lot_location_stock ll
+      JOIN public.inventory_lots l ON l.id = ll.lot_id
+      WHERE l.item_id = _item_id AND ll.location_id = _location_id;
+    END IF;
+
+    IF COALESCE(_held, 0) - COALESCE(_lotted, 0) < _remaining THEN
+      RAISE EXCEPTION 'Insufficient unexpired stock: % units short',
+        _remaining - GREATEST(COALESCE(_held, 0) - COALESCE(_lotted, 0), 0);
+    END IF;
+
+    INSERT INTO public.stock_transactions (item_id, location_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _location_id, 'issue', -_remaining, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+  END IF;
+
+  RETURN;
+END;
+$$;
+
+-- Transfers carry lots with them: lots held at the source move first,
+-- soonest expiry first, then stock held there outside any lot. A null
+-- source draws from stock not assigned to any location.
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _item_id uuid,
+  _from_location_id uuid,
+  _to_location_id uuid,
+  _quantity integer,
+  _reason text DEFAULT NULL
+)
+RETURNS SETOF public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _transfer_id uuid := gen_random_uuid();
+  _remaining integer := _quantity;
+  _take integer;
+  _lot record;
+  _unassigned integer;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF _to_location_id IS NULL OR _from_location_id IS NOT DISTINCT FROM _to_location_id THEN
+    RAISE EXCEPTION 'Transfers need a destination different from the source';
+  END IF;
+
+  IF _from_location_id IS NULL THEN
+    SELECT i.current_stock - COALESCE(SUM(ls.quantity), 0) INTO _unassigned
+    FROM public.inventory_items i
+    LEFT JOIN public.location_stock ls ON ls.item_id = i.id
+    WHERE i.id = _item_id
+    GROUP BY i.current_stock;
+
+    IF COALESCE(_unassigned, 0) < _quantity THEN
+      RAISE EXCEPTION 'Only % unassigned units available to transfer', COALESCE(_unassigned, 0);
+    END IF;
+  END IF;
+
+  FOR _lot IN
+    SELECT l.id, held.quantity
+    FROM public.inventory_lots l
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN _from_location_id IS NULL THEN
+          l.quantity - COALESCE((SELECT SUM(ll.quantity) FROM public.lot_location_stock ll WHERE ll.lot_id = l.id), 0)
+        ELSE
+          COALESCE((SELECT ll.quantity FROM public.lot_location_stock ll WHERE ll.lot_id = l.id AND ll.location_id = _from_location_id), 0)
+      END AS quantity
+    ) held
+    WHERE l.item_id = _item_id AND held.quantity > 0
+    ORDER BY l.expiry_date ASC NULLS LAST, l.received_date ASC
+  LOOP
+    EXIT WHEN _remaining = 0;
+    _take := LEAST(_lot.quantity, _remaining);
+
+    INSERT INTO public.stock_transactions (item_id, lot_id, location_id, transfer_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _lot.id, _from_location_id, _transfer_id, 'transfer', -_take, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+
+    INSERT INTO public.stock_transactions (item_id, lot_id, location_id, transfer_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _lot.id, _to_location_id, _transfer_id, 'transfer', _take, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+
+    _remaining := _remaining - _take;
+  END LOOP;
+
+  IF _remaining > 0 THEN
+    INSERT INTO public.stock_transactions (item_id, location_id, transfer_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _from_location_id, _transfer_id, 'transfer', -_remaining, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+
+    INSERT INTO public.stock_transactions (item_id, location_id, transfer_id, transaction_type, quantity, reason, performed_by)
+    VALUES (_item_id, _to_location_id, _transfer_id, 'transfer', _remaining, _reason, auth.uid())
+    RETURNING * INTO _tx;
+    RETURN NEXT _tx;
+  END IF;
+
+  RETURN;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Adding an item took up to three separate writes from the client: the item
+-- itself (empty), its preferred vendor link, and the opening receipt in the
+-- ledger. A failure after the first left an empty item behind. They now
+-- happen in one function, so either all of them land or none do. It runs
+-- with the caller's rights, so the table policies still apply.
+CREATE OR REPLACE FUNCTION public.create_inventory_item(
+  _item_name text,
+  _item_type text,
+  _min_required integer,
+  _max_capacity integer,
+  _unit_cost numeric,
+  _avg_usage_per_day integer,
+  _restock_lead_time integer,
+  _unit_volume numeric DEFAULT NULL,
+  _opening_stock integer DEFAULT 0,
+  _vendor_id uuid DEFAULT NULL,
+  _vendor_sku text DEFAULT NULL
+)
+RETURNS public.inventory_items
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  IF _opening_stock < 0 THEN
+    RAISE EXCEPTION 'Opening stock cannot be negative';
+  END IF;
+
+  -- Items start empty; the opening quantity is booked as a ledger receipt
+  INSERT INTO public.inventory_items (
+    item_name, item_type, current_stock, min_required, max_capacity,
+    unit_cost, avg_usage_per_day, restock_lead_time, unit_volume
+  )
+  VALUES (
+    _item_name, _item_type, 0, _min_required, _max_capacity,
+    _unit_cost, _avg_usage_per_day, _restock_lead_time, _unit_volume
+  )
+  RETURNING * INTO _item;
+
+  IF _vendor_id IS NOT NULL THEN
+    INSERT INTO public.item_vendors (item_id, vendor_id, vendor_sku, unit_price, is_preferred)
+    VALUES (_item.id, _vendor_id, NULLIF(trim(_vendor_sku), ''), _unit_cost, true);
+  END IF;
+
+  IF _opening_stock > 0 THEN
+    PERFORM public.receive_stock(_item.id, _opening_stock, _reason => 'Opening stock');
+
+    SELECT * INTO _item FROM public.inventory_items WHERE id = _item.id;
+  END IF;
+
+  RETURN _item;
+END;
+$$;
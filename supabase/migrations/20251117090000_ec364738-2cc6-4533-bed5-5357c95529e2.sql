@@ -0,0 +1,24 @@
+-- Any signed-in user could post a receipt or adjustment of any size straight
+-- into the ledger and move current_stock with it. Staff record what they use
+-- up or hand back (issues, waste, returns); stock coming in, corrections and
+-- transfers are for admins and inventory managers. receive_purchase_order
+-- runs as definer, so goods receipts are unaffected.
+DROP POLICY "Authenticated users can record their own stock transactions" ON public.stock_transactions;
+
+CREATE POLICY "Authenticated users can record their own stock usage"
+  ON public.stock_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    performed_by = auth.uid() AND
+    transaction_type IN ('issue', 'waste', 'return')
+  );
+
+CREATE POLICY "Admins and managers can record any stock transaction"
+  ON public.stock_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    performed_by = auth.uid() AND (
+      public.has_role(auth.uid(), 'admin'::public.app_role) OR
+      public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+    )
+  );
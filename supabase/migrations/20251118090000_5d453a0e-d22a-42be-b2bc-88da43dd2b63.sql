@@ -0,0 +1,74 @@
+-- Lot quantities, like item totals, only move through the ledger. Managers
+-- may still correct a lot's number or expiry date directly.
+CREATE OR REPLACE FUNCTION public.guard_lot_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.stock_ledger', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.quantity <> 0 THEN
+    RAISE EXCEPTION 'New lots must start empty; record a receipt in stock_transactions instead';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.quantity IS DISTINCT FROM OLD.quantity THEN
+    RAISE EXCEPTION 'Lot quantities can only be changed through stock_transactions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_inventory_lot_quantity
+  BEFORE INSERT OR UPDATE ON public.inventory_lots
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_lot_quantity();
+
+-- Receiving into an existing lot number with a different expiry date is a
+-- mistake on one side or the other; refuse it rather than keep the old date
+-- without saying so
+CREATE OR REPLACE FUNCTION public.receive_stock(
+  _item_id uuid,
+  _quantity integer,
+  _lot_number text DEFAULT NULL,
+  _expiry_date date DEFAULT NULL,
+  _reason text DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS public.stock_transactions
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _lot public.inventory_lots;
+  _tx public.stock_transactions;
+BEGIN
+  IF _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF NULLIF(trim(_lot_number), '') IS NOT NULL THEN
+    INSERT INTO public.inventory_lots (item_id, lot_number, expiry_date)
+    VALUES (_item_id, trim(_lot_number), _expiry_date)
+    ON CONFLICT (item_id, lot_number) DO NOTHING;
+
+    SELECT * INTO _lot
+    FROM public.inventory_lots
+    WHERE item_id = _item_id AND lot_number = trim(_lot_number);
+
+    IF _expiry_date IS NOT NULL AND _lot.expiry_date IS DISTINCT FROM _expiry_date THEN
+      RAISE EXCEPTION 'Lot % is already recorded with expiry date %, not %',
+        _lot.lot_number, COALESCE(_lot.expiry_date::text, 'none'), _expiry_date;
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_transactions (item_id, lot_id, location_id, transaction_type, quantity, reason, performed_by)
+  VALUES (_item_id, _lot.id, _location_id, 'receipt', _quantity, _reason, auth.uid())
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$$;
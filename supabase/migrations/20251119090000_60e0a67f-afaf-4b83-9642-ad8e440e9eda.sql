@@ -0,0 +1,19 @@
+-- The latest cost optimization run for each item, so order generation reads
+-- one row per item instead of the whole history
+CREATE INDEX idx_cost_optimization_item_date
+  ON public.cost_optimization(item_id, calculation_date DESC);
+
+CREATE VIEW public.latest_cost_optimization
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (c.item_id)
+  c.id,
+  c.item_id,
+  c.eoq,
+  c.optimal_order_quantity,
+  c.reorder_point,
+  c.safety_stock,
+  c.calculation_date
+FROM public.cost_optimization c
+WHERE c.item_id IS NOT NULL
+ORDER BY c.item_id, c.calculation_date DESC;
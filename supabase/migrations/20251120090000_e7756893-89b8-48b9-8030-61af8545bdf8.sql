@@ -0,0 +1,195 @@
+-- The alert workflow functions run as definer and only checked that the
+-- caller was signed in, so anyone could acknowledge, snooze or resolve any
+-- alert, including critical ones assigned to someone else. Admins and
+-- inventory managers may still work any alert; everyone else only alerts
+-- assigned to them, or unassigned alerts addressed to one of their roles.
+CREATE OR REPLACE FUNCTION public.can_work_alert(_alert public.alerts_history)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role) OR
+    _alert.assigned_to = auth.uid() OR (
+      _alert.assigned_to IS NULL AND EXISTS (
+        SELECT 1
+        FROM public.user_roles r
+        WHERE r.user_id = auth.uid() AND r.role::text = ANY(_alert.recipient_roles)
+      )
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(_alert_id uuid)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _row FROM public.alerts_history WHERE id = _alert_id FOR UPDATE;
+  IF _row.id IS NOT NULL AND NOT public.can_work_alert(_row) THEN
+    RAISE EXCEPTION 'Alert % is not assigned or addressed to you', _alert_id;
+  END IF;
+
+  UPDATE public.alerts_history
+  SET status = 'acknowledged',
+      acknowledged_at = now(),
+      acknowledged_by = auth.uid(),
+      snoozed_until = NULL,
+      is_read = true
+  WHERE id = _alert_id AND status IN ('open', 'snoozed')
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is not open', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+-- Admins and managers can assign to anyone; others can only take an alert
+-- they could work themselves. Leaving out the assignee unassigns.
+CREATE OR REPLACE FUNCTION public.assign_alert(_alert_id uuid, _assignee uuid DEFAULT NULL)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _assignee IS DISTINCT FROM auth.uid() AND NOT (
+    public.has_role(auth.uid(), 'admin'::public.app_role) OR
+    public.has_role(auth.uid(), 'inventory_manager'::public.app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only admins and managers can assign alerts to others';
+  END IF;
+
+  SELECT * INTO _row FROM public.alerts_history WHERE id = _alert_id FOR UPDATE;
+  IF _row.id IS NOT NULL AND NOT public.can_work_alert(_row) THEN
+    RAISE EXCEPTION 'Alert % is not assigned or addressed to you', _alert_id;
+  END IF;
+
+  UPDATE public.alerts_history
+  SET assigned_to = _assignee,
+      assigned_at = CASE WHEN _assignee IS NULL THEN NULL ELSE now() END
+  WHERE id = _alert_id AND status <> 'resolved'
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is resolved or does not exist', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snooze_alert(_alert_id uuid, _until timestamptz)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _until <= now() THEN
+    RAISE EXCEPTION 'Snooze must end in the future';
+  END IF;
+
+  SELECT * INTO _row FROM public.alerts_history WHERE id = _alert_id FOR UPDATE;
+  IF _row.id IS NOT NULL AND NOT public.can_work_alert(_row) THEN
+    RAISE EXCEPTION 'Alert % is not assigned or addressed to you', _alert_id;
+  END IF;
+
+  UPDATE public.alerts_history
+  SET status = 'snoozed',
+      snoozed_until = _until
+  WHERE id = _alert_id AND status <> 'resolved'
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is resolved or does not exist', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+-- Resolving also counts as acknowledging if nobody had
+CREATE OR REPLACE FUNCTION public.resolve_alert(_alert_id uuid, _note text)
+RETURNS public.alerts_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _row public.alerts_history;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _note IS NULL OR trim(_note) = '' THEN
+    RAISE EXCEPTION 'A resolution note is required';
+  END IF;
+
+  SELECT * INTO _row FROM public.alerts_history WHERE id = _alert_id FOR UPDATE;
+  IF _row.id IS NOT NULL AND NOT public.can_work_alert(_row) THEN
+    RAISE EXCEPTION 'Alert % is not assigned or addressed to you', _alert_id;
+  END IF;
+
+  UPDATE public.alerts_history
+  SET status = 'resolved',
+      resolved_at = now(),
+      resolved_by = auth.uid(),
+      resolution_note = trim(_note),
+      snoozed_until = NULL,
+      acknowledged_at = COALESCE(acknowledged_at, now()),
+      acknowledged_by = COALESCE(acknowledged_by, auth.uid()),
+      is_read = true
+  WHERE id = _alert_id AND status <> 'resolved'
+  RETURNING * INTO _row;
+
+  IF _row.id IS NULL THEN
+    RAISE EXCEPTION 'Alert % is already resolved or does not exist', _alert_id;
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+-- Marks read only the alerts the caller may work; the rest are left as they are
+CREATE OR REPLACE FUNCTION public.mark_alerts_read(_alert_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.alerts_history a
+  SET is_read = true
+  WHERE a.id = ANY(_alert_ids)
+    AND a.is_read IS DISTINCT FROM true
+    AND public.can_work_alert(a);
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
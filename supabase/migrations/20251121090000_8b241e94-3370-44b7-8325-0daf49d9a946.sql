@@ -0,0 +1,80 @@
+-- Escalation only ever walked up the nurse -> inventory_manager -> admin
+-- chain, and alerts go to admins and inventory managers by default, so most
+-- escalations raised the level without reaching anyone new. A policy can now
+-- name the role its escalations bring in. Without one, or once that role
+-- already receives the alert, each level adds the next role up the chain,
+-- and when admins are already included, the next role down that is not.
+ALTER TABLE public.escalation_policies
+  ADD COLUMN escalate_to_role text
+    CHECK (escalate_to_role IN ('admin', 'inventory_manager', 'nurse'));
+
+CREATE OR REPLACE FUNCTION public.escalated_recipient_roles(_roles text[], _escalate_to_role text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  WITH chain AS (
+    SELECT role, step
+    FROM unnest(ARRAY['nurse', 'inventory_manager', 'admin']) WITH ORDINALITY AS c(role, step)
+  ),
+  highest AS (
+    SELECT COALESCE(max(step), 0) AS step
+    FROM chain
+    WHERE role = ANY(_roles)
+  )
+  SELECT _roles || ARRAY(
+    SELECT candidate.role
+    FROM (
+      SELECT _escalate_to_role AS role, 0 AS rank
+      UNION ALL
+      SELECT chain.role,
+        CASE WHEN chain.step > highest.step THEN chain.step ELSE 10 - chain.step END
+      FROM chain, highest
+    ) candidate
+    WHERE candidate.role IS NOT NULL AND NOT candidate.role = ANY(_roles)
+    ORDER BY candidate.rank
+    LIMIT 1
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.escalate_alerts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  WITH due AS (
+    SELECT a.id, p.raise_severity, p.escalate_to_role
+    FROM public.alerts_history a
+    CROSS JOIN LATERAL (
+      SELECT *
+      FROM public.escalation_policies p
+      WHERE p.alert_type = a.alert_type OR p.alert_type IS NULL
+      ORDER BY p.alert_type IS NULL
+      LIMIT 1
+    ) p
+    WHERE a.status = 'open'
+      AND p.is_enabled
+      AND a.escalation_level < p.max_level
+      AND now() - COALESCE(a.escalated_at, a.opened_at) >= make_interval(mins => p.escalate_after_minutes)
+  )
+  UPDATE public.alerts_history a
+  SET escalation_level = a.escalation_level + 1,
+      escalated_at = now(),
+      severity = CASE
+        WHEN NOT due.raise_severity THEN a.severity
+        WHEN a.severity = 'info' THEN 'warning'
+        ELSE 'critical'
+      END,
+      recipient_roles = public.escalated_recipient_roles(a.recipient_roles, due.escalate_to_role)
+  FROM due
+  WHERE a.id = due.id;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,13 @@
+-- create_forecast_override checks for an overlapping override before
+-- inserting, but two managers saving at once could both pass the check.
+-- The constraint makes overlapping overrides for the same item and location
+-- impossible; the hospital-wide override (no location) counts as one
+-- location of its own.
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+ALTER TABLE public.forecast_overrides
+  ADD CONSTRAINT forecast_overrides_no_overlap EXCLUDE USING gist (
+    item_id WITH =,
+    (COALESCE(location_id, '00000000-0000-0000-0000-000000000000'::uuid)) WITH =,
+    daterange(start_date, end_date, '[]') WITH &&
+  ) WHERE (revoked_at IS NULL);
@@ -0,0 +1,21 @@
+-- A partial delivery followed by backorders gave one observation per
+-- delivery, each timed from when the order was sent, so a late backorder
+-- counted as a slow lead time and inflated both the mean and the variance.
+-- Only the first delivery of each item on a purchase order now counts: that
+-- is when the vendor first turned the order around.
+CREATE OR REPLACE VIEW public.lead_time_observations
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (po.id, grl.item_id)
+  grl.item_id,
+  po.vendor_id,
+  po.id AS purchase_order_id,
+  gr.id AS goods_receipt_id,
+  gr.received_at,
+  EXTRACT(EPOCH FROM (gr.received_at - COALESCE(po.sent_at, po.approved_at, po.created_at))) / 86400.0 AS lead_time_days
+FROM public.goods_receipt_lines grl
+JOIN public.goods_receipts gr ON gr.id = grl.goods_receipt_id
+JOIN public.purchase_orders po ON po.id = gr.purchase_order_id
+WHERE grl.quantity_received > 0
+  AND grl.discrepancy_type IS DISTINCT FROM 'wrong_item'
+ORDER BY po.id, grl.item_id, gr.received_at, grl.created_at;